@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { getAuditActors, getAuditLogs } from '@/lib/auditQueries';
+import { toErrorResult } from '@/lib/dbErrors';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_LIMIT = 500;
+
+/**
+ * Search the audit log, newest first.
+ * Filters: entity_type, entity_id, actor, from/to (YYYY-MM-DD, inclusive).
+ * Paging: limit (default 100, max 500) and offset.
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const limit = parseInt(searchParams.get('limit') || '100', 10);
+    const offset = parseInt(searchParams.get('offset') || '0', 10);
+
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return NextResponse.json(
+        { error: 'from and to must be in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || !Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: 'limit must be a positive integer and offset a non-negative integer' },
+        { status: 400 }
+      );
+    }
+
+    const [{ logs, total }, actors] = await Promise.all([
+      getAuditLogs({
+        entityType: searchParams.get('entity_type'),
+        entityId: searchParams.get('entity_id'),
+        actor: searchParams.get('actor'),
+        from,
+        to,
+        limit: Math.min(limit, MAX_LIMIT),
+        offset,
+      }),
+      getAuditActors(),
+    ]);
+
+    return NextResponse.json({ logs, total, actors });
+  } catch (error) {
+    console.error('Error fetching audit logs:', error);
+    const failure = toErrorResult(error, 'Failed to fetch audit logs');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
@@ -0,0 +1,262 @@
+import { NextResponse } from 'next/server';
+import { query, withTransaction } from '@/lib/db';
+import { recordAudit } from '@/lib/auditQueries';
+import { Baseline, BaselineEventVariance, BaselineTaskVariance, getVarianceDays } from '@/lib/baseline';
+import { toErrorResult } from '@/lib/dbErrors';
+
+const BASELINE_SELECT = `
+  SELECT
+    b.id,
+    b.name,
+    b.note,
+    b.created_at,
+    (SELECT COUNT(*) FROM baseline_task bt WHERE bt.baseline_id = b.id)::INT4 as task_count
+  FROM baseline b`;
+
+/**
+ * Without id: list baselines (newest first).
+ * With id: return the baseline with start/finish variance for every task and
+ * due date variance for every event captured in it.
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      const baselines = await query<Baseline>(`${BASELINE_SELECT} ORDER BY b.created_at DESC`);
+      return NextResponse.json({ baselines });
+    }
+
+    const baselines = await query<Baseline>(`${BASELINE_SELECT} WHERE b.id = $1`, [id]);
+    if (baselines.length === 0) {
+      return NextResponse.json(
+        { error: 'Baseline not found' },
+        { status: 404 }
+      );
+    }
+
+    const [taskRows, eventRows] = await Promise.all([
+      query<Omit<BaselineTaskVariance, 'start_variance_days' | 'finish_variance_days'>>(
+        `SELECT
+           bt.task_id,
+           t.name as task_name,
+           bt.start_date::DATE::TEXT as baseline_start,
+           bt.end_date::DATE::TEXT as baseline_end,
+           t.start_date::DATE::TEXT as current_start,
+           t.end_date::DATE::TEXT as current_end
+         FROM baseline_task bt
+         JOIN task t ON t.id = bt.task_id
+         WHERE bt.baseline_id = $1
+         AND t.deleted_at IS NULL
+         ORDER BY t.category, t.sub_category, t.rank, t.display_order`,
+        [id]
+      ),
+      query<Omit<BaselineEventVariance, 'variance_days'>>(
+        `SELECT
+           be.event_id,
+           e.task_id,
+           e.name as event_name,
+           be.due_date::DATE::TEXT as baseline_due_date,
+           e.due_date::DATE::TEXT as current_due_date
+         FROM baseline_event be
+         JOIN event e ON e.id = be.event_id
+         WHERE be.baseline_id = $1
+         AND e.deleted_at IS NULL
+         ORDER BY e.due_date`,
+        [id]
+      ),
+    ]);
+
+    const tasks: BaselineTaskVariance[] = taskRows.map(row => ({
+      ...row,
+      start_variance_days: getVarianceDays(row.baseline_start, row.current_start),
+      finish_variance_days: getVarianceDays(row.baseline_end, row.current_end),
+    }));
+
+    const events: BaselineEventVariance[] = eventRows.map(row => ({
+      ...row,
+      variance_days: getVarianceDays(row.baseline_due_date, row.current_due_date),
+    }));
+
+    return NextResponse.json({ baseline: baselines[0], tasks, events });
+  } catch (error) {
+    console.error('Error fetching baselines:', error);
+    const failure = toErrorResult(error, 'Failed to fetch baselines');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
+
+// Snapshot the current dates of all tasks and events into a new baseline
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { name, note } = body;
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (note && note.length > 1000) {
+      return NextResponse.json(
+        { error: 'メモは1000文字以内で入力してください' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await query('SELECT id FROM baseline WHERE name = $1', [name]);
+    if (existing.length > 0) {
+      return NextResponse.json(
+        { error: '同じ名前のベースラインが既に存在します' },
+        { status: 409 }
+      );
+    }
+
+    // The baseline and its captured dates are stored together, from one snapshot of the schedule
+    const baselineId = await withTransaction(async client => {
+      const result = await client.query<{ id: string }>(
+        'INSERT INTO baseline (name, note) VALUES ($1, $2) RETURNING id',
+        [name, note || null]
+      );
+      const id = result.rows[0].id;
+
+      await client.query(
+        `INSERT INTO baseline_task (baseline_id, task_id, start_date, end_date)
+         SELECT $1, id, start_date, end_date FROM task WHERE deleted_at IS NULL`,
+        [id]
+      );
+      await client.query(
+        `INSERT INTO baseline_event (baseline_id, event_id, task_id, due_date)
+         SELECT $1, id, task_id, due_date FROM event WHERE deleted_at IS NULL`,
+        [id]
+      );
+      return id;
+    });
+
+    const baselines = await query<Baseline>(`${BASELINE_SELECT} WHERE b.id = $1`, [baselineId]);
+    await recordAudit(request, {
+      entityType: 'baseline',
+      entityId: baselineId,
+      action: 'create',
+      after: baselines[0],
+    });
+
+    return NextResponse.json({ baseline: baselines[0] });
+  } catch (error) {
+    console.error('Error creating baseline:', error);
+    const failure = toErrorResult(error, 'Failed to create baseline');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
+
+// Rename a baseline or edit its note (captured dates are never changed)
+export async function PUT(request: Request) {
+  try {
+    const body = await request.json();
+    const { id, name, note } = body;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Baseline ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (note && note.length > 1000) {
+      return NextResponse.json(
+        { error: 'メモは1000文字以内で入力してください' },
+        { status: 400 }
+      );
+    }
+
+    if (name) {
+      const existing = await query('SELECT id FROM baseline WHERE name = $1 AND id != $2', [name, id]);
+      if (existing.length > 0) {
+        return NextResponse.json(
+          { error: '同じ名前のベースラインが既に存在します' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const before = await query<Baseline>(`${BASELINE_SELECT} WHERE b.id = $1`, [id]);
+
+    const result = await query(
+      `UPDATE baseline
+       SET name = COALESCE($1, name),
+           note = COALESCE($2, note),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3
+       RETURNING id`,
+      [name, note, id]
+    );
+
+    if (result.length === 0) {
+      return NextResponse.json(
+        { error: 'Baseline not found' },
+        { status: 404 }
+      );
+    }
+
+    const baselines = await query<Baseline>(`${BASELINE_SELECT} WHERE b.id = $1`, [id]);
+    await recordAudit(request, {
+      entityType: 'baseline',
+      entityId: id,
+      action: 'update',
+      before: before[0],
+      after: baselines[0],
+    });
+
+    return NextResponse.json({ baseline: baselines[0] });
+  } catch (error) {
+    console.error('Error updating baseline:', error);
+    const failure = toErrorResult(error, 'Failed to update baseline');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Baseline ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const before = await query<Baseline>(`${BASELINE_SELECT} WHERE b.id = $1`, [id]);
+    await query('DELETE FROM baseline WHERE id = $1', [id]);
+    if (before.length > 0) {
+      await recordAudit(request, {
+        entityType: 'baseline',
+        entityId: id,
+        action: 'delete',
+        before: before[0],
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting baseline:', error);
+    const failure = toErrorResult(error, 'Failed to delete baseline');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
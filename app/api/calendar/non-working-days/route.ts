@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { getAuditSnapshot, recordAudit } from '@/lib/auditQueries';
+import { getCustomNonWorkingDays, getWorkCalendar } from '@/lib/workCalendarQueries';
+import { CustomNonWorkingDay } from '@/lib/workingCalendar';
+import { toErrorResult } from '@/lib/dbErrors';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Custom non-working days of a calendar (default calendar unless calendar_id is given)
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const calendar = await getWorkCalendar(searchParams.get('calendar_id'));
+
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'Calendar not found' },
+        { status: 404 }
+      );
+    }
+
+    const nonWorkingDays = await getCustomNonWorkingDays(calendar.id);
+
+    return NextResponse.json({ non_working_days: nonWorkingDays });
+  } catch (error) {
+    console.error('Error fetching non-working days:', error);
+    const failure = toErrorResult(error, 'Failed to fetch non-working days');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { calendar_id, date, name } = body;
+
+    if (!date || !name) {
+      return NextResponse.json(
+        { error: 'Date and name are required' },
+        { status: 400 }
+      );
+    }
+
+    const sanitizedDate = String(date).split('T')[0];
+    if (!DATE_PATTERN.test(sanitizedDate)) {
+      return NextResponse.json(
+        { error: 'date must be in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+
+    const calendar = await getWorkCalendar(calendar_id);
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'Calendar not found' },
+        { status: 404 }
+      );
+    }
+
+    // Re-registering a date just renames it
+    const existing = await query<CustomNonWorkingDay>(
+      `SELECT id, calendar_id, date::DATE::TEXT as date, name
+       FROM non_working_day
+       WHERE calendar_id = $1 AND date = $2::DATE`,
+      [calendar.id, sanitizedDate]
+    );
+    const result = await query<CustomNonWorkingDay>(
+      `INSERT INTO non_working_day (calendar_id, date, name)
+       VALUES ($1, $2::DATE, $3)
+       ON CONFLICT (calendar_id, date)
+       DO UPDATE SET name = EXCLUDED.name, updated_at = CURRENT_TIMESTAMP
+       RETURNING id, calendar_id, date::DATE::TEXT as date, name`,
+      [calendar.id, sanitizedDate, name]
+    );
+
+    await recordAudit(request, {
+      entityType: 'non_working_day',
+      entityId: result[0].id,
+      action: existing.length > 0 ? 'update' : 'create',
+      before: existing[0] || null,
+      after: result[0],
+    });
+
+    return NextResponse.json({ non_working_day: result[0] });
+  } catch (error) {
+    console.error('Error creating non-working day:', error);
+    const failure = toErrorResult(error, 'Failed to create non-working day');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Non-working day ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const before = await getAuditSnapshot('non_working_day', id);
+    await query('DELETE FROM non_working_day WHERE id = $1', [id]);
+    if (before) {
+      await recordAudit(request, {
+        entityType: 'non_working_day',
+        entityId: id,
+        action: 'delete',
+        before,
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting non-working day:', error);
+    const failure = toErrorResult(error, 'Failed to delete non-working day');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
@@ -0,0 +1,255 @@
+import { NextResponse } from 'next/server';
+import type { PoolClient } from 'pg';
+import { query, withTransaction } from '@/lib/db';
+import { toDayNumber } from '@/lib/scheduling';
+import { getCustomNonWorkingDays, getWorkCalendar, getWorkCalendars } from '@/lib/workCalendarQueries';
+import { createWorkingCalendar } from '@/lib/workingCalendar';
+import { recordAudit } from '@/lib/auditQueries';
+import { toErrorResult } from '@/lib/dbErrors';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RANGE_DAYS = 3660; // Roughly ten years
+
+const isValidWeekendDays = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(day => Number.isInteger(day) && day >= 0 && day <= 6);
+
+async function replaceWeekendRules(client: PoolClient, calendarId: string, weekendDays: number[]) {
+  await client.query('DELETE FROM work_calendar_weekend_rule WHERE calendar_id = $1', [calendarId]);
+  const uniqueDays = Array.from(new Set(weekendDays));
+  if (uniqueDays.length > 0) {
+    await client.query(
+      `INSERT INTO work_calendar_weekend_rule (calendar_id, day_of_week)
+       SELECT $1, unnest($2::INT[])`,
+      [calendarId, uniqueDays]
+    );
+  }
+}
+
+/**
+ * Without a date range: list all calendars.
+ * With from/to (YYYY-MM-DD): return the calendar (default unless calendar_id is given),
+ * its holidays and custom non-working days in the range, and the number of working days.
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const calendarId = searchParams.get('calendar_id');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (!from && !to) {
+      const calendars = await getWorkCalendars();
+      return NextResponse.json({ calendars });
+    }
+
+    if (!from || !to || !DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+      return NextResponse.json(
+        { error: 'from and to must be dates in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+
+    const rangeDays = toDayNumber(to) - toDayNumber(from);
+    if (rangeDays < 0 || rangeDays > MAX_RANGE_DAYS) {
+      return NextResponse.json(
+        { error: `to must be on or after from, within ${MAX_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const calendar = await getWorkCalendar(calendarId);
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'Calendar not found' },
+        { status: 404 }
+      );
+    }
+
+    const workingCalendar = createWorkingCalendar(calendar, await getCustomNonWorkingDays(calendar.id));
+
+    return NextResponse.json({
+      calendar,
+      non_working_days: workingCalendar.listNonWorkingDays(from, to),
+      working_days: workingCalendar.countWorkingDays(from, to),
+    });
+  } catch (error) {
+    console.error('Error fetching calendar:', error);
+    const failure = toErrorResult(error, 'Failed to fetch calendar');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { name, include_japanese_holidays, weekend_days } = body;
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (weekend_days !== undefined && !isValidWeekendDays(weekend_days)) {
+      return NextResponse.json(
+        { error: 'weekend_days must be an array of integers between 0 (Sunday) and 6 (Saturday)' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await query('SELECT id FROM work_calendar WHERE name = $1', [name]);
+    if (existing.length > 0) {
+      return NextResponse.json(
+        { error: '同じ名前のカレンダーが既に存在します' },
+        { status: 409 }
+      );
+    }
+
+    const calendarId = await withTransaction(async client => {
+      const result = await client.query<{ id: string }>(
+        `INSERT INTO work_calendar (name, include_japanese_holidays)
+         VALUES ($1, $2)
+         RETURNING id`,
+        [name, include_japanese_holidays ?? true]
+      );
+      await replaceWeekendRules(client, result.rows[0].id, weekend_days ?? [0, 6]);
+      return result.rows[0].id;
+    });
+
+    const calendar = await getWorkCalendar(calendarId);
+    await recordAudit(request, {
+      entityType: 'work_calendar',
+      entityId: calendarId,
+      action: 'create',
+      after: calendar,
+    });
+    return NextResponse.json({ calendar });
+  } catch (error) {
+    console.error('Error creating calendar:', error);
+    const failure = toErrorResult(error, 'Failed to create calendar');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const body = await request.json();
+    const { id, name, include_japanese_holidays, is_default, weekend_days } = body;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Calendar ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (weekend_days !== undefined && !isValidWeekendDays(weekend_days)) {
+      return NextResponse.json(
+        { error: 'weekend_days must be an array of integers between 0 (Sunday) and 6 (Saturday)' },
+        { status: 400 }
+      );
+    }
+
+    const before = await getWorkCalendar(id);
+
+    const found = await withTransaction(async client => {
+      const result = await client.query(
+        `UPDATE work_calendar
+         SET name = COALESCE($1, name),
+             include_japanese_holidays = COALESCE($2, include_japanese_holidays),
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $3
+         RETURNING id`,
+        [name, include_japanese_holidays, id]
+      );
+      if (result.rows.length === 0) return false;
+
+      // Only one calendar can be the default
+      if (is_default === true) {
+        await client.query(
+          `UPDATE work_calendar
+           SET is_default = (id = $1), updated_at = CURRENT_TIMESTAMP
+           WHERE is_default OR id = $1`,
+          [id]
+        );
+      }
+
+      if (weekend_days !== undefined) {
+        await replaceWeekendRules(client, id, weekend_days);
+      }
+      return true;
+    });
+
+    if (!found) {
+      return NextResponse.json(
+        { error: 'Calendar not found' },
+        { status: 404 }
+      );
+    }
+
+    const calendar = await getWorkCalendar(id);
+    await recordAudit(request, {
+      entityType: 'work_calendar',
+      entityId: id,
+      action: 'update',
+      before,
+      after: calendar,
+    });
+    return NextResponse.json({ calendar });
+  } catch (error) {
+    console.error('Error updating calendar:', error);
+    const failure = toErrorResult(error, 'Failed to update calendar');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Calendar ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const calendar = await getWorkCalendar(id);
+    if (calendar?.is_default) {
+      return NextResponse.json(
+        { error: 'デフォルトカレンダーは削除できません' },
+        { status: 400 }
+      );
+    }
+
+    await query('DELETE FROM work_calendar WHERE id = $1', [id]);
+    if (calendar) {
+      await recordAudit(request, {
+        entityType: 'work_calendar',
+        entityId: id,
+        action: 'delete',
+        before: calendar,
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting calendar:', error);
+    const failure = toErrorResult(error, 'Failed to delete calendar');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { getAuditSnapshot, recordAudit } from '@/lib/auditQueries';
+import { isCategoryEntityType } from '@/lib/category';
+import { setCategoryArchived } from '@/lib/categoryQueries';
+import { toErrorResult } from '@/lib/dbErrors';
+
+// Archive ({ entity_type, id, archived: true }) or unarchive (archived: false)
+// a category or subcategory
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { entity_type: entityType, id, archived } = body;
+
+    if (!isCategoryEntityType(entityType) || !id || typeof archived !== 'boolean') {
+      return NextResponse.json(
+        { error: 'entity_type (category or subcategory), id and archived are required' },
+        { status: 400 }
+      );
+    }
+
+    const before = await getAuditSnapshot(entityType, id);
+    if (!(await setCategoryArchived(entityType, id, archived))) {
+      return NextResponse.json(
+        { error: 'Category not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(request, {
+      entityType,
+      entityId: id,
+      action: 'update',
+      before,
+      after: await getAuditSnapshot(entityType, id),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error archiving category:', error);
+    const failure = toErrorResult(error, 'Failed to archive category');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getAuditSnapshot, recordAudit } from '@/lib/auditQueries';
+import { isCategoryEntityType } from '@/lib/category';
+import { mergeCategory } from '@/lib/categoryQueries';
+import { toErrorResult } from '@/lib/dbErrors';
+
+// Merge a category or subcategory into another: { entity_type, source_id,
+// target_id }. The source's tasks move to the target and the source is deleted.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { entity_type: entityType, source_id: sourceId, target_id: targetId } = body;
+
+    if (!isCategoryEntityType(entityType) || !sourceId || !targetId) {
+      return NextResponse.json(
+        { error: 'entity_type (category or subcategory), source_id and target_id are required' },
+        { status: 400 }
+      );
+    }
+
+    const before = await getAuditSnapshot(entityType, sourceId);
+    const result = await mergeCategory(entityType, sourceId, targetId);
+
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await recordAudit(request, {
+      entityType,
+      entityId: sourceId,
+      action: 'delete',
+      before: { ...before, merged_into: targetId, moved_tasks: result.tasks },
+    });
+
+    return NextResponse.json({ success: true, tasks: result.tasks });
+  } catch (error) {
+    console.error('Error merging category:', error);
+    const failure = toErrorResult(error, 'Failed to merge category');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { getAuditSnapshot, recordAudit } from '@/lib/auditQueries';
+import { isCategoryEntityType } from '@/lib/category';
+import { renameCategory } from '@/lib/categoryQueries';
+import { toErrorResult } from '@/lib/dbErrors';
+
+// Rename a category or subcategory: { entity_type, id, name }. Tasks, orders,
+// expand states and view preferences follow in the same transaction.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { entity_type: entityType, id } = body;
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!isCategoryEntityType(entityType) || !id || !name) {
+      return NextResponse.json(
+        { error: 'entity_type (category or subcategory), id and name are required' },
+        { status: 400 }
+      );
+    }
+
+    if (name.length > 100) {
+      return NextResponse.json(
+        { error: '名前は100文字以内で入力してください' },
+        { status: 400 }
+      );
+    }
+
+    const before = await getAuditSnapshot(entityType, id);
+    const result = await renameCategory(entityType, id, name);
+
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await recordAudit(request, {
+      entityType,
+      entityId: id,
+      action: 'update',
+      before,
+      after: await getAuditSnapshot(entityType, id),
+    });
+
+    return NextResponse.json({ success: true, tasks: result.tasks });
+  } catch (error) {
+    console.error('Error renaming category:', error);
+    const failure = toErrorResult(error, 'Failed to rename category');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server';
+import { getAuditSnapshot, recordAudit } from '@/lib/auditQueries';
+import { CategoryDetails, isCategoryEntityType, isValidCategoryColor } from '@/lib/category';
+import { createCategory, getCategories, updateCategoryDetails } from '@/lib/categoryQueries';
+import { toErrorResult } from '@/lib/dbErrors';
+
+// Color, description and owner from a request body ('' clears a field)
+function parseDetails(body: Record<string, unknown>): CategoryDetails | { error: string } {
+  const color = body.color || null;
+  const description = typeof body.description === 'string' && body.description !== '' ? body.description : null;
+  const ownerId = typeof body.owner_id === 'string' && body.owner_id !== '' ? body.owner_id : null;
+
+  if (!isValidCategoryColor(color)) {
+    return { error: 'color must be a #RRGGBB color' };
+  }
+  if (description && description.length > 1000) {
+    return { error: '説明は1000文字以内で入力してください' };
+  }
+
+  return { color: color as string | null, description, owner_id: ownerId };
+}
+
+// Active categories with their subcategories; include_archived=true also lists archived ones
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const categories = await getCategories(searchParams.get('include_archived') === 'true');
+    return NextResponse.json({ categories });
+  } catch (error) {
+    console.error('Error fetching categories:', error);
+    const failure = toErrorResult(error, 'Failed to fetch categories');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
+
+// Create a category, or a subcategory with entity_type 'subcategory' and category_id
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { entity_type: entityType = 'category', category_id: categoryId } = body;
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!isCategoryEntityType(entityType) || !name) {
+      return NextResponse.json(
+        { error: 'entity_type (category or subcategory) and name are required' },
+        { status: 400 }
+      );
+    }
+
+    const details = parseDetails(body);
+    if ('error' in details) {
+      return NextResponse.json({ error: details.error }, { status: 400 });
+    }
+
+    const result = await createCategory(entityType, name, categoryId || null, details);
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await recordAudit(request, {
+      entityType,
+      entityId: result.id,
+      action: 'create',
+      after: await getAuditSnapshot(entityType, result.id),
+    });
+
+    return NextResponse.json({ id: result.id });
+  } catch (error) {
+    console.error('Error creating category:', error);
+    const failure = toErrorResult(error, 'Failed to create category');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
+
+// Update the color, description and owner (renames go through /api/categories/rename)
+export async function PUT(request: Request) {
+  try {
+    const body = await request.json();
+    const { entity_type: entityType = 'category', id } = body;
+
+    if (!isCategoryEntityType(entityType) || !id) {
+      return NextResponse.json(
+        { error: 'entity_type (category or subcategory) and id are required' },
+        { status: 400 }
+      );
+    }
+
+    const details = parseDetails(body);
+    if ('error' in details) {
+      return NextResponse.json({ error: details.error }, { status: 400 });
+    }
+
+    const before = await getAuditSnapshot(entityType, id);
+    if (!(await updateCategoryDetails(entityType, id, details))) {
+      return NextResponse.json(
+        { error: 'Category not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(request, {
+      entityType,
+      entityId: id,
+      action: 'update',
+      before,
+      after: await getAuditSnapshot(entityType, id),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating category:', error);
+    const failure = toErrorResult(error, 'Failed to update category');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
@@ -1,82 +1,95 @@
 import { NextResponse } from 'next/server';
-import { query } from '@/lib/db';
+import { query, withTransaction } from '@/lib/db';
+import { toOrderSnapshot } from '@/lib/audit';
+import { recordAudit } from '@/lib/auditQueries';
+import { getGroupRanks, getNextRank, moveRankedRow, RANK_ORDER, RankedRow } from '@/lib/rankQueries';
+import { toErrorResult } from '@/lib/dbErrors';
+import { validate } from '@/lib/validation';
+import { categoryOrderSchema } from '@/lib/schemas';
+
+const getOrders = () => query(`SELECT * FROM category_order ORDER BY ${RANK_ORDER}`);
 
 export async function GET() {
   try {
-    const orders = await query('SELECT * FROM category_order ORDER BY display_order');
+    const orders = await getOrders();
     return NextResponse.json({ orders });
   } catch (error) {
     console.error('Error fetching category orders:', error);
+    const failure = toErrorResult(error, 'Failed to fetch category orders');
     return NextResponse.json(
-      { error: 'Failed to fetch category orders' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
 
+// Record a category order change as { category: rank } snapshots
+async function recordOrderAudit(request: Request, before: RankedRow[], after: RankedRow[]) {
+  await recordAudit(request, {
+    entityType: 'category_order',
+    action: 'update',
+    before: toOrderSnapshot(before, row => String(row.key)),
+    after: toOrderSnapshot(after, row => String(row.key)),
+  });
+}
+
+// Move one category: { category, previous_category } places it right after
+// previous_category (null: first); { category, direction: 'up' | 'down' }
+// swaps it with its neighbour. Only the moved category's rank changes.
 export async function PUT(request: Request) {
   try {
-    const { category, direction } = await request.json();
-
-    if (!category || !direction) {
-      return NextResponse.json(
-        { error: 'Category and direction are required' },
-        { status: 400 }
-      );
+    const parsed = validate(categoryOrderSchema, await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error, errors: parsed.errors }, { status: parsed.status });
     }
+    const { category, direction } = parsed.value;
 
-    // Get all categories ordered by display_order
-    const allOrders = await query('SELECT * FROM category_order ORDER BY display_order');
-
-    // If this category doesn't exist in the order table, add it
-    const existingIndex = allOrders.findIndex((o: any) => o.category === category);
+    const allOrders = await getGroupRanks('category', []);
 
-    if (existingIndex === -1) {
-      // Insert new category at the end
-      const maxOrder = allOrders.length > 0 ? Math.max(...allOrders.map((o: any) => o.display_order)) : -1;
-      await query(
-        'INSERT INTO category_order (category, display_order) VALUES ($1, $2)',
-        [category, maxOrder + 1]
+    // If this category doesn't exist in the order table, add it at the end
+    if (!allOrders.some(order => order.key === category)) {
+      await withTransaction(async client =>
+        client.query(
+          'INSERT INTO category_order (category, rank) VALUES ($1, $2)',
+          [category, await getNextRank(client, 'category', [])]
+        )
       );
-      const updatedOrders = await query('SELECT * FROM category_order ORDER BY display_order');
-      return NextResponse.json({ orders: updatedOrders });
+      await recordOrderAudit(request, allOrders, await getGroupRanks('category', []));
+      return NextResponse.json({ orders: await getOrders() });
     }
 
-    const currentOrder = allOrders[existingIndex].display_order;
+    const keys = allOrders.map(order => order.key);
+    const index = keys.indexOf(category);
+    let previousCategory: string | null;
 
     if (direction === 'up') {
-      if (existingIndex === 0) {
-        // Already at the top
-        return NextResponse.json({ orders: allOrders });
-      }
-
-      const prevOrder = allOrders[existingIndex - 1].display_order;
-      const prevCategory = allOrders[existingIndex - 1].category;
-
-      // Swap orders
-      await query('UPDATE category_order SET display_order = $1 WHERE category = $2', [prevOrder, category]);
-      await query('UPDATE category_order SET display_order = $1 WHERE category = $2', [currentOrder, prevCategory]);
+      // Already at the top
+      if (index === 0) return NextResponse.json({ orders: await getOrders() });
+      previousCategory = keys[index - 2] ?? null;
     } else if (direction === 'down') {
-      if (existingIndex === allOrders.length - 1) {
-        // Already at the bottom
-        return NextResponse.json({ orders: allOrders });
-      }
-
-      const nextOrder = allOrders[existingIndex + 1].display_order;
-      const nextCategory = allOrders[existingIndex + 1].category;
+      // Already at the bottom
+      if (index === keys.length - 1) return NextResponse.json({ orders: await getOrders() });
+      previousCategory = keys[index + 1];
+    } else {
+      previousCategory = parsed.value.previous_category ?? null;
+    }
 
-      // Swap orders
-      await query('UPDATE category_order SET display_order = $1 WHERE category = $2', [nextOrder, category]);
-      await query('UPDATE category_order SET display_order = $1 WHERE category = $2', [currentOrder, nextCategory]);
+    const result = await moveRankedRow('category', [], category, previousCategory);
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
     }
 
-    const updatedOrders = await query('SELECT * FROM category_order ORDER BY display_order');
-    return NextResponse.json({ orders: updatedOrders });
+    await recordOrderAudit(request, allOrders, await getGroupRanks('category', []));
+    return NextResponse.json({ orders: await getOrders() });
   } catch (error) {
     console.error('Error updating category order:', error);
+    const failure = toErrorResult(error, 'Failed to update category order');
     return NextResponse.json(
-      { error: 'Failed to update category order' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
@@ -0,0 +1,101 @@
+import { CHANGE_POLL_INTERVAL_MS, ChangeNotification } from '@/lib/changeFeed';
+import {
+  ChangeFeedEntry,
+  formatChangeCursor,
+  getChangesAfter,
+  getLateChanges,
+  getLatestChangeCursor,
+  parseChangeCursor,
+} from '@/lib/changeFeedQueries';
+
+export const dynamic = 'force-dynamic';
+
+// Comment line sent when idle so proxies keep the connection open
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// Streams end after this long (serverless time limits); EventSource reconnects
+// with Last-Event-ID and continues from there
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+// Remember this many seen IDs, so late entries are only sent once
+const SEEN_ID_LIMIT = 1000;
+
+// Entries per page; a full page is followed by the next one without waiting
+const PAGE_SIZE = 200;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Server-Sent Events stream of changes written through the API
+ *
+ * Sends a `change` event (ChangeNotification) for every new audit log entry.
+ */
+export async function GET(request: Request) {
+  let cursor = parseChangeCursor(request.headers.get('last-event-id')) ?? (await getLatestChangeCursor());
+
+  // Entries already behind the cursor were sent before a reconnect, or
+  // predate the stream; only ones that commit late from now on are sent
+  const seenIds = (await getLateChanges(cursor, [], SEEN_ID_LIMIT)).map(change => change.id);
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const startedAt = Date.now();
+      let lastSentAt = Date.now();
+
+      const send = (text: string) => {
+        controller.enqueue(encoder.encode(text));
+        lastSentAt = Date.now();
+      };
+
+      const remember = (id: string) => {
+        seenIds.push(id);
+        if (seenIds.length > SEEN_ID_LIMIT) seenIds.shift();
+      };
+
+      // The event id is the cursor to resume from, which late entries do not move
+      const sendChange = (change: ChangeNotification) => {
+        remember(change.id);
+        send(`id: ${formatChangeCursor(cursor)}\nevent: change\ndata: ${JSON.stringify(change)}\n\n`);
+      };
+
+      send(`retry: 3000\n\n`);
+
+      try {
+        while (!request.signal.aborted && Date.now() - startedAt < MAX_STREAM_MS) {
+          try {
+            (await getLateChanges(cursor, seenIds, PAGE_SIZE)).forEach(sendChange);
+
+            let changes: ChangeFeedEntry[];
+            do {
+              changes = await getChangesAfter(cursor, PAGE_SIZE);
+              changes.forEach(({ cursor: entryCursor, ...change }) => {
+                cursor = entryCursor;
+                sendChange(change);
+              });
+            } while (changes.length === PAGE_SIZE && !request.signal.aborted);
+          } catch (error) {
+            console.error('Error polling changes:', error);
+          }
+
+          if (Date.now() - lastSentAt >= HEARTBEAT_INTERVAL_MS) {
+            send(': heartbeat\n\n');
+          }
+          await sleep(CHANGE_POLL_INTERVAL_MS);
+        }
+        controller.close();
+      } catch {
+        // The client went away while we were writing
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
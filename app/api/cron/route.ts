@@ -1,33 +1,14 @@
 import { NextRequest,NextResponse } from 'next/server';
-import { query } from '@/lib/db';
+import { TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { purgeExpiredTrash } from '@/lib/trashQueries';
+import { rebalanceAllRanks } from '@/lib/rankQueries';
+import { MemberRepository } from '@/lib/memberRepository';
+import { TaskRepository } from '@/lib/taskRepository';
+import { EventRepository } from '@/lib/eventRepository';
 import nodemailer from 'nodemailer';
 
-interface Member {
-  id: string;
-  name: string;
-  email: string;
-}
-
-interface Task {
-  id: string;
-  name: string;
-  category: string;
-  sub_category: string;
-  start_date: string;
-  end_date: string;
-  status: string;
-}
-
-interface Event {
-  id: string;
-  name: string;
-  due_date: string;
-  status: string;
-  task_name: string;
-  task_category: string;
-  task_sub_category: string;
-  task_status?: string;
-}
+// Milestones due within this many days are listed in every report
+const UPCOMING_MILESTONE_DAYS = 14;
 
 export async function GET(request: NextRequest) {
   const authHeader = request.headers.get('authorization');
@@ -42,11 +23,26 @@ export async function GET(request: NextRequest) {
     console.log('[CRON] GMAIL_USER:', process.env.GMAIL_USER ? 'Set' : 'Not set');
     console.log('[CRON] GMAIL_APP_PASSWORD:', process.env.GMAIL_APP_PASSWORD ? 'Set (length: ' + process.env.GMAIL_APP_PASSWORD.length + ')' : 'Not set');
 
+    // Maintenance failures are only logged, so that the daily emails still go out
+
+    // Permanently delete rows that have been in the trash past the retention period
+    try {
+      const purged = await purgeExpiredTrash(TRASH_RETENTION_DAYS);
+      console.log(`[CRON] Purged expired trash - tasks: ${purged.tasks}, events: ${purged.events}, members: ${purged.members}`);
+    } catch (purgeError) {
+      console.error('[CRON] Failed to purge expired trash:', purgeError);
+    }
+
+    // Give groups with long or duplicate ranks short evenly spaced ones again
+    try {
+      const rebalancedGroups = await rebalanceAllRanks();
+      console.log(`[CRON] Rebalanced ranks - groups: ${rebalancedGroups}`);
+    } catch (rebalanceError) {
+      console.error('[CRON] Failed to rebalance ranks:', rebalanceError);
+    }
+
     // Get all active members with email addresses
-    const members = await query<Member>(
-      'SELECT id, name, email FROM member WHERE is_active = true AND email IS NOT NULL AND email != $1',
-      ['']
-    );
+    const members = await MemberRepository.listWithEmail();
 
     console.log('[CRON] Found members:', members.length);
     members.forEach(m => console.log(`[CRON] - ${m.name} (${m.email})`));
@@ -82,6 +78,13 @@ export async function GET(request: NextRequest) {
 
     console.log('[CRON] Date range - Today:', today.toISOString(), 'Tomorrow:', tomorrow.toISOString());
 
+    // Upcoming milestones are shared by all members
+    const milestoneRangeEnd = new Date(today);
+    milestoneRangeEnd.setDate(milestoneRangeEnd.getDate() + UPCOMING_MILESTONE_DAYS);
+    const upcomingMilestones = await TaskRepository.listUpcomingMilestones(today.toISOString(), milestoneRangeEnd.toISOString());
+
+    console.log(`[CRON] Found ${upcomingMilestones.length} upcoming milestones`);
+
     let emailsSent = 0;
 
     // Send email to each member
@@ -89,46 +92,17 @@ export async function GET(request: NextRequest) {
       console.log(`[CRON] Processing member: ${member.name} (${member.email})`);
 
       // Get tasks assigned to this member that are overdue and not done or icebox
-      const tasks = await query<Task>(
-        `SELECT id, name, category, sub_category, start_date, end_date, status
-         FROM task
-         WHERE assignee = $1
-         AND start_date < CURRENT_TIMESTAMP
-         AND status NOT IN ($2, $3)
-         ORDER BY start_date ASC`,
-        [member.name, 'Done', 'IceBox']
-      );
+      const tasks = await TaskRepository.listStartedForAssignee(member.id);
 
       console.log(`[CRON] - Found ${tasks.length} incomplete tasks for ${member.name}`);
 
       // Get events assigned to this member for today (excluding Done and IceBox)
-      const events = await query<Event>(
-        `SELECT e.id, e.name, e.due_date, e.status, t.name as task_name, t.category as task_category, t.sub_category as task_sub_category
-         FROM event e
-         JOIN task t ON e.task_id = t.id
-         WHERE e.assignee = $1
-         AND e.due_date >= $2
-         AND e.due_date < $3
-         AND e.status NOT IN ($4, $5)
-         AND t.status NOT IN ($6, $7)
-         ORDER BY e.due_date ASC`,
-        [member.name, today.toISOString(), tomorrow.toISOString(), 'Done', 'IceBox', 'Done', 'IceBox']
-      );
+      const events = await EventRepository.listDueForAssignee(member.id, today.toISOString(), tomorrow.toISOString());
 
       console.log(`[CRON] - Found ${events.length} events for today for ${member.name}`);
 
       // Get overdue events assigned to this member (excluding Done and IceBox)
-      const overdueEvents = await query<Event>(
-        `SELECT e.id, e.name, e.due_date, e.status, t.name as task_name, t.category as task_category, t.sub_category as task_sub_category, t.status as task_status
-         FROM event e
-         JOIN task t ON e.task_id = t.id
-         WHERE e.assignee = $1
-         AND e.due_date < $2
-         AND e.status NOT IN ($3, $4)
-         AND t.status NOT IN ($5, $6)
-         ORDER BY e.due_date DESC`,
-        [member.name, today.toISOString(), 'Done', 'IceBox', 'Done', 'IceBox']
-      );
+      const overdueEvents = await EventRepository.listOverdueForAssignee(member.id, today.toISOString());
 
       console.log(`[CRON] - Found ${overdueEvents.length} overdue events for ${member.name}`);
 
@@ -210,6 +184,28 @@ export async function GET(request: NextRequest) {
         emailContent += '</tbody></table>\n<br>\n';
       }
 
+      // Add upcoming milestones section (only in reports that are sent anyway)
+      if (upcomingMilestones.length > 0) {
+        emailContent += `<h3>◆ 今後のマイルストーン (${UPCOMING_MILESTONE_DAYS}日以内 ${upcomingMilestones.length}件)</h3>\n`;
+        emailContent += '<table border="1" cellpadding="8" cellspacing="0" style="border-collapse: collapse; width: 100%;">\n';
+        emailContent += '<thead><tr style="background-color: #e7f1ff;"><th>マイルストーン名</th><th>サブカテゴリー</th><th>カテゴリー</th><th>日付</th><th>担当者</th><th>ステータス</th></tr></thead>\n';
+        emailContent += '<tbody>\n';
+
+        for (const milestone of upcomingMilestones) {
+          const date = new Date(milestone.start_date).toLocaleDateString('ja-JP');
+          emailContent += `<tr>
+            <td>${milestone.name}</td>
+            <td>${milestone.sub_category}</td>
+            <td>${milestone.category}</td>
+            <td>${date}</td>
+            <td>${milestone.assignee || '-'}</td>
+            <td>${milestone.status}</td>
+          </tr>\n`;
+        }
+
+        emailContent += '</tbody></table>\n<br>\n';
+      }
+
 
 
       emailContent += '\n<br><p style="color: #666;">このメールは<a href="https://n-prod-task.vercel.app/" target="_blank">タスク管理システム</a>より自動送信されています。</p>';
@@ -1,5 +1,19 @@
 import { NextResponse } from 'next/server';
 import { getTableData, getTableCount, query } from '@/lib/db';
+import { getAuditSnapshot, recordAudit } from '@/lib/auditQueries';
+import { isTrashEntityType } from '@/lib/trash';
+import { trashRow, trashTask } from '@/lib/trashQueries';
+import { MemberRepository } from '@/lib/memberRepository';
+import { toErrorResult } from '@/lib/dbErrors';
+
+// The audit log can be read through this route but never changed
+const READ_ONLY_TABLES = new Set(['audit_log']);
+
+const readOnlyResponse = (tableName: string) =>
+  NextResponse.json(
+    { error: `${tableName} is read-only` },
+    { status: 403 }
+  );
 
 export async function GET(
   request: Request,
@@ -19,9 +33,10 @@ export async function GET(
     return NextResponse.json({ data, total, limit, offset });
   } catch (error) {
     console.error('Error fetching table data:', error);
+    const failure = toErrorResult(error, 'Failed to fetch table data');
     return NextResponse.json(
-      { error: 'Failed to fetch table data' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
@@ -32,6 +47,7 @@ export async function POST(
 ) {
   try {
     const { tableName } = await params;
+    if (READ_ONLY_TABLES.has(tableName)) return readOnlyResponse(tableName);
     const body = await request.json();
 
     const columns = Object.keys(body);
@@ -43,12 +59,20 @@ export async function POST(
       values
     );
 
+    await recordAudit(request, {
+      entityType: tableName,
+      entityId: result[0]?.id ?? null,
+      action: 'create',
+      after: result[0],
+    });
+
     return NextResponse.json({ data: result[0] });
   } catch (error) {
     console.error('Error inserting data:', error);
+    const failure = toErrorResult(error, 'Failed to insert data');
     return NextResponse.json(
-      { error: 'Failed to insert data' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
@@ -59,6 +83,7 @@ export async function PUT(
 ) {
   try {
     const { tableName } = await params;
+    if (READ_ONLY_TABLES.has(tableName)) return readOnlyResponse(tableName);
     const body = await request.json();
     const { id, ...updates } = body;
 
@@ -66,17 +91,30 @@ export async function PUT(
     const values = Object.values(updates);
     const setClause = columns.map((col, i) => `${col} = $${i + 1}`).join(', ');
 
+    const before = await getAuditSnapshot(tableName, id);
+
     const result = await query(
       `UPDATE "${tableName}" SET ${setClause} WHERE id = $${values.length + 1} RETURNING *`,
       [...values, id]
     );
 
+    if (result.length > 0) {
+      await recordAudit(request, {
+        entityType: tableName,
+        entityId: id,
+        action: 'update',
+        before,
+        after: result[0],
+      });
+    }
+
     return NextResponse.json({ data: result[0] });
   } catch (error) {
     console.error('Error updating data:', error);
+    const failure = toErrorResult(error, 'Failed to update data');
     return NextResponse.json(
-      { error: 'Failed to update data' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
@@ -87,6 +125,7 @@ export async function DELETE(
 ) {
   try {
     const { tableName } = await params;
+    if (READ_ONLY_TABLES.has(tableName)) return readOnlyResponse(tableName);
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -97,14 +136,42 @@ export async function DELETE(
       );
     }
 
-    await query(`DELETE FROM "${tableName}" WHERE id = $1`, [id]);
+    const before = await getAuditSnapshot(tableName, id);
+    // Tasks, events and members go to the trash (purged from /trash)
+    if (isTrashEntityType(tableName)) {
+      const trashed = tableName === 'task'
+        ? await trashTask(id)
+        : tableName === 'member'
+        ? await MemberRepository.trash(id)
+        : await trashRow(tableName, id);
+      if (trashed) {
+        await recordAudit(request, {
+          entityType: tableName,
+          entityId: id,
+          action: 'delete',
+          before,
+          after: await getAuditSnapshot(tableName, id),
+        });
+      }
+    } else {
+      await query(`DELETE FROM "${tableName}" WHERE id = $1`, [id]);
+      if (before) {
+        await recordAudit(request, {
+          entityType: tableName,
+          entityId: id,
+          action: 'delete',
+          before,
+        });
+      }
+    }
 
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting data:', error);
+    const failure = toErrorResult(error, 'Failed to delete data');
     return NextResponse.json(
-      { error: 'Failed to delete data' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
@@ -1,161 +1,207 @@
 import { NextResponse } from 'next/server';
-import { query } from '@/lib/db';
+import { withTransaction } from '@/lib/db';
+import { loadWorkingCalendar } from '@/lib/workCalendarQueries';
+import { toDateKey, workingDaysBetween } from '@/lib/workingCalendar';
+import { recordStatusChange } from '@/lib/statusHistoryQueries';
+import { getRequestActor } from '@/lib/requestActor';
+import { getAuditSnapshot, recordAudit } from '@/lib/auditQueries';
+import { trashRow } from '@/lib/trashQueries';
+import { VERSION_CONFLICT_MESSAGE } from '@/lib/concurrency';
+import { MemberRepository } from '@/lib/memberRepository';
+import { TaskRepository } from '@/lib/taskRepository';
+import { EventRepository } from '@/lib/eventRepository';
+import type { Event } from '@/lib/domain';
+import { toErrorResult } from '@/lib/dbErrors';
+import { validate } from '@/lib/validation';
+import { eventCreateSchema, eventDeleteSchema, eventUpdateSchema } from '@/lib/schemas';
 
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url);
     const taskId = searchParams.get('task_id');
 
-    let events;
-    if (taskId) {
-      events = await query(
-        'SELECT id, name, task_id, due_date::DATE::TEXT as due_date, assignee, status, note, created_at, updated_at FROM event WHERE task_id = $1 ORDER BY due_date',
-        [taskId]
-      );
-    } else {
-      events = await query('SELECT id, name, task_id, due_date::DATE::TEXT as due_date, assignee, status, note, created_at, updated_at FROM event ORDER BY due_date');
-    }
+    const events = await EventRepository.list(taskId);
 
-    return NextResponse.json({ events });
+    // Working days left until each due date (negative when overdue)
+    const calendar = await loadWorkingCalendar();
+    const today = toDateKey(new Date());
+    const eventsWithWorkingDays = events.map(event => ({
+      ...event,
+      working_days_remaining: event.due_date ? workingDaysBetween(calendar, today, event.due_date) : null,
+    }));
+
+    return NextResponse.json({ events: eventsWithWorkingDays });
   } catch (error) {
     console.error('Error fetching events:', error);
+    const failure = toErrorResult(error, 'Failed to fetch events');
     return NextResponse.json(
-      { error: 'Failed to fetch events' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
-    const { name, task_id, due_date, assignee, status, note } = body;
-
-    if (!name || !task_id) {
-      return NextResponse.json(
-        { error: 'Name and task_id are required' },
-        { status: 400 }
-      );
+    const parsed = validate(eventCreateSchema, await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error, errors: parsed.errors }, { status: parsed.status });
     }
+    const { name, task_id, due_date, status, note } = parsed.value;
 
-    // Validate note length
-    if (note && note.length > 1000) {
-      return NextResponse.json(
-        { error: 'メモは1000文字以内で入力してください' },
-        { status: 400 }
-      );
+    const assignee = await MemberRepository.resolveAssigneeId(parsed.value.assignee_id);
+    if ('error' in assignee) {
+      return NextResponse.json({ error: assignee.error }, { status: assignee.status });
     }
 
-    // Get parent task's assignee if event assignee is not provided
-    let finalAssignee = assignee;
-    if (!assignee || assignee === '') {
-      const parentTask = await query(
-        'SELECT assignee FROM task WHERE id = $1',
-        [task_id]
+    const parentTask = await TaskRepository.findById(task_id);
+    if (!parentTask) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
       );
-      if (parentTask.length > 0 && parentTask[0].assignee) {
-        finalAssignee = parentTask[0].assignee;
-      }
     }
 
-    // Convert empty strings to null for nullable fields, and extract date part only
-    const sanitizedDueDate = due_date === '' ? null : (due_date ? due_date.split('T')[0] : null);
-    const sanitizedAssignee = finalAssignee === '' ? null : finalAssignee || null;
-    const sanitizedNote = note === '' ? null : note || null;
-
-    const result = await query(
-      `INSERT INTO event (name, task_id, due_date, assignee, status, note)
-       VALUES ($1, $2, $3::DATE, $4, $5, $6)
-       RETURNING id, name, task_id, due_date::DATE::TEXT as due_date, assignee, status, note, created_at, updated_at`,
-      [name, task_id, sanitizedDueDate, sanitizedAssignee, status || 'ToDo', sanitizedNote]
-    );
-
-    return NextResponse.json({ event: result[0] });
+    // Use the parent task's assignee if event assignee is not provided
+    const finalAssignee = assignee.assigneeId || parentTask.assignee_id;
+
+    const event = await EventRepository.create({
+      name,
+      task_id,
+      due_date: due_date ?? null,
+      assignee_id: finalAssignee,
+      status: status || 'ToDo',
+      note: note ?? null,
+    });
+
+    await recordStatusChange({
+      entityType: 'event',
+      entityId: event.id,
+      entityName: event.name,
+      taskId: event.task_id,
+      fromStatus: null,
+      toStatus: event.status,
+      changedBy: getRequestActor(request),
+    });
+    await recordAudit(request, {
+      entityType: 'event',
+      entityId: event.id,
+      action: 'create',
+      after: await getAuditSnapshot('event', event.id),
+    });
+
+    return NextResponse.json({ event });
   } catch (error) {
     console.error('Error creating event:', error);
+    const failure = toErrorResult(error, 'Failed to create event');
     return NextResponse.json(
-      { error: 'Failed to create event' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
 
 export async function PUT(request: Request) {
   try {
-    const body = await request.json();
-    const { id, name, task_id, due_date, assignee, status, note } = body;
-
-    if (!id) {
-      return NextResponse.json(
-        { error: 'Event ID is required' },
-        { status: 400 }
-      );
+    // The update only applies while version (the one the client loaded) is current
+    const parsed = validate(eventUpdateSchema, await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error, errors: parsed.errors }, { status: parsed.status });
     }
+    const { id, name, task_id, due_date, status, note, version } = parsed.value;
 
-    // Validate note length
-    if (note && note.length > 1000) {
-      return NextResponse.json(
-        { error: 'メモは1000文字以内で入力してください' },
-        { status: 400 }
-      );
+    const assignee = await MemberRepository.resolveAssigneeId(parsed.value.assignee_id);
+    if ('error' in assignee) {
+      return NextResponse.json({ error: assignee.error }, { status: assignee.status });
     }
 
-    // Convert empty strings to null for nullable fields, and extract date part only
-    const sanitizedDueDate = due_date === '' ? null : (due_date ? due_date.split('T')[0] : null);
-    const sanitizedAssignee = assignee === '' ? null : assignee;
-    const sanitizedNote = note === '' ? null : note;
-
-    const result = await query(
-      `UPDATE event
-       SET name = COALESCE($1, name),
-           task_id = COALESCE($2, task_id),
-           due_date = $3::DATE,
-           assignee = $4,
-           status = COALESCE($5, status),
-           note = $6,
-           updated_at = CURRENT_TIMESTAMP
-       WHERE id = $7
-       RETURNING id, name, task_id, due_date::DATE::TEXT as due_date, assignee, status, note, created_at, updated_at`,
-      [name, task_id, sanitizedDueDate, sanitizedAssignee, status, sanitizedNote, id]
-    );
-
-    if (result.length === 0) {
+    // The event, its status history and its audit entry are written together or not at all
+    const result = await withTransaction<{ event: Event } | null>(async client => {
+      const before = await getAuditSnapshot('event', id, client);
+
+      const updated = await EventRepository.update(id, version, {
+        name,
+        task_id,
+        due_date,
+        assignee_id: assignee.assigneeId,
+        status,
+        note,
+      }, client);
+      if (!updated) return null;
+
+      const { event, previousStatus } = updated;
+      await recordStatusChange({
+        entityType: 'event',
+        entityId: event.id,
+        entityName: event.name,
+        taskId: event.task_id,
+        fromStatus: previousStatus,
+        toStatus: event.status,
+        changedBy: getRequestActor(request),
+      }, client);
+      await recordAudit(request, {
+        entityType: 'event',
+        entityId: id,
+        action: 'update',
+        before,
+        after: await getAuditSnapshot('event', id, client),
+      }, client);
+      return { event };
+    });
+
+    if (!result) {
+      // Still there, so someone else updated it since the client loaded it
+      const current = await EventRepository.findById(id);
+      if (current) {
+        return NextResponse.json(
+          { error: VERSION_CONFLICT_MESSAGE, event: current },
+          { status: 409 }
+        );
+      }
       return NextResponse.json(
         { error: 'Event not found' },
         { status: 404 }
       );
     }
 
-    return NextResponse.json({ event: result[0] });
+    return NextResponse.json({ event: result.event });
   } catch (error) {
     console.error('Error updating event:', error);
+    const failure = toErrorResult(error, 'Failed to update event');
     return NextResponse.json(
-      { error: 'Failed to update event' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
 
 export async function DELETE(request: Request) {
   try {
-    const body = await request.json();
-    const { id } = body;
-
-    if (!id) {
-      return NextResponse.json(
-        { error: 'Event ID is required' },
-        { status: 400 }
-      );
+    const parsed = validate(eventDeleteSchema, await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error, errors: parsed.errors }, { status: parsed.status });
+    }
+    const { id } = parsed.value;
+
+    // Moves the event to the trash
+    const before = await getAuditSnapshot('event', id);
+    if (await trashRow('event', id)) {
+      await recordAudit(request, {
+        entityType: 'event',
+        entityId: id,
+        action: 'delete',
+        before,
+        after: await getAuditSnapshot('event', id),
+      });
     }
-
-    await query('DELETE FROM event WHERE id = $1', [id]);
 
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting event:', error);
+    const failure = toErrorResult(error, 'Failed to delete event');
     return NextResponse.json(
-      { error: 'Failed to delete event' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
@@ -1,88 +1,103 @@
 import { NextResponse } from 'next/server';
-import { query } from '@/lib/db';
+import { withTransaction } from '@/lib/db';
+import { getAuditSnapshot, recordAudit } from '@/lib/auditQueries';
+import { MemberRepository } from '@/lib/memberRepository';
+import { toErrorResult } from '@/lib/dbErrors';
+import { validate } from '@/lib/validation';
+import { memberCreateSchema, memberUpdateSchema } from '@/lib/schemas';
 
-export async function GET() {
+// Active members by default; include_inactive=true also lists inactive ones
+export async function GET(request: Request) {
   try {
-    const members = await query(
-      'SELECT * FROM member WHERE is_active = true ORDER BY name'
-    );
+    const { searchParams } = new URL(request.url);
+    const includeInactive = searchParams.get('include_inactive') === 'true';
+
+    const members = await MemberRepository.list(includeInactive);
 
     return NextResponse.json({ members });
   } catch (error) {
     console.error('Error fetching members:', error);
+    const failure = toErrorResult(error, 'Failed to fetch members');
     return NextResponse.json(
-      { error: 'Failed to fetch members' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
-    const { name, email, role, is_active } = body;
-
-    if (!name) {
-      return NextResponse.json(
-        { error: 'Name is required' },
-        { status: 400 }
-      );
+    const parsed = validate(memberCreateSchema, await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error, errors: parsed.errors }, { status: parsed.status });
     }
+    const { name, email, role, is_active } = parsed.value;
 
-    const result = await query(
-      `INSERT INTO member (name, email, role, is_active)
-       VALUES ($1, $2, $3, $4)
-       RETURNING *`,
-      [name, email || null, role || null, is_active ?? true]
-    );
+    const member = await MemberRepository.create({
+      name,
+      email: email ?? null,
+      role: role ?? null,
+      is_active: is_active ?? true,
+    });
+
+    await recordAudit(request, {
+      entityType: 'member',
+      entityId: member.id,
+      action: 'create',
+      after: await getAuditSnapshot('member', member.id),
+    });
 
-    return NextResponse.json({ member: result[0] });
+    return NextResponse.json({ member });
   } catch (error) {
     console.error('Error creating member:', error);
+    const failure = toErrorResult(error, 'Failed to create member');
     return NextResponse.json(
-      { error: 'Failed to create member' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
 
 export async function PUT(request: Request) {
   try {
-    const body = await request.json();
-    const { id, name, email, role, is_active } = body;
-
-    if (!id) {
-      return NextResponse.json(
-        { error: 'Member ID is required' },
-        { status: 400 }
-      );
+    const parsed = validate(memberUpdateSchema, await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error, errors: parsed.errors }, { status: parsed.status });
     }
+    const { id, name, email, role, is_active } = parsed.value;
 
-    const result = await query(
-      `UPDATE member
-       SET name = COALESCE($1, name),
-           email = $2,
-           role = $3,
-           is_active = COALESCE($4, is_active),
-           updated_at = CURRENT_TIMESTAMP
-       WHERE id = $5
-       RETURNING *`,
-      [name, email, role, is_active, id]
-    );
+    // The member and its audit entry are written together or not at all. A
+    // deactivated member's open tasks and events keep them as assignee, and
+    // are read as unassigned
+    const member = await withTransaction(async client => {
+      const before = await getAuditSnapshot('member', id, client);
+      const updated = await MemberRepository.update(id, { name, email, role, is_active }, client);
+      if (!updated) return null;
 
-    if (result.length === 0) {
+      await recordAudit(request, {
+        entityType: 'member',
+        entityId: id,
+        action: 'update',
+        before,
+        after: await getAuditSnapshot('member', id, client),
+      }, client);
+      return updated;
+    });
+
+    if (!member) {
       return NextResponse.json(
         { error: 'Member not found' },
         { status: 404 }
       );
     }
 
-    return NextResponse.json({ member: result[0] });
+    return NextResponse.json({ member });
   } catch (error) {
     console.error('Error updating member:', error);
+    const failure = toErrorResult(error, 'Failed to update member');
     return NextResponse.json(
-      { error: 'Failed to update member' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
@@ -99,14 +114,25 @@ export async function DELETE(request: Request) {
       );
     }
 
-    await query('DELETE FROM member WHERE id = $1', [id]);
+    // Moves the member to the trash; their open tasks and events read as unassigned until restored
+    const before = await getAuditSnapshot('member', id);
+    if (await MemberRepository.trash(id)) {
+      await recordAudit(request, {
+        entityType: 'member',
+        entityId: id,
+        action: 'delete',
+        before,
+        after: await getAuditSnapshot('member', id),
+      });
+    }
 
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting member:', error);
+    const failure = toErrorResult(error, 'Failed to delete member');
     return NextResponse.json(
-      { error: 'Failed to delete member' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
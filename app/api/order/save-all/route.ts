@@ -1,17 +1,164 @@
 import { NextResponse } from 'next/server';
-import { query } from '@/lib/db';
-
-interface SaveOrderRequest {
-  categories: string[];
-  subcategories: Record<string, string[]>;
-  tasks: Record<string, string[]>; // key: "category|subcategory", value: task IDs in order
-  expandedCategories: string[]; // List of expanded category names
-  expandedSubcategories: string[]; // List of expanded subcategory keys "category|subcategory"
+import type { PoolClient } from 'pg';
+import { query, withTransaction } from '@/lib/db';
+import { toOrderSnapshot } from '@/lib/audit';
+import { recordAudit } from '@/lib/auditQueries';
+import { generateRanks } from '@/lib/rank';
+import { toErrorResult } from '@/lib/dbErrors';
+import { Infer, validate } from '@/lib/validation';
+import { saveOrderSchema } from '@/lib/schemas';
+
+type SaveOrderRequest = Infer<typeof saveOrderSchema>;
+
+// Rows per INSERT / UPDATE statement
+const BATCH_SIZE = 500;
+
+/**
+ * Run a statement once per batch of rows, with the rows as a VALUES list
+ *
+ * buildSql receives the VALUES list, e.g. "($1::UUID, $2::INT8), ($3::UUID, $4::INT8)".
+ * Returns the total number of affected rows.
+ */
+async function runBatched(
+  client: PoolClient,
+  rows: unknown[][],
+  columnTypes: string[],
+  buildSql: (valuesList: string) => string
+): Promise<number> {
+  let affected = 0;
+
+  for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+    const batch = rows.slice(start, start + BATCH_SIZE);
+    const params: unknown[] = [];
+    const valuesList = batch
+      .map(row => {
+        const placeholders = row.map((value, i) => {
+          params.push(value);
+          return `$${params.length}::${columnTypes[i]}`;
+        });
+        return `(${placeholders.join(', ')})`;
+      })
+      .join(', ');
+
+    const result = await client.query(buildSql(valuesList), params);
+    affected += result.rowCount ?? 0;
+  }
+
+  return affected;
+}
+
+/**
+ * Write all orders and expand states; returns the number of updated tasks
+ */
+async function writeOrder(client: PoolClient, body: SaveOrderRequest): Promise<number> {
+  const { categories, subcategories, tasks } = body;
+  // Every list gets fresh evenly spaced ranks
+  const withRanks = (keys: string[]) => {
+    const ranks = generateRanks(keys.length);
+    return keys.map((key, i) => [key, ranks[i]]);
+  };
+  const subcategoryRows = Object.entries(subcategories).flatMap(([category, subCategoryList]) =>
+    withRanks(subCategoryList).map(([subCategory, rank]) => [category, subCategory, rank])
+  );
+
+  // 1. Category order
+  await runBatched(
+    client,
+    withRanks(categories),
+    ['STRING', 'STRING'],
+    values => `INSERT INTO category_order (category, rank)
+               VALUES ${values}
+               ON CONFLICT (category)
+               DO UPDATE SET rank = excluded.rank`
+  );
+
+  // 2. Subcategory order
+  await runBatched(
+    client,
+    subcategoryRows,
+    ['STRING', 'STRING', 'STRING'],
+    values => `INSERT INTO subcategory_order (category, sub_category, rank)
+               VALUES ${values}
+               ON CONFLICT (category, sub_category)
+               DO UPDATE SET rank = excluded.rank`
+  );
+
+  // 3. Task order (tasks that no longer exist are skipped)
+  const taskUpdateCount = await runBatched(
+    client,
+    Object.values(tasks).flatMap(withRanks),
+    ['UUID', 'STRING'],
+    values => `UPDATE task SET rank = v.rank
+               FROM (VALUES ${values}) AS v (id, rank)
+               WHERE task.id = v.id`
+  );
+
+  // 4. Category expand state
+  const expandedCategoriesSet = new Set(body.expandedCategories || []);
+  await runBatched(
+    client,
+    categories.map(category => [category, expandedCategoriesSet.has(category)]),
+    ['STRING', 'BOOL'],
+    values => `INSERT INTO category_expand_state (category, is_expanded)
+               VALUES ${values}
+               ON CONFLICT (category)
+               DO UPDATE SET is_expanded = excluded.is_expanded, updated_at = CURRENT_TIMESTAMP`
+  );
+
+  // 5. Subcategory expand state
+  const expandedSubcategoriesSet = new Set(body.expandedSubcategories || []);
+  await runBatched(
+    client,
+    subcategoryRows.map(([category, subCategory]) => [
+      category,
+      subCategory,
+      expandedSubcategoriesSet.has(`${category}|${subCategory}`),
+    ]),
+    ['STRING', 'STRING', 'BOOL'],
+    values => `INSERT INTO subcategory_expand_state (category, sub_category, is_expanded)
+               VALUES ${values}
+               ON CONFLICT (category, sub_category)
+               DO UPDATE SET is_expanded = excluded.is_expanded, updated_at = CURRENT_TIMESTAMP`
+  );
+
+  return taskUpdateCount;
+}
+
+// Current orders and expand states touched by a save, for the audit log
+async function getOrderState(taskIds: string[]) {
+  const [categoryOrders, subcategoryOrders, taskOrders, categoryStates, subcategoryStates] = await Promise.all([
+    query('SELECT category, rank FROM category_order'),
+    query('SELECT category, sub_category, rank FROM subcategory_order'),
+    query('SELECT id, rank FROM task WHERE id = ANY($1::UUID[])', [taskIds]),
+    query<{ category: string; is_expanded: boolean }>('SELECT category, is_expanded FROM category_expand_state'),
+    query<{ category: string; sub_category: string; is_expanded: boolean }>(
+      'SELECT category, sub_category, is_expanded FROM subcategory_expand_state'
+    ),
+  ]);
+
+  return {
+    category_order: toOrderSnapshot(categoryOrders, row => String(row.category)),
+    subcategory_order: toOrderSnapshot(subcategoryOrders, row => `${row.category}|${row.sub_category}`),
+    task_order: toOrderSnapshot(taskOrders, row => String(row.id)),
+    category_expand_state: Object.fromEntries(categoryStates.map(row => [row.category, row.is_expanded])),
+    subcategory_expand_state: Object.fromEntries(
+      subcategoryStates.map(row => [`${row.category}|${row.sub_category}`, row.is_expanded])
+    ),
+  };
 }
 
 export async function POST(request: Request) {
   try {
-    const body: SaveOrderRequest = await request.json();
+    // The whole payload is checked before anything is written
+    const parsed = validate(saveOrderSchema, await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { success: false, error: parsed.error, errors: parsed.errors },
+        { status: parsed.status }
+      );
+    }
+
+    const body = parsed.value;
     const { categories, subcategories, tasks, expandedCategories, expandedSubcategories } = body;
 
     console.log('[SAVE_ORDER] Starting bulk order save...');
@@ -21,85 +168,22 @@ export async function POST(request: Request) {
     console.log('[SAVE_ORDER] Expanded categories:', expandedCategories?.length || 0);
     console.log('[SAVE_ORDER] Expanded subcategories:', expandedSubcategories?.length || 0);
 
-    // 1. Save category order
-    console.log('[SAVE_ORDER] Saving category order...');
-    for (let i = 0; i < categories.length; i++) {
-      const category = categories[i];
-      await query(
-        `INSERT INTO category_order (category, display_order)
-         VALUES ($1, $2)
-         ON CONFLICT (category)
-         DO UPDATE SET display_order = $2`,
-        [category, i]
-      );
-    }
-
-    // 2. Save subcategory order
-    console.log('[SAVE_ORDER] Saving subcategory order...');
-    for (const category in subcategories) {
-      const subCategoryList = subcategories[category];
-      for (let i = 0; i < subCategoryList.length; i++) {
-        const subCategory = subCategoryList[i];
-        await query(
-          `INSERT INTO subcategory_order (category, sub_category, display_order)
-           VALUES ($1, $2, $3)
-           ON CONFLICT (category, sub_category)
-           DO UPDATE SET display_order = $3`,
-          [category, subCategory, i]
-        );
-      }
-    }
-
-    // 3. Save task order
-    console.log('[SAVE_ORDER] Saving task order...');
-    let taskUpdateCount = 0;
-    for (const key in tasks) {
-      const taskIds = tasks[key];
-      for (let i = 0; i < taskIds.length; i++) {
-        const taskId = taskIds[i];
-        await query(
-          `UPDATE task SET display_order = $1 WHERE id = $2`,
-          [i, taskId]
-        );
-        taskUpdateCount++;
-      }
-    }
+    const taskIds = Object.values(tasks).flat();
+    const before = await getOrderState(taskIds);
 
-    // 4. Save category expand state
-    console.log('[SAVE_ORDER] Saving category expand state...');
-    const expandedCategoriesSet = new Set(expandedCategories || []);
-    for (const category of categories) {
-      const isExpanded = expandedCategoriesSet.has(category);
-      await query(
-        `INSERT INTO category_expand_state (category, is_expanded)
-         VALUES ($1, $2)
-         ON CONFLICT (category)
-         DO UPDATE SET is_expanded = $2, updated_at = CURRENT_TIMESTAMP`,
-        [category, isExpanded]
-      );
-    }
-
-    // 5. Save subcategory expand state
-    console.log('[SAVE_ORDER] Saving subcategory expand state...');
-    const expandedSubcategoriesSet = new Set(expandedSubcategories || []);
-    for (const category in subcategories) {
-      const subCategoryList = subcategories[category];
-      for (const subCategory of subCategoryList) {
-        const key = `${category}|${subCategory}`;
-        const isExpanded = expandedSubcategoriesSet.has(key);
-        await query(
-          `INSERT INTO subcategory_expand_state (category, sub_category, is_expanded)
-           VALUES ($1, $2, $3)
-           ON CONFLICT (category, sub_category)
-           DO UPDATE SET is_expanded = $3, updated_at = CURRENT_TIMESTAMP`,
-          [category, subCategory, isExpanded]
-        );
-      }
-    }
+    // Either every row is written or none is
+    const taskUpdateCount = await withTransaction(client => writeOrder(client, body));
 
     console.log('[SAVE_ORDER] Order saved successfully');
     console.log(`[SAVE_ORDER] Updated ${taskUpdateCount} tasks`);
 
+    await recordAudit(request, {
+      entityType: 'order',
+      action: 'update',
+      before,
+      after: await getOrderState(taskIds),
+    });
+
     return NextResponse.json({
       success: true,
       message: '並び順と展開状態を保存しました',
@@ -114,13 +198,14 @@ export async function POST(request: Request) {
 
   } catch (error) {
     console.error('[SAVE_ORDER] Error saving order:', error);
+    const failure = toErrorResult(error, '並び順の保存に失敗しました');
     return NextResponse.json(
       {
         success: false,
-        error: '並び順の保存に失敗しました',
+        error: failure.error,
         details: error instanceof Error ? error.message : 'Unknown error'
       },
-      { status: 500 }
+      { status: failure.status }
     );
   }
 }
@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { recordAudit } from '@/lib/auditQueries';
+import { getRequestActor, isPersonalActor } from '@/lib/requestActor';
+import {
+  isPreferenceScope,
+  isViewPreferenceKey,
+  VIEW_PREFERENCE_KEYS,
+  ViewPreferenceKey,
+} from '@/lib/viewPreferences';
+import {
+  deleteUserViewPreferences,
+  getViewPreferences,
+  saveViewPreferences,
+} from '@/lib/viewPreferencesQueries';
+import { toErrorResult } from '@/lib/dbErrors';
+
+const unknownUserResponse = () =>
+  NextResponse.json(
+    { error: 'Could not identify the user' },
+    { status: 401 }
+  );
+
+// The user's preferences: the team default overlaid with the user's own values.
+// personal is false for the shared account, whose own values everyone using it shares.
+export async function GET(request: Request) {
+  try {
+    const owner = getRequestActor(request);
+    if (!owner) return unknownUserResponse();
+
+    const [team, user] = await Promise.all([
+      getViewPreferences('team', owner),
+      getViewPreferences('user', owner),
+    ]);
+
+    return NextResponse.json({ preferences: { ...team, ...user }, team, user, personal: isPersonalActor(owner) });
+  } catch (error) {
+    console.error('Error fetching preferences:', error);
+    const failure = toErrorResult(error, 'Failed to fetch preferences');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
+
+// Save { values: { key: value } } for the user, or as the team default with
+// ?scope=team. A null value removes the stored value.
+export async function PUT(request: Request) {
+  try {
+    const owner = getRequestActor(request);
+    if (!owner) return unknownUserResponse();
+
+    const { searchParams } = new URL(request.url);
+    const scope = searchParams.get('scope') || 'user';
+    if (!isPreferenceScope(scope)) {
+      return NextResponse.json(
+        { error: 'scope must be user or team' },
+        { status: 400 }
+      );
+    }
+
+    const { values } = await request.json();
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      return NextResponse.json(
+        { error: 'values object is required' },
+        { status: 400 }
+      );
+    }
+
+    const invalidKeys = Object.keys(values).filter(key => !isViewPreferenceKey(key));
+    if (invalidKeys.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown preference keys: ${invalidKeys.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const before = scope === 'team' ? await getViewPreferences('team', owner) : null;
+    await saveViewPreferences(scope, owner, values);
+
+    // Personal preferences change on every scroll or toggle, so only the
+    // shared team default is worth an audit entry
+    if (scope === 'team') {
+      await recordAudit(request, {
+        entityType: 'view_preference',
+        entityId: 'team',
+        action: 'update',
+        before,
+        after: await getViewPreferences('team', owner),
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error saving preferences:', error);
+    const failure = toErrorResult(error, 'Failed to save preferences');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
+
+// Remove the user's own values (?key=... repeated, or all keys) so the team default applies
+export async function DELETE(request: Request) {
+  try {
+    const owner = getRequestActor(request);
+    if (!owner) return unknownUserResponse();
+
+    const { searchParams } = new URL(request.url);
+    const requestedKeys = searchParams.getAll('key');
+    if (requestedKeys.some(key => !isViewPreferenceKey(key))) {
+      return NextResponse.json(
+        { error: 'Unknown preference key' },
+        { status: 400 }
+      );
+    }
+
+    const keys = requestedKeys.length > 0
+      ? (requestedKeys as ViewPreferenceKey[])
+      : [...VIEW_PREFERENCE_KEYS];
+    await deleteUserViewPreferences(owner, keys);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error resetting preferences:', error);
+    const failure = toErrorResult(error, 'Failed to reset preferences');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
@@ -1,5 +1,14 @@
 import { NextResponse } from 'next/server';
-import { query } from '@/lib/db';
+import { query, withTransaction } from '@/lib/db';
+import { toOrderSnapshot } from '@/lib/audit';
+import { recordAudit } from '@/lib/auditQueries';
+import { getGroupRanks, getNextRank, moveRankedRow, RANK_ORDER, RankedRow } from '@/lib/rankQueries';
+import { toErrorResult } from '@/lib/dbErrors';
+import { validate } from '@/lib/validation';
+import { subcategoryOrderSchema } from '@/lib/schemas';
+
+const getOrders = (category: string) =>
+  query(`SELECT * FROM subcategory_order WHERE category = $1 ORDER BY ${RANK_ORDER}`, [category]);
 
 export async function GET(request: Request) {
   try {
@@ -8,112 +17,97 @@ export async function GET(request: Request) {
 
     let orders;
     if (category) {
-      orders = await query(
-        'SELECT * FROM subcategory_order WHERE category = $1 ORDER BY display_order',
-        [category]
-      );
+      orders = await getOrders(category);
     } else {
-      orders = await query('SELECT * FROM subcategory_order ORDER BY category, display_order');
+      orders = await query(`SELECT * FROM subcategory_order ORDER BY category, ${RANK_ORDER}`);
     }
 
     return NextResponse.json({ orders });
   } catch (error) {
     console.error('Error fetching subcategory orders:', error);
+    const failure = toErrorResult(error, 'Failed to fetch subcategory orders');
     return NextResponse.json(
-      { error: 'Failed to fetch subcategory orders' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
 
+// Record a subcategory order change within a category as { sub_category: rank } snapshots
+async function recordOrderAudit(
+  request: Request,
+  category: string,
+  before: RankedRow[],
+  after: RankedRow[]
+) {
+  await recordAudit(request, {
+    entityType: 'subcategory_order',
+    entityId: category,
+    action: 'update',
+    before: toOrderSnapshot(before, row => String(row.key)),
+    after: toOrderSnapshot(after, row => String(row.key)),
+  });
+}
+
+// Move one subcategory within its category: { category, sub_category,
+// previous_sub_category } places it right after previous_sub_category (null:
+// first); { category, sub_category, direction: 'up' | 'down' } swaps it with
+// its neighbour. Only the moved subcategory's rank changes.
 export async function PUT(request: Request) {
   try {
-    const { category, sub_category, direction } = await request.json();
-
-    if (!category || !sub_category || !direction) {
-      return NextResponse.json(
-        { error: 'Category, sub_category, and direction are required' },
-        { status: 400 }
-      );
+    const parsed = validate(subcategoryOrderSchema, await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error, errors: parsed.errors }, { status: parsed.status });
     }
+    const { category, sub_category, direction } = parsed.value;
 
-    // Get all subcategories for this category ordered by display_order
-    const allOrders = await query(
-      'SELECT * FROM subcategory_order WHERE category = $1 ORDER BY display_order',
-      [category]
-    );
+    const group = [category];
+    const allOrders = await getGroupRanks('subcategory', group);
 
-    // If this subcategory doesn't exist in the order table, add it
-    const existingIndex = allOrders.findIndex(
-      (o: any) => o.sub_category === sub_category
-    );
-
-    if (existingIndex === -1) {
-      // Insert new subcategory at the end for this category
-      const maxOrder = allOrders.length > 0
-        ? Math.max(...allOrders.map((o: any) => o.display_order))
-        : -1;
-      await query(
-        'INSERT INTO subcategory_order (category, sub_category, display_order) VALUES ($1, $2, $3)',
-        [category, sub_category, maxOrder + 1]
-      );
-      const updatedOrders = await query(
-        'SELECT * FROM subcategory_order WHERE category = $1 ORDER BY display_order',
-        [category]
+    // If this subcategory doesn't exist in the order table, add it at the end for this category
+    if (!allOrders.some(order => order.key === sub_category)) {
+      await withTransaction(async client =>
+        client.query(
+          'INSERT INTO subcategory_order (category, sub_category, rank) VALUES ($1, $2, $3)',
+          [category, sub_category, await getNextRank(client, 'subcategory', group)]
+        )
       );
-      return NextResponse.json({ orders: updatedOrders });
+      await recordOrderAudit(request, category, allOrders, await getGroupRanks('subcategory', group));
+      return NextResponse.json({ orders: await getOrders(category) });
     }
 
-    const currentOrder = allOrders[existingIndex].display_order;
+    const keys = allOrders.map(order => order.key);
+    const index = keys.indexOf(sub_category);
+    let previousSubCategory: string | null;
 
     if (direction === 'up') {
-      if (existingIndex === 0) {
-        // Already at the top
-        return NextResponse.json({ orders: allOrders });
-      }
-
-      const prevOrder = allOrders[existingIndex - 1].display_order;
-      const prevSubCategory = allOrders[existingIndex - 1].sub_category;
-
-      // Swap orders
-      await query(
-        'UPDATE subcategory_order SET display_order = $1 WHERE category = $2 AND sub_category = $3',
-        [prevOrder, category, sub_category]
-      );
-      await query(
-        'UPDATE subcategory_order SET display_order = $1 WHERE category = $2 AND sub_category = $3',
-        [currentOrder, category, prevSubCategory]
-      );
+      // Already at the top
+      if (index === 0) return NextResponse.json({ orders: await getOrders(category) });
+      previousSubCategory = keys[index - 2] ?? null;
     } else if (direction === 'down') {
-      if (existingIndex === allOrders.length - 1) {
-        // Already at the bottom
-        return NextResponse.json({ orders: allOrders });
-      }
-
-      const nextOrder = allOrders[existingIndex + 1].display_order;
-      const nextSubCategory = allOrders[existingIndex + 1].sub_category;
+      // Already at the bottom
+      if (index === keys.length - 1) return NextResponse.json({ orders: await getOrders(category) });
+      previousSubCategory = keys[index + 1];
+    } else {
+      previousSubCategory = parsed.value.previous_sub_category ?? null;
+    }
 
-      // Swap orders
-      await query(
-        'UPDATE subcategory_order SET display_order = $1 WHERE category = $2 AND sub_category = $3',
-        [nextOrder, category, sub_category]
-      );
-      await query(
-        'UPDATE subcategory_order SET display_order = $1 WHERE category = $2 AND sub_category = $3',
-        [currentOrder, category, nextSubCategory]
+    const result = await moveRankedRow('subcategory', group, sub_category, previousSubCategory);
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
       );
     }
 
-    const updatedOrders = await query(
-      'SELECT * FROM subcategory_order WHERE category = $1 ORDER BY display_order',
-      [category]
-    );
-    return NextResponse.json({ orders: updatedOrders });
+    await recordOrderAudit(request, category, allOrders, await getGroupRanks('subcategory', group));
+    return NextResponse.json({ orders: await getOrders(category) });
   } catch (error) {
     console.error('Error updating subcategory order:', error);
+    const failure = toErrorResult(error, 'Failed to update subcategory order');
     return NextResponse.json(
-      { error: 'Failed to update subcategory order' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { getTableSchema } from '@/lib/db';
+import { toErrorResult } from '@/lib/dbErrors';
 
 export async function GET(
   request: Request,
@@ -11,9 +12,10 @@ export async function GET(
     return NextResponse.json({ schema });
   } catch (error) {
     console.error('Error fetching table schema:', error);
+    const failure = toErrorResult(error, 'Failed to fetch table schema');
     return NextResponse.json(
-      { error: 'Failed to fetch table schema' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { getTableNames } from '@/lib/db';
+import { toErrorResult } from '@/lib/dbErrors';
 
 export async function GET() {
   try {
@@ -7,9 +8,10 @@ export async function GET() {
     return NextResponse.json({ tables });
   } catch (error) {
     console.error('Error fetching tables:', error);
+    const failure = toErrorResult(error, 'Failed to fetch tables');
     return NextResponse.json(
-      { error: 'Failed to fetch tables' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
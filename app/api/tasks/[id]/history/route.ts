@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { getTaskStatusHistory } from '@/lib/statusHistoryQueries';
+import { toErrorResult } from '@/lib/dbErrors';
+
+// Status transitions of a task and of its events, newest first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const tasks = await query('SELECT id FROM task WHERE id = $1 AND deleted_at IS NULL', [id]);
+    if (tasks.length === 0) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
+    const history = await getTaskStatusHistory(id);
+
+    return NextResponse.json({ history });
+  } catch (error) {
+    console.error('Error fetching task status history:', error);
+    const failure = toErrorResult(error, 'Failed to fetch task status history');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
@@ -0,0 +1,203 @@
+import { NextResponse } from 'next/server';
+import { query, withTransaction } from '@/lib/db';
+import { getAuditSnapshot, recordAudit } from '@/lib/auditQueries';
+import { TaskDependency, wouldCreateCycle } from '@/lib/taskDependency';
+import { toErrorResult } from '@/lib/dbErrors';
+import { validate } from '@/lib/validation';
+import { dependencyCreateSchema, dependencyUpdateSchema } from '@/lib/schemas';
+
+const DEPENDENCY_COLUMNS = 'id, predecessor_id, successor_id, dependency_type, lag_days::INT4 as lag_days, created_at, updated_at';
+
+// Links to a trashed task are kept for a restore but hidden until then
+const ACTIVE_DEPENDENCY_CONDITION = `NOT EXISTS (
+  SELECT 1 FROM task t
+  WHERE t.id IN (predecessor_id, successor_id) AND t.deleted_at IS NOT NULL
+)`;
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const taskId = searchParams.get('task_id');
+
+    let dependencies;
+    if (taskId) {
+      dependencies = await query<TaskDependency>(
+        `SELECT ${DEPENDENCY_COLUMNS} FROM task_dependency
+         WHERE (predecessor_id = $1 OR successor_id = $1)
+         AND ${ACTIVE_DEPENDENCY_CONDITION}
+         ORDER BY created_at`,
+        [taskId]
+      );
+    } else {
+      dependencies = await query<TaskDependency>(
+        `SELECT ${DEPENDENCY_COLUMNS} FROM task_dependency
+         WHERE ${ACTIVE_DEPENDENCY_CONDITION}
+         ORDER BY created_at`
+      );
+    }
+
+    return NextResponse.json({ dependencies });
+  } catch (error) {
+    console.error('Error fetching task dependencies:', error);
+    const failure = toErrorResult(error, 'Failed to fetch task dependencies');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const parsed = validate(dependencyCreateSchema, await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error, errors: parsed.errors }, { status: parsed.status });
+    }
+    const { predecessor_id, successor_id, dependency_type, lag_days } = parsed.value;
+
+    // The checks and the insert run in one (serializable) transaction, so two
+    // links added at the same time cannot close a cycle together
+    const result = await withTransaction<{ dependency: TaskDependency } | { error: string; status: number }>(
+      async client => {
+        // Both ends of the link must exist
+        const tasks = await client.query<{ id: string }>(
+          'SELECT id FROM task WHERE id = ANY($1::UUID[]) AND deleted_at IS NULL',
+          [[predecessor_id, successor_id]]
+        );
+        if (tasks.rows.length !== 2) {
+          return { error: 'Task not found', status: 404 };
+        }
+
+        // Reject links that would close a cycle in the dependency graph
+        const existing = await client.query<Pick<TaskDependency, 'predecessor_id' | 'successor_id'>>(
+          'SELECT predecessor_id, successor_id FROM task_dependency'
+        );
+
+        if (existing.rows.some(dep => dep.predecessor_id === predecessor_id && dep.successor_id === successor_id)) {
+          return { error: 'この依存関係は既に登録されています', status: 409 };
+        }
+
+        if (wouldCreateCycle(existing.rows, predecessor_id, successor_id)) {
+          return { error: '循環する依存関係は登録できません', status: 409 };
+        }
+
+        const inserted = await client.query<TaskDependency>(
+          `INSERT INTO task_dependency (predecessor_id, successor_id, dependency_type, lag_days)
+           VALUES ($1, $2, $3, $4)
+           RETURNING ${DEPENDENCY_COLUMNS}`,
+          [predecessor_id, successor_id, dependency_type || 'FS', lag_days ?? 0]
+        );
+        return { dependency: inserted.rows[0] };
+      }
+    );
+
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { dependency } = result;
+    await recordAudit(request, {
+      entityType: 'task_dependency',
+      entityId: dependency.id,
+      action: 'create',
+      after: await getAuditSnapshot('task_dependency', dependency.id),
+    });
+
+    return NextResponse.json({ dependency });
+  } catch (error) {
+    console.error('Error creating task dependency:', error);
+    const failure = toErrorResult(error, 'Failed to create task dependency');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const parsed = validate(dependencyUpdateSchema, await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error, errors: parsed.errors }, { status: parsed.status });
+    }
+    const { id, dependency_type, lag_days } = parsed.value;
+
+    const before = await getAuditSnapshot('task_dependency', id);
+
+    const result = await query<TaskDependency>(
+      `UPDATE task_dependency
+       SET dependency_type = COALESCE($1, dependency_type),
+           lag_days = COALESCE($2, lag_days),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3
+       RETURNING ${DEPENDENCY_COLUMNS}`,
+      [dependency_type ?? null, lag_days ?? null, id]
+    );
+
+    if (result.length === 0) {
+      return NextResponse.json(
+        { error: 'Dependency not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(request, {
+      entityType: 'task_dependency',
+      entityId: id,
+      action: 'update',
+      before,
+      after: await getAuditSnapshot('task_dependency', id),
+    });
+
+    return NextResponse.json({ dependency: result[0] });
+  } catch (error) {
+    console.error('Error updating task dependency:', error);
+    const failure = toErrorResult(error, 'Failed to update task dependency');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Dependency ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const before = await getAuditSnapshot('task_dependency', id);
+    if (!before) {
+      return NextResponse.json(
+        { error: 'Dependency not found' },
+        { status: 404 }
+      );
+    }
+
+    await query('DELETE FROM task_dependency WHERE id = $1', [id]);
+    await recordAudit(request, {
+      entityType: 'task_dependency',
+      entityId: id,
+      action: 'delete',
+      before,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting task dependency:', error);
+    const failure = toErrorResult(error, 'Failed to delete task dependency');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
@@ -1,34 +1,58 @@
 import { NextResponse } from 'next/server';
 import { query } from '@/lib/db';
+import { toOrderSnapshot } from '@/lib/audit';
+import { recordAudit } from '@/lib/auditQueries';
+import { getGroupRanks, moveRankedRow } from '@/lib/rankQueries';
+import { toErrorResult } from '@/lib/dbErrors';
+import { validate } from '@/lib/validation';
+import { taskReorderSchema } from '@/lib/schemas';
 
+// Move one task within its subcategory: { id, previous_id } places the task
+// right after previous_id (null: first). Only the moved task's rank changes.
 export async function PUT(request: Request) {
   try {
-    const body = await request.json();
-    const { tasks } = body;
+    const parsed = validate(taskReorderSchema, await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error, errors: parsed.errors }, { status: parsed.status });
+    }
+    const { id, previous_id: previousId = null } = parsed.value;
 
-    if (!tasks || !Array.isArray(tasks)) {
+    const tasks = await query<{ category: string; sub_category: string }>(
+      'SELECT category, sub_category FROM task WHERE id = $1 AND deleted_at IS NULL',
+      [id]
+    );
+    if (tasks.length === 0) {
       return NextResponse.json(
-        { error: 'Tasks array is required' },
-        { status: 400 }
+        { error: 'Task not found' },
+        { status: 404 }
       );
     }
 
-    // Update display_order for each task
-    for (const task of tasks) {
-      if (task.id && typeof task.display_order === 'number') {
-        await query(
-          'UPDATE task SET display_order = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-          [task.display_order, task.id]
-        );
-      }
+    const group = [tasks[0].category, tasks[0].sub_category];
+    const before = await getGroupRanks('task', group);
+    const result = await moveRankedRow('task', group, id, previousId);
+
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
     }
 
-    return NextResponse.json({ success: true });
+    await recordAudit(request, {
+      entityType: 'task_order',
+      action: 'update',
+      before: toOrderSnapshot(before, row => String(row.key)),
+      after: toOrderSnapshot(await getGroupRanks('task', group), row => String(row.key)),
+    });
+
+    return NextResponse.json({ success: true, rank: result.rank });
   } catch (error) {
     console.error('Error reordering tasks:', error);
+    const failure = toErrorResult(error, 'Failed to reorder tasks');
     return NextResponse.json(
-      { error: 'Failed to reorder tasks' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
@@ -1,194 +1,286 @@
 import { NextResponse } from 'next/server';
-import { query } from '@/lib/db';
+import type { PoolClient } from 'pg';
+import { withTransaction } from '@/lib/db';
+import { loadWorkingCalendar } from '@/lib/workCalendarQueries';
+import { toDateKey, workingDaysBetween } from '@/lib/workingCalendar';
+import { buildTaskTree, getDescendantIds, rollupTaskHierarchy } from '@/lib/taskHierarchy';
+import { recordStatusChange } from '@/lib/statusHistoryQueries';
+import { getRequestActor } from '@/lib/requestActor';
+import { getAuditSnapshot, recordAudit } from '@/lib/auditQueries';
+import { trashTask } from '@/lib/trashQueries';
+import { VERSION_CONFLICT_MESSAGE } from '@/lib/concurrency';
+import { ensureTaskCategory } from '@/lib/categoryQueries';
+import { MemberRepository } from '@/lib/memberRepository';
+import { TaskRepository, TaskWithRelations } from '@/lib/taskRepository';
+import type { Task } from '@/lib/domain';
+import { validate } from '@/lib/validation';
+import { taskCreateSchema, taskUpdateSchema } from '@/lib/schemas';
+import { toErrorResult } from '@/lib/dbErrors';
+
+/**
+ * Check that parentTaskId can become the parent of taskId (null for a new task),
+ * reading with client when given
+ *
+ * Returns the parent task, or an error message with its HTTP status.
+ */
+async function resolveParentTask(
+  taskId: string | null,
+  parentTaskId: string,
+  client?: PoolClient
+): Promise<{ parent: Task } | { error: string; status: number }> {
+  if (taskId && parentTaskId === taskId) {
+    return { error: 'タスク自身を親タスクに指定することはできません', status: 400 };
+  }
+
+  const parent = await TaskRepository.findById(parentTaskId, client);
+  if (!parent) {
+    return { error: 'Parent task not found', status: 404 };
+  }
+  if (parent.kind === 'milestone') {
+    return { error: 'マイルストーンにはサブタスクを追加できません', status: 400 };
+  }
+
+  if (taskId) {
+    if (getDescendantIds(await TaskRepository.listHierarchy(client), taskId).has(parentTaskId)) {
+      return { error: 'サブタスクを親タスクに指定することはできません', status: 409 };
+    }
+  }
+
+  return { parent };
+}
 
 export async function GET() {
   try {
-    const tasks = await query(`
-      SELECT
-        t.id,
-        t.name,
-        t.category,
-        t.sub_category,
-        t.start_date::DATE::TEXT as start_date,
-        t.end_date::DATE::TEXT as end_date,
-        t.assignee,
-        t.status,
-        t.display_order,
-        t.note,
-        t.created_at,
-        t.updated_at,
-        COALESCE(
-          json_agg(
-            json_build_object(
-              'id', e.id,
-              'name', e.name,
-              'due_date', e.due_date::DATE::TEXT,
-              'assignee', e.assignee,
-              'status', e.status,
-              'task_id', e.task_id
-            )
-            ORDER BY e.due_date
-          ) FILTER (WHERE e.id IS NOT NULL),
-          '[]'
-        ) as events
-      FROM task t
-      LEFT JOIN event e ON t.id = e.task_id
-      GROUP BY t.id
-      ORDER BY t.category, t.sub_category, t.display_order, t.created_at
-    `);
-
-    // console.log('=== GET /api/tasks DEBUG ===');
-    // if (tasks.length > 0) {
-    //   console.log('Sample task dates from DB:');
-    //   console.log('First task start_date:', tasks[0]?.start_date);
-    //   console.log('First task end_date:', tasks[0]?.end_date);
-    //   console.log('First task start_date type:', typeof tasks[0]?.start_date);
-    // }
-    // console.log('=== END GET /api/tasks DEBUG ===');
-
-    return NextResponse.json({ tasks });
+    const [tasks, calendar] = await Promise.all([
+      TaskRepository.list(),
+      loadWorkingCalendar(),
+    ]);
+
+    // Working-day durations based on the default calendar
+    const today = toDateKey(new Date());
+    const getWorkingDays = (task: TaskWithRelations) => task.kind === 'milestone'
+      ? 0
+      : task.start_date && task.end_date
+        ? calendar.countWorkingDays(task.start_date, task.end_date)
+        : null;
+
+    const tasksWithWorkingDays = tasks.map(task => ({
+      ...task,
+      working_days: getWorkingDays(task),
+      events: task.events.map(event => ({
+        ...event,
+        working_days_remaining: event.due_date ? workingDaysBetween(calendar, today, event.due_date) : null,
+      })),
+    }));
+
+    // Summary tasks take their dates, status and progress (weighted by working days)
+    // from their subtasks, so their own working days are recounted afterwards
+    const rolledUpTasks = rollupTaskHierarchy(tasksWithWorkingDays).map(task =>
+      task.is_summary ? { ...task, working_days: getWorkingDays(task) } : task
+    );
+
+    return NextResponse.json({ tasks: rolledUpTasks, tree: buildTaskTree(tasks) });
   } catch (error) {
     console.error('Error fetching tasks:', error);
+    const failure = toErrorResult(error, 'Failed to fetch tasks');
     return NextResponse.json(
-      { error: 'Failed to fetch tasks' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
-    const { name, category, sub_category, start_date, end_date, assignee, status, display_order, note } = body;
+    // Dates come as YYYY-MM-DD and cleared fields as null
+    const parsed = validate(taskCreateSchema, await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error, errors: parsed.errors }, { status: parsed.status });
+    }
+    const { name, status, note, parent_task_id, kind, progress } = parsed.value;
+    let { category, sub_category, start_date, end_date } = parsed.value;
 
-    // console.log('=== POST /api/tasks DEBUG ===');
-    // console.log('Received start_date:', start_date);
-    // console.log('Received end_date:', end_date);
+    // Milestones have zero duration: a single date stored as both start and end
+    if (kind === 'milestone') {
+      start_date = start_date || end_date;
+      end_date = start_date;
+    }
 
-    if (!name || !category || !sub_category) {
-      return NextResponse.json(
-        { error: 'Name, category, and sub_category are required' },
-        { status: 400 }
-      );
+    // Subtasks always belong to their parent's category and sub_category
+    if (parent_task_id) {
+      const resolved = await resolveParentTask(null, parent_task_id);
+      if ('error' in resolved) {
+        return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+      }
+      category = resolved.parent.category;
+      sub_category = resolved.parent.sub_category;
     }
 
-    // Validate note length
-    if (note && note.length > 1000) {
+    if (!category || !sub_category) {
       return NextResponse.json(
-        { error: 'メモは1000文字以内で入力してください' },
+        { error: 'Name, category, and sub_category are required' },
         { status: 400 }
       );
     }
 
-    // Convert empty strings to null for nullable fields, and extract date part only
-    const sanitizedStartDate = start_date === '' ? null : (start_date ? start_date.split('T')[0] : null);
-    const sanitizedEndDate = end_date === '' ? null : (end_date ? end_date.split('T')[0] : null);
-    const sanitizedAssignee = assignee === '' ? null : assignee || null;
-    const sanitizedNote = note === '' ? null : note || null;
+    const assignee = await MemberRepository.resolveAssigneeId(parsed.value.assignee_id);
+    if ('error' in assignee) {
+      return NextResponse.json({ error: assignee.error }, { status: assignee.status });
+    }
 
-    // console.log('Sanitized start_date:', sanitizedStartDate);
-    // console.log('Sanitized end_date:', sanitizedEndDate);
+    const registered = await ensureTaskCategory(category, sub_category);
+    if ('error' in registered) {
+      return NextResponse.json({ error: registered.error }, { status: registered.status });
+    }
 
-    const result = await query(
-      `INSERT INTO task (name, category, sub_category, start_date, end_date, assignee, status, display_order, note)
-       VALUES ($1, $2, $3, $4::DATE, $5::DATE, $6, $7, COALESCE($8, (SELECT COALESCE(MAX(display_order), 0) + 1 FROM task)), $9)
-       RETURNING id, name, category, sub_category, start_date::DATE::TEXT as start_date, end_date::DATE::TEXT as end_date, assignee, status, display_order, note, created_at, updated_at`,
-      [name, category, sub_category, sanitizedStartDate, sanitizedEndDate, sanitizedAssignee, status || 'ToDo', display_order, sanitizedNote]
-    );
+    // New tasks go to the end of their subcategory
+    const task = await TaskRepository.create({
+      name,
+      category,
+      sub_category,
+      start_date: start_date ?? null,
+      end_date: end_date ?? null,
+      assignee_id: assignee.assigneeId ?? null,
+      status: status || 'ToDo',
+      note: note ?? null,
+      parent_task_id: parent_task_id || null,
+      kind: kind || 'task',
+      progress: progress ?? 0,
+    });
 
-    // console.log('DB returned start_date:', result[0]?.start_date);
-    // console.log('DB returned end_date:', result[0]?.end_date);
-    // console.log('=== END POST /api/tasks DEBUG ===');
+    await recordStatusChange({
+      entityType: 'task',
+      entityId: task.id,
+      entityName: task.name,
+      taskId: task.id,
+      fromStatus: null,
+      toStatus: task.status,
+      changedBy: getRequestActor(request),
+    });
+    await recordAudit(request, {
+      entityType: 'task',
+      entityId: task.id,
+      action: 'create',
+      after: await getAuditSnapshot('task', task.id),
+    });
 
-    return NextResponse.json({ task: result[0] });
+    return NextResponse.json({ task });
   } catch (error) {
     console.error('Error creating task:', error);
+    const failure = toErrorResult(error, 'Failed to create task');
     return NextResponse.json(
-      { error: 'Failed to create task' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
 
 export async function PUT(request: Request) {
   try {
-    const body = await request.json();
-    const { id, name, category, sub_category, start_date, end_date, assignee, status, display_order, note } = body;
-
-    // console.log('=== PUT /api/tasks DEBUG ===');
-    // console.log('Task ID:', id);
-    // console.log('Received start_date:', start_date);
-    // console.log('Received end_date:', end_date);
-
-    if (!id) {
-      return NextResponse.json(
-        { error: 'Task ID is required' },
-        { status: 400 }
-      );
+    // The update only applies while version (the one the client loaded) is current
+    const parsed = validate(taskUpdateSchema, await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error, errors: parsed.errors }, { status: parsed.status });
     }
+    const { id, name, start_date, end_date, status, display_order, note, kind, progress, version } = parsed.value;
+    // parent_task_id is only changed when given ('' or null moves the task to the top level)
+    const parentTaskId = parsed.value.parent_task_id;
 
-    // Validate note length
-    if (note && note.length > 1000) {
-      return NextResponse.json(
-        { error: 'メモは1000文字以内で入力してください' },
-        { status: 400 }
-      );
+    const assignee = await MemberRepository.resolveAssigneeId(parsed.value.assignee_id);
+    if ('error' in assignee) {
+      return NextResponse.json({ error: assignee.error }, { status: assignee.status });
     }
 
-    // Convert empty strings to null for nullable fields, and extract date part only
-    const sanitizedStartDate = start_date === '' ? null : (start_date ? start_date.split('T')[0] : null);
-    const sanitizedEndDate = end_date === '' ? null : (end_date ? end_date.split('T')[0] : null);
-    const sanitizedAssignee = assignee === '' ? null : assignee;
-    const sanitizedNote = note === '' ? null : note;
-
-    // console.log('Sanitized start_date:', sanitizedStartDate);
-    // console.log('Sanitized end_date:', sanitizedEndDate);
-
-    const result = await query(
-      `UPDATE task
-       SET name = COALESCE($1, name),
-           category = COALESCE($2, category),
-           sub_category = COALESCE($3, sub_category),
-           start_date = $4::DATE,
-           end_date = $5::DATE,
-           assignee = $6,
-           status = COALESCE($7, status),
-           display_order = COALESCE($8, display_order),
-           note = $9,
-           updated_at = CURRENT_TIMESTAMP
-       WHERE id = $10
-       RETURNING id, name, category, sub_category, start_date::DATE::TEXT as start_date, end_date::DATE::TEXT as end_date, assignee, status, display_order, note, created_at, updated_at`,
-      [name, category, sub_category, sanitizedStartDate, sanitizedEndDate, sanitizedAssignee, status, display_order, sanitizedNote, id]
-    );
+    // The checks, the task with its subtasks' categories and the events that
+    // follow its assignee, and its status history and audit entry are written
+    // together or not at all
+    const result = await withTransaction<{ task: Task } | { error: string; status: number } | null>(async client => {
+      let { category, sub_category } = parsed.value;
+
+      if (kind === 'milestone' && (await TaskRepository.hasSubtasks(id, client))) {
+        return { error: 'サブタスクを持つタスクはマイルストーンにできません', status: 409 };
+      }
+
+      if (parentTaskId) {
+        const resolved = await resolveParentTask(id, parentTaskId, client);
+        if ('error' in resolved) return resolved;
+        category = resolved.parent.category;
+        sub_category = resolved.parent.sub_category;
+      }
+
+      const before = await getAuditSnapshot('task', id, client);
+
+      // Moving a task to another category registers it (archived ones are rejected)
+      const nextCategory = category || before?.category;
+      const nextSubCategory = sub_category || before?.sub_category;
+      if (before && (nextCategory !== before.category || nextSubCategory !== before.sub_category)) {
+        const registered = await ensureTaskCategory(String(nextCategory), String(nextSubCategory), client);
+        if ('error' in registered) return registered;
+      }
+
+      const updated = await TaskRepository.update(id, version, {
+        name,
+        category: category ?? undefined,
+        sub_category: sub_category ?? undefined,
+        start_date,
+        end_date,
+        assignee_id: assignee.assigneeId,
+        status,
+        display_order,
+        note,
+        parent_task_id: parentTaskId,
+        kind,
+        progress: progress ?? undefined,
+      }, client);
+      if (!updated) return null;
 
-    if (result.length === 0) {
+      const { task, previousStatus } = updated;
+      await recordStatusChange({
+        entityType: 'task',
+        entityId: task.id,
+        entityName: task.name,
+        taskId: task.id,
+        fromStatus: previousStatus,
+        toStatus: task.status,
+        changedBy: getRequestActor(request),
+      }, client);
+
+      await recordAudit(request, {
+        entityType: 'task',
+        entityId: id,
+        action: 'update',
+        before,
+        after: await getAuditSnapshot('task', id, client),
+      }, client);
+      return { task };
+    });
+
+    if (!result) {
+      // Still there, so someone else updated it since the client loaded it
+      const current = await TaskRepository.findById(id);
+      if (current) {
+        return NextResponse.json(
+          { error: VERSION_CONFLICT_MESSAGE, task: current },
+          { status: 409 }
+        );
+      }
       return NextResponse.json(
         { error: 'Task not found' },
         { status: 404 }
       );
     }
 
-    // Update child events that have no assignee to use the parent task's assignee
-    if (sanitizedAssignee !== undefined) {
-      await query(
-        `UPDATE event
-         SET assignee = $1, updated_at = CURRENT_TIMESTAMP
-         WHERE task_id = $2
-         AND (assignee IS NULL OR assignee = '')`,
-        [sanitizedAssignee, id]
-      );
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
 
-    // console.log('DB returned start_date:', result[0]?.start_date);
-    // console.log('DB returned end_date:', result[0]?.end_date);
-    // console.log('=== END PUT /api/tasks DEBUG ===');
-
-    return NextResponse.json({ task: result[0] });
+    return NextResponse.json({ task: result.task });
   } catch (error) {
     console.error('Error updating task:', error);
+    const failure = toErrorResult(error, 'Failed to update task');
     return NextResponse.json(
-      { error: 'Failed to update task' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
@@ -205,14 +297,25 @@ export async function DELETE(request: Request) {
       );
     }
 
-    await query('DELETE FROM task WHERE id = $1', [id]);
+    // Moves the task, its subtasks and their events to the trash
+    const before = await getAuditSnapshot('task', id);
+    if (await trashTask(id)) {
+      await recordAudit(request, {
+        entityType: 'task',
+        entityId: id,
+        action: 'delete',
+        before,
+        after: await getAuditSnapshot('task', id),
+      });
+    }
 
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting task:', error);
+    const failure = toErrorResult(error, 'Failed to delete task');
     return NextResponse.json(
-      { error: 'Failed to delete task' },
-      { status: 500 }
+      { error: failure.error },
+      { status: failure.status }
     );
   }
 }
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { computeSchedule, SchedulableTask } from '@/lib/scheduling';
+import { TaskDependency, TaskLink } from '@/lib/taskDependency';
+import { HierarchicalTask, rollupTaskHierarchy } from '@/lib/taskHierarchy';
+import { TaskKind } from '@/lib/taskKind';
+import { toErrorResult } from '@/lib/dbErrors';
+
+export async function GET() {
+  try {
+    const [tasks, dependencies] = await Promise.all([
+      query<HierarchicalTask & { kind: TaskKind }>(
+        `SELECT id, parent_task_id, kind, status, start_date::DATE::TEXT as start_date, end_date::DATE::TEXT as end_date
+         FROM task
+         WHERE deleted_at IS NULL`
+      ),
+      query<TaskDependency>(
+        `SELECT d.id, d.predecessor_id, d.successor_id, d.dependency_type, d.lag_days
+         FROM task_dependency d
+         JOIN task p ON p.id = d.predecessor_id AND p.deleted_at IS NULL
+         JOIN task s ON s.id = d.successor_id AND s.deleted_at IS NULL`
+      ),
+    ]);
+
+    // Summary tasks are scheduled with their rolled-up dates, same as GET /api/tasks.
+    // Attach outgoing links to each task in the same shape as well.
+    const tasksById = new Map<string, SchedulableTask & { successors: TaskLink[] }>(
+      rollupTaskHierarchy(tasks).map(task => [
+        task.id,
+        { id: task.id, start_date: task.start_date, end_date: task.end_date, kind: task.kind, successors: [] },
+      ])
+    );
+    dependencies.forEach(dep => {
+      tasksById.get(dep.predecessor_id)?.successors.push({
+        id: dep.id,
+        task_id: dep.successor_id,
+        dependency_type: dep.dependency_type,
+        lag_days: Number(dep.lag_days), // INT8 columns come back from pg as strings
+      });
+    });
+
+    const schedule = computeSchedule(Array.from(tasksById.values()));
+
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    console.error('Error computing schedule:', error);
+    const failure = toErrorResult(error, 'Failed to compute schedule');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server';
+import { withTransaction } from '@/lib/db';
+import { getAuditSnapshot, recordAudit } from '@/lib/auditQueries';
+import { isTrashEntityType } from '@/lib/trash';
+import {
+  getTrashItems,
+  purgeTrashItem,
+  restoreEvent,
+  restoreMember,
+  restoreTask,
+} from '@/lib/trashQueries';
+import { toErrorResult } from '@/lib/dbErrors';
+
+// Everything in the trash, most recently trashed first
+export async function GET() {
+  try {
+    const items = await getTrashItems();
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    const failure = toErrorResult(error, 'Failed to fetch trash');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
+
+// Restore a trashed task (with its subtasks and events), event or member
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { entity_type: entityType, id } = body;
+
+    if (!isTrashEntityType(entityType) || !id) {
+      return NextResponse.json(
+        { error: 'entity_type (task, event or member) and id are required' },
+        { status: 400 }
+      );
+    }
+
+    // The restore and its audit entry are written together or not at all
+    const result = await withTransaction(async client => {
+      const before = await getAuditSnapshot(entityType, id, client);
+      const restored = entityType === 'task'
+        ? await restoreTask(client, id)
+        : entityType === 'event'
+        ? await restoreEvent(client, id)
+        : await restoreMember(client, id);
+      if ('error' in restored) return restored;
+
+      await recordAudit(request, {
+        entityType,
+        entityId: id,
+        action: 'update',
+        before,
+        after: await getAuditSnapshot(entityType, id, client),
+      }, client);
+      return restored;
+    });
+
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error restoring from trash:', error);
+    const failure = toErrorResult(error, 'Failed to restore from trash');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
+
+// Permanently delete a trashed row
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const entityType = searchParams.get('entity_type');
+    const id = searchParams.get('id');
+
+    if (!isTrashEntityType(entityType) || !id) {
+      return NextResponse.json(
+        { error: 'entity_type (task, event or member) and id are required' },
+        { status: 400 }
+      );
+    }
+
+    const before = await getAuditSnapshot(entityType, id);
+    const purged = await purgeTrashItem(entityType, id);
+    if (!purged) {
+      return NextResponse.json(
+        { error: 'Item not found in trash' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(request, {
+      entityType,
+      entityId: id,
+      action: 'delete',
+      before,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error purging trash item:', error);
+    const failure = toErrorResult(error, 'Failed to purge trash item');
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  }
+}
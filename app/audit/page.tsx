@@ -0,0 +1,288 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import Link from 'next/link';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  AuditLogEntry,
+} from '@/lib/audit';
+
+const PAGE_SIZE = 50;
+
+const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '-';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
+export default function AuditPage() {
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [actors, setActors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState({
+    entity_type: '',
+    entity_id: '',
+    actor: '',
+    from: '',
+    to: '',
+  });
+  const [offset, setOffset] = useState(0);
+  const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchLogs = async () => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+        Object.entries(filters).forEach(([key, value]) => {
+          if (value) params.set(key, value);
+        });
+
+        const response = await fetch(`/api/audit?${params.toString()}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch audit logs');
+        }
+
+        setLogs(data.logs);
+        setTotal(data.total);
+        setActors(data.actors);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLogs();
+  }, [filters, offset]);
+
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setFilters({ ...filters, [key]: value });
+    setOffset(0);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-4">
+      <div className="max-w-7xl mx-auto">
+        <header className="mb-8 flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">監査ログ</h1>
+            <p className="text-gray-400">APIによるデータ変更の履歴</p>
+          </div>
+          <div className="flex gap-4">
+            <Link
+              href="/"
+              className="px-6 py-3 bg-gray-700 text-white rounded-lg hover:bg-gray-600 font-semibold"
+            >
+              タスク管理に戻る
+            </Link>
+          </div>
+        </header>
+
+        <div className="bg-gray-800 rounded-lg p-4">
+          <div className="mb-4 flex flex-wrap gap-3 items-end text-sm">
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-400">対象</span>
+              <select
+                value={filters.entity_type}
+                onChange={(e) => updateFilter('entity_type', e.target.value)}
+                className="px-3 py-1 bg-gray-700 text-white rounded border border-gray-600"
+              >
+                <option value="">すべて</option>
+                {Object.entries(AUDIT_ENTITY_LABELS).map(([entityType, label]) => (
+                  <option key={entityType} value={entityType}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-400">対象ID</span>
+              <input
+                type="text"
+                value={filters.entity_id}
+                onChange={(e) => updateFilter('entity_id', e.target.value.trim())}
+                className="px-3 py-1 bg-gray-700 text-white rounded border border-gray-600"
+                placeholder="IDで絞り込み"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-400">実行者</span>
+              <select
+                value={filters.actor}
+                onChange={(e) => updateFilter('actor', e.target.value)}
+                className="px-3 py-1 bg-gray-700 text-white rounded border border-gray-600"
+              >
+                <option value="">すべて</option>
+                {actors.map((actor) => (
+                  <option key={actor} value={actor}>
+                    {actor}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-400">期間 (開始)</span>
+              <input
+                type="date"
+                value={filters.from}
+                onChange={(e) => updateFilter('from', e.target.value)}
+                className="px-3 py-1 bg-gray-700 text-white rounded border border-gray-600"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-400">期間 (終了)</span>
+              <input
+                type="date"
+                value={filters.to}
+                onChange={(e) => updateFilter('to', e.target.value)}
+                className="px-3 py-1 bg-gray-700 text-white rounded border border-gray-600"
+              />
+            </label>
+            <span className="ml-auto text-gray-400">{total}件</span>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-900/20 border border-red-500 rounded text-red-400">
+              エラー: {error}
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-xs uppercase bg-gray-700 text-gray-300">
+                <tr>
+                  <th className="px-4 py-3 text-left">日時</th>
+                  <th className="px-4 py-3 text-left">実行者</th>
+                  <th className="px-4 py-3 text-left">操作</th>
+                  <th className="px-4 py-3 text-left">対象</th>
+                  <th className="px-4 py-3 text-left">ルート</th>
+                  <th className="px-4 py-3 text-left">変更内容</th>
+                </tr>
+              </thead>
+              <tbody>
+                {loading ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-8 text-center text-gray-400">
+                      読み込み中...
+                    </td>
+                  </tr>
+                ) : logs.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-8 text-center text-gray-400">
+                      監査ログがありません
+                    </td>
+                  </tr>
+                ) : (
+                  logs.map((log) => {
+                    const changedFields = Object.keys(log.diff || {});
+                    const isExpanded = expandedLogId === log.id;
+
+                    return (
+                      <Fragment key={log.id}>
+                        <tr
+                          className="border-b border-gray-700 hover:bg-gray-700/50 cursor-pointer"
+                          onClick={() => setExpandedLogId(isExpanded ? null : log.id)}
+                        >
+                          <td className="px-4 py-3 whitespace-nowrap">
+                            {new Date(log.created_at).toLocaleString('ja-JP')}
+                          </td>
+                          <td className="px-4 py-3">{log.actor || '-'}</td>
+                          <td className="px-4 py-3">
+                            <span
+                              className={`px-2 py-1 rounded text-xs ${
+                                log.action === 'create'
+                                  ? 'bg-green-600'
+                                  : log.action === 'delete'
+                                  ? 'bg-red-600'
+                                  : 'bg-blue-600'
+                              }`}
+                            >
+                              {AUDIT_ACTION_LABELS[log.action]}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3">
+                            <div>{AUDIT_ENTITY_LABELS[log.entity_type] || log.entity_type}</div>
+                            {log.entity_id && (
+                              <div className="text-xs text-gray-500 font-mono">{log.entity_id}</div>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 font-mono text-xs text-gray-400">
+                            {log.method} {log.route}
+                          </td>
+                          <td className="px-4 py-3 text-gray-300">
+                            {changedFields.length > 0
+                              ? `${changedFields.slice(0, 3).join(', ')}${changedFields.length > 3 ? ` 他${changedFields.length - 3}件` : ''}`
+                              : '-'}
+                          </td>
+                        </tr>
+                        {isExpanded && (
+                          <tr className="border-b border-gray-700 bg-gray-900/50">
+                            <td colSpan={6} className="px-4 py-3">
+                              {changedFields.length > 0 ? (
+                                <table className="w-full text-xs">
+                                  <thead className="text-gray-400">
+                                    <tr>
+                                      <th className="px-2 py-1 text-left">フィールド</th>
+                                      <th className="px-2 py-1 text-left">変更前</th>
+                                      <th className="px-2 py-1 text-left">変更後</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {changedFields.map((field) => (
+                                      <tr key={field} className="border-t border-gray-700">
+                                        <td className="px-2 py-1 font-mono">{field}</td>
+                                        <td className="px-2 py-1 text-red-300 break-all">
+                                          {formatAuditValue(log.diff[field].before)}
+                                        </td>
+                                        <td className="px-2 py-1 text-green-300 break-all">
+                                          {formatAuditValue(log.diff[field].after)}
+                                        </td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              ) : (
+                                <p className="text-gray-400">変更されたフィールドはありません</p>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-4 flex justify-between items-center text-sm">
+            <button
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={offset === 0}
+              className="px-4 py-1 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50"
+            >
+              前へ
+            </button>
+            <span className="text-gray-400">
+              {total === 0 ? 0 : offset + 1} - {Math.min(offset + PAGE_SIZE, total)} / {total}
+            </span>
+            <button
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= total}
+              className="px-4 py-1 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50"
+            >
+              次へ
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,355 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import CategoryForm from '@/components/CategoryForm';
+import {
+  Category,
+  CATEGORIES_URL,
+  CATEGORY_ENTITY_LABELS,
+  CategoryEntityType,
+  Subcategory,
+} from '@/lib/category';
+
+interface Member {
+  id: string;
+  name: string;
+}
+
+// Category or subcategory a dialog works on
+interface CategoryTarget {
+  entityType: CategoryEntityType;
+  item: Category | Subcategory;
+}
+
+const postAction = async (action: string, body: unknown) => {
+  const response = await fetch(`${CATEGORIES_URL}/${action}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || '更新に失敗しました');
+  }
+  return data;
+};
+
+export default function CategoriesPage() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  // Create / edit dialog
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [formEntityType, setFormEntityType] = useState<CategoryEntityType>('category');
+  const [formCategoryId, setFormCategoryId] = useState<string | null>(null);
+  const [editingItem, setEditingItem] = useState<Category | Subcategory | null>(null);
+
+  // Merge dialog
+  const [mergeSource, setMergeSource] = useState<CategoryTarget | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [isMerging, setIsMerging] = useState(false);
+
+  const fetchCategories = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`${CATEGORIES_URL}?include_archived=${showArchived}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch categories');
+      }
+
+      setCategories(data.categories);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCategories();
+  }, [showArchived]);
+
+  useEffect(() => {
+    fetch('/api/members')
+      .then((response) => response.json())
+      .then((data) => setMembers(data.members || []))
+      .catch((err) => console.error('Failed to fetch members:', err));
+  }, []);
+
+  const openForm = (entityType: CategoryEntityType, item: Category | Subcategory | null, categoryId: string | null = null) => {
+    setFormEntityType(entityType);
+    setEditingItem(item);
+    setFormCategoryId(categoryId);
+    setIsFormOpen(true);
+  };
+
+  const handleArchive = async ({ entityType, item }: CategoryTarget) => {
+    const archived = !item.archived_at;
+    const label = CATEGORY_ENTITY_LABELS[entityType];
+    if (
+      archived &&
+      !confirm(`${label}「${item.name}」をアーカイブしますか？\n\nタスクはそのまま残りますが、新しいタスクは追加できなくなります。`)
+    ) {
+      return;
+    }
+
+    try {
+      await postAction('archive', { entity_type: entityType, id: item.id, archived });
+      fetchCategories();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '更新に失敗しました');
+    }
+  };
+
+  const openMerge = (target: CategoryTarget) => {
+    setMergeSource(target);
+    setMergeTargetId('');
+  };
+
+  const handleMerge = async () => {
+    if (!mergeSource || !mergeTargetId) return;
+
+    const label = CATEGORY_ENTITY_LABELS[mergeSource.entityType];
+    if (!confirm(`${label}「${mergeSource.item.name}」を統合しますか？\n\nタスクは統合先に移り、「${mergeSource.item.name}」は削除されます。`)) {
+      return;
+    }
+
+    setIsMerging(true);
+    try {
+      const data = await postAction('merge', {
+        entity_type: mergeSource.entityType,
+        source_id: mergeSource.item.id,
+        target_id: mergeTargetId,
+      });
+      alert(`${data.tasks}件のタスクを統合先に移しました`);
+      setMergeSource(null);
+      fetchCategories();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '統合に失敗しました');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  // Categories, or subcategories as "category / subcategory", that the source can be merged into
+  const getMergeTargets = (source: CategoryTarget) =>
+    source.entityType === 'category'
+      ? categories
+          .filter((category) => category.id !== source.item.id && !category.archived_at)
+          .map((category) => ({ id: category.id, label: category.name }))
+      : categories.flatMap((category) =>
+          category.subcategories
+            .filter((subcategory) => subcategory.id !== source.item.id && !subcategory.archived_at)
+            .map((subcategory) => ({ id: subcategory.id, label: `${category.name} / ${subcategory.name}` }))
+        );
+
+  const renderRow = (entityType: CategoryEntityType, item: Category | Subcategory, isSubcategory: boolean) => (
+    <tr
+      key={item.id}
+      className={`border-b border-gray-700 hover:bg-gray-700/50 ${item.archived_at ? 'opacity-50' : ''}`}
+    >
+      <td className={`px-4 py-3 ${isSubcategory ? 'pl-10' : 'font-semibold'}`}>
+        <div className="flex items-center gap-2">
+          <span
+            className="w-3 h-3 rounded-full flex-shrink-0 border border-gray-600"
+            style={{ backgroundColor: item.color || 'transparent' }}
+          />
+          {item.name}
+          {item.archived_at && (
+            <span className="px-2 py-0.5 rounded text-xs bg-gray-600">アーカイブ済み</span>
+          )}
+        </div>
+      </td>
+      <td className="px-4 py-3 text-gray-300">{item.description || '-'}</td>
+      <td className="px-4 py-3">{item.owner_name || '-'}</td>
+      <td className="px-4 py-3">{item.task_count}</td>
+      <td className="px-4 py-3">
+        <div className="flex gap-2">
+          {!isSubcategory && !item.archived_at && (
+            <button
+              onClick={() => openForm('subcategory', null, item.id)}
+              className="text-green-400 hover:text-green-300 text-sm"
+            >
+              + サブカテゴリー
+            </button>
+          )}
+          <button
+            onClick={() => openForm(entityType, item)}
+            className="text-blue-400 hover:text-blue-300 text-sm"
+          >
+            編集
+          </button>
+          <button
+            onClick={() => openMerge({ entityType, item })}
+            className="text-purple-400 hover:text-purple-300 text-sm"
+          >
+            統合
+          </button>
+          <button
+            onClick={() => handleArchive({ entityType, item })}
+            className="text-yellow-400 hover:text-yellow-300 text-sm"
+          >
+            {item.archived_at ? '復元' : 'アーカイブ'}
+          </button>
+        </div>
+      </td>
+    </tr>
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center">
+        <div className="text-xl">読み込み中...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center">
+        <div className="bg-red-900/20 border border-red-500 rounded-lg p-8">
+          <p className="text-red-400 mb-4">エラー: {error}</p>
+          <button
+            onClick={fetchCategories}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded text-white"
+          >
+            再試行
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-4">
+      <div className="max-w-7xl mx-auto">
+        <header className="mb-8 flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">カテゴリー管理</h1>
+            <p className="text-gray-400">カテゴリーとサブカテゴリーの名前・色・担当者の管理</p>
+          </div>
+          <div className="flex gap-4">
+            <Link
+              href="/"
+              className="px-6 py-3 bg-gray-700 text-white rounded-lg hover:bg-gray-600 font-semibold"
+            >
+              タスク管理に戻る
+            </Link>
+            <button
+              onClick={() => openForm('category', null)}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-semibold"
+            >
+              + カテゴリーを追加
+            </button>
+          </div>
+        </header>
+
+        <div className="bg-gray-800 rounded-lg p-4">
+          <div className="mb-4 flex justify-between items-center">
+            <h2 className="text-2xl font-bold">カテゴリー一覧 ({categories.length}件)</h2>
+            <label className="flex items-center text-sm">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+                className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500 mr-2"
+              />
+              アーカイブ済みも表示
+            </label>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-xs uppercase bg-gray-700 text-gray-300">
+                <tr>
+                  <th className="px-4 py-3 text-left">名前</th>
+                  <th className="px-4 py-3 text-left">説明</th>
+                  <th className="px-4 py-3 text-left">担当者</th>
+                  <th className="px-4 py-3 text-left">タスク数</th>
+                  <th className="px-4 py-3 text-left">アクション</th>
+                </tr>
+              </thead>
+              <tbody>
+                {categories.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-gray-400">
+                      カテゴリーがありません
+                    </td>
+                  </tr>
+                ) : (
+                  categories.flatMap((category) => [
+                    renderRow('category', category, false),
+                    ...category.subcategories.map((subcategory) => renderRow('subcategory', subcategory, true)),
+                  ])
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <CategoryForm
+          isOpen={isFormOpen}
+          onClose={() => setIsFormOpen(false)}
+          onSave={fetchCategories}
+          entityType={formEntityType}
+          categoryId={formCategoryId}
+          editData={editingItem}
+          members={members}
+        />
+
+        {mergeSource && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-gray-800 rounded-lg p-6 w-full max-w-lg">
+              <h2 className="text-2xl font-bold text-white mb-4">
+                {CATEGORY_ENTITY_LABELS[mergeSource.entityType]}「{mergeSource.item.name}」を統合
+              </h2>
+              <p className="text-sm text-gray-400 mb-4">
+                {mergeSource.item.task_count}件のタスクが統合先に移り、「{mergeSource.item.name}」は削除されます。
+              </p>
+              <select
+                value={mergeTargetId}
+                onChange={(e) => setMergeTargetId(e.target.value)}
+                className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
+              >
+                <option value="">統合先を選択</option>
+                {getMergeTargets(mergeSource).map((target) => (
+                  <option key={target.id} value={target.id}>
+                    {target.label}
+                  </option>
+                ))}
+              </select>
+              <div className="flex justify-end gap-3 mt-6">
+                <button
+                  type="button"
+                  onClick={() => setMergeSource(null)}
+                  disabled={isMerging}
+                  className="px-6 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 disabled:opacity-50"
+                >
+                  キャンセル
+                </button>
+                <button
+                  type="button"
+                  onClick={handleMerge}
+                  disabled={!mergeTargetId || isMerging}
+                  className="px-6 py-2 bg-purple-600 text-white rounded hover:bg-purple-700 disabled:opacity-50"
+                >
+                  {isMerging ? '統合中...' : '統合'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
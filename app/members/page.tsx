@@ -3,16 +3,7 @@
 import { useState, useEffect } from 'react';
 import MemberForm from '@/components/MemberForm';
 import Link from 'next/link';
-
-interface Member {
-  id: string;
-  name: string;
-  email: string | null;
-  role: string | null;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
-}
+import type { Member } from '@/lib/domain';
 
 export default function MembersPage() {
   const [members, setMembers] = useState<Member[]>([]);
@@ -25,22 +16,15 @@ export default function MembersPage() {
   const fetchMembers = async () => {
     try {
       setLoading(true);
-      const response = await fetch('/api/members');
+      // Include inactive members if showInactive is true
+      const response = await fetch(showInactive ? '/api/members?include_inactive=true' : '/api/members');
       const data = await response.json();
 
       if (!response.ok) {
         throw new Error(data.error || 'Failed to fetch members');
       }
 
-      // Include inactive members if showInactive is true
-      const allMembersResponse = await fetch('/api/data/member?limit=1000');
-      const allMembersData = await allMembersResponse.json();
-
-      if (showInactive) {
-        setMembers(allMembersData.data);
-      } else {
-        setMembers(data.members);
-      }
+      setMembers(data.members);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -64,7 +48,7 @@ export default function MembersPage() {
   };
 
   const handleDeleteMember = async (memberId: string) => {
-    if (!confirm('このメンバーを削除してもよろしいですか？')) {
+    if (!confirm('このメンバーを削除してもよろしいですか？\n\n担当中の未完了タスクとイベントは未割り当てとして表示されます。ゴミ箱から復元すると担当も元に戻ります。')) {
       return;
     }
 
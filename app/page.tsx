@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import GanttChart from '@/components/GanttChart';
 import TaskForm from '@/components/TaskForm';
+import ConflictDialog from '@/components/ConflictDialog';
 import Link from 'next/link';
 import {
   DndContext,
@@ -19,30 +20,24 @@ import {
   horizontalListSortingStrategy,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-
-interface Task {
-  id: string;
-  name: string;
-  category: string;
-  sub_category: string;
-  start_date: string | null;
-  end_date: string | null;
-  assignee: string | null;
-  status: string;
-  display_order: number;
-  note: string | null;
-  events: Event[];
-}
-
-interface Event {
-  id: string;
-  name: string;
-  due_date: string | null;
-  assignee: string | null;
-  status: string;
-  task_id: string;
-  note: string | null;
-}
+import { useUndoHistory } from '@/lib/undoHistory';
+import {
+  createTaskCreateCommand,
+  createTaskDeleteCommand,
+  createTaskUpdateCommand,
+  getTopLevelTaskIds,
+  saveTaskFields,
+  TaskFields,
+  toTaskFields,
+  trashTasks,
+} from '@/lib/taskCommands';
+import { TASK_CONFLICT_FIELDS, VersionConflictError } from '@/lib/concurrency';
+import { CHANGE_HIGHLIGHT_MS, ChangeNotification, getOrderChange, useChangeStream } from '@/lib/changeFeed';
+import { applyServerOrder, loadServerOrder } from '@/lib/taskOrderStorage';
+import { loadPreference, loadServerPreferences, savePreference } from '@/lib/viewPreferences';
+import { isCategoryEntityType } from '@/lib/category';
+import { AssigneeMember, ASSIGNEE_MEMBERS_URL, getAssigneeLabel, getAssigneeOptions, getMemberName } from '@/lib/member';
+import type { TaskListItem as Task } from '@/lib/domain';
 
 // Helper function to format date without timezone issues
 const formatDateDisplay = (dateString: string | null): string => {
@@ -69,12 +64,26 @@ const DEFAULT_COLUMNS: ColumnDefinition[] = [
   { id: 'end_date', label: '終了日', field: 'end_date', sortable: true },
   { id: 'assignee', label: '担当者', field: 'assignee', sortable: true },
   { id: 'status', label: 'ステータス', field: 'status', sortable: true },
+  { id: 'progress', label: '進捗', field: 'progress', sortable: true },
   { id: 'note', label: 'メモ', field: 'note', sortable: false },
   { id: 'actions', label: 'アクション', field: 'actions', sortable: false },
 ];
 
 const COLUMN_ORDER_STORAGE_KEY = 'task_list_column_order';
 
+// Saved column order, with columns added since then at the beginning
+const loadColumnOrder = (): ColumnDefinition[] => {
+  const savedIds = loadPreference<unknown>(COLUMN_ORDER_STORAGE_KEY, null);
+  if (!Array.isArray(savedIds)) return DEFAULT_COLUMNS;
+
+  const savedColumns = savedIds.map((id: string) => DEFAULT_COLUMNS.find(col => col.id === id)).filter(Boolean) as ColumnDefinition[];
+
+  // Find new columns in DEFAULT_COLUMNS that aren't in savedIds
+  const newColumns = DEFAULT_COLUMNS.filter(col => !savedIds.includes(col.id));
+
+  return [...newColumns, ...savedColumns];
+};
+
 // Sortable Header Component
 interface SortableHeaderProps {
   column: ColumnDefinition;
@@ -162,9 +171,11 @@ interface TaskRowProps {
   handleDeleteTask: (taskId: string) => void;
   categories: string[];
   subCategories: string[];
-  members: any[];
+  members: AssigneeMember[];
   isSelected: boolean;
   onToggleSelect: (taskId: string) => void;
+  // Recently changed by another page (live update)
+  isHighlighted: boolean;
 }
 
 function TaskRow({
@@ -184,6 +195,7 @@ function TaskRow({
   members,
   isSelected,
   onToggleSelect,
+  isHighlighted,
 }: TaskRowProps) {
   const renderCell = (column: ColumnDefinition) => {
     const field = column.field;
@@ -367,14 +379,16 @@ function TaskRow({
       );
     }
 
+    // The column shows and sorts by name, while editing picks a member ID
     if (field === 'assignee') {
+      const isEditingAssignee = editingCell?.taskId === task.id && editingCell?.field === 'assignee_id';
       return (
         <td
           key={column.id}
           className="px-4 py-3 cursor-pointer hover:bg-gray-700"
-          onClick={() => !isEditing && handleCellClick(task.id, field, task.assignee || '')}
+          onClick={() => !isEditingAssignee && handleCellClick(task.id, 'assignee_id', task.assignee_id || '')}
         >
-          {isEditing ? (
+          {isEditingAssignee ? (
             <select
               value={editingValue}
               onChange={(e) => setEditingValue(e.target.value)}
@@ -384,9 +398,9 @@ function TaskRow({
               className="w-full px-2 py-1 bg-gray-600 text-white rounded border border-gray-500 focus:border-blue-500 focus:outline-none"
             >
               <option value="">未割り当て</option>
-              {members.map((member) => (
-                <option key={member.id} value={member.name}>
-                  {member.name}
+              {getAssigneeOptions(members, task.assignee_id).map((member) => (
+                <option key={member.id} value={member.id}>
+                  {getAssigneeLabel(member)}
                 </option>
               ))}
             </select>
@@ -440,6 +454,51 @@ function TaskRow({
       );
     }
 
+    if (field === 'progress') {
+      const progressBar = (
+        <div className="flex items-center gap-2" title={task.is_summary ? 'サブタスクから集計' : undefined}>
+          <div className="w-16 h-2 bg-gray-600 rounded overflow-hidden">
+            <div className="h-full bg-blue-500" style={{ width: `${task.progress ?? 0}%` }} />
+          </div>
+          <span className="text-xs text-gray-300">{task.progress ?? 0}%</span>
+        </div>
+      );
+
+      // Summary task progress is rolled up from its subtasks
+      if (task.is_summary) {
+        return (
+          <td key={column.id} className="px-4 py-3">
+            {progressBar}
+          </td>
+        );
+      }
+
+      return (
+        <td
+          key={column.id}
+          className="px-4 py-3 cursor-pointer hover:bg-gray-700"
+          onClick={() => !isEditing && handleCellClick(task.id, field, String(task.progress ?? 0))}
+        >
+          {isEditing ? (
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={5}
+              value={editingValue}
+              onChange={(e) => setEditingValue(e.target.value)}
+              onBlur={handleCellSave}
+              onKeyDown={handleKeyDown}
+              autoFocus
+              className="w-20 px-2 py-1 bg-gray-600 text-white rounded border border-gray-500 focus:border-blue-500 focus:outline-none"
+            />
+          ) : (
+            progressBar
+          )}
+        </td>
+      );
+    }
+
     if (field === 'note') {
       const truncatedNote = task.note && task.note.length > 50
         ? task.note.substring(0, 50) + '...'
@@ -460,7 +519,11 @@ function TaskRow({
   };
 
   return (
-    <tr className="border-b border-gray-700 hover:bg-gray-700/50">
+    <tr
+      className={`border-b border-gray-700 hover:bg-gray-700/50 transition-colors duration-1000 ${
+        isHighlighted ? 'bg-yellow-500/10' : ''
+      }`}
+    >
       {columns.map((column) => renderCell(column))}
     </tr>
   );
@@ -478,7 +541,7 @@ export default function Home() {
   const [viewMode, setViewMode] = useState<'gantt' | 'list'>('gantt');
   const [editingCell, setEditingCell] = useState<{ taskId: string; field: string } | null>(null);
   const [editingValue, setEditingValue] = useState<string>('');
-  const [members, setMembers] = useState<any[]>([]);
+  const [members, setMembers] = useState<AssigneeMember[]>([]);
   const [categories, setCategories] = useState<string[]>([]);
   const [subCategories, setSubCategories] = useState<string[]>([]);
   const [filterCategory, setFilterCategory] = useState<string>('');
@@ -487,28 +550,22 @@ export default function Home() {
   const [sortField, setSortField] = useState<string | null>(null);
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [selectedTaskIds, setSelectedTaskIds] = useState<Set<string>>(new Set());
+  // Inline edit rejected because someone else saved the task first
+  const [cellConflict, setCellConflict] = useState<{
+    taskName: string;
+    before: TaskFields;
+    mine: TaskFields;
+    current: TaskFields;
+  } | null>(null);
+  // Ctrl+Z / Ctrl+Shift+Z history shared by the list and the Gantt chart
+  const history = useUndoHistory(!isTaskFormOpen && !cellConflict);
+  // Tasks changed elsewhere that are briefly highlighted
+  const [highlightedTaskIds, setHighlightedTaskIds] = useState<Set<string>>(new Set());
 
   // Column order management
-  const [columnOrder, setColumnOrder] = useState<ColumnDefinition[]>(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem(COLUMN_ORDER_STORAGE_KEY);
-      if (saved) {
-        try {
-          const savedIds = JSON.parse(saved);
-          const savedColumns = savedIds.map((id: string) => DEFAULT_COLUMNS.find(col => col.id === id)).filter(Boolean) as ColumnDefinition[];
-
-          // Find new columns in DEFAULT_COLUMNS that aren't in savedIds
-          const newColumns = DEFAULT_COLUMNS.filter(col => !savedIds.includes(col.id));
-
-          // Add new columns at the beginning
-          return [...newColumns, ...savedColumns];
-        } catch (e) {
-          return DEFAULT_COLUMNS;
-        }
-      }
-    }
-    return DEFAULT_COLUMNS;
-  });
+  const [columnOrder, setColumnOrder] = useState<ColumnDefinition[]>(loadColumnOrder);
+  // The Gantt chart reads its orders and expand state on mount, so it waits for these
+  const [preferencesLoaded, setPreferencesLoaded] = useState(false);
 
   // Setup sensors for column drag and drop
   const columnSensors = useSensors(
@@ -546,14 +603,65 @@ export default function Home() {
     }
   };
 
+  // Falls back to name order when the category order cannot be loaded
+  const loadOrder = () =>
+    loadServerOrder().catch(err => console.error('Failed to load the category order:', err));
+
   useEffect(() => {
+    Promise.all([loadServerPreferences(), loadOrder()]).then(() => {
+      setColumnOrder(loadColumnOrder());
+      setPreferencesLoaded(true);
+    });
     fetchTasks();
     fetchMembers();
   }, []);
 
+  // Re-read data changed on other pages without the loading state (which
+  // would remount the Gantt chart and lose its scroll position)
+  const handleLiveChanges = async (changes: ChangeNotification[]) => {
+    // Assignee names are resolved on the server, and a deactivated member's open tasks read as unassigned
+    const memberChanged = changes.some(change => change.entity_type === 'member');
+    if (memberChanged) {
+      fetchMembers();
+    }
+
+    const orderChanges = changes.map(getOrderChange).filter((change) => change !== null);
+    const changedTaskIds = new Set(changes.flatMap(change => change.task_ids));
+    // Renames and merges rewrite category names in the tasks and the saved orders
+    const categoryChanged = changes.some(change => isCategoryEntityType(change.entity_type));
+    if (orderChanges.length === 0 && changedTaskIds.size === 0 && !categoryChanged && !memberChanged) return;
+
+    try {
+      if (categoryChanged) await Promise.all([loadServerPreferences(), loadOrder()]);
+
+      const response = await fetch('/api/tasks');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch tasks');
+      }
+
+      // Apply saved orders before the new tasks are rendered
+      orderChanges.forEach(applyServerOrder);
+      setTasks(data.tasks);
+    } catch (err) {
+      console.error('Failed to refresh live changes:', err);
+      return;
+    }
+
+    if (changedTaskIds.size > 0) {
+      setHighlightedTaskIds(prev => new Set([...prev, ...changedTaskIds]));
+      setTimeout(() => {
+        setHighlightedTaskIds(prev => new Set([...prev].filter(id => !changedTaskIds.has(id))));
+      }, CHANGE_HIGHLIGHT_MS);
+    }
+  };
+
+  useChangeStream(handleLiveChanges);
+
   const fetchMembers = async () => {
     try {
-      const response = await fetch('/api/members');
+      // Inactive ones too, for tasks still assigned to a deactivated member
+      const response = await fetch(ASSIGNEE_MEMBERS_URL);
       const data = await response.json();
       if (response.ok) {
         setMembers(data.members);
@@ -612,6 +720,7 @@ export default function Home() {
         throw new Error('Failed to delete task');
       }
 
+      history.record(createTaskDeleteCommand('タスクの削除', [taskId], fetchTasks));
       fetchTasks();
     } catch (err) {
       alert(err instanceof Error ? err.message : '削除に失敗しました');
@@ -626,8 +735,10 @@ export default function Home() {
         sub_category: task.sub_category,
         start_date: task.start_date || '',
         end_date: task.end_date || '',
-        assignee: task.assignee || '',
+        assignee_id: task.assignee_id || '',
         status: task.status,
+        parent_task_id: task.parent_task_id || null,
+        kind: task.kind || 'task',
       };
 
       const response = await fetch('/api/tasks', {
@@ -642,6 +753,8 @@ export default function Home() {
         throw new Error('Failed to duplicate task');
       }
 
+      const data = await response.json();
+      history.record(createTaskCreateCommand('タスクの複製', data.task.id, fetchTasks));
       fetchTasks();
     } catch (err) {
       alert(err instanceof Error ? err.message : '複製に失敗しました');
@@ -672,23 +785,26 @@ export default function Home() {
     if (selectedTaskIds.size === 0) return;
 
     const confirmed = confirm(
-      `選択した${selectedTaskIds.size}件のタスクを削除してもよろしいですか？\n\n「OK」を押すと完全に削除されます。`
+      `選択した${selectedTaskIds.size}件のタスクを削除してもよろしいですか？\n\n削除したタスクはゴミ箱から復元できます。`
     );
 
     if (!confirmed) return;
 
     try {
-      // 並列削除
-      const deletePromises = Array.from(selectedTaskIds).map(taskId =>
-        fetch(`/api/tasks?id=${taskId}`, { method: 'DELETE' })
-      );
-
-      const results = await Promise.all(deletePromises);
+      // 並列削除 (選択した親タスクと一緒にゴミ箱に移動するサブタスクは除く)
+      const taskIds = getTopLevelTaskIds(tasks, Array.from(selectedTaskIds));
+      const failedIds = await trashTasks(taskIds);
 
       // エラーチェック
-      const failedCount = results.filter(res => !res.ok).length;
-      if (failedCount > 0) {
-        alert(`${failedCount}件のタスクの削除に失敗しました`);
+      if (failedIds.length > 0) {
+        alert(`${failedIds.length}件のタスクの削除に失敗しました`);
+      }
+
+      const deletedIds = taskIds.filter(id => !failedIds.includes(id));
+      if (deletedIds.length > 0) {
+        history.record(
+          createTaskDeleteCommand(`タスクの一括削除 (${deletedIds.length}件)`, deletedIds, fetchTasks)
+        );
       }
 
       // 選択状態をクリア
@@ -717,39 +833,52 @@ export default function Home() {
     const task = tasks.find((t) => t.id === editingCell.taskId);
     if (!task) return;
 
-    try {
-      const updatedTask = {
-        ...task,
-        [editingCell.field]: editingValue || null,
-      };
+    const before = toTaskFields(task);
+    const after = {
+      ...before,
+      [editingCell.field]: editingCell.field === 'progress' ? Number(editingValue) : editingValue || null,
+    };
 
-      const response = await fetch('/api/tasks', {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          id: task.id,
-          name: updatedTask.name,
-          category: updatedTask.category,
-          sub_category: updatedTask.sub_category,
-          start_date: updatedTask.start_date || '',
-          end_date: updatedTask.end_date || '',
-          assignee: updatedTask.assignee || '',
-          status: updatedTask.status,
-        }),
-      });
+    try {
+      const saved = await saveTaskFields(after);
 
-      if (!response.ok) {
-        throw new Error('Failed to update task');
+      if (before[editingCell.field as keyof TaskFields] !== after[editingCell.field as keyof TaskFields]) {
+        history.record(createTaskUpdateCommand(`「${task.name}」の編集`, before, saved, fetchTasks));
       }
-
       fetchTasks();
       setEditingCell(null);
       setEditingValue('');
+    } catch (err) {
+      if (err instanceof VersionConflictError) {
+        setCellConflict({ taskName: task.name, before, mine: after, current: toTaskFields(err.current) });
+        return;
+      }
+      alert(err instanceof Error ? err.message : '更新に失敗しました');
+    }
+  };
+
+  // Save the values chosen in the conflict dialog on top of the current version
+  const handleCellConflictMerge = async (merged: TaskFields) => {
+    if (!cellConflict) return;
+
+    const { taskName, current } = cellConflict;
+    setCellConflict(null);
+    try {
+      const saved = await saveTaskFields({ ...merged, version: current.version });
+      history.record(createTaskUpdateCommand(`「${taskName}」の編集`, current, saved, fetchTasks));
     } catch (err) {
       alert(err instanceof Error ? err.message : '更新に失敗しました');
     }
+    setEditingCell(null);
+    setEditingValue('');
+    fetchTasks();
+  };
+
+  const handleCellConflictDiscard = () => {
+    setCellConflict(null);
+    setEditingCell(null);
+    setEditingValue('');
+    fetchTasks();
   };
 
   const handleCellCancel = () => {
@@ -765,11 +894,9 @@ export default function Home() {
     }
   };
 
-  // Save column order to localStorage
+  // Save column order to the view preferences
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(COLUMN_ORDER_STORAGE_KEY, JSON.stringify(columnOrder.map(col => col.id)));
-    }
+    savePreference(COLUMN_ORDER_STORAGE_KEY, columnOrder.map(col => col.id));
   }, [columnOrder]);
 
   const handleColumnDragEnd = (event: DragEndEvent) => {
@@ -833,7 +960,7 @@ export default function Home() {
       return 0;
     });
 
-  if (loading) {
+  if (loading || !preferencesLoaded) {
     return (
       <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center">
         <div className="text-xl">読み込み中...</div>
@@ -866,12 +993,46 @@ export default function Home() {
               <h2 className="text-4xl font-bold mb-2">コンテンツ事業進行表</h2>
             </div>
             <div className="flex gap-2">
+              <button
+                onClick={history.undo}
+                disabled={!history.undoLabel || history.isRunning}
+                title={history.undoLabel ? `元に戻す: ${history.undoLabel} (Ctrl+Z)` : '元に戻す (Ctrl+Z)'}
+                className="px-4 py-1 bg-gray-700 text-white rounded-lg hover:bg-gray-600 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                ↶ 元に戻す
+              </button>
+              <button
+                onClick={history.redo}
+                disabled={!history.redoLabel || history.isRunning}
+                title={history.redoLabel ? `やり直し: ${history.redoLabel} (Ctrl+Shift+Z)` : 'やり直し (Ctrl+Shift+Z)'}
+                className="px-4 py-1 bg-gray-700 text-white rounded-lg hover:bg-gray-600 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                ↷ やり直し
+              </button>
               <Link
                 href="/members"
                 className="px-6 py-1 bg-gray-700 text-white rounded-lg hover:bg-gray-600 font-semibold"
               >
                 メンバー管理
               </Link>
+              <Link
+                href="/categories"
+                className="px-6 py-1 bg-gray-700 text-white rounded-lg hover:bg-gray-600 font-semibold"
+              >
+                カテゴリー管理
+              </Link>
+              <Link
+                href="/audit"
+                className="px-6 py-1 bg-gray-700 text-white rounded-lg hover:bg-gray-600 font-semibold"
+              >
+                監査ログ
+              </Link>
+              <Link
+                href="/trash"
+                className="px-6 py-1 bg-gray-700 text-white rounded-lg hover:bg-gray-600 font-semibold"
+              >
+                ゴミ箱
+              </Link>
               <button
                 onClick={handleAddTask}
                 className="px-6 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-semibold"
@@ -913,6 +1074,8 @@ export default function Home() {
             onTaskClick={handleEditTask}
             onAddTask={handleAddTaskWithCategory}
             onRefresh={fetchTasks}
+            onCommand={history.record}
+            highlightedTaskIds={highlightedTaskIds}
           />
         )}
 
@@ -1032,6 +1195,7 @@ export default function Home() {
                         members={members}
                         isSelected={selectedTaskIds.has(task.id)}
                         onToggleSelect={handleToggleSelect}
+                        isHighlighted={highlightedTaskIds.has(task.id)}
                       />
                     ))}
                   </tbody>
@@ -1049,6 +1213,20 @@ export default function Home() {
           initialCategory={initialCategory}
           initialSubCategory={initialSubCategory}
         />
+
+        {cellConflict && (
+          <ConflictDialog
+            entityLabel="タスク"
+            fields={TASK_CONFLICT_FIELDS.filter(({ field }) => field in cellConflict.before)}
+            base={cellConflict.before}
+            mine={cellConflict.mine}
+            theirs={cellConflict.current}
+            onMerge={handleCellConflictMerge}
+            onUseTheirs={handleCellConflictDiscard}
+            onCancel={() => setCellConflict(null)}
+            formatField={(field, value) => (field === 'assignee_id' ? getMemberName(members, value) : value)}
+          />
+        )}
       </div>
     </div>
   );
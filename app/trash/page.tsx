@@ -0,0 +1,201 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import {
+  TRASH_ENTITY_LABELS,
+  TRASH_ENTITY_TYPES,
+  TRASH_RETENTION_DAYS,
+  TrashEntityType,
+  TrashItem,
+} from '@/lib/trash';
+
+export default function TrashPage() {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [entityFilter, setEntityFilter] = useState<TrashEntityType | ''>('');
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const fetchItems = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch('/api/trash');
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch trash');
+        }
+
+        setItems(data.items);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchItems();
+  }, [reloadKey]);
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      const response = await fetch('/api/trash', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entity_type: item.entity_type, id: item.id }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to restore');
+      }
+
+      setReloadKey(key => key + 1);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    const message = item.entity_type === 'task'
+      ? `タスク「${item.name}」を完全に削除してもよろしいですか？\n\n一緒に削除されたサブタスクとイベントも完全に削除され、元に戻せません。`
+      : `${TRASH_ENTITY_LABELS[item.entity_type]}「${item.name}」を完全に削除してもよろしいですか？\n\nこの操作は元に戻せません。`;
+    if (!confirm(message)) {
+      return;
+    }
+
+    try {
+      const params = new URLSearchParams({ entity_type: item.entity_type, id: item.id });
+      const response = await fetch(`/api/trash?${params.toString()}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to purge');
+      }
+
+      setReloadKey(key => key + 1);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const visibleItems = entityFilter
+    ? items.filter(item => item.entity_type === entityFilter)
+    : items;
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-4">
+      <div className="max-w-7xl mx-auto">
+        <header className="mb-8 flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">ゴミ箱</h1>
+            <p className="text-gray-400">
+              削除したタスク・イベント・メンバーは{TRASH_RETENTION_DAYS}日後に自動で完全に削除されます
+            </p>
+          </div>
+          <div className="flex gap-4">
+            <Link
+              href="/"
+              className="px-6 py-3 bg-gray-700 text-white rounded-lg hover:bg-gray-600 font-semibold"
+            >
+              タスク管理に戻る
+            </Link>
+          </div>
+        </header>
+
+        <div className="bg-gray-800 rounded-lg p-4">
+          <div className="mb-4 flex gap-3 items-center text-sm">
+            <select
+              value={entityFilter}
+              onChange={(e) => setEntityFilter(e.target.value as TrashEntityType | '')}
+              className="px-3 py-1 bg-gray-700 text-white rounded border border-gray-600"
+            >
+              <option value="">すべて</option>
+              {TRASH_ENTITY_TYPES.map((entityType) => (
+                <option key={entityType} value={entityType}>
+                  {TRASH_ENTITY_LABELS[entityType]}
+                </option>
+              ))}
+            </select>
+            <span className="ml-auto text-gray-400">{visibleItems.length}件</span>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-900/20 border border-red-500 rounded text-red-400">
+              エラー: {error}
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-xs uppercase bg-gray-700 text-gray-300">
+                <tr>
+                  <th className="px-4 py-3 text-left">種類</th>
+                  <th className="px-4 py-3 text-left">名前</th>
+                  <th className="px-4 py-3 text-left">詳細</th>
+                  <th className="px-4 py-3 text-left">削除日時</th>
+                  <th className="px-4 py-3 text-left">操作</th>
+                </tr>
+              </thead>
+              <tbody>
+                {loading ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-gray-400">
+                      読み込み中...
+                    </td>
+                  </tr>
+                ) : visibleItems.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-gray-400">
+                      ゴミ箱は空です
+                    </td>
+                  </tr>
+                ) : (
+                  visibleItems.map((item) => (
+                    <tr key={`${item.entity_type}-${item.id}`} className="border-b border-gray-700 hover:bg-gray-700/50">
+                      <td className="px-4 py-3">
+                        <span className="px-2 py-1 rounded text-xs bg-gray-600">
+                          {TRASH_ENTITY_LABELS[item.entity_type]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">{item.name}</td>
+                      <td className="px-4 py-3 text-gray-400">{item.detail || '-'}</td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {new Date(item.deleted_at).toLocaleString('ja-JP')}
+                      </td>
+                      <td className="px-4 py-3">
+                        {item.trashed_with_task_id ? (
+                          <span className="text-xs text-gray-500">親タスクと一緒に復元されます</span>
+                        ) : (
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => handleRestore(item)}
+                              className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 text-xs"
+                            >
+                              復元
+                            </button>
+                            <button
+                              onClick={() => handlePurge(item)}
+                              className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 text-xs"
+                            >
+                              完全に削除
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  CATEGORIES_URL,
+  CATEGORY_COLORS,
+  CATEGORY_ENTITY_LABELS,
+  CategoryEntityType,
+} from '@/lib/category';
+
+interface Member {
+  id: string;
+  name: string;
+}
+
+interface CategoryFormData {
+  id: string;
+  name: string;
+  color: string | null;
+  description: string | null;
+  owner_id: string | null;
+}
+
+interface CategoryFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: () => void;
+  entityType: CategoryEntityType;
+  // Parent category of a new subcategory
+  categoryId?: string | null;
+  editData?: CategoryFormData | null;
+  members: Member[];
+}
+
+const postJson = async (url: string, method: string, body: unknown) => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || '保存に失敗しました');
+  }
+};
+
+export default function CategoryForm({ isOpen, onClose, onSave, entityType, categoryId, editData, members }: CategoryFormProps) {
+  const [formData, setFormData] = useState({
+    name: '',
+    color: '',
+    description: '',
+    owner_id: '',
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const label = CATEGORY_ENTITY_LABELS[entityType];
+
+  useEffect(() => {
+    setFormData({
+      name: editData?.name || '',
+      color: editData?.color || '',
+      description: editData?.description || '',
+      owner_id: editData?.owner_id || '',
+    });
+    setError(null);
+  }, [editData, isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const details = {
+        entity_type: entityType,
+        color: formData.color,
+        description: formData.description,
+        owner_id: formData.owner_id,
+      };
+
+      if (editData) {
+        // A new name is applied to every task and saved order first
+        if (formData.name.trim() !== editData.name) {
+          await postJson(`${CATEGORIES_URL}/rename`, 'POST', {
+            entity_type: entityType,
+            id: editData.id,
+            name: formData.name,
+          });
+        }
+        await postJson(CATEGORIES_URL, 'PUT', { ...details, id: editData.id });
+      } else {
+        await postJson(CATEGORIES_URL, 'POST', { ...details, name: formData.name, category_id: categoryId });
+      }
+
+      onSave();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '保存に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold text-white">
+            {editData ? `${label}編集` : `${label}追加`}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white text-2xl"
+            type="button"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-900/20 border border-red-500 rounded text-red-400">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                名前 <span className="text-red-400">*</span>
+              </label>
+              <input
+                type="text"
+                required
+                maxLength={100}
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
+              />
+              {editData && (
+                <p className="mt-1 text-xs text-gray-400">
+                  名前を変えると、この{label}のすべてのタスクと並び順も新しい名前に変わります
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                色
+              </label>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  onClick={() => setFormData({ ...formData, color: '' })}
+                  className={`w-8 h-8 rounded-full border-2 bg-gray-700 text-gray-400 text-xs ${
+                    formData.color === '' ? 'border-white' : 'border-transparent'
+                  }`}
+                  title="なし"
+                >
+                  ×
+                </button>
+                {CATEGORY_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => setFormData({ ...formData, color })}
+                    className={`w-8 h-8 rounded-full border-2 ${
+                      formData.color === color ? 'border-white' : 'border-transparent'
+                    }`}
+                    style={{ backgroundColor: color }}
+                    title={color}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                説明
+              </label>
+              <textarea
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                maxLength={1000}
+                rows={3}
+                className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                担当者
+              </label>
+              <select
+                value={formData.owner_id}
+                onChange={(e) => setFormData({ ...formData, owner_id: e.target.value })}
+                className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
+              >
+                <option value="">未設定</option>
+                {members.map((member) => (
+                  <option key={member.id} value={member.id}>
+                    {member.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={loading}
+              className="px-6 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 disabled:opacity-50"
+            >
+              キャンセル
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-6 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? '保存中...' : '保存'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
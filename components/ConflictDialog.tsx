@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  ConflictFieldDefinition,
+  MergeChoice,
+  getConflictFields,
+  mergeConflictFields,
+} from '@/lib/concurrency';
+
+interface ConflictDialogProps<T extends object> {
+  // e.g. 'タスク', 'イベント'
+  entityLabel: string;
+  fields: ConflictFieldDefinition[];
+  // Values when the edit started, my values, and the current server values
+  base: object;
+  mine: T;
+  theirs: object;
+  // Save the merged values (saved with the server's current version)
+  onMerge: (merged: T) => void;
+  // Discard my changes and continue from the server values
+  onUseTheirs: () => void;
+  onCancel: () => void;
+  // Value as shown, e.g. a member's name for an assignee_id
+  formatField?: (field: string, value: unknown) => unknown;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(空)';
+  return String(value);
+};
+
+export default function ConflictDialog<T extends object>({
+  entityLabel,
+  fields,
+  base,
+  mine,
+  theirs,
+  onMerge,
+  onUseTheirs,
+  onCancel,
+  formatField = (_field, value) => value,
+}: ConflictDialogProps<T>) {
+  const conflictFields = getConflictFields(fields, base, mine, theirs);
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>(() =>
+    Object.fromEntries(conflictFields.map(field => [field.field, field.choice]))
+  );
+
+  const resolvedFields = conflictFields.map(field => ({ ...field, choice: choices[field.field] ?? field.choice }));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-[60]">
+      <div className="bg-gray-800 rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold text-white mb-2">{entityLabel}の更新が競合しました</h3>
+        <p className="text-gray-300 text-sm mb-4">
+          編集中に他のユーザーがこの{entityLabel}を更新しました。項目ごとに残す内容を選んで保存するか、
+          自分の変更で上書きしてください。
+        </p>
+
+        {resolvedFields.length === 0 ? (
+          <p className="text-gray-400 text-sm mb-4">内容の違いはありません。そのまま保存できます。</p>
+        ) : (
+          <table className="w-full text-sm mb-4">
+            <thead className="text-xs bg-gray-700 text-gray-300">
+              <tr>
+                <th className="px-3 py-2 text-left">項目</th>
+                <th className="px-3 py-2 text-left">自分の変更</th>
+                <th className="px-3 py-2 text-left">他のユーザーの変更</th>
+              </tr>
+            </thead>
+            <tbody>
+              {resolvedFields.map((field) => (
+                <tr key={field.field} className="border-b border-gray-700">
+                  <td className="px-3 py-2 text-gray-300 whitespace-nowrap">
+                    {field.label}
+                    {field.bothChanged && (
+                      <span className="ml-2 px-1 rounded text-xs bg-yellow-600 text-white">競合</span>
+                    )}
+                  </td>
+                  {(['mine', 'theirs'] as MergeChoice[]).map((side) => (
+                    <td key={side} className="px-3 py-2">
+                      <label className="flex items-start gap-2 cursor-pointer text-white break-all">
+                        <input
+                          type="radio"
+                          name={`conflict-${field.field}`}
+                          checked={field.choice === side}
+                          onChange={() => setChoices({ ...choices, [field.field]: side })}
+                          className="mt-1"
+                        />
+                        <span>{formatValue(formatField(field.field, field[side]))}</span>
+                      </label>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700"
+          >
+            キャンセル
+          </button>
+          <button
+            type="button"
+            onClick={onUseTheirs}
+            className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700"
+          >
+            自分の変更を破棄
+          </button>
+          <button
+            type="button"
+            onClick={() => onMerge(mine)}
+            className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+          >
+            自分の変更で上書き
+          </button>
+          <button
+            type="button"
+            onClick={() => onMerge(mergeConflictFields(mine, theirs, resolvedFields))}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            選択した内容で保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,12 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { EVENT_CONFLICT_FIELDS } from '@/lib/concurrency';
+import { ASSIGNEE_MEMBERS_URL, getAssigneeLabel, getAssigneeOptions, getMemberName } from '@/lib/member';
+import { Member, STATUSES } from '@/lib/domain';
+import { validate } from '@/lib/validation';
+import { eventCreateSchema, eventUpdateSchema, NOTE_MAX_LENGTH } from '@/lib/schemas';
+import ConflictDialog from './ConflictDialog';
 
 interface EventFormProps {
   isOpen: boolean;
@@ -9,27 +15,45 @@ interface EventFormProps {
   taskId?: string;
   editData?: any | null;
   selectedDate?: string | null;
-  taskAssignee?: string | null;
+  // Member ID of the task's assignee, the default for a new event
+  taskAssigneeId?: string | null;
 }
 
-const STATUS_OPTIONS = ['ToDo', 'InProgress', 'Confirmed', 'IceBox', 'Done'];
-
-interface Member {
-  id: string;
+// Event as loaded from or returned by the API
+interface SavedEvent {
   name: string;
-  email: string | null;
-  role: string | null;
+  task_id: string;
+  due_date: string | null;
+  assignee_id: string | null;
+  status: string;
+  note: string | null;
+  version: number;
 }
 
-export default function EventForm({ isOpen, onClose, onSave, taskId, editData, selectedDate, taskAssignee }: EventFormProps) {
-  const [formData, setFormData] = useState({
+// Form values for an existing event (also used for the server side of a conflict)
+const toEventFormData = (event: SavedEvent, taskId?: string) => ({
+  name: event.name || '',
+  task_id: event.task_id || taskId || '',
+  due_date: event.due_date ? event.due_date.split('T')[0] : '',
+  assignee_id: event.assignee_id || '',
+  status: event.status || 'ToDo',
+  note: event.note || '',
+});
+
+type EventFormData = ReturnType<typeof toEventFormData>;
+
+export default function EventForm({ isOpen, onClose, onSave, taskId, editData, selectedDate, taskAssigneeId }: EventFormProps) {
+  const [formData, setFormData] = useState<EventFormData>({
     name: '',
     task_id: taskId || '',
     due_date: '',
-    assignee: '',
+    assignee_id: '',
     status: 'ToDo',
     note: '',
   });
+  // Values and version the edit is based on; replaced by the server's after a conflict
+  const [baseEvent, setBaseEvent] = useState<{ values: EventFormData; version: number } | null>(null);
+  const [conflict, setConflict] = useState<{ mine: EventFormData; theirs: SavedEvent } | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [members, setMembers] = useState<Member[]>([]);
@@ -39,7 +63,8 @@ export default function EventForm({ isOpen, onClose, onSave, taskId, editData, s
   useEffect(() => {
     const fetchMembers = async () => {
       try {
-        const response = await fetch('/api/members');
+        // Inactive ones too, for a current assignee who was deactivated
+        const response = await fetch(ASSIGNEE_MEMBERS_URL);
         const data = await response.json();
         if (response.ok) {
           setMembers(data.members);
@@ -56,38 +81,41 @@ export default function EventForm({ isOpen, onClose, onSave, taskId, editData, s
 
   useEffect(() => {
     if (editData) {
-      setFormData({
-        name: editData.name || '',
-        task_id: editData.task_id || taskId || '',
-        due_date: editData.due_date ? editData.due_date.split('T')[0] : '',
-        assignee: editData.assignee || '',
-        status: editData.status || 'ToDo',
-        note: editData.note || '',
-      });
+      setFormData(toEventFormData(editData, taskId));
+      setBaseEvent({ values: toEventFormData(editData, taskId), version: editData.version });
     } else {
       setFormData({
         name: '',
         task_id: taskId || '',
         due_date: selectedDate || '',
-        assignee: taskAssignee || '',
+        assignee_id: taskAssigneeId || '',
         status: 'ToDo',
         note: '',
       });
+      setBaseEvent(null);
     }
+    setConflict(null);
     setError(null);
-  }, [editData, taskId, selectedDate, taskAssignee, isOpen]);
+  }, [editData, taskId, selectedDate, taskAssigneeId, isOpen]);
+
+  const submitEvent = async (data: EventFormData, version = baseEvent?.version) => {
+    const body = editData
+      ? { id: editData.id, version, ...data }
+      : data;
+
+    // Same checks as the API, so the message shows without a round trip
+    const parsed = editData ? validate(eventUpdateSchema, body) : validate(eventCreateSchema, body);
+    if ('error' in parsed) {
+      setError(parsed.error);
+      return;
+    }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
     setLoading(true);
     setError(null);
 
     try {
       const url = '/api/events';
       const method = editData ? 'PUT' : 'POST';
-      const body = editData
-        ? { id: editData.id, ...formData }
-        : formData;
 
       const response = await fetch(url, {
         method,
@@ -97,6 +125,16 @@ export default function EventForm({ isOpen, onClose, onSave, taskId, editData, s
         body: JSON.stringify(body),
       });
 
+      // Someone else saved the event first: let the user merge or overwrite
+      if (response.status === 409 && editData) {
+        const conflictData = await response.json();
+        if (conflictData.event) {
+          setConflict({ mine: data, theirs: conflictData.event });
+          return;
+        }
+        throw new Error(conflictData.error || '保存に失敗しました');
+      }
+
       if (!response.ok) {
         const data = await response.json();
         throw new Error(data.error || '保存に失敗しました');
@@ -111,6 +149,32 @@ export default function EventForm({ isOpen, onClose, onSave, taskId, editData, s
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitEvent(formData);
+  };
+
+  // Save the values chosen in the conflict dialog on top of the current version
+  const handleConflictMerge = (merged: EventFormData) => {
+    if (!conflict) return;
+
+    const theirs = conflict.theirs;
+    setConflict(null);
+    setBaseEvent({ values: toEventFormData(theirs), version: theirs.version });
+    setFormData(merged);
+    submitEvent(merged, theirs.version);
+  };
+
+  // Drop my changes and continue editing from the event as the other user saved it
+  const handleConflictDiscard = () => {
+    if (!conflict) return;
+
+    const theirs = conflict.theirs;
+    setConflict(null);
+    setBaseEvent({ values: toEventFormData(theirs), version: theirs.version });
+    setFormData(toEventFormData(theirs));
+  };
+
   const handleDelete = async () => {
     if (!editData) return;
 
@@ -198,14 +262,14 @@ export default function EventForm({ isOpen, onClose, onSave, taskId, editData, s
                 担当者
               </label>
               <select
-                value={formData.assignee}
-                onChange={(e) => setFormData({ ...formData, assignee: e.target.value })}
+                value={formData.assignee_id}
+                onChange={(e) => setFormData({ ...formData, assignee_id: e.target.value })}
                 className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
               >
                 <option value="">未割り当て</option>
-                {members.map((member) => (
-                  <option key={member.id} value={member.name}>
-                    {member.name}
+                {getAssigneeOptions(members, formData.assignee_id).map((member) => (
+                  <option key={member.id} value={member.id}>
+                    {getAssigneeLabel(member)}
                     {member.role && ` (${member.role})`}
                   </option>
                 ))}
@@ -221,7 +285,7 @@ export default function EventForm({ isOpen, onClose, onSave, taskId, editData, s
                 onChange={(e) => setFormData({ ...formData, status: e.target.value })}
                 className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
               >
-                {STATUS_OPTIONS.map((status) => (
+                {STATUSES.map((status) => (
                   <option key={status} value={status}>
                     {status}
                   </option>
@@ -239,10 +303,10 @@ export default function EventForm({ isOpen, onClose, onSave, taskId, editData, s
                 className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
                 placeholder="メモを入力"
                 rows={4}
-                maxLength={1000}
+                maxLength={NOTE_MAX_LENGTH}
               />
               <div className="text-right text-sm text-gray-400 mt-1">
-                {formData.note.length}/1000文字
+                {formData.note.length}/{NOTE_MAX_LENGTH}文字
               </div>
             </div>
           </div>
@@ -287,7 +351,7 @@ export default function EventForm({ isOpen, onClose, onSave, taskId, editData, s
           <div className="bg-gray-800 rounded-lg p-6 w-full max-w-md">
             <h3 className="text-xl font-bold text-white mb-4">イベントを削除</h3>
             <p className="text-gray-300 mb-6">
-              このイベントを削除してもよろしいですか？この操作は取り消せません。
+              このイベントを削除してもよろしいですか？削除したイベントはゴミ箱から復元できます。
             </p>
             <div className="flex justify-end gap-3">
               <button
@@ -310,6 +374,20 @@ export default function EventForm({ isOpen, onClose, onSave, taskId, editData, s
           </div>
         </div>
       )}
+
+      {conflict && baseEvent && (
+        <ConflictDialog
+          entityLabel="イベント"
+          fields={EVENT_CONFLICT_FIELDS}
+          base={baseEvent.values}
+          mine={conflict.mine}
+          theirs={toEventFormData(conflict.theirs)}
+          onMerge={handleConflictMerge}
+          onUseTheirs={handleConflictDiscard}
+          onCancel={() => setConflict(null)}
+          formatField={(field, value) => (field === 'assignee_id' ? getMemberName(members, value) : value)}
+        />
+      )}
     </div>
   );
 }
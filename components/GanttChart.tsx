@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo, useEffect, useRef } from 'react';
+import { useState, useMemo, useEffect, useLayoutEffect, useRef } from 'react';
 import EventForm from './EventForm';
 import TaskForm from './TaskForm';
 import {
@@ -21,21 +21,37 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import {
-  initializeTaskOrder,
-  updateTaskOrderForSubcategory,
-  sortTasksByOrder,
-  cleanupTaskOrder,
-  addTaskToOrder,
-  initializeCategoryOrder,
-  saveCategoryOrder,
-  loadCategoryOrder,
-  initializeSubcategoryOrder,
-  saveSubcategoryOrder,
-  loadSubcategoryOrder,
-  loadTaskOrder,
-  addCategoryToOrder,
-  addSubcategoryToOrder,
+  getPreviousKey,
+  getRankInOrder,
+  isPersonalOrder,
+  moveCategory,
+  moveSubcategory,
+  PERSONAL_ORDER_PREFERENCE_KEYS,
+  savePersonalTaskOrder,
+  setPersonalOrder,
+  sortCategories,
+  sortSubcategories,
+  sortTasks,
 } from '@/lib/taskOrderStorage';
+import type { DependencyType } from '@/lib/taskDependency';
+import type { ScheduledTask } from '@/lib/scheduling';
+import { createWorkingCalendar, WorkingCalendar } from '@/lib/workingCalendar';
+import { Baseline, BaselineTaskVariance, formatVarianceDays } from '@/lib/baseline';
+import { orderTasksByHierarchy } from '@/lib/taskHierarchy';
+import { PROGRESS_SOURCE_LABELS, ProgressSource, clampProgress, rollupProgress } from '@/lib/progress';
+import type { UndoableCommand } from '@/lib/undoHistory';
+import { createTaskUpdateCommand, saveTaskFields, toTaskFields } from '@/lib/taskCommands';
+import { VersionConflictError } from '@/lib/concurrency';
+import { Category, CATEGORIES_URL } from '@/lib/category';
+import {
+  GANTT_PREFERENCE_KEYS,
+  isSharedAccount,
+  loadPreference,
+  resetUserPreferences,
+  savePreference,
+  saveTeamPreferences,
+} from '@/lib/viewPreferences';
+import type { Event, TaskListItem as Task } from '@/lib/domain';
 
 // Helper function to parse date strings without timezone issues
 const parseDateString = (dateString: string): Date => {
@@ -43,78 +59,272 @@ const parseDateString = (dateString: string): Date => {
   return new Date(dateString.includes('T') ? dateString : `${dateString}T00:00:00`);
 };
 
-interface Task {
-  id: string;
-  name: string;
-  category: string;
-  sub_category: string;
-  start_date: string | null;
-  end_date: string | null;
-  assignee: string | null;
-  status: string;
-  display_order: number;
-  note: string | null;
-  events: Event[];
-}
-
-interface Event {
-  id: string;
-  name: string;
-  due_date: string | null;
-  assignee: string | null;
-  status: string;
-  task_id: string;
-  note: string | null;
-}
-
 interface GanttChartProps {
   tasks: Task[];
   onTaskClick: (task: Task) => void;
   onAddTask?: (category: string, subCategory: string) => void;
   onRefresh: () => void;
+  // Records undoable edits (bar drags, progress, reordering) in the page's undo history
+  onCommand?: (command: UndoableCommand) => void;
+  // Tasks changed by another page, highlighted briefly
+  highlightedTaskIds?: Set<string>;
 }
 
-type ViewMode = 'week' | 'day';
+type ViewMode = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+// Bar drag modes: move the whole bar, or drag one edge to change a single date
+type BarDragMode = 'move' | 'resize-start' | 'resize-end';
 
-// Timeline display constants
-const CELL_WIDTH_DAY = 30;
-const CELL_WIDTH_WEEK = 30;
-const TIMELINE_UNITS = 120;
+interface BarMouseDownInfo {
+  taskId: string;
+  mouseDownX: number;
+  mouseDownTime: number;
+  mode: BarDragMode;
+  originalStart: string;
+  originalEnd: string;
+}
+
+// Timeline display constants per zoom level
+// - cellWidth: width of one timeline unit (px)
+// - units: default number of units rendered
+// - daysPerUnit: average unit length, used to convert pixels to days
+// - snapDays: drag snapping step
+const VIEW_MODE_CONFIG: Record<ViewMode, { label: string; cellWidth: number; units: number; daysPerUnit: number; snapDays: number }> = {
+  day: { label: '日', cellWidth: 30, units: 120, daysPerUnit: 1, snapDays: 1 },
+  week: { label: '週', cellWidth: 30, units: 120, daysPerUnit: 7, snapDays: 7 },
+  month: { label: '月', cellWidth: 60, units: 36, daysPerUnit: 30.44, snapDays: 7 },
+  quarter: { label: '四半期', cellWidth: 80, units: 20, daysPerUnit: 91.31, snapDays: 7 },
+  year: { label: '年', cellWidth: 100, units: 10, daysPerUnit: 365.25, snapDays: 30 },
+};
+const VIEW_MODES: ViewMode[] = ['day', 'week', 'month', 'quarter', 'year'];
+const MAX_TIMELINE_UNITS = 1000; // Safety cap when extending the timeline to cover all tasks
+const MIN_BAR_WIDTH = 8;
+const MILESTONE_SIZE = 16; // Diamond marker width/height (px)
 const TIMELINE_PADDING = 8; // p-2 = 0.5rem = 8px
 
+// Align a date to the start of its timeline unit (weeks start on the chosen start date's weekday)
+const startOfTimelineUnit = (date: Date, viewMode: ViewMode): Date => {
+  const d = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (viewMode === 'month') {
+    d.setDate(1);
+  } else if (viewMode === 'quarter') {
+    d.setMonth(Math.floor(d.getMonth() / 3) * 3, 1);
+  } else if (viewMode === 'year') {
+    d.setMonth(0, 1);
+  }
+  return d;
+};
+
+// Move a unit-aligned date by a number of timeline units
+const addTimelineUnits = (date: Date, count: number, viewMode: ViewMode): Date => {
+  const d = new Date(date);
+  if (viewMode === 'day') {
+    d.setDate(d.getDate() + count);
+  } else if (viewMode === 'week') {
+    d.setDate(d.getDate() + count * 7);
+  } else if (viewMode === 'month') {
+    d.setMonth(d.getMonth() + count);
+  } else if (viewMode === 'quarter') {
+    d.setMonth(d.getMonth() + count * 3);
+  } else {
+    d.setFullYear(d.getFullYear() + count);
+  }
+  return d;
+};
+
+// Label for a single timeline cell in the lower header band
+const formatUnitLabel = (date: Date, viewMode: ViewMode): string => {
+  if (viewMode === 'week') return `${date.getMonth() + 1}/${date.getDate()}`;
+  if (viewMode === 'month') return `${date.getMonth() + 1}月`;
+  if (viewMode === 'quarter') return `Q${Math.floor(date.getMonth() / 3) + 1}`;
+  if (viewMode === 'year') return `${date.getFullYear()}年`;
+  return `${date.getDate()}日`;
+};
+
+// Group key and label for the upper header band (null when the mode has no upper band)
+const getBandKey = (date: Date, viewMode: ViewMode): { key: string; label: string } | null => {
+  if (viewMode === 'day' || viewMode === 'week') {
+    return { key: `${date.getFullYear()}-${date.getMonth()}`, label: `${date.getFullYear()}年${date.getMonth() + 1}月` };
+  }
+  if (viewMode === 'month' || viewMode === 'quarter') {
+    return { key: `${date.getFullYear()}`, label: `${date.getFullYear()}年` };
+  }
+  return null;
+};
+
 const STORAGE_KEY_CATEGORIES = 'gantt_expanded_categories';
 const STORAGE_KEY_SUBCATEGORIES = 'gantt_expanded_subcategories';
+const STORAGE_KEY_COLLAPSED_TASKS = 'gantt_collapsed_tasks';
+const STORAGE_KEY_PROGRESS_SOURCE = 'gantt_progress_source';
 const STORAGE_KEY_SCROLL_POSITION = 'gantt_scroll_position';
+// Per-page flag, so it stays in localStorage rather than the view preferences
 const STORAGE_KEY_SHOULD_RESTORE = 'gantt_should_restore_scroll';
 
+// Preferences published by "チーム既定として保存" (everything but the scroll position)
+const TEAM_DEFAULT_PREFERENCE_KEYS = GANTT_PREFERENCE_KEYS.filter(
+  key => key !== STORAGE_KEY_SCROLL_POSITION && !PERSONAL_ORDER_PREFERENCE_KEYS.includes(key)
+);
+
+// Shown while signed in with the shared Basic auth account
+const SHARED_ACCOUNT_NOTICE = '共有アカウントでログインしているため、展開状態などの表示設定はこのアカウントを使う全員で共有されます。';
+
+// Minimum horizontal movement (px) before a mouse down on a bar becomes a drag
+const DRAG_THRESHOLD = 5;
+// Progress handle drags snap to this many percent
+const PROGRESS_SNAP = 5;
+
+// Format a Date as YYYY-MM-DD in local time
+const formatDateKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// Shift a YYYY-MM-DD date string by a number of days
+const addDaysToDateKey = (dateKey: string, days: number): string => {
+  const date = parseDateString(dateKey);
+  date.setDate(date.getDate() + days);
+  return formatDateKey(date);
+};
+
+// Apply a drag delta to a task's dates according to the drag mode
+const getDraggedDates = (
+  mode: BarDragMode,
+  originalStart: string,
+  originalEnd: string,
+  deltaDays: number
+): { start_date: string; end_date: string } => {
+  if (mode === 'move') {
+    return {
+      start_date: addDaysToDateKey(originalStart, deltaDays),
+      end_date: addDaysToDateKey(originalEnd, deltaDays),
+    };
+  }
+
+  if (mode === 'resize-start') {
+    const newStart = addDaysToDateKey(originalStart, deltaDays);
+    return {
+      start_date: newStart > originalEnd ? originalEnd : newStart,
+      end_date: originalEnd,
+    };
+  }
+
+  const newEnd = addDaysToDateKey(originalEnd, deltaDays);
+  return {
+    start_date: originalStart,
+    end_date: newEnd < originalStart ? originalStart : newEnd,
+  };
+};
+
+// Dependency arrow constants
+const ARROW_GAP = 8; // Horizontal stub before turning towards the other bar
+
+interface BarRect {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+// Build an elbow connector path between two task bars for the given dependency type
+const getDependencyPath = (from: BarRect, to: BarRect, type: DependencyType): string => {
+  const fromFinish = type === 'FS' || type === 'FF';
+  const toFinish = type === 'FF' || type === 'SF';
+
+  const x1 = fromFinish ? from.right : from.left;
+  const y1 = (from.top + from.bottom) / 2;
+  const x2 = toFinish ? to.right : to.left;
+  const y2 = (to.top + to.bottom) / 2;
+
+  const exitX = fromFinish ? x1 + ARROW_GAP : x1 - ARROW_GAP;
+  const entryX = toFinish ? x2 + ARROW_GAP : x2 - ARROW_GAP;
+
+  // Straight drop when the stubs already face each other, otherwise route between the rows
+  const canDropDirectly = toFinish ? exitX >= entryX : exitX <= entryX;
+  if (canDropDirectly) {
+    return `M ${x1} ${y1} H ${exitX} V ${y2} H ${x2}`;
+  }
+
+  const midY = (y1 + y2) / 2;
+  return `M ${x1} ${y1} H ${exitX} V ${midY} H ${entryX} V ${y2} H ${x2}`;
+};
+
+// Resolve the date range shown for a task, falling back to its events' due dates
+const getTaskDateRange = (task: Task): { start: Date; end: Date } | null => {
+  const eventTimes = task.events
+    .filter(e => e.due_date)
+    .map(e => parseDateString(e.due_date!).getTime());
+
+  const taskStart = task.start_date
+    ? parseDateString(task.start_date)
+    : eventTimes.length > 0
+    ? new Date(Math.min(...eventTimes))
+    : null;
+
+  const taskEnd = task.end_date
+    ? parseDateString(task.end_date)
+    : eventTimes.length > 0
+    ? new Date(Math.max(...eventTimes))
+    : null;
+
+  if (!taskStart || !taskEnd) return null;
+
+  return { start: taskStart, end: taskEnd };
+};
+
+// Move one task in the shared server order; resolves to its new rank
+// (rejects with the server's message when the move was not saved)
+const saveTaskMove = async (order: string[], taskId: string): Promise<string> => {
+  const response = await fetch('/api/tasks/reorder', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ id: taskId, previous_id: getPreviousKey(order, taskId) }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || '並び順の保存に失敗しました');
+  }
+  return data.rank;
+};
+
 // Sortable Task Row Component
 interface SortableTaskRowProps {
   task: Task;
   position: { left: string; width: string; start: Date; end: Date } | null;
   timelineDates: Date[];
-  viewMode: ViewMode;
   onTaskClick: (task: Task) => void;
   getStatusColor: (status: string) => string;
   getEventColor: (status: string) => { bg: string; hover: string; border: string };
   handleEventClick: (event: Event) => void;
   handleAddEvent: (taskId: string, date: string) => void;
   handleTaskEdit: (task: Task) => void;
-  mouseDownInfo: { taskId: string; mouseDownX: number; mouseDownTime: number } | null;
-  setMouseDownInfo: (info: { taskId: string; mouseDownX: number; mouseDownTime: number } | null) => void;
+  mouseDownInfo: BarMouseDownInfo | null;
+  setMouseDownInfo: (info: BarMouseDownInfo | null) => void;
+  onBarMouseDown: (task: Task, mode: BarDragMode, clientX: number, start: Date, end: Date) => void;
+  onProgressMouseDown: (task: Task, clientX: number, barWidth: number) => void;
   lastClickInfo: { taskId: string; time: number } | null;
   setLastClickInfo: (info: { taskId: string; time: number } | null) => void;
   singleClickTimer: NodeJS.Timeout | null;
   setSingleClickTimer: (timer: NodeJS.Timeout | null) => void;
   timelineWidth: number;
   cellWidth: number;
-  unitInMs: number;
+  getEventPosition: (dateString: string) => number | null;
+  getDateAtOffset: (offset: number) => Date;
+  scheduleInfo?: ScheduledTask;
+  nonWorkingLabels: (string | null)[];
+  baselinePosition: { left: string; width: string } | null;
+  baselineVariance?: BaselineTaskVariance;
+  isCollapsed: boolean;
+  onToggleCollapse: (taskId: string) => void;
+  // Recently changed by another page (live update)
+  isHighlighted: boolean;
 }
 
 function SortableTaskRow({
   task,
   position,
   timelineDates,
-  viewMode,
   onTaskClick,
   getStatusColor,
   getEventColor,
@@ -123,13 +333,23 @@ function SortableTaskRow({
   handleTaskEdit,
   mouseDownInfo,
   setMouseDownInfo,
+  onBarMouseDown,
+  onProgressMouseDown,
   lastClickInfo,
   setLastClickInfo,
   singleClickTimer,
   setSingleClickTimer,
   timelineWidth,
   cellWidth,
-  unitInMs,
+  getEventPosition,
+  getDateAtOffset,
+  scheduleInfo,
+  nonWorkingLabels,
+  baselinePosition,
+  baselineVariance,
+  isCollapsed,
+  onToggleCollapse,
+  isHighlighted,
 }: SortableTaskRowProps) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
     id: task.id,
@@ -141,16 +361,24 @@ function SortableTaskRow({
     opacity: isDragging ? 0.5 : 1,
   };
 
+  const isMilestone = task.kind === 'milestone';
+  const milestoneCenter = isMilestone && task.start_date ? getEventPosition(task.start_date) : null;
+
   return (
     <div
       ref={setNodeRef}
       style={style}
-      className="flex border-b border-gray-700 hover:bg-gray-700 group"
+      className={`flex border-b border-gray-700 hover:bg-gray-700 group transition-colors duration-1000 ${
+        isHighlighted ? 'bg-yellow-500/10' : ''
+      }`}
     >
       <div
-        className="w-88 flex-shrink-0 p-2 pl-10 text-gray-300 flex items-center justify-between sticky left-0 bg-gray-800 group-hover:bg-gray-700 z-20"
+        className={`w-88 flex-shrink-0 p-2 text-gray-300 flex items-center justify-between sticky left-0 group-hover:bg-gray-700 z-20 transition-colors duration-1000 ${
+          isHighlighted ? 'bg-yellow-950' : 'bg-gray-800'
+        }`}
+        style={{ paddingLeft: `${40 + (task.depth || 0) * 16}px` }}
       >
-        <div className="flex items-center">
+        <div className="flex items-center min-w-0">
           <span
             className="mr-2 text-gray-500 cursor-move"
             {...attributes}
@@ -158,12 +386,35 @@ function SortableTaskRow({
           >
             ⋮⋮
           </span>
+          {task.is_summary && (
+            <span
+              className="mr-1 text-xs cursor-pointer"
+              onClick={() => onToggleCollapse(task.id)}
+            >
+              {isCollapsed ? '▶' : '▼'}
+            </span>
+          )}
+          {isMilestone && <span className="mr-1 text-xs text-yellow-300">◆</span>}
           <span
-            className="cursor-pointer hover:text-white hover:underline"
+            className={`cursor-pointer hover:text-white hover:underline truncate ${task.is_summary ? 'font-semibold' : ''}`}
             onClick={() => onTaskClick(task)}
           >
             {task.name}
           </span>
+          {baselineVariance && (
+            <span
+              className={`ml-2 text-xs whitespace-nowrap ${
+                (baselineVariance.finish_variance_days ?? 0) > 0
+                  ? 'text-red-400'
+                  : (baselineVariance.finish_variance_days ?? 0) < 0
+                    ? 'text-green-400'
+                    : 'text-gray-500'
+              }`}
+              title="ベースラインとの差異 (開始 / 終了)"
+            >
+              {formatVarianceDays(baselineVariance.start_variance_days)} / {formatVarianceDays(baselineVariance.finish_variance_days)}
+            </span>
+          )}
         </div>
         {task.assignee && (
           <span
@@ -179,32 +430,64 @@ function SortableTaskRow({
           return (
             <div
               key={index}
-              className="border-l border-gray-700"
+              className={`border-l border-gray-700 ${nonWorkingLabels[index] ? 'bg-gray-900/50' : ''}`}
               style={{ width: `${cellWidth}px` }}
             />
           );
         })}
+        {/* Baseline ghost bar, drawn under the live bar */}
+        {baselinePosition && baselineVariance && (
+          <div
+            className="absolute h-1.5 rounded-sm bg-gray-300 opacity-50 pointer-events-none"
+            style={{
+              left: baselinePosition.left,
+              width: baselinePosition.width,
+              bottom: '3px',
+              zIndex: 9,
+            }}
+            title={`ベースライン: ${baselineVariance.baseline_start} - ${baselineVariance.baseline_end}`}
+          />
+        )}
         {position && (
           <>
             {/* Main task bar */}
+            {/* Summary tasks are drawn as a thin bracket and cannot be dragged,
+                milestones as a diamond centered on their date */}
             <div
-              className={`absolute h-6 rounded ${getStatusColor(
+              data-task-bar={task.id}
+              className={`absolute ${getStatusColor(
                 task.status
-              )} opacity-80 hover:opacity-100 pointer-events-auto cursor-pointer`}
-              style={{
-                left: position.left,
-                width: position.width,
-                top: '50%',
-                transform: 'translateY(-50%)',
-                zIndex: 10,
-              }}
+              )} opacity-80 hover:opacity-100 pointer-events-auto ${
+                isMilestone
+                  ? 'rounded-sm border-2 border-white cursor-move'
+                  : task.is_summary
+                    ? 'rounded h-3 border-x-4 border-gray-200 cursor-pointer'
+                    : 'rounded h-6 cursor-move'
+              } ${
+                scheduleInfo?.is_critical ? 'ring-2 ring-red-500' : ''
+              }`}
+              style={
+                isMilestone && milestoneCenter !== null
+                  ? {
+                      left: `${milestoneCenter + TIMELINE_PADDING - MILESTONE_SIZE / 2}px`,
+                      width: `${MILESTONE_SIZE}px`,
+                      height: `${MILESTONE_SIZE}px`,
+                      top: '50%',
+                      transform: 'translateY(-50%) rotate(45deg)',
+                      zIndex: 10,
+                    }
+                  : {
+                      left: position.left,
+                      width: position.width,
+                      top: '50%',
+                      transform: 'translateY(-50%)',
+                      zIndex: 10,
+                    }
+              }
               onMouseDown={(e) => {
                 e.stopPropagation();
-                setMouseDownInfo({
-                  taskId: task.id,
-                  mouseDownX: e.clientX,
-                  mouseDownTime: Date.now(),
-                });
+                e.preventDefault(); // Avoid text selection while dragging
+                onBarMouseDown(task, 'move', e.clientX, position.start, position.end);
               }}
               onMouseUp={(e) => {
                 e.stopPropagation();
@@ -234,22 +517,10 @@ function SortableTaskRow({
                       const container = e.currentTarget.parentElement;
                       if (container) {
                         const containerRect = container.getBoundingClientRect();
-                        const clickX = e.clientX - containerRect.left;
-
-                        // Calculate which unit was clicked
-                        const clickedUnit = Math.floor(clickX / cellWidth);
-
-                        // Calculate the date (without the +1 shift)
-                        const chartStart = timelineDates[0];
-                        const clickedDate = new Date(chartStart);
-                        if (viewMode === 'day') {
-                          clickedDate.setDate(chartStart.getDate() + clickedUnit);
-                        } else {
-                          clickedDate.setDate(chartStart.getDate() + clickedUnit * 7);
-                        }
+                        const clickX = e.clientX - containerRect.left - TIMELINE_PADDING;
 
-                        // Format date as YYYY-MM-DD
-                        const dateStr = clickedDate.toISOString().split('T')[0];
+                        // Format the clicked date as YYYY-MM-DD
+                        const dateStr = formatDateKey(getDateAtOffset(clickX));
 
                         // Open event add dialog
                         handleAddEvent(task.id, dateStr);
@@ -274,11 +545,59 @@ function SortableTaskRow({
               onClick={(e) => {
                 e.stopPropagation(); // Prevent task edit dialog
               }}
-              title={`${task.name} (${task.status})${task.note ? '\nメモ: ' + task.note : ''}`}
+              title={`${task.name} (${task.status})${
+                task.working_days != null ? `\n稼働日数: ${task.working_days}日` : ''
+              }${
+                scheduleInfo
+                  ? `\n余裕日数: ${scheduleInfo.total_float}日${scheduleInfo.is_critical ? ' (クリティカル)' : ''}`
+                  : ''
+              }${
+                !isMilestone && task.progress !== undefined ? `\n進捗: ${task.progress}%` : ''
+              }${task.is_summary ? '\n日程・ステータス・進捗はサブタスクから集計' : ''}${task.note ? '\nメモ: ' + task.note : ''}`}
             >
-              <div className="text-xs text-white px-2 py-1 truncate pointer-events-none">
-                {task.name}
-              </div>
+              {/* Completed portion of the bar */}
+              {!isMilestone && (task.progress ?? 0) > 0 && (
+                <div
+                  className="absolute left-0 top-0 h-full rounded-l bg-white/30 pointer-events-none"
+                  style={{ width: `${task.progress}%` }}
+                />
+              )}
+              {!task.is_summary && !isMilestone && (
+                <>
+                  {/* Resize handles */}
+                  <div
+                    className="absolute left-0 top-0 h-full w-2 cursor-ew-resize rounded-l hover:bg-white/30"
+                    onMouseDown={(e) => {
+                      e.stopPropagation();
+                      e.preventDefault();
+                      onBarMouseDown(task, 'resize-start', e.clientX, position.start, position.end);
+                    }}
+                  />
+                  <div className="text-xs text-white px-2 py-1 truncate pointer-events-none">
+                    {task.name}
+                  </div>
+                  <div
+                    className="absolute right-0 top-0 h-full w-2 cursor-ew-resize rounded-r hover:bg-white/30"
+                    onMouseDown={(e) => {
+                      e.stopPropagation();
+                      e.preventDefault();
+                      onBarMouseDown(task, 'resize-end', e.clientX, position.start, position.end);
+                    }}
+                  />
+                  {/* Progress handle, shown below the bar on hover */}
+                  <div
+                    className="absolute top-full w-0 h-0 border-l-[5px] border-r-[5px] border-b-[6px] border-l-transparent border-r-transparent border-b-white cursor-col-resize opacity-0 group-hover:opacity-100"
+                    style={{ left: `${task.progress ?? 0}%`, transform: 'translateX(-50%)' }}
+                    title={`進捗: ${task.progress ?? 0}%`}
+                    onMouseDown={(e) => {
+                      e.stopPropagation();
+                      e.preventDefault();
+                      const bar = e.currentTarget.parentElement;
+                      if (bar) onProgressMouseDown(task, e.clientX, bar.getBoundingClientRect().width);
+                    }}
+                  />
+                </>
+              )}
             </div>
           </>
         )}
@@ -296,29 +615,12 @@ function SortableTaskRow({
             }
           });
 
-          return task.events.map((event, eventIndex) => {
+          return task.events.map((event) => {
             if (!event.due_date) return null;
-            const eventDate = parseDateString(event.due_date);
             const dateKey = event.due_date.split('T')[0];
 
-            // Find which timeline cell this event falls in
-            let eventCellIndex = -1;
-            for (let i = 0; i < timelineDates.length; i++) {
-              const cellDate = timelineDates[i];
-              const nextCellDate = i < timelineDates.length - 1
-                ? timelineDates[i + 1]
-                : new Date(cellDate.getTime() + unitInMs);
-
-              if (eventDate >= cellDate && eventDate < nextCellDate) {
-                eventCellIndex = i;
-                break;
-              }
-            }
-
-            if (eventCellIndex === -1) return null; // Event is outside visible range
-
-            // Calculate position using fixed cell width (add +1 for shift, center in cell)
-            const eventPos = (eventCellIndex + 1) * (cellWidth - 0.14) + ((cellWidth - 0.14) / 2);
+            const eventPos = getEventPosition(event.due_date);
+            if (eventPos === null) return null; // Event is outside visible range
 
             // Calculate vertical offset for stacked events on same date
             const eventsOnThisDate = eventsByDate.get(dateKey) || [];
@@ -362,7 +664,14 @@ function SortableTaskRow({
   );
 }
 
-export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }: GanttChartProps) {
+export default function GanttChart({
+  tasks,
+  onTaskClick,
+  onAddTask,
+  onRefresh,
+  onCommand,
+  highlightedTaskIds,
+}: GanttChartProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('day');
   const [startDate, setStartDate] = useState<Date>(() => {
     const date = new Date();
@@ -372,35 +681,26 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
 
   // Scroll container ref for preserving scroll position
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const timelineContentRef = useRef<HTMLDivElement>(null);
   const shouldRestoreScroll = useRef<boolean>(false);
 
-  // Load expanded state from localStorage on mount
-  const [expandedCategories, setExpandedCategories] = useState<Set<string>>(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem(STORAGE_KEY_CATEGORIES);
-      if (saved) {
-        try {
-          return new Set(JSON.parse(saved));
-        } catch (e) {
-          return new Set();
-        }
-      }
-    }
-    return new Set();
-  });
+  // Load expanded state from the view preferences on mount
+  const [expandedCategories, setExpandedCategories] = useState<Set<string>>(
+    () => new Set(loadPreference<string[]>(STORAGE_KEY_CATEGORIES, []))
+  );
 
-  const [expandedSubCategories, setExpandedSubCategories] = useState<Set<string>>(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem(STORAGE_KEY_SUBCATEGORIES);
-      if (saved) {
-        try {
-          return new Set(JSON.parse(saved));
-        } catch (e) {
-          return new Set();
-        }
-      }
-    }
-    return new Set();
+  const [expandedSubCategories, setExpandedSubCategories] = useState<Set<string>>(
+    () => new Set(loadPreference<string[]>(STORAGE_KEY_SUBCATEGORIES, []))
+  );
+
+  // Summary tasks are expanded by default, so only collapsed ones are stored
+  const [collapsedTasks, setCollapsedTasks] = useState<Set<string>>(
+    () => new Set(loadPreference<string[]>(STORAGE_KEY_COLLAPSED_TASKS, []))
+  );
+
+  const [progressSource, setProgressSource] = useState<ProgressSource>(() => {
+    const saved = loadPreference<string>(STORAGE_KEY_PROGRESS_SOURCE, 'manual');
+    return saved === 'events' ? 'events' : 'manual';
   });
 
   const [hoveredEvent, setHoveredEvent] = useState<{ taskId: string; date: string } | null>(null);
@@ -411,13 +711,36 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
   const [isTaskFormOpen, setIsTaskFormOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [localTasks, setLocalTasks] = useState<Task[]>(tasks);
+  // Latest tasks for moves that are undone or redone later
+  const localTasksRef = useRef(localTasks);
+  // Bumped to re-render after the ranks or the user's own order changed
+  const [, setOrderVersion] = useState(0);
   const [isSavingOrder, setIsSavingOrder] = useState(false);
-
-  // Click detection for task bars
-  const [mouseDownInfo, setMouseDownInfo] = useState<{
+  const [dependencyArrows, setDependencyArrows] = useState<{ id: string; path: string; isCritical: boolean }[]>([]);
+  const [showCriticalPath, setShowCriticalPath] = useState(false);
+  const [scheduleByTask, setScheduleByTask] = useState<Map<string, ScheduledTask>>(new Map());
+  // Colors by category name and by "category|sub_category"
+  const [categoryColors, setCategoryColors] = useState<Map<string, string>>(new Map());
+  const [workingCalendar, setWorkingCalendar] = useState<WorkingCalendar | null>(null);
+  const [baselines, setBaselines] = useState<Baseline[]>([]);
+  const [selectedBaselineId, setSelectedBaselineId] = useState<string>('');
+  const [baselineByTask, setBaselineByTask] = useState<Map<string, BaselineTaskVariance>>(new Map());
+
+  // Click and drag detection for task bars
+  const [mouseDownInfo, setMouseDownInfo] = useState<BarMouseDownInfo | null>(null);
+  const [dragPreview, setDragPreview] = useState<{
     taskId: string;
-    mouseDownX: number;
-    mouseDownTime: number;
+    start_date: string;
+    end_date: string;
+  } | null>(null);
+  const [progressPreview, setProgressPreview] = useState<{ taskId: string; progress: number } | null>(null);
+
+  // Reschedule that failed to save, kept so the user can retry or undo it
+  const [failedReschedule, setFailedReschedule] = useState<{
+    task: Task;
+    start_date: string;
+    end_date: string;
+    message: string;
   } | null>(null);
 
   // Double-click detection for task bars
@@ -427,49 +750,159 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
   } | null>(null);
   const [singleClickTimer, setSingleClickTimer] = useState<NodeJS.Timeout | null>(null);
 
-  // Sync local tasks with props and initialize/cleanup localStorage order
+  // Sync local tasks with props
   useEffect(() => {
     setLocalTasks(tasks);
+  }, [tasks]);
 
-    // Initialize task order from localStorage or DB on first load
-    if (tasks.length > 0) {
-      const taskIds = tasks.map(t => t.id);
-      cleanupTaskOrder(taskIds); // Remove deleted tasks from order
-      initializeTaskOrder(tasks); // Initialize if not exists
-      initializeCategoryOrder(tasks); // Initialize category order
-      initializeSubcategoryOrder(tasks); // Initialize subcategory order
-
-      // Ensure new categories/subcategories are added to order
-      const categories = Array.from(new Set(tasks.map(t => t.category)));
-      categories.forEach(cat => addCategoryToOrder(cat));
-
-      const subcategories = new Map<string, Set<string>>();
-      tasks.forEach(task => {
-        if (!subcategories.has(task.category)) {
-          subcategories.set(task.category, new Set());
-        }
-        subcategories.get(task.category)!.add(task.sub_category);
-      });
-      subcategories.forEach((subs, cat) => {
-        subs.forEach(sub => addSubcategoryToOrder(cat, sub));
-      });
+  useEffect(() => {
+    localTasksRef.current = localTasks;
+  }, [localTasks]);
+
+  // Fetch schedule (float / critical path) while highlighting is enabled
+  useEffect(() => {
+    if (!showCriticalPath) {
+      setScheduleByTask(new Map());
+      return;
     }
+
+    const fetchSchedule = async () => {
+      try {
+        const response = await fetch('/api/tasks/schedule');
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch schedule');
+        }
+
+        setScheduleByTask(
+          new Map((data.schedule.tasks as ScheduledTask[]).map((scheduled) => [scheduled.task_id, scheduled]))
+        );
+      } catch (error) {
+        console.error('[GANTT] Error fetching schedule:', error);
+      }
+    };
+
+    fetchSchedule();
+  }, [showCriticalPath, tasks]);
+
+  // Fetch category colors (tasks are refetched after a category is renamed or merged)
+  useEffect(() => {
+    const fetchCategoryColors = async () => {
+      try {
+        const response = await fetch(`${CATEGORIES_URL}?include_archived=true`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch categories');
+        }
+
+        const colors = new Map<string, string>();
+        (data.categories as Category[]).forEach((category) => {
+          if (category.color) colors.set(category.name, category.color);
+          category.subcategories.forEach((subcategory) => {
+            if (subcategory.color) colors.set(`${category.name}|${subcategory.name}`, subcategory.color);
+          });
+        });
+        setCategoryColors(colors);
+      } catch (error) {
+        console.error('[GANTT] Error fetching categories:', error);
+      }
+    };
+
+    fetchCategoryColors();
   }, [tasks]);
 
-  // Save expanded categories to localStorage when changed
+  const fetchBaselines = async () => {
+    try {
+      const response = await fetch('/api/baselines');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch baselines');
+      }
+
+      setBaselines(data.baselines);
+    } catch (error) {
+      console.error('[GANTT] Error fetching baselines:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchBaselines();
+  }, []);
+
+  // Fetch variances against the selected baseline (re-fetched when tasks change)
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(STORAGE_KEY_CATEGORIES, JSON.stringify(Array.from(expandedCategories)));
+    if (!selectedBaselineId) {
+      setBaselineByTask(new Map());
+      return;
+    }
+
+    const fetchBaselineVariance = async () => {
+      try {
+        const response = await fetch(`/api/baselines?id=${selectedBaselineId}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch baseline');
+        }
+
+        setBaselineByTask(
+          new Map((data.tasks as BaselineTaskVariance[]).map((variance) => [variance.task_id, variance]))
+        );
+      } catch (error) {
+        console.error('[GANTT] Error fetching baseline:', error);
+      }
+    };
+
+    fetchBaselineVariance();
+  }, [selectedBaselineId, tasks]);
+
+  const handleCreateBaseline = async () => {
+    const name = prompt('ベースライン名を入力してください', `ベースライン ${new Date().toLocaleDateString('ja-JP')}`);
+    if (!name) return;
+
+    try {
+      const response = await fetch('/api/baselines', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create baseline');
+      }
+
+      await fetchBaselines();
+      setSelectedBaselineId(data.baseline.id);
+    } catch (error) {
+      console.error('[GANTT] Error creating baseline:', error);
+      alert(error instanceof Error ? error.message : 'ベースラインの保存に失敗しました');
     }
+  };
+
+  // Save expanded categories to the view preferences when changed
+  useEffect(() => {
+    savePreference(STORAGE_KEY_CATEGORIES, Array.from(expandedCategories));
   }, [expandedCategories]);
 
-  // Save expanded subcategories to localStorage when changed
+  // Save expanded subcategories to the view preferences when changed
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(STORAGE_KEY_SUBCATEGORIES, JSON.stringify(Array.from(expandedSubCategories)));
-    }
+    savePreference(STORAGE_KEY_SUBCATEGORIES, Array.from(expandedSubCategories));
   }, [expandedSubCategories]);
 
+  // Save collapsed summary tasks to the view preferences when changed
+  useEffect(() => {
+    savePreference(STORAGE_KEY_COLLAPSED_TASKS, Array.from(collapsedTasks));
+  }, [collapsedTasks]);
+
+  // Save the progress rollup source to the view preferences when changed
+  useEffect(() => {
+    savePreference(STORAGE_KEY_PROGRESS_SOURCE, progressSource);
+  }, [progressSource]);
+
   // Restore scroll position after tasks update
   useEffect(() => {
     const shouldRestore = typeof window !== 'undefined'
@@ -484,12 +917,15 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
     // });
 
     if (shouldRestore && scrollContainerRef.current) {
-      const savedPosition = localStorage.getItem(STORAGE_KEY_SCROLL_POSITION);
-      // console.log('[Scroll Debug] Saved position from localStorage:', savedPosition);
+      const savedPosition = loadPreference<{ scrollLeft: number; scrollTop: number } | null>(
+        STORAGE_KEY_SCROLL_POSITION,
+        null
+      );
+      // console.log('[Scroll Debug] Saved position from preferences:', savedPosition);
 
       if (savedPosition) {
         try {
-          const { scrollLeft, scrollTop } = JSON.parse(savedPosition);
+          const { scrollLeft, scrollTop } = savedPosition;
           // console.log('[Scroll Debug] Parsed position:', { scrollLeft, scrollTop });
 
           // Use setTimeout to ensure DOM is updated
@@ -530,7 +966,7 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
           scrollTop: scrollContainer.scrollTop,
         };
         //console.log('[Scroll Debug] Scroll event fired, saving position:', position);
-        localStorage.setItem(STORAGE_KEY_SCROLL_POSITION, JSON.stringify(position));
+        savePreference(STORAGE_KEY_SCROLL_POSITION, position);
       }
     };
 
@@ -551,114 +987,258 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
     })
   );
 
-  // Group tasks by category and subcategory (sorted by localStorage order)
-  const groupedTasks = useMemo(() => {
-    const groups: Record<string, Record<string, Task[]>> = {};
+  // Group tasks by category and subcategory (in display order). Worked out on
+  // every render like the category order, since a user's own order is read
+  // from the preferences.
+  const groupedTasks: Record<string, Record<string, Task[]>> = {};
+  sortTasks(localTasks).forEach((task) => {
+    if (!groupedTasks[task.category]) {
+      groupedTasks[task.category] = {};
+    }
+    if (!groupedTasks[task.category][task.sub_category]) {
+      groupedTasks[task.category][task.sub_category] = [];
+    }
+    groupedTasks[task.category][task.sub_category].push(task);
+  });
+
+  // Categories and subcategories in display order
+  const sortedCategories = sortCategories(Object.keys(groupedTasks));
 
-    // Sort tasks using localStorage order first
-    const sortedTasks = sortTasksByOrder(localTasks);
+  const getSortedSubCategories = (category: string) =>
+    sortSubcategories(category, Object.keys(groupedTasks[category] || {}));
 
-    sortedTasks.forEach((task) => {
-      if (!groups[task.category]) {
-        groups[task.category] = {};
-      }
-      if (!groups[task.category][task.sub_category]) {
-        groups[task.category][task.sub_category] = [];
-      }
-      groups[task.category][task.sub_category].push(task);
+  // Overall date range of all tasks (used to extend the timeline and for "fit all")
+  const taskDateRange = useMemo(() => {
+    let earliest: Date | null = null;
+    let latest: Date | null = null;
+
+    localTasks.forEach((task) => {
+      const range = getTaskDateRange(task);
+      if (!range) return;
+      if (!earliest || range.start < earliest) earliest = range.start;
+      if (!latest || range.end > latest) latest = range.end;
     });
 
-    return groups;
+    return earliest && latest ? { start: earliest as Date, end: latest as Date } : null;
   }, [localTasks]);
 
-  // Get sorted categories based on localStorage order
-  const sortedCategories = useMemo(() => {
-    const categories = Object.keys(groupedTasks);
-    const categoryOrder = loadCategoryOrder();
+  // Generate timeline dates - default unit count per zoom level, extended to cover every task
+  const timelineDates = useMemo(() => {
+    const dates: Date[] = [];
+    const timelineStart = startOfTimelineUnit(startDate, viewMode);
+
+    let units = VIEW_MODE_CONFIG[viewMode].units;
+    if (taskDateRange) {
+      while (
+        units < MAX_TIMELINE_UNITS &&
+        addTimelineUnits(timelineStart, units, viewMode) <= taskDateRange.end
+      ) {
+        units++;
+      }
+    }
 
-    // Sort by localStorage order
-    return categories.sort((a, b) => {
-      const indexA = categoryOrder.indexOf(a);
-      const indexB = categoryOrder.indexOf(b);
+    for (let i = 0; i < units; i++) {
+      dates.push(addTimelineUnits(timelineStart, i, viewMode));
+    }
 
-      // If not in order, put at end
-      if (indexA === -1 && indexB === -1) return 0;
-      if (indexA === -1) return 1;
-      if (indexB === -1) return -1;
+    return dates;
+  }, [startDate, viewMode, taskDateRange]);
 
-      return indexA - indexB;
-    });
-  }, [groupedTasks]);
+  // Fetch holidays and weekend rules for the visible range (only shaded in day view)
+  const calendarFrom = timelineDates.length > 0 ? formatDateKey(timelineDates[0]) : null;
+  const calendarTo = timelineDates.length > 0 ? formatDateKey(timelineDates[timelineDates.length - 1]) : null;
+  useEffect(() => {
+    if (viewMode !== 'day' || !calendarFrom || !calendarTo) return;
 
-  // Get sorted subcategories for a category based on localStorage order
-  const getSortedSubCategories = (category: string) => {
-    const subCategories = Object.keys(groupedTasks[category] || {});
-    const subcategoryOrder = loadSubcategoryOrder();
-    const categorySubOrder = subcategoryOrder[category] || [];
+    const fetchCalendar = async () => {
+      try {
+        const response = await fetch(`/api/calendar?from=${calendarFrom}&to=${calendarTo}`);
+        const data = await response.json();
 
-    return subCategories.sort((a, b) => {
-      const indexA = categorySubOrder.indexOf(a);
-      const indexB = categorySubOrder.indexOf(b);
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch calendar');
+        }
 
-      // If not in order, put at end
-      if (indexA === -1 && indexB === -1) return 0;
-      if (indexA === -1) return 1;
-      if (indexB === -1) return -1;
+        // Holidays are already listed by the API, so only weekend rules are applied here
+        setWorkingCalendar(
+          createWorkingCalendar(
+            { weekend_days: data.calendar.weekend_days, include_japanese_holidays: false },
+            data.non_working_days
+          )
+        );
+      } catch (error) {
+        console.error('[GANTT] Error fetching calendar:', error);
+      }
+    };
 
-      return indexA - indexB;
-    });
-  };
+    fetchCalendar();
+  }, [viewMode, calendarFrom, calendarTo]);
 
-  // Generate timeline dates - Fixed 120 units
-  const timelineDates = useMemo(() => {
-    const dates: Date[] = [];
+  // Holiday name / '休日' for each non-working day cell, null otherwise
+  const nonWorkingLabels = useMemo(() => {
+    if (viewMode !== 'day' || !workingCalendar) return [];
+    return timelineDates.map(date => workingCalendar.getNonWorkingLabel(formatDateKey(date)));
+  }, [viewMode, workingCalendar, timelineDates]);
 
-    if (viewMode === 'week') {
-      // 120 weeks
-      for (let i = 0; i < TIMELINE_UNITS; i++) {
-        const d = new Date(startDate);
-        d.setDate(d.getDate() + i * 7);
-        dates.push(d);
-      }
-    } else {
-      // 120 days
-      for (let i = 0; i < TIMELINE_UNITS; i++) {
-        const d = new Date(startDate);
-        d.setDate(d.getDate() + i);
-        dates.push(d);
+  // Calculate timeline width and cell width
+  const cellWidth = VIEW_MODE_CONFIG[viewMode].cellWidth;
+  const unitWidth = cellWidth - 0.14;
+  const timelineWidth = timelineDates.length * cellWidth;
+
+  // Start of the cell after timelineDates[index]
+  const getCellEnd = (index: number): Date => {
+    return index < timelineDates.length - 1
+      ? timelineDates[index + 1]
+      : addTimelineUnits(timelineDates[index], 1, viewMode);
+  };
+
+  // Pixel offset of a date from the start of the timeline, proportional within its cell
+  const getDateOffset = (date: Date): number => {
+    for (let i = 0; i < timelineDates.length; i++) {
+      const cellEnd = getCellEnd(i);
+      if (date < cellEnd) {
+        const cellStart = timelineDates[i];
+        const fraction = (date.getTime() - cellStart.getTime()) / (cellEnd.getTime() - cellStart.getTime());
+        return (i + fraction) * unitWidth;
       }
     }
 
-    return dates;
-  }, [startDate, viewMode]);
+    // After the visible range: extrapolate using the last cell's length
+    const lastIndex = timelineDates.length - 1;
+    const lastStart = timelineDates[lastIndex];
+    const lastLength = getCellEnd(lastIndex).getTime() - lastStart.getTime();
+    return (lastIndex + (date.getTime() - lastStart.getTime()) / lastLength) * unitWidth;
+  };
 
-  // Calculate timeline width and cell width
-  const timelineWidth = useMemo(() => {
-    return viewMode === 'day'
-      ? TIMELINE_UNITS * CELL_WIDTH_DAY  // 4800px
-      : TIMELINE_UNITS * CELL_WIDTH_WEEK; // 7200px
-  }, [viewMode]);
+  // Inverse of getDateOffset, rounded down to the day
+  const getDateAtOffset = (offset: number): Date => {
+    const index = Math.min(Math.max(Math.floor(offset / unitWidth), 0), timelineDates.length - 1);
+    const cellStart = timelineDates[index];
+    const fraction = Math.min(Math.max(offset / unitWidth - index, 0), 1);
+    const date = new Date(cellStart.getTime() + fraction * (getCellEnd(index).getTime() - cellStart.getTime()));
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  };
 
-  const cellWidth = viewMode === 'day' ? CELL_WIDTH_DAY : CELL_WIDTH_WEEK;
-  const unitInMs = viewMode === 'day'
-    ? 24 * 60 * 60 * 1000  // 1 day in milliseconds
-    : 7 * 24 * 60 * 60 * 1000; // 1 week in milliseconds
+  // Horizontal position for a date range (end inclusive), clipped to the visible timeline
+  const getRangePosition = (start: Date, end: Date) => {
+    const dayAfterEnd = new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1);
+    const leftPx = getDateOffset(start);
+    const rightPx = getDateOffset(dayAfterEnd);
+    const totalPx = timelineDates.length * unitWidth;
 
-  // Calculate today's position for the vertical bar
-  const todayPosition = useMemo(() => {
+    // Completely outside the visible range
+    if (rightPx <= 0 || leftPx >= totalPx) return null;
+
+    const clippedLeft = Math.max(0, leftPx);
+    const clippedRight = Math.min(totalPx, rightPx);
+
+    return {
+      left: `${clippedLeft + TIMELINE_PADDING}px`,
+      width: `${Math.max(MIN_BAR_WIDTH, clippedRight - clippedLeft)}px`,
+      start,
+      end,
+    };
+  };
+
+  // Center position of an event marker (middle of its day), or null when outside the range
+  const getEventPosition = (dateString: string): number | null => {
+    const eventDate = parseDateString(dateString.split('T')[0]);
+    const dayAfter = new Date(eventDate.getFullYear(), eventDate.getMonth(), eventDate.getDate() + 1);
+    const leftPx = getDateOffset(eventDate);
+    const rightPx = getDateOffset(dayAfter);
+
+    if (rightPx <= 0 || leftPx >= timelineDates.length * unitWidth) return null;
+
+    return (leftPx + rightPx) / 2;
+  };
+
+  // Index of the timeline cell that contains today (null when outside the range)
+  const todayIndex = useMemo(() => {
     const today = new Date();
-    const todayIndex = timelineDates.findIndex(date => {
-      if (viewMode === 'day') {
-        return date.toDateString() === today.toDateString();
+    const index = timelineDates.findIndex((date, i) => {
+      const cellEnd = i < timelineDates.length - 1
+        ? timelineDates[i + 1]
+        : addTimelineUnits(date, 1, viewMode);
+      return date <= today && today < cellEnd;
+    });
+    return index === -1 ? null : index;
+  }, [timelineDates, viewMode]);
+
+  // Calculate today's position for the vertical bar
+  const todayPosition = todayIndex === null
+    ? null
+    : 352 + todayIndex * unitWidth; // 352px = fixed column width
+
+  // Upper header band (months or years spanning several cells)
+  const headerBands = useMemo(() => {
+    const bands: { key: string; label: string; units: number }[] = [];
+    timelineDates.forEach((date) => {
+      const band = getBandKey(date, viewMode);
+      if (!band) return;
+      const last = bands[bands.length - 1];
+      if (last && last.key === band.key) {
+        last.units++;
       } else {
-        return date <= today && new Date(date.getTime() + 7 * 24 * 60 * 60 * 1000) > today;
+        bands.push({ ...band, units: 1 });
       }
     });
+    return bands;
+  }, [timelineDates, viewMode]);
+
+  // Pick the finest zoom level that shows all tasks in the visible width, starting at the earliest task
+  const fitAllTasks = () => {
+    if (!taskDateRange) return;
+
+    const availableWidth = (scrollContainerRef.current?.clientWidth ?? 1200) - 352 - TIMELINE_PADDING * 2;
+    const spanDays = (taskDateRange.end.getTime() - taskDateRange.start.getTime()) / (24 * 60 * 60 * 1000) + 1;
+    const fittingMode = VIEW_MODES.find((mode) => {
+      const config = VIEW_MODE_CONFIG[mode];
+      // One extra unit of margin before the first task
+      return (spanDays / config.daysPerUnit + 1) * config.cellWidth <= availableWidth;
+    }) || 'year';
+
+    setViewMode(fittingMode);
+    setStartDate(addTimelineUnits(startOfTimelineUnit(taskDateRange.start, fittingMode), -1, fittingMode));
+
+    if (scrollContainerRef.current) {
+      scrollContainerRef.current.scrollLeft = 0;
+    }
+  };
+
+  // Measure rendered task bars and build connector arrows for dependencies
+  useLayoutEffect(() => {
+    const container = timelineContentRef.current;
+    if (!container) return;
+
+    const containerRect = container.getBoundingClientRect();
+    const barRects = new Map<string, BarRect>();
+    container.querySelectorAll<HTMLElement>('[data-task-bar]').forEach((bar) => {
+      const rect = bar.getBoundingClientRect();
+      barRects.set(bar.dataset.taskBar!, {
+        left: rect.left - containerRect.left,
+        right: rect.right - containerRect.left,
+        top: rect.top - containerRect.top,
+        bottom: rect.bottom - containerRect.top,
+      });
+    });
 
-    if (todayIndex === -1) return null;
+    const arrows: { id: string; path: string; isCritical: boolean }[] = [];
+    localTasks.forEach((task) => {
+      (task.successors || []).forEach((link) => {
+        const from = barRects.get(task.id);
+        const to = barRects.get(link.task_id);
+        // Skip links whose bars are collapsed or outside the visible range
+        if (!from || !to) return;
+        arrows.push({
+          id: link.id,
+          path: getDependencyPath(from, to, link.dependency_type),
+          isCritical: !!scheduleByTask.get(task.id)?.is_critical && !!scheduleByTask.get(link.task_id)?.is_critical,
+        });
+      });
+    });
 
-    return 352 + todayIndex * (cellWidth - 0.14); // 352px = fixed column width
-  }, [timelineDates, viewMode, cellWidth]);
+    setDependencyArrows(arrows);
+  }, [localTasks, expandedCategories, expandedSubCategories, collapsedTasks, timelineDates, scheduleByTask, dragPreview]);
 
   const toggleCategory = (category: string) => {
     const newExpanded = new Set(expandedCategories);
@@ -670,6 +1250,31 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
     setExpandedCategories(newExpanded);
   };
 
+  const toggleTaskCollapse = (taskId: string) => {
+    const newCollapsed = new Set(collapsedTasks);
+    if (newCollapsed.has(taskId)) {
+      newCollapsed.delete(taskId);
+    } else {
+      newCollapsed.add(taskId);
+    }
+    setCollapsedTasks(newCollapsed);
+  };
+
+  // Subcategory tasks in tree order, without the subtasks of collapsed summary tasks
+  const getVisibleTasks = (subTasks: Task[]) => {
+    const parentById = new Map(subTasks.map(task => [task.id, task.parent_task_id]));
+    const isHidden = (task: Task) => {
+      let parentId: string | null | undefined = task.parent_task_id;
+      while (parentId && parentById.has(parentId)) {
+        if (collapsedTasks.has(parentId)) return true;
+        parentId = parentById.get(parentId);
+      }
+      return false;
+    };
+
+    return orderTasksByHierarchy(subTasks).filter(task => !isHidden(task));
+  };
+
   const toggleSubCategory = (categoryKey: string) => {
     const newExpanded = new Set(expandedSubCategories);
     if (newExpanded.has(categoryKey)) {
@@ -680,144 +1285,134 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
     setExpandedSubCategories(newExpanded);
   };
 
-  const moveCategoryOrder = (category: string, direction: 'up' | 'down') => {
-    const currentOrder = loadCategoryOrder();
-    const index = currentOrder.indexOf(category);
-
-    if (index === -1) return; // Category not found
-
-    if (direction === 'up' && index > 0) {
-      // Swap with previous
-      const newOrder = [...currentOrder];
-      [newOrder[index - 1], newOrder[index]] = [newOrder[index], newOrder[index - 1]];
-      saveCategoryOrder(newOrder);
+  const refreshOrder = () => setOrderVersion(version => version + 1);
 
-      // Force re-render by updating local tasks
-      setLocalTasks([...localTasks]);
-    } else if (direction === 'down' && index < currentOrder.length - 1) {
-      // Swap with next
-      const newOrder = [...currentOrder];
-      [newOrder[index], newOrder[index + 1]] = [newOrder[index + 1], newOrder[index]];
-      saveCategoryOrder(newOrder);
-
-      // Force re-render by updating local tasks
-      setLocalTasks([...localTasks]);
+  // Wait for a move that is already shown in the chart (the move puts the
+  // previous order back itself when the server rejects it) and tell the user
+  // when it failed. Resolves to whether it was saved.
+  const runOrderMove = async (move: Promise<void>): Promise<boolean> => {
+    refreshOrder();
+    try {
+      await move;
+      return true;
+    } catch (error) {
+      console.error('[GANTT] Error saving move:', error);
+      alert(`並び順の保存に失敗しました: ${error instanceof Error ? error.message : error}`);
+      return false;
+    } finally {
+      refreshOrder();
     }
   };
 
-  const moveSubCategoryOrder = (category: string, subCategory: string, direction: 'up' | 'down') => {
-    const currentOrder = loadSubcategoryOrder();
-    const categoryOrder = currentOrder[category] || [];
-    const index = categoryOrder.indexOf(subCategory);
+  // Record a change to the display order in the undo history
+  const recordOrderCommand = (label: string, undo: () => Promise<void>, redo: () => Promise<void>) => {
+    onCommand?.({
+      label,
+      undo,
+      redo,
+      refresh: saveScrollPositionAndRefresh,
+    });
+  };
 
-    if (index === -1) return; // Subcategory not found
+  // Undo and redo move the item back to its place in the given order
+  const recordSubcategoryOrderCommand = (category: string, subCategory: string, before: string[], after: string[]) => {
+    const saveOrder = (order: string[]) => {
+      const move = moveSubcategory(category, order, subCategory);
+      refreshOrder();
+      return move;
+    };
+    recordOrderCommand('サブカテゴリーの並び替え', () => saveOrder(before), () => saveOrder(after));
+  };
 
-    if (direction === 'up' && index > 0) {
-      // Swap with previous
-      const newCategoryOrder = [...categoryOrder];
-      [newCategoryOrder[index - 1], newCategoryOrder[index]] = [newCategoryOrder[index], newCategoryOrder[index - 1]];
+  const recordCategoryOrderCommand = (category: string, before: string[], after: string[]) => {
+    const saveOrder = (order: string[]) => {
+      const move = moveCategory(order, category);
+      refreshOrder();
+      return move;
+    };
+    recordOrderCommand('カテゴリーの並び替え', () => saveOrder(before), () => saveOrder(after));
+  };
 
-      const newOrder = { ...currentOrder, [category]: newCategoryOrder };
-      saveSubcategoryOrder(newOrder);
+  // Swap an item with its neighbour in order (null when there is none in that direction)
+  const swapWithNeighbour = (order: string[], key: string, direction: 'up' | 'down'): string[] | null => {
+    const index = order.indexOf(key);
+    const otherIndex = direction === 'up' ? index - 1 : index + 1;
+    if (index === -1 || otherIndex < 0 || otherIndex >= order.length) return null;
 
-      // Force re-render by updating local tasks
-      setLocalTasks([...localTasks]);
-    } else if (direction === 'down' && index < categoryOrder.length - 1) {
-      // Swap with next
-      const newCategoryOrder = [...categoryOrder];
-      [newCategoryOrder[index], newCategoryOrder[index + 1]] = [newCategoryOrder[index + 1], newCategoryOrder[index]];
+    const newOrder = [...order];
+    [newOrder[index], newOrder[otherIndex]] = [newOrder[otherIndex], newOrder[index]];
+    return newOrder;
+  };
 
-      const newOrder = { ...currentOrder, [category]: newCategoryOrder };
-      saveSubcategoryOrder(newOrder);
+  const moveCategoryOrder = async (category: string, direction: 'up' | 'down') => {
+    const currentOrder = sortedCategories;
+    const newOrder = swapWithNeighbour(currentOrder, category, direction);
+    if (!newOrder) return;
 
-      // Force re-render by updating local tasks
-      setLocalTasks([...localTasks]);
+    if (await runOrderMove(moveCategory(newOrder, category))) {
+      recordCategoryOrderCommand(category, currentOrder, newOrder);
     }
   };
 
-  const getTaskPosition = (task: Task) => {
-    const taskStart = task.start_date
-      ? parseDateString(task.start_date)
-      : task.events.length > 0
-      ? new Date(Math.min(...task.events.filter(e => e.due_date).map(e => parseDateString(e.due_date!).getTime())))
-      : null;
-
-    const taskEnd = task.end_date
-      ? parseDateString(task.end_date)
-      : task.events.length > 0
-      ? new Date(Math.max(...task.events.filter(e => e.due_date).map(e => parseDateString(e.due_date!).getTime())))
-      : null;
-
-    if (!taskStart || !taskEnd) return null;
-
-    // Find which timeline cell the task starts and ends in
-    let startCellIndex = -1;
-    let endCellIndex = -1;
+  const moveSubCategoryOrder = async (category: string, subCategory: string, direction: 'up' | 'down') => {
+    const currentOrder = getSortedSubCategories(category);
+    const newOrder = swapWithNeighbour(currentOrder, subCategory, direction);
+    if (!newOrder) return;
 
-    for (let i = 0; i < timelineDates.length; i++) {
-      const cellDate = timelineDates[i];
-      const nextCellDate = i < timelineDates.length - 1
-        ? timelineDates[i + 1]
-        : new Date(cellDate.getTime() + unitInMs);
-
-      // Check if taskStart falls in this cell
-      if (startCellIndex === -1 && taskStart >= cellDate && taskStart < nextCellDate) {
-        startCellIndex = i;
-      }
-
-      // Check if taskEnd falls in this cell (inclusive of the cell date)
-      if (endCellIndex === -1 && taskEnd >= cellDate && taskEnd < nextCellDate) {
-        endCellIndex = i;
-      }
+    if (await runOrderMove(moveSubcategory(category, newOrder, subCategory))) {
+      recordSubcategoryOrderCommand(category, subCategory, currentOrder, newOrder);
     }
+  };
 
-    // If task is completely before visible range
-    if (startCellIndex === -1 && taskEnd < timelineDates[0]) return null;
+  // Give a task a new rank in the chart (undefined leaves it where it is)
+  const setTaskRank = (taskId: string, rank: string | undefined) => {
+    if (rank === undefined) return;
+    setLocalTasks(prev => prev.map(t => (t.id === taskId ? { ...t, rank } : t)));
+  };
 
-    // If task starts before visible range, clip to start
-    if (startCellIndex === -1) startCellIndex = -1; // Will be clipped to 0 later
+  // Move a task to its place in order (IDs of its subcategory): shown at once,
+  // then saved on the server, and put back when the server rejects it. With a
+  // personal order, the order is saved as the user's own instead.
+  const moveTask = async (order: string[], taskId: string) => {
+    const task = localTasksRef.current.find(t => t.id === taskId);
+    if (task && isPersonalOrder()) {
+      savePersonalTaskOrder(task.category, task.sub_category, order);
+      return;
+    }
 
-    // If task ends after visible range, clip to end
-    if (endCellIndex === -1 && taskEnd >= timelineDates[0]) {
-      endCellIndex = timelineDates.length - 1;
+    const ranks = new Map(localTasksRef.current.map(t => [t.id, t.rank]));
+    const previousRank = ranks.get(taskId);
+    setTaskRank(taskId, getRankInOrder(order, taskId, id => ranks.get(id)));
+    try {
+      setTaskRank(taskId, await saveTaskMove(order, taskId));
+    } catch (error) {
+      setTaskRank(taskId, previousRank);
+      throw error;
     }
+  };
 
-    // Calculate position using fixed cell width (add +1 for shift)
-    const leftPx = (startCellIndex + 1) * (cellWidth - 0.14);
-    const widthInCells = endCellIndex - startCellIndex + 1;
-    let widthPx = widthInCells * (cellWidth - 0.14);
+  const getTaskPosition = (task: Task) => {
+    const range = getTaskDateRange(task);
+    if (!range) return null;
 
-    // If the bar starts before the visible area, adjust the width
-    if (leftPx < 0) {
-      widthPx = widthPx + leftPx; // leftPx is negative, so this subtracts from width
-    }
+    return getRangePosition(range.start, range.end);
+  };
 
-    return {
-      left: `${Math.max(0, leftPx) + TIMELINE_PADDING}px`,
-      width: `${Math.max(cellWidth, widthPx)}px`,
-      start: taskStart,
-      end: taskEnd,
-    };
+  const getBaselinePosition = (taskId: string) => {
+    const variance = baselineByTask.get(taskId);
+    if (!variance?.baseline_start || !variance.baseline_end) return null;
+
+    return getRangePosition(parseDateString(variance.baseline_start), parseDateString(variance.baseline_end));
   };
 
   const getCategoryPosition = (tasks: Task[]) => {
     const allDates: Date[] = [];
 
     tasks.forEach((task) => {
-      const taskStart = task.start_date
-        ? parseDateString(task.start_date)
-        : task.events.length > 0
-        ? new Date(Math.min(...task.events.filter(e => e.due_date).map(e => parseDateString(e.due_date!).getTime())))
-        : null;
-
-      const taskEnd = task.end_date
-        ? parseDateString(task.end_date)
-        : task.events.length > 0
-        ? new Date(Math.max(...task.events.filter(e => e.due_date).map(e => parseDateString(e.due_date!).getTime())))
-        : null;
-
-      if (taskStart) allDates.push(taskStart);
-      if (taskEnd) allDates.push(taskEnd);
+      const range = getTaskDateRange(task);
+      if (range) {
+        allDates.push(range.start, range.end);
+      }
     });
 
     if (allDates.length === 0) return null;
@@ -825,54 +1420,7 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
     const categoryStart = new Date(Math.min(...allDates.map(d => d.getTime())));
     const categoryEnd = new Date(Math.max(...allDates.map(d => d.getTime())));
 
-    // Find which timeline cell the category starts and ends in
-    let startCellIndex = -1;
-    let endCellIndex = -1;
-
-    for (let i = 0; i < timelineDates.length; i++) {
-      const cellDate = timelineDates[i];
-      const nextCellDate = i < timelineDates.length - 1
-        ? timelineDates[i + 1]
-        : new Date(cellDate.getTime() + unitInMs);
-
-      // Check if categoryStart falls in this cell
-      if (startCellIndex === -1 && categoryStart >= cellDate && categoryStart < nextCellDate) {
-        startCellIndex = i;
-      }
-
-      // Check if categoryEnd falls in this cell
-      if (endCellIndex === -1 && categoryEnd >= cellDate && categoryEnd < nextCellDate) {
-        endCellIndex = i;
-      }
-    }
-
-    // If category is completely before visible range
-    if (startCellIndex === -1 && categoryEnd < timelineDates[0]) return null;
-
-    // If category starts before visible range, clip to start
-    if (startCellIndex === -1) startCellIndex = -1; // Will be clipped to 0 later
-
-    // If category ends after visible range, clip to end
-    if (endCellIndex === -1 && categoryEnd >= timelineDates[0]) {
-      endCellIndex = timelineDates.length - 1;
-    }
-
-    // Calculate position using fixed cell width (add +1 for shift)
-    const leftPx = (startCellIndex + 1) * (cellWidth - 0.14);
-    const widthInCells = endCellIndex - startCellIndex + 1;
-    let widthPx = widthInCells * (cellWidth - 0.14);
-
-    // If the bar starts before the visible area, adjust the width
-    if (leftPx < 0) {
-      widthPx = widthPx + leftPx; // leftPx is negative, so this subtracts from width
-    }
-
-    return {
-      left: `${Math.max(0, leftPx) + TIMELINE_PADDING}px`,
-      width: `${Math.max(cellWidth, widthPx)}px`,
-      start: categoryStart,
-      end: categoryEnd,
-    };
+    return getRangePosition(categoryStart, categoryEnd);
   };
 
   const getEventsOnDate = (task: Task, date: Date) => {
@@ -913,7 +1461,7 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
         scrollTop: scrollContainerRef.current.scrollTop,
       };
       // console.log('[Scroll Debug] Saving position before refresh:', position);
-      localStorage.setItem(STORAGE_KEY_SCROLL_POSITION, JSON.stringify(position));
+      savePreference(STORAGE_KEY_SCROLL_POSITION, position);
       localStorage.setItem(STORAGE_KEY_SHOULD_RESTORE, 'true');
       shouldRestoreScroll.current = true;
       // console.log('[Scroll Debug] shouldRestoreScroll flag saved to localStorage');
@@ -928,10 +1476,6 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
     setIsEventFormOpen(true);
   };
 
-  const formatDate = (date: Date) => {
-    return `${date.getMonth() + 1}/${date.getDate()}`;
-  };
-
   const handleAddEvent = (taskId: string, date: string) => {
     setSelectedTaskId(taskId);
     setSelectedDate(date);
@@ -943,13 +1487,45 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
     setIsTaskFormOpen(true);
   };
 
+  // Switch between the team's order (the shared ranks) and the user's own
+  const togglePersonalOrder = () => {
+    setPersonalOrder(!isPersonalOrder());
+    refreshOrder();
+  };
+
+  // Drop this user's own order, expand state and other view settings so the team default applies
+  const handleResetPreferences = async () => {
+    const message = isSharedAccount()
+      ? `${SHARED_ACCOUNT_NOTICE}\nこのアカウントの並び順や展開状態などの表示設定を破棄して、チーム既定に戻しますか？`
+      : '自分の並び順や展開状態などの表示設定を破棄して、チーム既定に戻しますか？';
+    if (!confirm(message)) return;
+
+    try {
+      await resetUserPreferences(GANTT_PREFERENCE_KEYS);
+      onRefresh();
+    } catch (error) {
+      console.error('[GANTT] Error resetting preferences:', error);
+      alert(error instanceof Error ? error.message : '表示設定のリセットに失敗しました');
+    }
+  };
+
   const handleSaveOrder = async () => {
     setIsSavingOrder(true);
     try {
-      // Load current order from localStorage
-      const categoryOrder = loadCategoryOrder();
-      const subcategoryOrder = loadSubcategoryOrder();
-      const taskOrder = loadTaskOrder();
+      // The order shown (the user's own when they use one) becomes the shared
+      // ranks, evenly respaced
+      const categoryOrder = sortedCategories;
+      const subcategoryOrder = Object.fromEntries(
+        sortedCategories.map(category => [category, getSortedSubCategories(category)])
+      );
+      const taskOrder = Object.fromEntries(
+        sortedCategories.flatMap(category =>
+          getSortedSubCategories(category).map(subCategory => [
+            `${category}::${subCategory}`,
+            groupedTasks[category][subCategory].map(task => task.id),
+          ])
+        )
+      );
 
       // Convert expand state Sets to Arrays
       const expandedCategoriesArray = Array.from(expandedCategories);
@@ -983,8 +1559,11 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
         throw new Error(data.error || '保存に失敗しました');
       }
 
+      // Also publish them as the team default for users without their own settings
+      await saveTeamPreferences(TEAM_DEFAULT_PREFERENCE_KEYS);
+
       console.log('[GANTT] Order and expand state saved successfully:', data);
-      alert('並び順と展開状態を保存しました');
+      alert('並び順と展開状態をチーム既定として保存しました');
     } catch (error) {
       console.error('[GANTT] Error saving order:', error);
       alert(
@@ -997,7 +1576,149 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
     }
   };
 
-  const handleDragEnd = (event: DragEndEvent) => {
+  // Persist new dates for a dragged bar (optimistic, with retry/undo on failure)
+  const rescheduleTask = async (task: Task, startDate: string, endDate: string) => {
+    setFailedReschedule(null);
+    setLocalTasks((prev) =>
+      prev.map((t) => (t.id === task.id ? { ...t, start_date: startDate, end_date: endDate } : t))
+    );
+
+    try {
+      const before = toTaskFields(task);
+      const after = { ...before, start_date: startDate, end_date: endDate };
+      const saved = await saveTaskFields(after);
+
+      onCommand?.(createTaskUpdateCommand(`「${task.name}」の日程変更`, before, saved, saveScrollPositionAndRefresh));
+      saveScrollPositionAndRefresh();
+    } catch (error) {
+      console.error('[GANTT] Error rescheduling task:', error);
+      // Retrying would conflict again, so reload the task as the other user saved it
+      if (error instanceof VersionConflictError) {
+        alert(error.message);
+        saveScrollPositionAndRefresh();
+        return;
+      }
+      setFailedReschedule({
+        task,
+        start_date: startDate,
+        end_date: endDate,
+        message: error instanceof Error ? error.message : '日程の保存に失敗しました',
+      });
+    }
+  };
+
+  // Revert a reschedule that could not be saved
+  const undoFailedReschedule = () => {
+    if (!failedReschedule) return;
+
+    const { task } = failedReschedule;
+    setLocalTasks((prev) =>
+      prev.map((t) => (t.id === task.id ? { ...t, start_date: task.start_date, end_date: task.end_date } : t))
+    );
+    setFailedReschedule(null);
+  };
+
+  // Start tracking a mouse down on a task bar; becomes a drag once the mouse moves
+  const handleBarMouseDown = (task: Task, mode: BarDragMode, clientX: number, start: Date, end: Date) => {
+    const info: BarMouseDownInfo = {
+      taskId: task.id,
+      mouseDownX: clientX,
+      mouseDownTime: Date.now(),
+      mode,
+      originalStart: formatDateKey(start),
+      originalEnd: formatDateKey(end),
+    };
+    setMouseDownInfo(info);
+
+    // Summary task dates are rolled up from subtasks, so their bars only react to clicks
+    if (task.is_summary) return;
+
+    const { daysPerUnit, snapDays } = VIEW_MODE_CONFIG[viewMode];
+    const pxPerDay = unitWidth / daysPerUnit;
+    const getDeltaDays = (x: number) => Math.round((x - clientX) / pxPerDay / snapDays) * snapDays;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (Math.abs(e.clientX - clientX) < DRAG_THRESHOLD) return;
+      setDragPreview({
+        taskId: task.id,
+        ...getDraggedDates(mode, info.originalStart, info.originalEnd, getDeltaDays(e.clientX)),
+      });
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      setDragPreview(null);
+
+      if (Math.abs(e.clientX - clientX) < DRAG_THRESHOLD) return; // Handled as a click by the bar
+
+      setMouseDownInfo(null);
+      const dates = getDraggedDates(mode, info.originalStart, info.originalEnd, getDeltaDays(e.clientX));
+      if (dates.start_date !== info.originalStart || dates.end_date !== info.originalEnd) {
+        rescheduleTask(task, dates.start_date, dates.end_date);
+      }
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  // Persist a new progress percentage for a task (optimistic, reverted on failure)
+  const updateTaskProgress = async (task: Task, progress: number) => {
+    setLocalTasks((prev) =>
+      prev.map((t) => (t.id === task.id ? { ...t, progress } : t))
+    );
+
+    try {
+      const before = toTaskFields(task);
+      const after = { ...before, progress };
+      const saved = await saveTaskFields(after);
+
+      onCommand?.(createTaskUpdateCommand(`「${task.name}」の進捗変更`, before, saved, saveScrollPositionAndRefresh));
+      saveScrollPositionAndRefresh();
+    } catch (error) {
+      console.error('[GANTT] Error updating task progress:', error);
+      setLocalTasks((prev) =>
+        prev.map((t) => (t.id === task.id ? { ...t, progress: task.progress } : t))
+      );
+      alert(error instanceof Error ? error.message : '進捗の保存に失敗しました');
+      if (error instanceof VersionConflictError) saveScrollPositionAndRefresh();
+    }
+  };
+
+  // Drag the progress handle along the bar; the percentage snaps to PROGRESS_SNAP
+  const handleProgressMouseDown = (task: Task, clientX: number, barWidth: number) => {
+    const originalProgress = task.progress ?? 0;
+    const getProgress = (x: number) => {
+      const raw = originalProgress + ((x - clientX) / Math.max(1, barWidth)) * 100;
+      return clampProgress(Math.round(raw / PROGRESS_SNAP) * PROGRESS_SNAP);
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      setProgressPreview({ taskId: task.id, progress: getProgress(e.clientX) });
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      setProgressPreview(null);
+
+      const progress = getProgress(e.clientX);
+      if (progress !== originalProgress) {
+        updateTaskProgress(task, progress);
+      }
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  // Rolled-up progress of a category or subcategory (summary tasks are skipped,
+  // since their subtasks are already in the group)
+  const getGroupProgress = (groupTasks: Task[]) =>
+    rollupProgress(groupTasks.filter((task) => !task.is_summary), progressSource);
+
+  const handleDragEnd = async (event: DragEndEvent) => {
     const { active, over } = event;
 
     if (!over || active.id === over.id) return;
@@ -1016,10 +1737,8 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
       return;
     }
 
-    // Get all tasks in the same subcategory
-    const subcategoryTasks = localTasks.filter(
-      (t) => t.category === activeTask.category && t.sub_category === activeTask.sub_category
-    );
+    // Get all tasks in the same subcategory, in rank order
+    const subcategoryTasks = groupedTasks[activeTask.category]?.[activeTask.sub_category] || [];
 
     // Find the old and new indices
     const oldIndex = subcategoryTasks.findIndex((t) => t.id === active.id);
@@ -1027,45 +1746,16 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
 
     if (oldIndex === newIndex) return;
 
-    // Reorder the tasks within the subcategory
-    const reorderedSubcategoryTasks = arrayMove(subcategoryTasks, oldIndex, newIndex);
-
-    // Create a map for quick lookup of reordered tasks by ID
-    const reorderedMap = new Map(reorderedSubcategoryTasks.map((task, index) => [task.id, index]));
+    // Reorder the tasks within the subcategory and move the task in the shared server order
+    const previousTaskIds = subcategoryTasks.map(t => t.id);
+    const taskIds = arrayMove(previousTaskIds, oldIndex, newIndex);
+    if (!(await runOrderMove(moveTask(taskIds, activeTask.id)))) return;
 
-    // Separate tasks into the reordered subcategory and others
-    const otherTasks = localTasks.filter(
-      (t) => t.category !== activeTask.category || t.sub_category !== activeTask.sub_category
+    recordOrderCommand(
+      `「${activeTask.name}」の並び替え`,
+      () => moveTask(previousTaskIds, activeTask.id),
+      () => moveTask(taskIds, activeTask.id)
     );
-
-    // Rebuild the task list:
-    // 1. Keep all tasks that are NOT in the affected subcategory
-    // 2. Insert the reordered subcategory tasks in the correct position
-    const newLocalTasks: Task[] = [];
-    let reorderedInserted = false;
-
-    for (const task of localTasks) {
-      const isInReorderedSubcategory =
-        task.category === activeTask.category && task.sub_category === activeTask.sub_category;
-
-      if (isInReorderedSubcategory) {
-        // Insert all reordered tasks at the position of the first task in this subcategory
-        if (!reorderedInserted) {
-          newLocalTasks.push(...reorderedSubcategoryTasks);
-          reorderedInserted = true;
-        }
-        // Skip individual tasks from this subcategory (already added as a group)
-      } else {
-        // Add tasks from other subcategories as-is
-        newLocalTasks.push(task);
-      }
-    }
-
-    setLocalTasks(newLocalTasks);
-
-    // Save the new order to localStorage (no API call, no page reload)
-    const taskIds = reorderedSubcategoryTasks.map(t => t.id);
-    updateTaskOrderForSubcategory(activeTask.category, activeTask.sub_category, taskIds);
   };
 
   return (
@@ -1073,22 +1763,66 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
       <div className="bg-gray-800 rounded-lg p-2">
         <div className="mb-2 flex justify-between items-center">
           <div className="flex gap-2">
+            {VIEW_MODES.map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                className={`px-3 py-0.5 rounded ${
+                  viewMode === mode ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'
+                }`}
+              >
+                {VIEW_MODE_CONFIG[mode].label}
+              </button>
+            ))}
             <button
-              onClick={() => setViewMode('day')}
-              className={`px-3 py-0.5 rounded ${
-                viewMode === 'day' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'
-              }`}
+              onClick={fitAllTasks}
+              disabled={!taskDateRange}
+              className="px-3 py-0.5 rounded bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-50"
+              title="全タスクが収まるように表示範囲を調整"
             >
-              日
+              全体表示
             </button>
             <button
-              onClick={() => setViewMode('week')}
+              onClick={() => setShowCriticalPath(!showCriticalPath)}
               className={`px-3 py-0.5 rounded ${
-                viewMode === 'week' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'
+                showCriticalPath ? 'bg-red-600 text-white' : 'bg-gray-700 text-gray-300'
               }`}
+              title="クリティカルパスを強調表示"
+            >
+              クリティカルパス
+            </button>
+            <select
+              value={selectedBaselineId}
+              onChange={(e) => setSelectedBaselineId(e.target.value)}
+              className="px-2 py-0.5 bg-gray-700 text-gray-300 rounded border border-gray-600"
+              title="ベースラインと比較"
             >
-              週
+              <option value="">ベースライン比較なし</option>
+              {baselines.map((baseline) => (
+                <option key={baseline.id} value={baseline.id}>
+                  {baseline.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleCreateBaseline}
+              className="px-3 py-0.5 rounded bg-gray-700 text-gray-300 hover:bg-gray-600"
+              title="現在の全タスク・イベントの日程をベースラインとして保存"
+            >
+              ベースライン保存
             </button>
+            <select
+              value={progressSource}
+              onChange={(e) => setProgressSource(e.target.value as ProgressSource)}
+              className="px-2 py-0.5 bg-gray-700 text-gray-300 rounded border border-gray-600"
+              title="カテゴリー・サブカテゴリーの進捗の集計元"
+            >
+              {(Object.keys(PROGRESS_SOURCE_LABELS) as ProgressSource[]).map((source) => (
+                <option key={source} value={source}>
+                  進捗: {PROGRESS_SOURCE_LABELS[source]}
+                </option>
+              ))}
+            </select>
             <input
               type="date"
               value={startDate.toISOString().split('T')[0]}
@@ -1098,8 +1832,72 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
           </div>
         </div>
 
+        {failedReschedule && (
+          <div className="mb-2 p-2 bg-red-900/20 border border-red-500 rounded text-red-400 text-sm flex items-center justify-between">
+            <span>
+              「{failedReschedule.task.name}」の日程変更を保存できませんでした: {failedReschedule.message}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => rescheduleTask(failedReschedule.task, failedReschedule.start_date, failedReschedule.end_date)}
+                className="text-xs px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded"
+              >
+                再試行
+              </button>
+              <button
+                onClick={undoFailedReschedule}
+                className="text-xs px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded"
+              >
+                元に戻す
+              </button>
+            </div>
+          </div>
+        )}
+
         <div ref={scrollContainerRef} className="overflow-x-auto overflow-y-auto max-h-[calc(100vh-224px)]">
-          <div className="relative" style={{ width: `${timelineWidth + 352}px` }}>
+          <div ref={timelineContentRef} className="relative" style={{ width: `${timelineWidth + 352}px` }}>
+            {/* Dependency arrows */}
+            {dependencyArrows.length > 0 && (
+              <svg
+                className="absolute top-0 left-0 w-full h-full pointer-events-none"
+                style={{ zIndex: 11 }}
+              >
+                <defs>
+                  <marker
+                    id="gantt-dependency-arrow"
+                    viewBox="0 0 6 6"
+                    refX="6"
+                    refY="3"
+                    markerWidth="6"
+                    markerHeight="6"
+                    orient="auto"
+                  >
+                    <path d="M 0 0 L 6 3 L 0 6 z" fill="#f97316" />
+                  </marker>
+                  <marker
+                    id="gantt-dependency-arrow-critical"
+                    viewBox="0 0 6 6"
+                    refX="6"
+                    refY="3"
+                    markerWidth="6"
+                    markerHeight="6"
+                    orient="auto"
+                  >
+                    <path d="M 0 0 L 6 3 L 0 6 z" fill="#ef4444" />
+                  </marker>
+                </defs>
+                {dependencyArrows.map((arrow) => (
+                  <path
+                    key={arrow.id}
+                    d={arrow.path}
+                    fill="none"
+                    stroke={arrow.isCritical ? '#ef4444' : '#f97316'}
+                    strokeWidth={arrow.isCritical ? 2 : 1.5}
+                    markerEnd={`url(#${arrow.isCritical ? 'gantt-dependency-arrow-critical' : 'gantt-dependency-arrow'})`}
+                  />
+                ))}
+              </svg>
+            )}
             {/* Today vertical bar */}
             {todayPosition !== null && (
               <div
@@ -1114,41 +1912,79 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
             {/* Timeline header */}
             <div className="flex border-b border-gray-700 sticky top-0 bg-gray-800 z-30">
               <div className="w-88 flex-shrink-0 p-2 font-bold text-gray-300 sticky left-0 bg-gray-800 z-30 flex items-center justify-between">
-                <span>タスク</span>
-                <button
-                  onClick={handleSaveOrder}
-                  disabled={isSavingOrder}
-                  className="text-xs px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded transition-colors"
-                >
-                  {isSavingOrder ? '保存中...' : '並び順を保存'}
-                </button>
+                <span>
+                  タスク
+                  {isSharedAccount() && (
+                    <span className="ml-2 text-xs font-normal text-yellow-300" title={SHARED_ACCOUNT_NOTICE}>
+                      共有設定
+                    </span>
+                  )}
+                </span>
+                <div className="flex gap-1">
+                  <button
+                    onClick={togglePersonalOrder}
+                    className={`text-xs px-3 py-1 rounded transition-colors ${
+                      isPersonalOrder() ? 'bg-green-600 hover:bg-green-700' : 'bg-gray-600 hover:bg-gray-700'
+                    }`}
+                    title={
+                      isPersonalOrder()
+                        ? '自分用の並び順で表示中（並び替えは自分にだけ反映されます）。クリックでチームの並び順に戻す'
+                        : 'チームの並び順で表示中（並び替えは全員に反映されます）。クリックで自分用の並び順に切り替える'
+                    }
+                  >
+                    {isPersonalOrder() ? '自分用の並び順' : 'チームの並び順'}
+                  </button>
+                  <button
+                    onClick={handleResetPreferences}
+                    className="text-xs px-3 py-1 bg-gray-600 hover:bg-gray-700 rounded transition-colors"
+                    title="自分の並び順や展開状態などの表示設定を破棄してチーム既定に戻す"
+                  >
+                    既定に戻す
+                  </button>
+                  <button
+                    onClick={handleSaveOrder}
+                    disabled={isSavingOrder}
+                    className="text-xs px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded transition-colors"
+                    title="現在の並び順と展開状態をチーム全員の既定にする"
+                  >
+                    {isSavingOrder ? '保存中...' : 'チーム既定として保存'}
+                  </button>
+                </div>
               </div>
-              <div className="flex relative p-2" style={{ width: `${timelineWidth}px` }}>
-                {timelineDates.map((date, index) => {
-                  const today = new Date();
-                  const isToday = viewMode === 'day'
-                    ? date.toDateString() === today.toDateString()
-                    : date <= today && new Date(date.getTime() + 7 * 24 * 60 * 60 * 1000) > today;
-
-                  return (
+              <div className="flex flex-col p-2" style={{ width: `${timelineWidth}px` }}>
+                {/* Upper band: months (day/week) or years (month/quarter) */}
+                {headerBands.length > 0 && (
+                  <div className="flex">
+                    {headerBands.map((band) => (
+                      <div
+                        key={band.key}
+                        className="text-xs text-gray-300 font-semibold border-l border-gray-700 px-1 truncate"
+                        style={{ width: `${band.units * cellWidth}px` }}
+                      >
+                        {band.label}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {/* Lower band: one label per timeline unit */}
+                <div className="flex relative">
+                  {timelineDates.map((date, index) => (
                     <div
                       key={index}
                       className={`text-center text-xs border-l border-gray-700 flex flex-col items-center justify-center ${
-                        isToday ? 'text-yellow-300 font-semibold' : 'text-gray-400'
+                        index === todayIndex
+                          ? 'text-yellow-300 font-semibold'
+                          : nonWorkingLabels[index]
+                            ? 'text-red-400 bg-gray-900/50'
+                            : 'text-gray-400'
                       }`}
                       style={{ width: `${cellWidth}px` }}
+                      title={nonWorkingLabels[index] || undefined}
                     >
-                      {viewMode === 'week' ? (
-                        formatDate(date)
-                      ) : (
-                        <>
-                          <div>{date.getMonth() + 1}月</div>
-                          <div>{date.getDate()}日</div>
-                        </>
-                      )}
+                      {formatUnitLabel(date, viewMode)}
                     </div>
-                  );
-                })}
+                  ))}
+                </div>
               </div>
             </div>
 
@@ -1176,12 +2012,23 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
                       >
                         {expandedCategories.has(category) ? '▼' : '▶'}
                       </span>
+                      {categoryColors.has(category) && (
+                        <span
+                          className="w-3 h-3 rounded-full flex-shrink-0"
+                          style={{ backgroundColor: categoryColors.get(category) }}
+                        />
+                      )}
                       <span
                         className="flex-1 cursor-pointer"
                         onClick={() => toggleCategory(category)}
                       >
                         {category}
                       </span>
+                      {getGroupProgress(allCategoryTasks) !== null && (
+                        <span className="text-xs font-normal text-gray-300" title="進捗 (期間で加重平均)">
+                          {getGroupProgress(allCategoryTasks)}%
+                        </span>
+                      )}
                       <div className="flex gap-1">
                         {onAddTask && (
                           <button
@@ -1236,7 +2083,7 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
                         return (
                           <div
                             key={index}
-                            className="border-l border-gray-700"
+                            className={`border-l border-gray-700 ${nonWorkingLabels[index] ? 'bg-gray-900/50' : ''}`}
                             style={{ width: `${cellWidth}px` }}
                           />
                         );
@@ -1275,27 +2122,10 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
 
                             return allEvents.map(({ task, event }, eventIndex) => {
                               if (!event.due_date) return null;
-                              const eventDate = parseDateString(event.due_date);
                               const dateKey = event.due_date.split('T')[0];
 
-                              // Find which timeline cell this event falls in
-                              let eventCellIndex = -1;
-                              for (let i = 0; i < timelineDates.length; i++) {
-                                const cellDate = timelineDates[i];
-                                const nextCellDate = i < timelineDates.length - 1
-                                  ? timelineDates[i + 1]
-                                  : new Date(cellDate.getTime() + unitInMs);
-
-                                if (eventDate >= cellDate && eventDate < nextCellDate) {
-                                  eventCellIndex = i;
-                                  break;
-                                }
-                              }
-
-                              if (eventCellIndex === -1) return null; // Event is outside visible range
-
-                              // Calculate position using fixed cell width (add +1 for shift, center in cell)
-                              const eventPos = (eventCellIndex + 1) * (cellWidth - 0.14) + ((cellWidth - 0.14) / 2);
+                              const eventPos = getEventPosition(event.due_date);
+                              if (eventPos === null) return null; // Event is outside visible range
 
                               // Calculate vertical offset for stacked events on same date
                               const eventsOnThisDate = eventsByDate.get(dateKey) || [];
@@ -1353,12 +2183,23 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
                               >
                                 {expandedSubCategories.has(subCategoryKey) ? '▼' : '▶'}
                               </span>
+                              {categoryColors.has(`${category}|${subCategory}`) && (
+                                <span
+                                  className="w-3 h-3 rounded-full flex-shrink-0"
+                                  style={{ backgroundColor: categoryColors.get(`${category}|${subCategory}`) }}
+                                />
+                              )}
                               <span
                                 className="flex-1 cursor-pointer"
                                 onClick={() => toggleSubCategory(subCategoryKey)}
                               >
                                 {subCategory}
                               </span>
+                              {getGroupProgress(subTasks) !== null && (
+                                <span className="text-xs font-normal text-gray-400" title="進捗 (期間で加重平均)">
+                                  {getGroupProgress(subTasks)}%
+                                </span>
+                              )}
                               <div className="flex gap-1">
                                 {onAddTask && (
                                   <button
@@ -1411,7 +2252,7 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
                                 return (
                                   <div
                                     key={index}
-                                    className="border-l border-gray-700"
+                                    className={`border-l border-gray-700 ${nonWorkingLabels[index] ? 'bg-gray-900/50' : ''}`}
                                     style={{ width: `${cellWidth}px` }}
                                   />
                                 );
@@ -1450,27 +2291,10 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
 
                                     return allEvents.map(({ task, event }, eventIndex) => {
                                       if (!event.due_date) return null;
-                                      const eventDate = parseDateString(event.due_date);
                                       const dateKey = event.due_date.split('T')[0];
 
-                                      // Find which timeline cell this event falls in
-                                      let eventCellIndex = -1;
-                                      for (let i = 0; i < timelineDates.length; i++) {
-                                        const cellDate = timelineDates[i];
-                                        const nextCellDate = i < timelineDates.length - 1
-                                          ? timelineDates[i + 1]
-                                          : new Date(cellDate.getTime() + unitInMs);
-
-                                        if (eventDate >= cellDate && eventDate < nextCellDate) {
-                                          eventCellIndex = i;
-                                          break;
-                                        }
-                                      }
-
-                                      if (eventCellIndex === -1) return null; // Event is outside visible range
-
-                                      // Calculate position using fixed cell width (add +1 for shift, center in cell)
-                                      const eventPos = (eventCellIndex + 1) * (cellWidth - 0.14) + ((cellWidth - 0.14) / 2);
+                                      const eventPos = getEventPosition(event.due_date);
+                                      if (eventPos === null) return null; // Event is outside visible range
 
                                       // Calculate vertical offset for stacked events on same date
                                       const eventsOnThisDate = eventsByDate.get(dateKey) || [];
@@ -1510,18 +2334,20 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
                       {/* Tasks */}
                       {expandedSubCategories.has(subCategoryKey) && (
                         <SortableContext
-                          items={subTasks.map((t) => t.id)}
+                          items={getVisibleTasks(subTasks).map((t) => t.id)}
                           strategy={verticalListSortingStrategy}
                         >
-                          {subTasks.map((task) => {
-                            const position = getTaskPosition(task);
+                          {getVisibleTasks(subTasks).map((task) => {
+                            // Show the dragged dates while a bar is being moved or resized
+                            const position = getTaskPosition(
+                              dragPreview?.taskId === task.id ? { ...task, ...dragPreview } : task
+                            );
                             return (
                               <SortableTaskRow
                                 key={task.id}
-                                task={task}
+                                task={progressPreview?.taskId === task.id ? { ...task, progress: progressPreview.progress } : task}
                                 position={position}
                                 timelineDates={timelineDates}
-                                viewMode={viewMode}
                                 onTaskClick={onTaskClick}
                                 getStatusColor={getStatusColor}
                                 getEventColor={getEventColor}
@@ -1530,13 +2356,23 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
                                 handleTaskEdit={handleTaskEdit}
                                 mouseDownInfo={mouseDownInfo}
                                 setMouseDownInfo={setMouseDownInfo}
+                                onBarMouseDown={handleBarMouseDown}
+                                onProgressMouseDown={handleProgressMouseDown}
                                 lastClickInfo={lastClickInfo}
                                 setLastClickInfo={setLastClickInfo}
                                 singleClickTimer={singleClickTimer}
                                 setSingleClickTimer={setSingleClickTimer}
                                 timelineWidth={timelineWidth}
                                 cellWidth={cellWidth}
-                                unitInMs={unitInMs}
+                                getEventPosition={getEventPosition}
+                                getDateAtOffset={getDateAtOffset}
+                                scheduleInfo={scheduleByTask.get(task.id)}
+                                nonWorkingLabels={nonWorkingLabels}
+                                baselinePosition={getBaselinePosition(task.id)}
+                                baselineVariance={baselineByTask.get(task.id)}
+                                isCollapsed={collapsedTasks.has(task.id)}
+                                onToggleCollapse={toggleTaskCollapse}
+                                isHighlighted={highlightedTaskIds?.has(task.id) ?? false}
                               />
                             );
                           })}
@@ -1563,7 +2399,7 @@ export default function GanttChart({ tasks, onTaskClick, onAddTask, onRefresh }:
           taskId={selectedTaskId || undefined}
           editData={selectedEvent}
           selectedDate={selectedDate}
-          taskAssignee={selectedTaskId ? localTasks.find(t => t.id === selectedTaskId)?.assignee : null}
+          taskAssigneeId={selectedTaskId ? localTasks.find(t => t.id === selectedTaskId)?.assignee_id : null}
         />
 
         <TaskForm
@@ -1,6 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { validate } from '@/lib/validation';
+import { memberCreateSchema, memberUpdateSchema } from '@/lib/schemas';
 
 interface MemberFormProps {
   isOpen: boolean;
@@ -40,15 +42,23 @@ export default function MemberForm({ isOpen, onClose, onSave, editData }: Member
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const body = editData
+      ? { id: editData.id, ...formData }
+      : formData;
+
+    // Same checks as the API, so the message shows without a round trip
+    const parsed = editData ? validate(memberUpdateSchema, body) : validate(memberCreateSchema, body);
+    if ('error' in parsed) {
+      setError(parsed.error);
+      return;
+    }
+
     setLoading(true);
     setError(null);
 
     try {
       const url = '/api/members';
       const method = editData ? 'PUT' : 'POST';
-      const body = editData
-        ? { id: editData.id, ...formData }
-        : formData;
 
       const response = await fetch(url, {
         method,
@@ -58,8 +68,8 @@ export default function MemberForm({ isOpen, onClose, onSave, editData }: Member
         body: JSON.stringify(body),
       });
 
+      const data = await response.json();
       if (!response.ok) {
-        const data = await response.json();
         throw new Error(data.error || '保存に失敗しました');
       }
 
@@ -148,6 +158,11 @@ export default function MemberForm({ isOpen, onClose, onSave, editData }: Member
                 />
                 <span className="ml-2 text-sm text-gray-300">有効</span>
               </label>
+              {editData?.is_active && !formData.is_active && (
+                <p className="mt-1 text-xs text-yellow-400">
+                  無効にすると、完了・IceBox 以外のタスクとイベントの担当から外れます
+                </p>
+              )}
             </div>
           </div>
 
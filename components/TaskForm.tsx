@@ -2,7 +2,22 @@
 
 import { useState, useEffect } from 'react';
 import EventForm from './EventForm';
-import { addNewTaskToSubcategory } from '@/lib/taskOrderStorage';
+import {
+  DependencyType,
+  DEPENDENCY_TYPES,
+  DEPENDENCY_TYPE_LABELS,
+  TaskLink,
+} from '@/lib/taskDependency';
+import { getDescendantIds } from '@/lib/taskHierarchy';
+import { TaskKind, TASK_KINDS, TASK_KIND_LABELS } from '@/lib/taskKind';
+import type { StatusHistoryEntry } from '@/lib/statusHistory';
+import { TASK_CONFLICT_FIELDS } from '@/lib/concurrency';
+import { Category, CATEGORIES_URL } from '@/lib/category';
+import { ASSIGNEE_MEMBERS_URL, getAssigneeLabel, getAssigneeOptions, getMemberName } from '@/lib/member';
+import { Member, STATUSES } from '@/lib/domain';
+import { validate } from '@/lib/validation';
+import { NOTE_MAX_LENGTH, taskCreateSchema, taskUpdateSchema } from '@/lib/schemas';
+import ConflictDialog from './ConflictDialog';
 
 // Helper function to format date without timezone issues
 const formatDateDisplay = (dateString: string | null): string => {
@@ -11,6 +26,22 @@ const formatDateDisplay = (dateString: string | null): string => {
   return date.toLocaleDateString('ja-JP');
 };
 
+// Badge color for a status in the status history timeline
+const getStatusBadgeClass = (status: string): string => {
+  switch (status) {
+    case 'Done':
+      return 'bg-green-600';
+    case 'InProgress':
+      return 'bg-blue-600';
+    case 'Confirmed':
+      return 'bg-yellow-600';
+    case 'IceBox':
+      return 'bg-purple-600';
+    default:
+      return 'bg-gray-600';
+  }
+};
+
 interface TaskFormProps {
   isOpen: boolean;
   onClose: () => void;
@@ -20,58 +51,104 @@ interface TaskFormProps {
   initialSubCategory?: string;
 }
 
-const STATUS_OPTIONS = ['ToDo', 'InProgress', 'Confirmed', 'IceBox', 'Done'];
+// Task as loaded from or returned by the API
+interface SavedTask {
+  name: string;
+  category: string;
+  sub_category: string;
+  start_date: string | null;
+  end_date: string | null;
+  assignee_id: string | null;
+  status: string;
+  note: string | null;
+  parent_task_id?: string | null;
+  kind?: TaskKind;
+  progress?: number;
+  version: number;
+}
 
-interface Member {
+// Form values for an existing task (also used for the server side of a conflict)
+const toTaskFormData = (task: SavedTask) => ({
+  name: task.name || '',
+  category: task.category || '',
+  sub_category: task.sub_category || '',
+  start_date: task.start_date ? task.start_date.split('T')[0] : '',
+  end_date: task.end_date ? task.end_date.split('T')[0] : '',
+  assignee_id: task.assignee_id || '',
+  status: task.status || 'ToDo',
+  note: task.note || '',
+  parent_task_id: task.parent_task_id || '',
+  kind: task.kind || 'task',
+  progress: task.progress ?? 0,
+});
+
+type TaskFormData = ReturnType<typeof toTaskFormData>;
+
+interface TaskOption {
   id: string;
   name: string;
-  email: string | null;
-  role: string | null;
+  category: string;
+  sub_category: string;
+  parent_task_id: string | null;
+  kind: TaskKind;
 }
 
 export default function TaskForm({ isOpen, onClose, onSave, editData, initialCategory, initialSubCategory }: TaskFormProps) {
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<TaskFormData>({
     name: '',
     category: '',
     sub_category: '',
     start_date: '',
     end_date: '',
-    assignee: '',
+    assignee_id: '',
     status: 'ToDo',
     note: '',
+    parent_task_id: '',
+    kind: 'task',
+    progress: 0,
   });
+  // Values and version the edit is based on; replaced by the server's after a conflict
+  const [baseTask, setBaseTask] = useState<{ values: TaskFormData; version: number } | null>(null);
+  const [conflict, setConflict] = useState<{ mine: TaskFormData; theirs: SavedTask } | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isEventFormOpen, setIsEventFormOpen] = useState(false);
   const [editingEvent, setEditingEvent] = useState<any | null>(null);
   const [localTaskData, setLocalTaskData] = useState<any | null>(null);
   const [members, setMembers] = useState<Member[]>([]);
-  const [categories, setCategories] = useState<string[]>([]);
-  const [subCategories, setSubCategories] = useState<string[]>([]);
+  const [categoryOptions, setCategoryOptions] = useState<Category[]>([]);
+  const [taskOptions, setTaskOptions] = useState<TaskOption[]>([]);
+  const [dependencyForm, setDependencyForm] = useState<{
+    predecessor_id: string;
+    dependency_type: DependencyType;
+    lag_days: string;
+  }>({ predecessor_id: '', dependency_type: 'FS', lag_days: '0' });
+  const [dependencyError, setDependencyError] = useState<string | null>(null);
+  const [statusHistory, setStatusHistory] = useState<StatusHistoryEntry[]>([]);
 
   // Fetch members and categories on mount
   useEffect(() => {
     const fetchData = async () => {
       try {
-        // Fetch members
-        const membersResponse = await fetch('/api/members');
+        // Fetch members (inactive ones too, for a current assignee who was deactivated)
+        const membersResponse = await fetch(ASSIGNEE_MEMBERS_URL);
         const membersData = await membersResponse.json();
         if (membersResponse.ok) {
           setMembers(membersData.members);
         }
 
-        // Fetch tasks to extract categories and subcategories
+        // Fetch the categories that can take new tasks (archived ones are left out)
+        const categoriesResponse = await fetch(CATEGORIES_URL);
+        const categoriesData = await categoriesResponse.json();
+        if (categoriesResponse.ok) {
+          setCategoryOptions(categoriesData.categories);
+        }
+
+        // Fetch tasks for the parent task and dependency pickers
         const tasksResponse = await fetch('/api/tasks');
         const tasksData = await tasksResponse.json();
         if (tasksResponse.ok) {
-          const uniqueCategories = Array.from(
-            new Set(tasksData.tasks.map((task: any) => task.category))
-          ).sort();
-          const uniqueSubCategories = Array.from(
-            new Set(tasksData.tasks.map((task: any) => task.sub_category))
-          ).sort();
-          setCategories(uniqueCategories as string[]);
-          setSubCategories(uniqueSubCategories as string[]);
+          setTaskOptions(tasksData.tasks as TaskOption[]);
         }
       } catch (err) {
         console.error('Failed to fetch data:', err);
@@ -85,16 +162,8 @@ export default function TaskForm({ isOpen, onClose, onSave, editData, initialCat
 
   useEffect(() => {
     if (editData) {
-      setFormData({
-        name: editData.name || '',
-        category: editData.category || '',
-        sub_category: editData.sub_category || '',
-        start_date: editData.start_date ? editData.start_date.split('T')[0] : '',
-        end_date: editData.end_date ? editData.end_date.split('T')[0] : '',
-        assignee: editData.assignee || '',
-        status: editData.status || 'ToDo',
-        note: editData.note || '',
-      });
+      setFormData(toTaskFormData(editData));
+      setBaseTask({ values: toTaskFormData(editData), version: editData.version });
       setLocalTaskData(editData);
     } else {
       setFormData({
@@ -103,15 +172,43 @@ export default function TaskForm({ isOpen, onClose, onSave, editData, initialCat
         sub_category: initialSubCategory || '',
         start_date: '',
         end_date: '',
-        assignee: '',
+        assignee_id: '',
         status: 'ToDo',
         note: '',
+        parent_task_id: '',
+        kind: 'task',
+        progress: 0,
       });
+      setBaseTask(null);
       setLocalTaskData(null);
     }
+    setConflict(null);
     setError(null);
+    setDependencyForm({ predecessor_id: '', dependency_type: 'FS', lag_days: '0' });
+    setDependencyError(null);
   }, [editData, initialCategory, initialSubCategory, isOpen]);
 
+  const fetchStatusHistory = async (taskId: string) => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/history`);
+      const data = await response.json();
+      if (response.ok) {
+        setStatusHistory(data.history);
+      }
+    } catch (err) {
+      console.error('Failed to fetch status history:', err);
+    }
+  };
+
+  // Load the status history whenever an existing task is opened
+  useEffect(() => {
+    if (isOpen && editData?.id) {
+      fetchStatusHistory(editData.id);
+    } else {
+      setStatusHistory([]);
+    }
+  }, [isOpen, editData?.id]);
+
   const refreshTaskData = async () => {
     if (!editData?.id) return;
 
@@ -130,17 +227,24 @@ export default function TaskForm({ isOpen, onClose, onSave, editData, initialCat
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const submitTask = async (data: TaskFormData, version = baseTask?.version) => {
+    const body = editData
+      ? { id: editData.id, version, ...data }
+      : data;
+
+    // Same checks as the API, so the message shows without a round trip
+    const parsed = editData ? validate(taskUpdateSchema, body) : validate(taskCreateSchema, body);
+    if ('error' in parsed) {
+      setError(parsed.error);
+      return;
+    }
+
     setLoading(true);
     setError(null);
 
     try {
       const url = '/api/tasks';
       const method = editData ? 'PUT' : 'POST';
-      const body = editData
-        ? { id: editData.id, ...formData }
-        : formData;
 
       // console.log('=== TaskForm Submit DEBUG ===');
       // console.log('Method:', method);
@@ -158,26 +262,22 @@ export default function TaskForm({ isOpen, onClose, onSave, editData, initialCat
 
       // console.log('Response status:', response.status);
 
+      // Someone else saved the task first: let the user merge or overwrite
+      if (response.status === 409 && editData) {
+        const conflictData = await response.json();
+        if (conflictData.task) {
+          setConflict({ mine: data, theirs: conflictData.task });
+          return;
+        }
+        throw new Error(conflictData.error || '保存に失敗しました');
+      }
+
       if (!response.ok) {
         const data = await response.json();
         throw new Error(data.error || '保存に失敗しました');
       }
 
-      const responseData = await response.json();
-      // console.log('Response data:', responseData);
-      // console.log('Returned start_date:', responseData.task?.start_date);
-      // console.log('Returned end_date:', responseData.task?.end_date);
-      // console.log('=== END TaskForm Submit DEBUG ===');
-
-      // If creating a new task, immediately register it in localStorage
-      if (!editData && responseData.task) {
-        addNewTaskToSubcategory(
-          responseData.task.category,
-          responseData.task.sub_category,
-          responseData.task.id
-        );
-      }
-
+      // New tasks get their rank (the end of their subcategory) on the server
       onSave();
       onClose();
     } catch (err) {
@@ -187,10 +287,45 @@ export default function TaskForm({ isOpen, onClose, onSave, editData, initialCat
     }
   };
 
+  // Subcategories of the entered category, or of all categories while it is new
+  const getSubCategoryNames = () => {
+    const selected = categoryOptions.find((category) => category.name === formData.category);
+    const names = (selected ? [selected] : categoryOptions).flatMap((category) =>
+      category.subcategories.map((subcategory) => subcategory.name)
+    );
+    return Array.from(new Set(names)).sort();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitTask(formData);
+  };
+
+  // Save the values chosen in the conflict dialog on top of the current version
+  const handleConflictMerge = (merged: TaskFormData) => {
+    if (!conflict) return;
+
+    const theirs = conflict.theirs;
+    setConflict(null);
+    setBaseTask({ values: toTaskFormData(theirs), version: theirs.version });
+    setFormData(merged);
+    submitTask(merged, theirs.version);
+  };
+
+  // Drop my changes and continue editing from the task as the other user saved it
+  const handleConflictDiscard = () => {
+    if (!conflict) return;
+
+    const theirs = conflict.theirs;
+    setConflict(null);
+    setBaseTask({ values: toTaskFormData(theirs), version: theirs.version });
+    setFormData(toTaskFormData(theirs));
+  };
+
   const handleDelete = async () => {
     if (!editData?.id) return;
 
-    if (!confirm('このタスクを削除してもよろしいですか？\n\n「OK」を押すと完全に削除されます。')) {
+    if (!confirm('このタスクを削除してもよろしいですか？\n\nサブタスクとイベントも一緒にゴミ箱に移動し、ゴミ箱から復元できます。')) {
       return;
     }
 
@@ -248,6 +383,82 @@ export default function TaskForm({ isOpen, onClose, onSave, editData, initialCat
     }
   };
 
+  const handleAddDependency = async () => {
+    if (!localTaskData || !dependencyForm.predecessor_id) return;
+
+    setDependencyError(null);
+
+    try {
+      const response = await fetch('/api/tasks/dependencies', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          predecessor_id: dependencyForm.predecessor_id,
+          successor_id: localTaskData.id,
+          dependency_type: dependencyForm.dependency_type,
+          lag_days: parseInt(dependencyForm.lag_days, 10) || 0,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || '依存関係の追加に失敗しました');
+      }
+
+      setDependencyForm({ predecessor_id: '', dependency_type: 'FS', lag_days: '0' });
+      await refreshTaskData();
+      onSave();
+    } catch (err) {
+      setDependencyError(err instanceof Error ? err.message : '依存関係の追加に失敗しました');
+    }
+  };
+
+  const handleDeleteDependency = async (dependencyId: string) => {
+    setDependencyError(null);
+
+    try {
+      const response = await fetch(`/api/tasks/dependencies?id=${dependencyId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete dependency');
+      }
+
+      await refreshTaskData();
+      onSave();
+    } catch (err) {
+      setDependencyError(err instanceof Error ? err.message : '依存関係の削除に失敗しました');
+    }
+  };
+
+  // A task cannot be moved under itself, one of its own subtasks or a milestone
+  const parentTaskOptions = (() => {
+    const descendantIds = editData?.id ? getDescendantIds(taskOptions, editData.id) : new Set<string>();
+    return taskOptions.filter(
+      (t) => t.id !== editData?.id && !descendantIds.has(t.id) && t.kind !== 'milestone'
+    );
+  })();
+
+  const isMilestone = formData.kind === 'milestone';
+
+  const handleParentTaskChange = (parentTaskId: string) => {
+    const parent = taskOptions.find((t) => t.id === parentTaskId);
+    setFormData({
+      ...formData,
+      parent_task_id: parentTaskId,
+      // Subtasks share their parent's category and sub_category
+      category: parent ? parent.category : formData.category,
+      sub_category: parent ? parent.sub_category : formData.sub_category,
+    });
+  };
+
+  const getTaskName = (taskId: string) => {
+    return taskOptions.find((t) => t.id === taskId)?.name || taskId;
+  };
+
   const handleEventFormClose = () => {
     setIsEventFormOpen(false);
     setEditingEvent(null);
@@ -256,6 +467,7 @@ export default function TaskForm({ isOpen, onClose, onSave, editData, initialCat
   const handleEventSave = async () => {
     // Refresh local task data immediately
     await refreshTaskData();
+    if (editData?.id) fetchStatusHistory(editData.id);
     // Also refresh parent component's task list
     onSave();
     setIsEventFormOpen(false);
@@ -312,13 +524,14 @@ export default function TaskForm({ isOpen, onClose, onSave, editData, initialCat
                   required
                   value={formData.category}
                   onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-                  className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
+                  disabled={!!formData.parent_task_id}
+                  className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none disabled:opacity-60"
                   placeholder="開発"
                   list="category-list"
                 />
                 <datalist id="category-list">
-                  {categories.map((category) => (
-                    <option key={category} value={category} />
+                  {categoryOptions.map((category) => (
+                    <option key={category.id} value={category.name} />
                   ))}
                 </datalist>
               </div>
@@ -332,12 +545,13 @@ export default function TaskForm({ isOpen, onClose, onSave, editData, initialCat
                   required
                   value={formData.sub_category}
                   onChange={(e) => setFormData({ ...formData, sub_category: e.target.value })}
-                  className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
+                  disabled={!!formData.parent_task_id}
+                  className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none disabled:opacity-60"
                   placeholder="フロントエンド"
                   list="subcategory-list"
                 />
                 <datalist id="subcategory-list">
-                  {subCategories.map((subCategory) => (
+                  {getSubCategoryNames().map((subCategory) => (
                     <option key={subCategory} value={subCategory} />
                   ))}
                 </datalist>
@@ -347,27 +561,74 @@ export default function TaskForm({ isOpen, onClose, onSave, editData, initialCat
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">
-                  開始日
+                  種別
                 </label>
-                <input
-                  type="date"
-                  value={formData.start_date}
-                  onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                <select
+                  value={formData.kind}
+                  onChange={(e) => setFormData({ ...formData, kind: e.target.value as TaskKind })}
+                  disabled={!!localTaskData?.is_summary}
+                  className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none disabled:opacity-60"
+                >
+                  {TASK_KINDS.map((kind) => (
+                    <option key={kind} value={kind}>
+                      {TASK_KIND_LABELS[kind]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  親タスク
+                </label>
+                <select
+                  value={formData.parent_task_id}
+                  onChange={(e) => handleParentTaskChange(e.target.value)}
                   className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
-                />
+                >
+                  <option value="">なし (トップレベル)</option>
+                  {parentTaskOptions.map((task) => (
+                    <option key={task.id} value={task.id}>
+                      {task.name} ({task.category} / {task.sub_category})
+                    </option>
+                  ))}
+                </select>
               </div>
+            </div>
+
+            {localTaskData?.is_summary && (
+              <p className="text-xs text-gray-400">
+                サブタスクがあるため、日程とステータスはサブタスクから自動で集計されます
+              </p>
+            )}
 
+            <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">
-                  終了日
+                  {isMilestone ? '日付' : '開始日'}
                 </label>
                 <input
                   type="date"
-                  value={formData.end_date}
-                  onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                  value={formData.start_date}
+                  onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
                   className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
                 />
               </div>
+
+              {/* Milestones have a single date */}
+              {!isMilestone && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    終了日
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.end_date}
+                    onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                    className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
+                  />
+                </div>
+              )}
             </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -376,14 +637,14 @@ export default function TaskForm({ isOpen, onClose, onSave, editData, initialCat
                   担当者
                 </label>
                 <select
-                  value={formData.assignee}
-                  onChange={(e) => setFormData({ ...formData, assignee: e.target.value })}
+                  value={formData.assignee_id}
+                  onChange={(e) => setFormData({ ...formData, assignee_id: e.target.value })}
                   className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
                 >
                   <option value="">未割り当て</option>
-                  {members.map((member) => (
-                    <option key={member.id} value={member.name}>
-                      {member.name}
+                  {getAssigneeOptions(members, formData.assignee_id).map((member) => (
+                    <option key={member.id} value={member.id}>
+                      {getAssigneeLabel(member)}
                       {member.role && ` (${member.role})`}
                     </option>
                   ))}
@@ -399,7 +660,7 @@ export default function TaskForm({ isOpen, onClose, onSave, editData, initialCat
                   onChange={(e) => setFormData({ ...formData, status: e.target.value })}
                   className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
                 >
-                  {STATUS_OPTIONS.map((status) => (
+                  {STATUSES.map((status) => (
                     <option key={status} value={status}>
                       {status}
                     </option>
@@ -408,6 +669,38 @@ export default function TaskForm({ isOpen, onClose, onSave, editData, initialCat
               </div>
             </div>
 
+            {!isMilestone && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  進捗 (%)
+                </label>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={formData.progress}
+                    onChange={(e) => setFormData({ ...formData, progress: Number(e.target.value) })}
+                    disabled={!!editData?.is_summary}
+                    className="flex-1 disabled:opacity-50"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={formData.progress}
+                    onChange={(e) => setFormData({ ...formData, progress: Number(e.target.value) })}
+                    disabled={!!editData?.is_summary}
+                    className="w-20 px-2 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none disabled:opacity-50"
+                  />
+                </div>
+                {editData?.is_summary && (
+                  <p className="mt-1 text-xs text-gray-400">サブタスクの進捗から集計されます</p>
+                )}
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
                 メモ
@@ -418,10 +711,10 @@ export default function TaskForm({ isOpen, onClose, onSave, editData, initialCat
                 className="w-full px-4 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
                 placeholder="メモを入力"
                 rows={4}
-                maxLength={1000}
+                maxLength={NOTE_MAX_LENGTH}
               />
               <div className="text-right text-sm text-gray-400 mt-1">
-                {formData.note.length}/1000文字
+                {formData.note.length}/{NOTE_MAX_LENGTH}文字
               </div>
             </div>
           </div>
@@ -491,6 +784,137 @@ export default function TaskForm({ isOpen, onClose, onSave, editData, initialCat
             </div>
           )}
 
+          {/* Dependencies section - only show when editing existing task */}
+          {localTaskData && (
+            <div className="mt-6 pt-6 border-t border-gray-700">
+              <div className="mb-4">
+                <h3 className="text-lg font-bold text-white">先行タスク</h3>
+              </div>
+
+              {dependencyError && (
+                <div className="mb-3 p-2 bg-red-900/20 border border-red-500 rounded text-red-400 text-sm">
+                  {dependencyError}
+                </div>
+              )}
+
+              {localTaskData.predecessors && localTaskData.predecessors.length > 0 ? (
+                <div className="space-y-2 mb-3">
+                  {localTaskData.predecessors.map((link: TaskLink) => (
+                    <div
+                      key={link.id}
+                      className="bg-gray-700 rounded p-3 flex justify-between items-center"
+                    >
+                      <div className="text-sm text-gray-200">
+                        <span className="font-semibold text-white mr-3">{getTaskName(link.task_id)}</span>
+                        <span className="mr-3">{DEPENDENCY_TYPE_LABELS[link.dependency_type]}</span>
+                        {link.lag_days !== 0 && (
+                          <span className="text-gray-400">
+                            {link.lag_days > 0 ? `+${link.lag_days}` : link.lag_days}日
+                          </span>
+                        )}
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteDependency(link.id)}
+                        className="text-red-400 hover:text-red-300 text-sm ml-3"
+                      >
+                        削除
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-400 text-sm mb-3">先行タスクがありません</p>
+              )}
+
+              <div className="flex gap-2 items-center">
+                <select
+                  value={dependencyForm.predecessor_id}
+                  onChange={(e) => setDependencyForm({ ...dependencyForm, predecessor_id: e.target.value })}
+                  className="flex-1 px-3 py-1 bg-gray-700 text-white rounded border border-gray-600 text-sm"
+                >
+                  <option value="">先行タスクを選択</option>
+                  {taskOptions
+                    .filter((t) => t.id !== localTaskData.id)
+                    .map((t) => (
+                      <option key={t.id} value={t.id}>
+                        {t.category} / {t.sub_category} / {t.name}
+                      </option>
+                    ))}
+                </select>
+                <select
+                  value={dependencyForm.dependency_type}
+                  onChange={(e) => setDependencyForm({ ...dependencyForm, dependency_type: e.target.value as DependencyType })}
+                  className="px-3 py-1 bg-gray-700 text-white rounded border border-gray-600 text-sm"
+                >
+                  {DEPENDENCY_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {type} ({DEPENDENCY_TYPE_LABELS[type]})
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  value={dependencyForm.lag_days}
+                  onChange={(e) => setDependencyForm({ ...dependencyForm, lag_days: e.target.value })}
+                  className="w-20 px-3 py-1 bg-gray-700 text-white rounded border border-gray-600 text-sm"
+                  title="ラグ日数"
+                />
+                <button
+                  type="button"
+                  onClick={handleAddDependency}
+                  disabled={!dependencyForm.predecessor_id}
+                  className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 text-sm"
+                >
+                  追加
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Status history timeline - only show when editing existing task */}
+          {localTaskData && (
+            <div className="mt-6 pt-6 border-t border-gray-700">
+              <div className="mb-4">
+                <h3 className="text-lg font-bold text-white">ステータス履歴</h3>
+              </div>
+
+              {statusHistory.length > 0 ? (
+                <ol className="relative border-l border-gray-600 ml-2 space-y-3">
+                  {statusHistory.map((entry) => (
+                    <li key={entry.id} className="relative ml-4">
+                      <div className="absolute -left-[22px] top-1 w-3 h-3 rounded-full bg-gray-500 border border-gray-800" />
+                      <div className="text-xs text-gray-400">
+                        {new Date(entry.changed_at).toLocaleString('ja-JP')}
+                        {entry.changed_by && <span className="ml-2">{entry.changed_by}</span>}
+                      </div>
+                      <div className="text-sm text-gray-200 flex items-center gap-2 flex-wrap">
+                        <span className="text-gray-400">
+                          {entry.entity_type === 'event' ? `イベント「${entry.entity_name}」` : 'タスク'}
+                        </span>
+                        {entry.from_status ? (
+                          <>
+                            <span className={`px-2 py-0.5 rounded text-xs ${getStatusBadgeClass(entry.from_status)}`}>
+                              {entry.from_status}
+                            </span>
+                            <span className="text-gray-400">→</span>
+                          </>
+                        ) : (
+                          <span className="text-gray-400">作成:</span>
+                        )}
+                        <span className={`px-2 py-0.5 rounded text-xs ${getStatusBadgeClass(entry.to_status)}`}>
+                          {entry.to_status}
+                        </span>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-gray-400 text-sm">ステータスの変更履歴がありません</p>
+              )}
+            </div>
+          )}
+
           <div className="flex justify-between gap-3 mt-6">
             <div>
               {editData && (
@@ -534,6 +958,20 @@ export default function TaskForm({ isOpen, onClose, onSave, editData, initialCat
             editData={editingEvent}
           />
         )}
+
+        {conflict && baseTask && (
+          <ConflictDialog
+            entityLabel="タスク"
+            fields={TASK_CONFLICT_FIELDS}
+            base={baseTask.values}
+            mine={conflict.mine}
+            theirs={toTaskFormData(conflict.theirs)}
+            onMerge={handleConflictMerge}
+            onUseTheirs={handleConflictDiscard}
+            onCancel={() => setConflict(null)}
+            formatField={(field, value) => (field === 'assignee_id' ? getMemberName(members, value) : value)}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,119 @@
+/**
+ * Audit - shared types and diff helpers for the audit log
+ *
+ * Every write through the API is recorded in audit_log with the actor, the
+ * route, the affected entity and JSON snapshots of the entity before and
+ * after the change. The diff lists only the changed fields, using dotted
+ * paths for nested objects (e.g. "task_order.<task id>").
+ */
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete'];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: '作成',
+  update: '更新',
+  delete: '削除',
+};
+
+// Display names for the entity types recorded by the API routes
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  task: 'タスク',
+  event: 'イベント',
+  member: 'メンバー',
+  task_dependency: 'タスク依存関係',
+  task_order: 'タスク並び順',
+  category_order: 'カテゴリー並び順',
+  subcategory_order: 'サブカテゴリー並び順',
+  order: '並び順・展開状態',
+  baseline: 'ベースライン',
+  work_calendar: '稼働カレンダー',
+  non_working_day: '休業日',
+  view_preference: 'チーム既定の表示設定',
+  category: 'カテゴリー',
+  subcategory: 'サブカテゴリー',
+};
+
+export interface AuditFieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+export type AuditDiff = Record<string, AuditFieldChange>;
+
+// Audit log entry as returned by GET /api/audit
+export interface AuditLogEntry {
+  id: string;
+  actor: string | null;
+  method: string;
+  route: string;
+  entity_type: string;
+  entity_id: string | null;
+  action: AuditAction;
+  before: unknown;
+  after: unknown;
+  diff: AuditDiff;
+  created_at: string;
+}
+
+// Bookkeeping columns that change on every write and would only add noise
+const IGNORED_DIFF_FIELDS = new Set(['updated_at']);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Snapshot of ordered rows as { key: rank }, so that the diff lists only the
+ * entries that moved
+ */
+export function toOrderSnapshot(
+  rows: { rank: string }[],
+  getKey: (row: { rank: string } & Record<string, unknown>) => string
+): Record<string, string> {
+  return Object.fromEntries(rows.map(row => [getKey(row), String(row.rank)]));
+}
+
+/**
+ * Normalize a snapshot to plain JSON (Dates become ISO strings, undefined is dropped)
+ */
+export function toAuditJson(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Fields that differ between two snapshots
+ *
+ * Plain objects are compared field by field (recursively, with dotted
+ * paths); anything else is compared as a whole under the given path.
+ */
+export function diffAuditValues(before: unknown, after: unknown, path = ''): AuditDiff {
+  const normalizedBefore = toAuditJson(before);
+  const normalizedAfter = toAuditJson(after);
+
+  if (isPlainObject(normalizedBefore) && isPlainObject(normalizedAfter)) {
+    const diff: AuditDiff = {};
+    const keys = new Set([...Object.keys(normalizedBefore), ...Object.keys(normalizedAfter)]);
+    keys.forEach(key => {
+      if (!path && IGNORED_DIFF_FIELDS.has(key)) return;
+      Object.assign(
+        diff,
+        diffAuditValues(normalizedBefore[key], normalizedAfter[key], path ? `${path}.${key}` : key)
+      );
+    });
+    return diff;
+  }
+
+  if (JSON.stringify(normalizedBefore) === JSON.stringify(normalizedAfter)) return {};
+
+  // A whole object created or deleted is listed field by field
+  if (isPlainObject(normalizedBefore) || isPlainObject(normalizedAfter)) {
+    return diffAuditValues(
+      isPlainObject(normalizedBefore) ? normalizedBefore : {},
+      isPlainObject(normalizedAfter) ? normalizedAfter : {},
+      path
+    );
+  }
+
+  return { [path || '(value)']: { before: normalizedBefore, after: normalizedAfter } };
+}
@@ -0,0 +1,128 @@
+/**
+ * Audit Queries - record and search the audit log
+ *
+ * Routes take a snapshot of the entity before a write (getAuditSnapshot) and
+ * record the change after it succeeded (recordAudit).
+ */
+
+import type { PoolClient } from 'pg';
+import { query } from './db';
+import { getRequestActor } from './requestActor';
+import { AuditAction, AuditLogEntry, diffAuditValues, toAuditJson } from './audit';
+
+export interface AuditRecord {
+  entityType: string;
+  entityId?: string | null;
+  action: AuditAction;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditLogFilters {
+  entityType?: string | null;
+  entityId?: string | null;
+  actor?: string | null;
+  from?: string | null; // YYYY-MM-DD, inclusive
+  to?: string | null; // YYYY-MM-DD, inclusive
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Current row of a table by ID (null when it does not exist), read with client when given
+ */
+export async function getAuditSnapshot(
+  table: string,
+  id: string,
+  client?: PoolClient
+): Promise<Record<string, unknown> | null> {
+  const text = `SELECT * FROM "${table}" WHERE id = $1`;
+  const rows = client ? (await client.query(text, [id])).rows : await query(text, [id]);
+  return rows[0] || null;
+}
+
+/**
+ * Record a write in the audit log
+ *
+ * Updates that changed nothing are skipped. Failures are logged rather than
+ * thrown, because the write itself has already succeeded by the time the
+ * audit entry is stored. With client the entry is written in the caller's
+ * transaction instead, and a failure is thrown so that the write is rolled
+ * back with it.
+ */
+export async function recordAudit(request: Request, record: AuditRecord, client?: PoolClient): Promise<void> {
+  const before = toAuditJson(record.before);
+  const after = toAuditJson(record.after);
+  const diff = diffAuditValues(before, after);
+  if (record.action === 'update' && Object.keys(diff).length === 0) return;
+
+  const text = `INSERT INTO audit_log (actor, method, route, entity_type, entity_id, action, before, after, diff)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`;
+  const params = [
+    getRequestActor(request),
+    request.method,
+    new URL(request.url).pathname,
+    record.entityType,
+    record.entityId ?? null,
+    record.action,
+    JSON.stringify(before),
+    JSON.stringify(after),
+    JSON.stringify(diff),
+  ];
+
+  if (client) {
+    await client.query(text, params);
+    return;
+  }
+
+  try {
+    await query(text, params);
+  } catch (error) {
+    console.error('Error recording audit log:', error);
+  }
+}
+
+/**
+ * Search the audit log, newest first
+ */
+export async function getAuditLogs(filters: AuditLogFilters): Promise<{ logs: AuditLogEntry[]; total: number }> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  const addCondition = (sql: string, value: unknown) => {
+    params.push(value);
+    conditions.push(sql.replace('?', `$${params.length}`));
+  };
+
+  if (filters.entityType) addCondition('entity_type = ?', filters.entityType);
+  if (filters.entityId) addCondition('entity_id = ?', filters.entityId);
+  if (filters.actor) addCondition('actor = ?', filters.actor);
+  if (filters.from) addCondition('created_at >= ?::DATE', filters.from);
+  if (filters.to) addCondition("created_at < ?::DATE + INTERVAL '1 day'", filters.to);
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const [logs, count] = await Promise.all([
+    query<AuditLogEntry>(
+      `SELECT id, actor, method, route, entity_type, entity_id, action, before, after, diff, created_at
+       FROM audit_log
+       ${where}
+       ORDER BY created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filters.limit ?? 100, filters.offset ?? 0]
+    ),
+    query<{ total: number }>(`SELECT COUNT(*)::INT4 as total FROM audit_log ${where}`, params),
+  ]);
+
+  return { logs, total: count[0].total };
+}
+
+/**
+ * Distinct actors that appear in the audit log (for filter pickers)
+ */
+export async function getAuditActors(): Promise<string[]> {
+  const rows = await query<{ actor: string }>(
+    'SELECT DISTINCT actor FROM audit_log WHERE actor IS NOT NULL ORDER BY actor'
+  );
+  return rows.map(row => row.actor);
+}
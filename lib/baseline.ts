@@ -0,0 +1,55 @@
+/**
+ * Baseline - shared types and variance helpers for schedule baselines
+ *
+ * Variances are calendar days between the baseline date and the current date:
+ * positive means the current plan is later than the baseline (slipped),
+ * negative means it moved earlier.
+ */
+
+import { toDayNumber } from './scheduling';
+
+// Baseline as listed by GET /api/baselines
+export interface Baseline {
+  id: string;
+  name: string;
+  note: string | null;
+  created_at: string;
+  task_count: number;
+}
+
+export interface BaselineTaskVariance {
+  task_id: string;
+  task_name: string;
+  baseline_start: string | null;
+  baseline_end: string | null;
+  current_start: string | null;
+  current_end: string | null;
+  start_variance_days: number | null;
+  finish_variance_days: number | null;
+}
+
+export interface BaselineEventVariance {
+  event_id: string;
+  task_id: string;
+  event_name: string;
+  baseline_due_date: string | null;
+  current_due_date: string | null;
+  variance_days: number | null;
+}
+
+/**
+ * Days from the baseline date to the current date (null if either is missing)
+ */
+export function getVarianceDays(baselineDate: string | null, currentDate: string | null): number | null {
+  if (!baselineDate || !currentDate) return null;
+  return toDayNumber(currentDate) - toDayNumber(baselineDate);
+}
+
+/**
+ * Format a variance for display, e.g. "+3日", "-1日", "±0日"
+ */
+export function formatVarianceDays(days: number | null): string {
+  if (days === null) return '-';
+  if (days === 0) return '±0日';
+  return `${days > 0 ? '+' : ''}${days}日`;
+}
@@ -0,0 +1,175 @@
+/**
+ * Category - shared types for managed categories and subcategories
+ *
+ * Categories and subcategories have their own rows with a color, a
+ * description and an owner, but tasks, orders, expand states and view
+ * preferences still refer to them by name. Renaming or merging one rewrites
+ * all of those names in a single transaction, so nothing is left pointing at
+ * the old name. Archived categories stay visible with their tasks, but new
+ * tasks cannot be added to them.
+ *
+ * The names are kept as keys on purpose. Tasks name their category freely in
+ * the task form and the API, and the Gantt chart, the reports
+ * and the ranks group tasks by those names. The audit log and the change
+ * feed store names too, so past entries read the same after a rename, which
+ * an ID would not. Every name a task uses has a row: ensureTaskCategory()
+ * registers it before the task is written.
+ */
+
+import { ViewPreferenceKey } from './viewPreferences';
+
+export const CATEGORIES_URL = '/api/categories';
+
+export type CategoryEntityType = 'category' | 'subcategory';
+
+export const CATEGORY_ENTITY_TYPES: CategoryEntityType[] = ['category', 'subcategory'];
+
+export const CATEGORY_ENTITY_LABELS: Record<CategoryEntityType, string> = {
+  category: 'カテゴリー',
+  subcategory: 'サブカテゴリー',
+};
+
+// Colors offered by the management page
+export const CATEGORY_COLORS = [
+  '#3b82f6',
+  '#22c55e',
+  '#eab308',
+  '#f97316',
+  '#ef4444',
+  '#a855f7',
+  '#ec4899',
+  '#14b8a6',
+  '#6b7280',
+];
+
+export function isCategoryEntityType(value: unknown): value is CategoryEntityType {
+  return CATEGORY_ENTITY_TYPES.includes(value as CategoryEntityType);
+}
+
+// null clears the color
+export function isValidCategoryColor(value: unknown): boolean {
+  return value === null || (typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value));
+}
+
+// Editable details of a category or subcategory
+export interface CategoryDetails {
+  color: string | null;
+  description: string | null;
+  owner_id: string | null;
+}
+
+// Subcategory as returned by GET /api/categories
+export interface Subcategory extends CategoryDetails {
+  id: string;
+  category_id: string;
+  name: string;
+  owner_name: string | null;
+  archived_at: string | null;
+  // Tasks not in the trash
+  task_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Category with its subcategories, in display order
+export interface Category extends CategoryDetails {
+  id: string;
+  name: string;
+  owner_name: string | null;
+  archived_at: string | null;
+  task_count: number;
+  created_at: string;
+  updated_at: string;
+  subcategories: Subcategory[];
+}
+
+/**
+ * New names after a rename or merge
+ *
+ * Subcategories are listed by "category|sub_category". Subcategories of a
+ * renamed category that are not listed keep their name under the new one.
+ */
+export interface CategoryRename {
+  categories: Record<string, string>;
+  subcategories: Record<string, [string, string]>;
+}
+
+// View preferences that refer to categories by name
+export const CATEGORY_PREFERENCE_KEYS: ViewPreferenceKey[] = [
+  'gantt_task_order',
+  'gantt_category_order',
+  'gantt_subcategory_order',
+  'gantt_expanded_categories',
+  'gantt_expanded_subcategories',
+];
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isStringArrayRecord = (value: unknown): value is Record<string, string[]> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(isStringArray);
+
+const unique = (values: string[]) => Array.from(new Set(values));
+
+/**
+ * A view preference value with renamed categories and subcategories
+ *
+ * Lists that end up with the same name twice (after a merge) keep the first
+ * one; the users' own task orders of merged subcategories are concatenated.
+ */
+export function renameCategoriesInPreference(key: ViewPreferenceKey, value: unknown, rename: CategoryRename): unknown {
+  const renameCategory = (category: string) => rename.categories[category] ?? category;
+  const renameSubcategory = (category: string, subCategory: string): [string, string] =>
+    rename.subcategories[`${category}|${subCategory}`] ?? [renameCategory(category), subCategory];
+
+  switch (key) {
+    case 'gantt_category_order':
+    case 'gantt_expanded_categories':
+      return isStringArray(value) ? unique(value.map(renameCategory)) : value;
+
+    case 'gantt_subcategory_order': {
+      if (!isStringArrayRecord(value)) return value;
+      const renamed: Record<string, string[]> = {};
+      Object.entries(value).forEach(([category, subCategories]) => {
+        subCategories.forEach(subCategory => {
+          const [newCategory, newSubCategory] = renameSubcategory(category, subCategory);
+          renamed[newCategory] = unique([...(renamed[newCategory] || []), newSubCategory]);
+        });
+        renamed[renameCategory(category)] ??= [];
+      });
+      return renamed;
+    }
+
+    case 'gantt_task_order': {
+      // Keys are "category::sub_category"
+      if (!isStringArrayRecord(value)) return value;
+      const renamed: Record<string, string[]> = {};
+      Object.entries(value).forEach(([subcategoryKey, taskIds]) => {
+        const separator = subcategoryKey.indexOf('::');
+        if (separator === -1) {
+          renamed[subcategoryKey] = taskIds;
+          return;
+        }
+        const newKey = renameSubcategory(subcategoryKey.slice(0, separator), subcategoryKey.slice(separator + 2)).join('::');
+        renamed[newKey] = unique([...(renamed[newKey] || []), ...taskIds]);
+      });
+      return renamed;
+    }
+
+    case 'gantt_expanded_subcategories': {
+      // Keys are "category-sub_category", which cannot be split reliably, so
+      // only the listed subcategories are renamed
+      if (!isStringArray(value)) return value;
+      const renamedKeys = new Map(
+        Object.entries(rename.subcategories).map(([oldKey, [category, subCategory]]) => {
+          const separator = oldKey.indexOf('|');
+          return [`${oldKey.slice(0, separator)}-${oldKey.slice(separator + 1)}`, `${category}-${subCategory}`];
+        })
+      );
+      return unique(value.map(subcategoryKey => renamedKeys.get(subcategoryKey) ?? subcategoryKey));
+    }
+
+    default:
+      return value;
+  }
+}
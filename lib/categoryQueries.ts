@@ -0,0 +1,396 @@
+/**
+ * Category Queries - manage categories and subcategories
+ *
+ * Renames and merges rewrite the names in task, the order and expand state
+ * tables and the stored view preferences inside one transaction, so a failure
+ * leaves every reference as it was.
+ */
+
+import type { PoolClient } from 'pg';
+import { query, withTransaction } from './db';
+import {
+  Category,
+  CategoryDetails,
+  CategoryEntityType,
+  CATEGORY_PREFERENCE_KEYS,
+  CategoryRename,
+  renameCategoriesInPreference,
+  Subcategory,
+} from './category';
+import { ViewPreferenceKey } from './viewPreferences';
+import { appendToGroup } from './rankQueries';
+
+export type CategoryResult<T> = T | { error: string; status: number };
+
+const ENTITY_TABLES: Record<CategoryEntityType, string> = {
+  category: 'category',
+  subcategory: 'subcategory',
+};
+
+interface CategoryRow {
+  id: string;
+  name: string;
+  archived_at: string | null;
+}
+
+interface SubcategoryRow extends CategoryRow {
+  category_id: string;
+  category_name: string;
+}
+
+async function findCategory(client: PoolClient, id: string): Promise<CategoryRow | null> {
+  const result = await client.query<CategoryRow>('SELECT id, name, archived_at FROM category WHERE id = $1', [id]);
+  return result.rows[0] || null;
+}
+
+async function findSubcategory(client: PoolClient, id: string): Promise<SubcategoryRow | null> {
+  const result = await client.query<SubcategoryRow>(
+    `SELECT s.id, s.name, s.archived_at, s.category_id, c.name as category_name
+     FROM subcategory s
+     JOIN category c ON c.id = s.category_id
+     WHERE s.id = $1`,
+    [id]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * All categories with their subcategories, in the shared display order
+ */
+export async function getCategories(includeArchived: boolean): Promise<Category[]> {
+  const archivedCondition = includeArchived ? '' : 'AND c.archived_at IS NULL';
+  const [categories, subcategories] = await Promise.all([
+    query<Omit<Category, 'subcategories'>>(
+      `SELECT c.*, m.name as owner_name,
+              (SELECT COUNT(*) FROM task t WHERE t.category = c.name AND t.deleted_at IS NULL)::INT4 as task_count
+       FROM category c
+       LEFT JOIN member m ON m.id = c.owner_id
+       LEFT JOIN category_order co ON co.category = c.name
+       WHERE TRUE ${archivedCondition}
+       ORDER BY co.rank IS NULL, co.rank, co.display_order, c.name`
+    ),
+    query<Subcategory>(
+      `SELECT s.*, m.name as owner_name,
+              (SELECT COUNT(*) FROM task t
+               WHERE t.category = c.name AND t.sub_category = s.name AND t.deleted_at IS NULL)::INT4 as task_count
+       FROM subcategory s
+       JOIN category c ON c.id = s.category_id
+       LEFT JOIN member m ON m.id = s.owner_id
+       LEFT JOIN subcategory_order so ON so.category = c.name AND so.sub_category = s.name
+       WHERE TRUE ${archivedCondition} ${includeArchived ? '' : 'AND s.archived_at IS NULL'}
+       ORDER BY so.rank IS NULL, so.rank, so.display_order, s.name`
+    ),
+  ]);
+
+  return categories.map(category => ({
+    ...category,
+    subcategories: subcategories.filter(subcategory => subcategory.category_id === category.id),
+  }));
+}
+
+/**
+ * Register the category and subcategory of a new or moved task, in the
+ * caller's transaction when client is given
+ *
+ * Names that are new are created on the fly (tasks still name their
+ * category freely); archived ones are rejected.
+ */
+export async function ensureTaskCategory(
+  category: string,
+  subCategory: string,
+  client?: PoolClient
+): Promise<CategoryResult<{ ok: true }>> {
+  return client
+    ? registerTaskCategory(client, category, subCategory)
+    : withTransaction(transaction => registerTaskCategory(transaction, category, subCategory));
+}
+
+async function registerTaskCategory(
+  client: PoolClient,
+  category: string,
+  subCategory: string
+): Promise<CategoryResult<{ ok: true }>> {
+  await client.query('INSERT INTO category (name) VALUES ($1) ON CONFLICT (name) DO NOTHING', [category]);
+  const categories = await client.query<CategoryRow>('SELECT id, name, archived_at FROM category WHERE name = $1', [category]);
+  if (categories.rows[0].archived_at) {
+    return { error: `カテゴリー「${category}」はアーカイブ済みです`, status: 400 };
+  }
+
+  await client.query(
+    'INSERT INTO subcategory (category_id, name) VALUES ($1, $2) ON CONFLICT (category_id, name) DO NOTHING',
+    [categories.rows[0].id, subCategory]
+  );
+  const subcategories = await client.query<CategoryRow>(
+    'SELECT id, name, archived_at FROM subcategory WHERE category_id = $1 AND name = $2',
+    [categories.rows[0].id, subCategory]
+  );
+  if (subcategories.rows[0].archived_at) {
+    return { error: `サブカテゴリー「${subCategory}」はアーカイブ済みです`, status: 400 };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Create a category, or a subcategory of categoryId
+ */
+export async function createCategory(
+  entityType: CategoryEntityType,
+  name: string,
+  categoryId: string | null,
+  details: CategoryDetails
+): Promise<CategoryResult<{ id: string }>> {
+  return withTransaction(async client => {
+    if (entityType === 'category') {
+      const existing = await client.query('SELECT id FROM category WHERE name = $1', [name]);
+      if (existing.rows.length > 0) {
+        return { error: `カテゴリー「${name}」は既にあります`, status: 409 };
+      }
+      const result = await client.query<{ id: string }>(
+        `INSERT INTO category (name, color, description, owner_id) VALUES ($1, $2, $3, $4) RETURNING id`,
+        [name, details.color, details.description, details.owner_id]
+      );
+      return { id: result.rows[0].id };
+    }
+
+    const category = categoryId ? await findCategory(client, categoryId) : null;
+    if (!category) {
+      return { error: 'Category not found', status: 404 };
+    }
+    const existing = await client.query('SELECT id FROM subcategory WHERE category_id = $1 AND name = $2', [category.id, name]);
+    if (existing.rows.length > 0) {
+      return { error: `サブカテゴリー「${name}」は既にあります`, status: 409 };
+    }
+    const result = await client.query<{ id: string }>(
+      `INSERT INTO subcategory (category_id, name, color, description, owner_id) VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+      [category.id, name, details.color, details.description, details.owner_id]
+    );
+    return { id: result.rows[0].id };
+  });
+}
+
+/**
+ * Update the color, description and owner
+ *
+ * Returns false when the row does not exist.
+ */
+export async function updateCategoryDetails(
+  entityType: CategoryEntityType,
+  id: string,
+  details: CategoryDetails
+): Promise<boolean> {
+  const result = await query(
+    `UPDATE ${ENTITY_TABLES[entityType]}
+     SET color = $1, description = $2, owner_id = $3, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $4
+     RETURNING id`,
+    [details.color, details.description, details.owner_id, id]
+  );
+  return result.length > 0;
+}
+
+/**
+ * Archive or unarchive a category or subcategory
+ *
+ * Returns false when the row does not exist.
+ */
+export async function setCategoryArchived(entityType: CategoryEntityType, id: string, archived: boolean): Promise<boolean> {
+  const result = await query(
+    `UPDATE ${ENTITY_TABLES[entityType]}
+     SET archived_at = ${archived ? 'COALESCE(archived_at, CURRENT_TIMESTAMP)' : 'NULL'}, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1
+     RETURNING id`,
+    [id]
+  );
+  return result.length > 0;
+}
+
+// Point every reference to category `from` at `to`; rows that would collide
+// with one `to` already has are dropped, and moved tasks and subcategories
+// are ranked after those `to` already has
+async function moveCategoryReferences(client: PoolClient, from: string, to: string): Promise<number> {
+  const tasks = await client.query<{ id: string; sub_category: string }>(
+    'UPDATE task SET category = $2 WHERE category = $1 RETURNING id, sub_category',
+    [from, to]
+  );
+
+  for (const table of ['category_order', 'category_expand_state']) {
+    await client.query(
+      `UPDATE ${table} SET category = $2
+       WHERE category = $1 AND NOT EXISTS (SELECT 1 FROM ${table} WHERE category = $2)`,
+      [from, to]
+    );
+    await client.query(`DELETE FROM ${table} WHERE category = $1`, [from]);
+  }
+
+  for (const table of ['subcategory_order', 'subcategory_expand_state']) {
+    const moved = await client.query<{ sub_category: string }>(
+      `UPDATE ${table} SET category = $2
+       WHERE category = $1 AND sub_category NOT IN (SELECT sub_category FROM ${table} WHERE category = $2)
+       RETURNING sub_category`,
+      [from, to]
+    );
+    await client.query(`DELETE FROM ${table} WHERE category = $1`, [from]);
+    if (table === 'subcategory_order') {
+      await appendToGroup(client, 'subcategory', [to], moved.rows.map(row => row.sub_category));
+    }
+  }
+
+  const subCategories = new Set(tasks.rows.map(task => task.sub_category));
+  for (const subCategory of subCategories) {
+    const ids = tasks.rows.filter(task => task.sub_category === subCategory).map(task => task.id);
+    await appendToGroup(client, 'task', [to, subCategory], ids);
+  }
+
+  return tasks.rowCount ?? 0;
+}
+
+// Point every reference to subcategory from at to (moved tasks are ranked after those `to` already has)
+async function moveSubcategoryReferences(
+  client: PoolClient,
+  from: [string, string],
+  to: [string, string]
+): Promise<number> {
+  const tasks = await client.query<{ id: string }>(
+    'UPDATE task SET category = $3, sub_category = $4 WHERE category = $1 AND sub_category = $2 RETURNING id',
+    [...from, ...to]
+  );
+  await appendToGroup(client, 'task', to, tasks.rows.map(task => task.id));
+
+  for (const table of ['subcategory_order', 'subcategory_expand_state']) {
+    await client.query(
+      `UPDATE ${table} SET category = $3, sub_category = $4
+       WHERE category = $1 AND sub_category = $2
+         AND NOT EXISTS (SELECT 1 FROM ${table} WHERE category = $3 AND sub_category = $4)`,
+      [...from, ...to]
+    );
+    await client.query(`DELETE FROM ${table} WHERE category = $1 AND sub_category = $2`, from);
+  }
+
+  return tasks.rowCount ?? 0;
+}
+
+// Rewrite the stored view preferences (every user and the team default)
+async function renameInPreferences(client: PoolClient, rename: CategoryRename): Promise<void> {
+  const result = await client.query<{ id: string; pref_key: ViewPreferenceKey; value: unknown }>(
+    'SELECT id, pref_key, value FROM view_preference WHERE pref_key = ANY($1)',
+    [CATEGORY_PREFERENCE_KEYS]
+  );
+
+  for (const row of result.rows) {
+    const value = renameCategoriesInPreference(row.pref_key, row.value, rename);
+    if (JSON.stringify(value) === JSON.stringify(row.value)) continue;
+    await client.query(
+      'UPDATE view_preference SET value = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [row.id, JSON.stringify(value)]
+    );
+  }
+}
+
+// Rename that moves the subcategories of `from` under `to`
+async function getCategoryRename(client: PoolClient, from: CategoryRow, to: string): Promise<CategoryRename> {
+  const subcategories = await client.query<{ name: string }>('SELECT name FROM subcategory WHERE category_id = $1', [from.id]);
+  return {
+    categories: { [from.name]: to },
+    subcategories: Object.fromEntries(
+      subcategories.rows.map(subcategory => [`${from.name}|${subcategory.name}`, [to, subcategory.name]])
+    ),
+  };
+}
+
+/**
+ * Rename a category or subcategory everywhere it is referenced
+ *
+ * Returns the number of tasks that were moved to the new name.
+ */
+export async function renameCategory(
+  entityType: CategoryEntityType,
+  id: string,
+  name: string
+): Promise<CategoryResult<{ tasks: number }>> {
+  return withTransaction(async client => {
+    if (entityType === 'category') {
+      const category = await findCategory(client, id);
+      if (!category) return { error: 'Category not found', status: 404 };
+      if (category.name === name) return { tasks: 0 };
+
+      const existing = await client.query('SELECT id FROM category WHERE name = $1', [name]);
+      if (existing.rows.length > 0) {
+        return { error: `カテゴリー「${name}」は既にあります。統合する場合は統合を使ってください`, status: 409 };
+      }
+
+      const rename = await getCategoryRename(client, category, name);
+      await client.query('UPDATE category SET name = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1', [id, name]);
+      const tasks = await moveCategoryReferences(client, category.name, name);
+      await renameInPreferences(client, rename);
+      return { tasks };
+    }
+
+    const subcategory = await findSubcategory(client, id);
+    if (!subcategory) return { error: 'Subcategory not found', status: 404 };
+    if (subcategory.name === name) return { tasks: 0 };
+
+    const existing = await client.query(
+      'SELECT id FROM subcategory WHERE category_id = $1 AND name = $2',
+      [subcategory.category_id, name]
+    );
+    if (existing.rows.length > 0) {
+      return { error: `サブカテゴリー「${name}」は既にあります。統合する場合は統合を使ってください`, status: 409 };
+    }
+
+    const from: [string, string] = [subcategory.category_name, subcategory.name];
+    const to: [string, string] = [subcategory.category_name, name];
+    await client.query('UPDATE subcategory SET name = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1', [id, name]);
+    const tasks = await moveSubcategoryReferences(client, from, to);
+    await renameInPreferences(client, { categories: {}, subcategories: { [from.join('|')]: to } });
+    return { tasks };
+  });
+}
+
+/**
+ * Merge a category or subcategory into another one of the same kind
+ *
+ * The tasks of the source move to the target and the source is deleted.
+ * Subcategories of a merged category move along, merging with those of the
+ * target that have the same name. Returns the number of moved tasks.
+ */
+export async function mergeCategory(
+  entityType: CategoryEntityType,
+  sourceId: string,
+  targetId: string
+): Promise<CategoryResult<{ tasks: number }>> {
+  if (sourceId === targetId) {
+    return { error: '統合先には別の項目を選んでください', status: 400 };
+  }
+
+  return withTransaction(async client => {
+    if (entityType === 'category') {
+      const [source, target] = await Promise.all([findCategory(client, sourceId), findCategory(client, targetId)]);
+      if (!source || !target) return { error: 'Category not found', status: 404 };
+      if (target.archived_at) return { error: 'アーカイブ済みのカテゴリーには統合できません', status: 400 };
+
+      const rename = await getCategoryRename(client, source, target.name);
+      await client.query(
+        `UPDATE subcategory SET category_id = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE category_id = $1 AND name NOT IN (SELECT name FROM subcategory WHERE category_id = $2)`,
+        [sourceId, targetId]
+      );
+      await client.query('DELETE FROM subcategory WHERE category_id = $1', [sourceId]);
+      await client.query('DELETE FROM category WHERE id = $1', [sourceId]);
+      const tasks = await moveCategoryReferences(client, source.name, target.name);
+      await renameInPreferences(client, rename);
+      return { tasks };
+    }
+
+    const [source, target] = await Promise.all([findSubcategory(client, sourceId), findSubcategory(client, targetId)]);
+    if (!source || !target) return { error: 'Subcategory not found', status: 404 };
+    if (target.archived_at) return { error: 'アーカイブ済みのサブカテゴリーには統合できません', status: 400 };
+
+    const from: [string, string] = [source.category_name, source.name];
+    const to: [string, string] = [target.category_name, target.name];
+    await client.query('DELETE FROM subcategory WHERE id = $1', [sourceId]);
+    const tasks = await moveSubcategoryReferences(client, from, to);
+    await renameInPreferences(client, { categories: {}, subcategories: { [from.join('|')]: to } });
+    return { tasks };
+  });
+}
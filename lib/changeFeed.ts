@@ -0,0 +1,140 @@
+/**
+ * Change Feed - live change notifications streamed to open pages
+ *
+ * GET /api/changes is a Server-Sent Events stream that polls the audit log
+ * (which every write route already appends to) and forwards each new entry
+ * as a `change` event, so it works no matter which server instance handled
+ * the write. Each event id is a cursor (the entry's timestamp and ID), so a
+ * reconnecting EventSource resumes where it left off via Last-Event-ID.
+ * Clients re-read the affected data rather than patching rows in place,
+ * because rolled-up values (summary dates, progress, working days) depend on
+ * other rows.
+ */
+
+import { useEffect, useRef } from 'react';
+import type { ServerOrderChange } from './taskOrderStorage';
+
+export const CHANGE_STREAM_URL = '/api/changes';
+
+// How often the stream polls the audit log
+export const CHANGE_POLL_INTERVAL_MS = 2000;
+
+// How long changed rows stay highlighted
+export const CHANGE_HIGHLIGHT_MS = 4000;
+
+// Entity types whose `after` is an order snapshot ({ key: rank })
+export const ORDER_CHANGE_ENTITY_TYPES = ['order', 'task_order', 'category_order', 'subcategory_order'];
+
+export interface ChangeNotification {
+  id: string;
+  entity_type: string;
+  entity_id: string | null;
+  action: 'create' | 'update' | 'delete';
+  actor: string | null;
+  // Tasks whose row should be highlighted (the task itself, an event's task, ...)
+  task_ids: string[];
+  // Order snapshot for ORDER_CHANGE_ENTITY_TYPES, null otherwise
+  order: Record<string, unknown> | null;
+  created_at: string;
+}
+
+const toIds = (...values: unknown[]): string[] =>
+  values.filter((value): value is string => typeof value === 'string' && value.length > 0);
+
+/**
+ * Tasks affected by an audit log entry, for highlighting
+ */
+export function getChangedTaskIds(
+  entityType: string,
+  entityId: string | null,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): string[] {
+  const row = after || before || {};
+  switch (entityType) {
+    case 'task':
+      return toIds(entityId);
+    case 'event':
+      return toIds(row.task_id);
+    case 'task_dependency':
+      return toIds(row.predecessor_id, row.successor_id);
+    case 'task_order': {
+      // Snapshots list the whole subcategory; only the moved tasks changed rank
+      const beforeRanks = (before || {}) as Record<string, unknown>;
+      return Object.entries((after || {}) as Record<string, unknown>)
+        .filter(([id, rank]) => beforeRanks[id] !== rank)
+        .map(([id]) => id);
+    }
+    default:
+      return [];
+  }
+}
+
+type Ranks = Record<string, string>;
+
+/**
+ * Orders saved by an order change, in the shape applyServerOrder() expects
+ */
+export function getOrderChange(change: ChangeNotification): ServerOrderChange | null {
+  if (!change.order) return null;
+
+  switch (change.entity_type) {
+    case 'category_order':
+      return { categories: change.order as Ranks };
+    case 'subcategory_order':
+      return change.entity_id ? { subcategories: { [change.entity_id]: change.order as Ranks } } : null;
+    case 'order': {
+      // Subcategory keys are "category|sub_category"
+      const subcategories: Record<string, Ranks> = {};
+      Object.entries((change.order.subcategory_order || {}) as Ranks).forEach(([key, rank]) => {
+        const separator = key.indexOf('|');
+        const category = key.slice(0, separator);
+        subcategories[category] = { ...subcategories[category], [key.slice(separator + 1)]: rank };
+      });
+      return {
+        categories: (change.order.category_order || {}) as Ranks,
+        subcategories,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Subscribe to the change stream while mounted
+ *
+ * Changes that arrive close together are delivered as one batch. This page's
+ * own writes come back too (users may share one login, so the actor cannot
+ * tell them apart); re-reading after them is harmless.
+ */
+export function useChangeStream(onChanges: (changes: ChangeNotification[]) => void, batchMs = 300) {
+  const onChangesRef = useRef(onChanges);
+  useEffect(() => {
+    onChangesRef.current = onChanges;
+  });
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(CHANGE_STREAM_URL);
+    let pending: ChangeNotification[] = [];
+    let batchTimer: ReturnType<typeof setTimeout> | null = null;
+
+    source.addEventListener('change', (e) => {
+      pending.push(JSON.parse((e as MessageEvent).data) as ChangeNotification);
+      if (batchTimer) return;
+      batchTimer = setTimeout(() => {
+        const batch = pending;
+        pending = [];
+        batchTimer = null;
+        onChangesRef.current(batch);
+      }, batchMs);
+    });
+
+    return () => {
+      if (batchTimer) clearTimeout(batchTimer);
+      source.close();
+    };
+  }, [batchMs]);
+}
@@ -0,0 +1,119 @@
+/**
+ * Change Feed Queries - read new audit log entries for the change stream
+ *
+ * A cursor is the position of an entry as "<created_at>|<id>": the timestamp
+ * as text, which keeps its full (microsecond) precision, and the ID, which
+ * orders entries that share a timestamp so that a page never has to repeat
+ * one.
+ */
+
+import { query } from './db';
+import { ChangeNotification, getChangedTaskIds, ORDER_CHANGE_ENTITY_TYPES } from './changeFeed';
+
+// Entries committed slightly out of timestamp order are looked for this far back
+const CHANGE_OVERLAP = '5 seconds';
+
+// Cursor of an empty log: no ID sorts before this one
+const FIRST_ID = '00000000-0000-0000-0000-000000000000';
+
+const CURSOR_PATTERN =
+  /^(\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(?:\.\d+)?)\|([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+export interface ChangeCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface ChangeFeedEntry extends ChangeNotification {
+  cursor: ChangeCursor;
+}
+
+interface AuditLogRow {
+  id: string;
+  entity_type: string;
+  entity_id: string | null;
+  action: ChangeNotification['action'];
+  actor: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+  created_at_text: string;
+}
+
+const ENTRY_COLUMNS = 'id, entity_type, entity_id, action, actor, before, after, created_at, created_at::TEXT as created_at_text';
+
+export const formatChangeCursor = ({ createdAt, id }: ChangeCursor) => `${createdAt}|${id}`;
+
+// Cursor from a Last-Event-ID header (null when it is not one of ours)
+export function parseChangeCursor(value: string | null): ChangeCursor | null {
+  const match = value ? CURSOR_PATTERN.exec(value) : null;
+  return match ? { createdAt: match[1], id: match[2].toLowerCase() } : null;
+}
+
+const toNotification = (row: AuditLogRow): ChangeNotification => ({
+  id: row.id,
+  entity_type: row.entity_type,
+  entity_id: row.entity_id,
+  action: row.action,
+  actor: row.actor,
+  task_ids: getChangedTaskIds(row.entity_type, row.entity_id, row.before, row.after),
+  order: ORDER_CHANGE_ENTITY_TYPES.includes(row.entity_type) ? row.after : null,
+  created_at: row.created_at,
+});
+
+/**
+ * Cursor of the newest audit log entry (now, when the log is empty)
+ */
+export async function getLatestChangeCursor(): Promise<ChangeCursor> {
+  const rows = await query<{ created_at: string; id: string }>(
+    `SELECT created_at::TEXT as created_at, id::TEXT as id
+     FROM audit_log
+     ORDER BY created_at DESC, id DESC
+     LIMIT 1`
+  );
+  if (rows.length > 0) return { createdAt: rows[0].created_at, id: rows[0].id };
+
+  const now = await query<{ created_at: string }>('SELECT CURRENT_TIMESTAMP::TIMESTAMP::TEXT as created_at');
+  return { createdAt: now[0].created_at, id: FIRST_ID };
+}
+
+/**
+ * Entries strictly after the cursor, oldest first
+ *
+ * Entries that share a timestamp are ordered by ID, so paging on with the
+ * cursor of the last entry returned always moves forward, however many
+ * entries were written at the same moment.
+ */
+export async function getChangesAfter(cursor: ChangeCursor, limit = 200): Promise<ChangeFeedEntry[]> {
+  const rows = await query<AuditLogRow>(
+    `SELECT ${ENTRY_COLUMNS}
+     FROM audit_log
+     WHERE (created_at, id) > ($1::TIMESTAMP, $2::UUID)
+     ORDER BY created_at, id
+     LIMIT $3`,
+    [cursor.createdAt, cursor.id, limit]
+  );
+  return rows.map(row => ({ ...toNotification(row), cursor: { createdAt: row.created_at_text, id: row.id } }));
+}
+
+/**
+ * Entries at or before the cursor, within the overlap window, that are not
+ * in knownIds, oldest first
+ *
+ * A transaction that commits late can add entries behind a cursor that has
+ * already moved past their timestamp. This finds them without moving the
+ * cursor back; knownIds are the entries the caller has already seen.
+ */
+export async function getLateChanges(cursor: ChangeCursor, knownIds: string[], limit = 200): Promise<ChangeNotification[]> {
+  const rows = await query<AuditLogRow>(
+    `SELECT ${ENTRY_COLUMNS}
+     FROM audit_log
+     WHERE created_at > $1::TIMESTAMP - INTERVAL '${CHANGE_OVERLAP}'
+     AND (created_at, id) <= ($1::TIMESTAMP, $2::UUID)
+     AND id <> ALL($3::UUID[])
+     ORDER BY created_at, id
+     LIMIT $4`,
+    [cursor.createdAt, cursor.id, knownIds, limit]
+  );
+  return rows.map(toNotification);
+}
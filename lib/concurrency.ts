@@ -0,0 +1,110 @@
+/**
+ * Concurrency - optimistic concurrency control for task and event updates
+ *
+ * Tasks and events carry a version that is incremented on every update.
+ * PUT /api/tasks and PUT /api/events require the version the client loaded
+ * and answer 409 with the current row when it no longer matches, so two
+ * people editing the same row cannot silently overwrite each other. The
+ * client then merges its changes with the current row (three-way, against
+ * the values it originally loaded) and saves again with the new version.
+ */
+
+export const VERSION_CONFLICT_MESSAGE = '他のユーザーが先に更新しました。変更内容を確認してください';
+
+/**
+ * Thrown on the client when a save is rejected with 409
+ */
+export class VersionConflictError<T = Record<string, unknown>> extends Error {
+  constructor(public current: T) {
+    super(VERSION_CONFLICT_MESSAGE);
+    this.name = 'VersionConflictError';
+  }
+}
+
+export type MergeChoice = 'mine' | 'theirs';
+
+export interface ConflictFieldDefinition {
+  field: string;
+  label: string;
+}
+
+export interface ConflictField extends ConflictFieldDefinition {
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+  // Both sides changed the field from the loaded value (needs a decision)
+  bothChanged: boolean;
+  // Default choice: whichever side changed the field
+  choice: MergeChoice;
+}
+
+// null, undefined and '' all mean "empty"
+const normalize = (value: unknown) => (value === undefined || value === '' ? null : value);
+
+const isSame = (a: unknown, b: unknown) => normalize(a) === normalize(b);
+
+/**
+ * Fields where my values and the current server values differ
+ */
+export function getConflictFields(
+  definitions: ConflictFieldDefinition[],
+  baseValues: object,
+  myValues: object,
+  theirValues: object
+): ConflictField[] {
+  const base = baseValues as Record<string, unknown>;
+  const mine = myValues as Record<string, unknown>;
+  const theirs = theirValues as Record<string, unknown>;
+  return definitions
+    .filter(({ field }) => !isSame(mine[field], theirs[field]))
+    .map(definition => {
+      const { field } = definition;
+      const mineChanged = !isSame(mine[field], base[field]);
+      const theirsChanged = !isSame(theirs[field], base[field]);
+      return {
+        ...definition,
+        base: base[field],
+        mine: mine[field],
+        theirs: theirs[field],
+        bothChanged: mineChanged && theirsChanged,
+        choice: mineChanged ? 'mine' : 'theirs',
+      };
+    });
+}
+
+/**
+ * Apply the chosen side of every conflicting field to my values
+ */
+export function mergeConflictFields<T extends object>(
+  mine: T,
+  theirs: object,
+  fields: ConflictField[]
+): T {
+  const merged = { ...mine } as Record<string, unknown>;
+  fields.forEach(({ field, choice }) => {
+    if (choice === 'theirs') merged[field] = (theirs as Record<string, unknown>)[field];
+  });
+  return merged as T;
+}
+
+export const TASK_CONFLICT_FIELDS: ConflictFieldDefinition[] = [
+  { field: 'name', label: 'タスク名' },
+  { field: 'kind', label: '種類' },
+  { field: 'category', label: 'カテゴリー' },
+  { field: 'sub_category', label: 'サブカテゴリー' },
+  { field: 'parent_task_id', label: '親タスク' },
+  { field: 'start_date', label: '開始日' },
+  { field: 'end_date', label: '終了日' },
+  { field: 'assignee_id', label: '担当者' },
+  { field: 'status', label: 'ステータス' },
+  { field: 'progress', label: '進捗' },
+  { field: 'note', label: 'メモ' },
+];
+
+export const EVENT_CONFLICT_FIELDS: ConflictFieldDefinition[] = [
+  { field: 'name', label: 'イベント名' },
+  { field: 'due_date', label: '期日' },
+  { field: 'assignee_id', label: '担当者' },
+  { field: 'status', label: 'ステータス' },
+  { field: 'note', label: 'メモ' },
+];
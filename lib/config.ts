@@ -18,8 +18,11 @@ export interface AppConfig {
     url: string;
   };
   auth: {
-    basicAuthUser?: string;
-    basicAuthPassword?: string;
+    // Shared account everyone can sign in with
+    basicAuthUser: string;
+    basicAuthPassword: string;
+    // Personal accounts by user name, with their passwords
+    basicAuthUsers: Record<string, string>;
   };
   email: {
     gmailUser?: string;
@@ -46,6 +49,19 @@ export function getEnvironment(): Environment {
   return 'development';
 }
 
+/**
+ * Parse personal accounts given as "name:password,name:password"
+ */
+function parseBasicAuthUsers(value: string | undefined): Record<string, string> {
+  const users: Record<string, string> = {};
+  (value || '').split(',').forEach(entry => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) return;
+    users[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+  });
+  return users;
+}
+
 /**
  * Get the application configuration
  */
@@ -66,8 +82,9 @@ export function getConfig(): AppConfig {
       url: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
     },
     auth: {
-      basicAuthUser: process.env.BASIC_AUTH_USER,
-      basicAuthPassword: process.env.BASIC_AUTH_PASSWORD,
+      basicAuthUser: process.env.BASIC_AUTH_USER || 'admin',
+      basicAuthPassword: process.env.BASIC_AUTH_PASSWORD || 'password',
+      basicAuthUsers: parseBasicAuthUsers(process.env.BASIC_AUTH_USERS),
     },
     email: {
       gmailUser: process.env.GMAIL_USER,
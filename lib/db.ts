@@ -1,13 +1,23 @@
-import { Pool, PoolConfig } from 'pg';
+import { Pool, PoolClient, PoolConfig } from 'pg';
+import { getConfig } from './config';
+import { canRetryStatement, classifyDbError, getRetryDelay } from './dbErrors';
 
 let pool: Pool | null = null;
 
+const MAX_CONNECT_ATTEMPTS = 3;
+const MAX_QUERY_ATTEMPTS = 3;
+// CockroachDB asks clients to retry transactions that lost a serialization conflict
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 function getPoolConfig(): PoolConfig {
+  const databaseUrl = getConfig().database.url;
   return {
-    connectionString: process.env.DATABASE_URL,
-    ssl: process.env.DATABASE_URL?.includes('sslmode=verify-full')
+    connectionString: databaseUrl,
+    ssl: databaseUrl.includes('sslmode=verify-full')
       ? { rejectUnauthorized: true }
-      : process.env.DATABASE_URL?.includes('sslmode=require')
+      : databaseUrl.includes('sslmode=require')
       ? { rejectUnauthorized: false }
       : false,
     max: 20,
@@ -44,34 +54,93 @@ export function resetPool(): void {
   }
 }
 
-export async function query<T = any>(text: string, params?: any[]): Promise<T[]> {
-  const maxRetries = 3;
-  let lastError: Error | null = null;
+// Check out a client, retrying when the connection cannot be opened (nothing has been sent yet)
+async function connect(): Promise<PoolClient> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await getPool().connect();
+    } catch (error) {
+      if (classifyDbError(error) !== 'connection' || attempt >= MAX_CONNECT_ATTEMPTS) throw error;
+
+      const waitTime = getRetryDelay(error, attempt);
+      console.warn(`Connection attempt ${attempt} failed, retrying in ${Math.round(waitTime)}ms:`, error);
+      await sleep(waitTime);
+    }
+  }
+}
 
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+// Return a client to the pool, or close it when its connection broke
+function release(client: PoolClient, error?: unknown): void {
+  client.release(error !== undefined && classifyDbError(error) === 'connection');
+}
+
+/**
+ * Run one statement
+ *
+ * Only failures that cannot have applied the statement are retried (see
+ * canRetryStatement()), so a write is never run twice and a constraint
+ * violation or bad SQL fails at once.
+ */
+export async function query<T = any>(text: string, params?: any[]): Promise<T[]> {
+  for (let attempt = 1; ; attempt++) {
+    const client = await connect();
     try {
-      const client = await getPool().connect();
-      try {
-        const result = await client.query(text, params);
-        return result.rows;
-      } finally {
-        client.release();
-      }
+      const result = await client.query(text, params);
+      release(client);
+      return result.rows;
     } catch (error) {
-      lastError = error as Error;
-      console.error(`Query attempt ${attempt} failed:`, error);
-
-      // If this is not the last attempt, wait before retrying
-      if (attempt < maxRetries) {
-        const waitTime = attempt * 1000; // Progressive backoff: 1s, 2s
-        // console.log(`Retrying in ${waitTime}ms...`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-      }
+      release(client, error);
+      if (!canRetryStatement(error, text) || attempt >= MAX_QUERY_ATTEMPTS) throw error;
+
+      const waitTime = getRetryDelay(error, attempt);
+      console.warn(`Query attempt ${attempt} failed (${classifyDbError(error)}), retrying in ${Math.round(waitTime)}ms`);
+      await sleep(waitTime);
     }
   }
+}
+
+/**
+ * Run fn on one client inside a transaction and commit what it wrote
+ *
+ * Follows CockroachDB's client-side retry protocol: fn runs after
+ * SAVEPOINT cockroach_restart, and when a statement or the release of the
+ * savepoint fails with a serialization failure (40001) the transaction rolls
+ * back to the savepoint and fn runs again on the same client. fn may therefore
+ * run more than once and must not have effects outside the transaction. Any
+ * other error rolls the whole transaction back and is rethrown; a connection
+ * lost midway is not retried, because the commit may already have happened.
+ */
+export async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await connect();
+  let failure: unknown;
+  try {
+    await client.query('BEGIN');
 
-  // If all retries failed, throw the last error
-  throw lastError || new Error('Query failed after all retries');
+    for (let attempt = 1; ; attempt++) {
+      await client.query('SAVEPOINT cockroach_restart');
+      try {
+        const result = await fn(client);
+        await client.query('RELEASE SAVEPOINT cockroach_restart');
+        await client.query('COMMIT');
+        return result;
+      } catch (error) {
+        if (classifyDbError(error) !== 'serialization' || attempt >= MAX_TRANSACTION_ATTEMPTS) {
+          throw error;
+        }
+        await client.query('ROLLBACK TO SAVEPOINT cockroach_restart');
+
+        const waitTime = getRetryDelay(error, attempt);
+        console.warn(`Transaction serialization conflict, retrying in ${Math.round(waitTime)}ms (attempt ${attempt})`);
+        await sleep(waitTime);
+      }
+    }
+  } catch (error) {
+    failure = error;
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    release(client, failure);
+  }
 }
 
 export async function getTableNames(): Promise<string[]> {
@@ -0,0 +1,105 @@
+/**
+ * DB Errors - classify database failures for retries and responses
+ *
+ * Retryable failures (a transaction that lost a serialization conflict, a
+ * connection that could not be opened or was dropped) may succeed when tried
+ * again. Permanent ones (constraint violations, invalid input, bad SQL) fail
+ * the same way every time, so they are never retried; the ones caused by the
+ * request are answered with a 4xx status instead of a 500.
+ */
+
+export type DbErrorClass =
+  | 'serialization'
+  | 'connection'
+  | 'unique_violation'
+  | 'foreign_key_violation'
+  | 'check_violation'
+  | 'invalid_input'
+  | 'permanent';
+
+// SQLSTATE codes, see https://www.postgresql.org/docs/current/errcodes-appendix.html
+const SQLSTATE_CLASSES: Record<string, DbErrorClass> = {
+  '40001': 'serialization', // serialization_failure
+  '40003': 'connection', // statement_completion_unknown (CockroachDB: the result is ambiguous)
+  '57P01': 'connection', // admin_shutdown
+  '57P03': 'connection', // cannot_connect_now
+  '23505': 'unique_violation',
+  '23503': 'foreign_key_violation',
+  '23514': 'check_violation',
+  '23502': 'invalid_input', // not_null_violation
+  '22001': 'invalid_input', // string_data_right_truncation
+  '22003': 'invalid_input', // numeric_value_out_of_range
+  '22007': 'invalid_input', // invalid_datetime_format
+  '22008': 'invalid_input', // datetime_field_overflow
+  '22P02': 'invalid_input', // invalid_text_representation, e.g. a malformed UUID
+};
+
+// Socket errors from Node
+const NETWORK_ERROR_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'ENOTFOUND', 'EAI_AGAIN']);
+
+// pg reports a dropped connection or a timeout without a code
+const CONNECTION_ERROR_MESSAGE = /Connection terminated|timeout exceeded when trying to connect|Query read timeout/i;
+
+const ERROR_RESPONSES: Partial<Record<DbErrorClass, { error: string; status: number }>> = {
+  unique_violation: { error: '同じ内容のデータが既に存在します', status: 409 },
+  foreign_key_violation: { error: '関連するデータが存在しないか、他のデータから参照されています', status: 409 },
+  check_violation: { error: '許可されていない値が含まれています', status: 400 },
+  invalid_input: { error: '入力値の形式が正しくありません', status: 400 },
+  serialization: { error: '他の更新と競合しました。しばらくしてから再試行してください', status: 503 },
+  connection: { error: 'データベースに接続できません。しばらくしてから再試行してください', status: 503 },
+};
+
+export function classifyDbError(error: unknown): DbErrorClass {
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code === 'string') {
+    if (SQLSTATE_CLASSES[code]) return SQLSTATE_CLASSES[code];
+    // Class 08: connection exception
+    if (code.startsWith('08') || NETWORK_ERROR_CODES.has(code)) return 'connection';
+  }
+
+  if (error instanceof Error && CONNECTION_ERROR_MESSAGE.test(error.message)) return 'connection';
+  return 'permanent';
+}
+
+/**
+ * Whether a failed statement can be sent again without applying it twice
+ *
+ * A serialization failure aborted the statement, so it never took effect. A
+ * connection lost after the statement was sent leaves its outcome unknown,
+ * so only reads are repeated then; a write could already have been applied.
+ */
+export function canRetryStatement(error: unknown, text: string): boolean {
+  switch (classifyDbError(error)) {
+    case 'serialization':
+      return true;
+    case 'connection':
+      return isReadOnlyStatement(text);
+    default:
+      return false;
+  }
+}
+
+function isReadOnlyStatement(text: string): boolean {
+  if (/^\s*(SELECT|SHOW)\b/i.test(text)) return true;
+  return /^\s*WITH\b/i.test(text) && !/\b(INSERT|UPDATE|UPSERT|DELETE)\b/i.test(text);
+}
+
+/**
+ * Backoff before retry number `attempt` (1 for the first retry), with jitter so
+ * that requests that failed together do not collide again
+ */
+export function getRetryDelay(error: unknown, attempt: number): number {
+  // Connections take longer to come back than a conflicting transaction takes to finish
+  const baseDelay = classifyDbError(error) === 'connection' ? 500 : 50;
+  return baseDelay * 2 ** (attempt - 1) * (0.5 + Math.random());
+}
+
+/**
+ * Error message and status for a failure caught in a route handler
+ *
+ * Database errors caused by the request become a 4xx, failures worth retrying
+ * later a 503, and anything else a 500 with fallbackMessage.
+ */
+export function toErrorResult(error: unknown, fallbackMessage: string): { error: string; status: number } {
+  return ERROR_RESPONSES[classifyDbError(error)] ?? { error: fallbackMessage, status: 500 };
+}
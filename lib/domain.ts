@@ -0,0 +1,74 @@
+/**
+ * Domain - the task, event and member shapes shared by the API and the UI
+ *
+ * These are the rows the repositories (lib/taskRepository.ts,
+ * lib/eventRepository.ts, lib/memberRepository.ts) return and the API routes
+ * send as JSON, so dates are YYYY-MM-DD strings and timestamps ISO strings.
+ */
+
+import type { TaskLink } from './taskDependency';
+import type { TaskHierarchyInfo } from './taskHierarchy';
+import type { TaskKind } from './taskKind';
+
+// Statuses of tasks and events (the CHECK constraint on task.status and event.status)
+export const STATUSES = ['ToDo', 'InProgress', 'Confirmed', 'IceBox', 'Done'] as const;
+
+export interface Member {
+  id: string;
+  name: string;
+  email: string | null;
+  role: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Event {
+  id: string;
+  name: string;
+  task_id: string;
+  due_date: string | null;
+  assignee_id: string | null;
+  // The assignee's current name
+  assignee: string | null;
+  status: string;
+  note: string | null;
+  version: number;
+  created_at: string;
+  updated_at: string;
+  // Working days left until due_date, negative when overdue (listings only)
+  working_days_remaining?: number | null;
+}
+
+export interface Task {
+  id: string;
+  name: string;
+  category: string;
+  sub_category: string;
+  parent_task_id: string | null;
+  kind: TaskKind;
+  start_date: string | null;
+  end_date: string | null;
+  assignee_id: string | null;
+  // The assignee's current name
+  assignee: string | null;
+  status: string;
+  rank: string;
+  progress: number;
+  note: string | null;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A task as listed by GET /api/tasks: with its events and dependency links,
+ * its working-day duration, and its place in the task hierarchy (summary
+ * tasks carry the dates, status and progress rolled up from their subtasks)
+ */
+export interface TaskListItem extends Task, TaskHierarchyInfo {
+  events: Event[];
+  predecessors: TaskLink[];
+  successors: TaskLink[];
+  working_days: number | null;
+}
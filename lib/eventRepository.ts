@@ -0,0 +1,141 @@
+/**
+ * Event Repository - event rows with their assignee
+ *
+ * Owns the event SQL of the API routes and the daily report, and returns the
+ * shapes in lib/domain.ts. Events listed with their task come from
+ * TaskRepository.list().
+ */
+
+import type { PoolClient } from 'pg';
+import { query } from './db';
+import type { Event } from './domain';
+import { assigneeIdSql, assigneeNameSql, assigneeShownSql } from './memberRepository';
+
+// Event columns of table alias e (assignee is the member's current name, and
+// both are null while a deactivated or trashed member is hidden)
+const eventColumns = (e: string) =>
+  `${e}.id, ${e}.name, ${e}.task_id, ${e}.due_date::DATE::TEXT as due_date, ${assigneeIdSql(e)} as assignee_id, ${assigneeNameSql(e)} as assignee, ${e}.status, ${e}.note, ${e}.version::INT4 as version, ${e}.created_at, ${e}.updated_at`;
+
+// An event with its task, for the daily report
+export interface EventWithTask extends Event {
+  task_name: string;
+  task_category: string;
+  task_sub_category: string;
+  task_status: string;
+}
+
+export interface NewEvent {
+  name: string;
+  task_id: string;
+  due_date: string | null;
+  assignee_id: string | null;
+  status: string;
+  note: string | null;
+}
+
+/**
+ * Changes for update(): every field is kept when undefined, and due_date,
+ * assignee_id and note are cleared only by an explicit null
+ */
+export interface EventChanges {
+  name?: string;
+  task_id?: string;
+  due_date?: string | null;
+  assignee_id?: string | null;
+  status?: string;
+  note?: string | null;
+}
+
+// Unfinished events of a member's unfinished tasks, with their task
+const assignedEventsSql = (condition: string, order: 'ASC' | 'DESC') =>
+  `SELECT ${eventColumns('e')}, t.name as task_name, t.category as task_category, t.sub_category as task_sub_category, t.status as task_status
+   FROM event e
+   JOIN task t ON e.task_id = t.id
+   WHERE e.assignee_id = $1
+   AND e.deleted_at IS NULL
+   AND t.deleted_at IS NULL
+   AND ${condition}
+   AND e.status NOT IN ('Done', 'IceBox')
+   AND t.status NOT IN ('Done', 'IceBox')
+   ORDER BY e.due_date ${order}`;
+
+export const EventRepository = {
+  /**
+   * Events that are not in the trash by due date, only those of taskId when given
+   */
+  async list(taskId?: string | null): Promise<Event[]> {
+    if (taskId) {
+      return query<Event>(
+        `SELECT ${eventColumns('event')} FROM event WHERE task_id = $1 AND deleted_at IS NULL ORDER BY due_date`,
+        [taskId]
+      );
+    }
+    return query<Event>(`SELECT ${eventColumns('event')} FROM event WHERE deleted_at IS NULL ORDER BY due_date`);
+  },
+
+  // Event by ID (null when it does not exist or is in the trash)
+  async findById(id: string): Promise<Event | null> {
+    const rows = await query<Event>(`SELECT ${eventColumns('event')} FROM event WHERE id = $1 AND deleted_at IS NULL`, [id]);
+    return rows[0] ?? null;
+  },
+
+  async create(event: NewEvent): Promise<Event> {
+    const rows = await query<Event>(
+      `INSERT INTO event (name, task_id, due_date, assignee_id, status, note)
+       VALUES ($1, $2, $3::DATE, $4, $5, $6)
+       RETURNING ${eventColumns('event')}`,
+      [event.name, event.task_id, event.due_date, event.assignee_id, event.status, event.note]
+    );
+    return rows[0];
+  },
+
+  /**
+   * Update an event while version is current, in the caller's transaction
+   * when client is given
+   *
+   * Returns null when the event is gone or version is stale, and the status
+   * before the update for the status history. Clearing the assignee keeps a
+   * hidden one, as in TaskRepository.update().
+   */
+  async update(
+    id: string,
+    version: number,
+    changes: EventChanges,
+    client?: PoolClient
+  ): Promise<{ event: Event; previousStatus: string } | null> {
+    // previous_status is read from the snapshot before the update
+    const text = `WITH previous AS (SELECT status FROM event WHERE id = $7)
+       UPDATE event
+       SET name = COALESCE($1, name),
+           task_id = COALESCE($2, task_id),
+           due_date = CASE WHEN $9 THEN $3::DATE ELSE due_date END,
+           assignee_id = CASE WHEN $10 AND ($4::UUID IS NOT NULL OR ${assigneeShownSql('event')}) THEN $4::UUID ELSE assignee_id END,
+           status = COALESCE($5, status),
+           note = CASE WHEN $11 THEN $6 ELSE note END,
+           version = version + 1,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $7 AND deleted_at IS NULL AND version = $8
+       RETURNING ${eventColumns('event')},
+                 (SELECT status FROM previous) as previous_status`;
+    const params = [
+      changes.name, changes.task_id, changes.due_date ?? null, changes.assignee_id ?? null, changes.status, changes.note ?? null, id, version,
+      changes.due_date !== undefined, changes.assignee_id !== undefined, changes.note !== undefined,
+    ];
+    type Row = Event & { previous_status: string };
+    const rows = client ? (await client.query<Row>(text, params)).rows : await query<Row>(text, params);
+    if (rows.length === 0) return null;
+
+    const { previous_status: previousStatus, ...event } = rows[0];
+    return { event, previousStatus };
+  },
+
+  // A member's events due in [from, to), for the daily report
+  async listDueForAssignee(memberId: string, from: string, to: string): Promise<EventWithTask[]> {
+    return query<EventWithTask>(assignedEventsSql('e.due_date >= $2 AND e.due_date < $3', 'ASC'), [memberId, from, to]);
+  },
+
+  // A member's events due before `before`, latest first, for the daily report
+  async listOverdueForAssignee(memberId: string, before: string): Promise<EventWithTask[]> {
+    return query<EventWithTask>(assignedEventsSql('e.due_date < $2', 'DESC'), [memberId, before]);
+  },
+};
@@ -0,0 +1,133 @@
+/**
+ * Japanese Holidays - generator for Japanese national holidays (国民の祝日)
+ *
+ * Follows the Act on National Holidays as amended for 2020 onwards, including
+ * the one-off moves for the Tokyo Olympics in 2020 and 2021. Equinox days are
+ * calculated with the usual approximation formula, which is valid for
+ * 1980-2099. Substitute holidays (振替休日) and sandwiched citizens' holidays
+ * (国民の休日) are derived from the generated list.
+ */
+
+import { fromDayNumber, toDayNumber } from './scheduling';
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const dateKey = (year: number, month: number, day: number): string =>
+  `${year}-${pad(month)}-${pad(day)}`;
+
+/**
+ * Day of the week (0 = Sunday) for a UTC day number
+ */
+export function dayOfWeek(dayNumber: number): number {
+  // 1970-01-01 (day 0) was a Thursday
+  return (((dayNumber + 4) % 7) + 7) % 7;
+}
+
+/**
+ * Day of the month of the n-th Monday (Happy Monday system)
+ */
+function nthMonday(year: number, month: number, n: number): number {
+  const firstDay = dayOfWeek(toDayNumber(dateKey(year, month, 1)));
+  const firstMonday = 1 + ((8 - firstDay) % 7);
+  return firstMonday + (n - 1) * 7;
+}
+
+function vernalEquinoxDay(year: number): number {
+  return Math.floor(20.8431 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+function autumnalEquinoxDay(year: number): number {
+  return Math.floor(23.2488 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+/**
+ * Holidays defined directly by the law, before substitute/citizens' holidays
+ */
+function getStatutoryHolidays(year: number): Holiday[] {
+  const holidays: Holiday[] = [
+    { date: dateKey(year, 1, 1), name: '元日' },
+    { date: dateKey(year, 1, nthMonday(year, 1, 2)), name: '成人の日' },
+    { date: dateKey(year, 2, 11), name: '建国記念の日' },
+    { date: dateKey(year, 3, vernalEquinoxDay(year)), name: '春分の日' },
+    { date: dateKey(year, 4, 29), name: '昭和の日' },
+    { date: dateKey(year, 5, 3), name: '憲法記念日' },
+    { date: dateKey(year, 5, 4), name: 'みどりの日' },
+    { date: dateKey(year, 5, 5), name: 'こどもの日' },
+    { date: dateKey(year, 9, nthMonday(year, 9, 3)), name: '敬老の日' },
+    { date: dateKey(year, 9, autumnalEquinoxDay(year)), name: '秋分の日' },
+    { date: dateKey(year, 11, 3), name: '文化の日' },
+    { date: dateKey(year, 11, 23), name: '勤労感謝の日' },
+  ];
+
+  if (year >= 2020) {
+    holidays.push({ date: dateKey(year, 2, 23), name: '天皇誕生日' });
+  } else if (year <= 2018) {
+    holidays.push({ date: dateKey(year, 12, 23), name: '天皇誕生日' });
+  }
+
+  // Marine Day, Mountain Day and Sports Day were moved for the Tokyo Olympics
+  if (year === 2020) {
+    holidays.push(
+      { date: '2020-07-23', name: '海の日' },
+      { date: '2020-07-24', name: 'スポーツの日' },
+      { date: '2020-08-10', name: '山の日' }
+    );
+  } else if (year === 2021) {
+    holidays.push(
+      { date: '2021-07-22', name: '海の日' },
+      { date: '2021-07-23', name: 'スポーツの日' },
+      { date: '2021-08-08', name: '山の日' }
+    );
+  } else {
+    holidays.push(
+      { date: dateKey(year, 7, nthMonday(year, 7, 3)), name: '海の日' },
+      { date: dateKey(year, 10, nthMonday(year, 10, 2)), name: year >= 2020 ? 'スポーツの日' : '体育の日' }
+    );
+    if (year >= 2016) {
+      holidays.push({ date: dateKey(year, 8, 11), name: '山の日' });
+    }
+  }
+
+  return holidays;
+}
+
+/**
+ * Generate all national holidays of a year, sorted by date
+ */
+export function getJapaneseHolidays(year: number): Holiday[] {
+  const names = new Map<number, string>();
+  getStatutoryHolidays(year).forEach(holiday => {
+    names.set(toDayNumber(holiday.date), holiday.name);
+  });
+
+  const statutoryDays = Array.from(names.keys()).sort((a, b) => a - b);
+
+  // 国民の休日: a weekday sandwiched between two holidays becomes a holiday
+  statutoryDays.forEach(day => {
+    const between = day + 1;
+    if (
+      names.has(day + 2) &&
+      !names.has(between) &&
+      dayOfWeek(between) !== 0
+    ) {
+      names.set(between, '国民の休日');
+    }
+  });
+
+  // 振替休日: a holiday on Sunday moves to the next day that is not a holiday
+  statutoryDays.forEach(day => {
+    if (dayOfWeek(day) !== 0) return;
+    let substitute = day + 1;
+    while (names.has(substitute)) substitute++;
+    names.set(substitute, '振替休日');
+  });
+
+  return Array.from(names.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([day, name]) => ({ date: fromDayNumber(day), name }));
+}
@@ -0,0 +1,36 @@
+/**
+ * Member - assignee pickers for tasks and events
+ *
+ * Tasks and events refer to their assignee by member ID. The pickers load
+ * inactive members as well, so that finished work that is still assigned to
+ * one (it keeps its assignee for the record) shows a name rather than an ID,
+ * but only offer an inactive member when they are already the assignee.
+ */
+
+// Members including inactive ones, for resolving assignee IDs to names
+export const ASSIGNEE_MEMBERS_URL = '/api/members?include_inactive=true';
+
+export interface AssigneeMember {
+  id: string;
+  name: string;
+  role?: string | null;
+  is_active: boolean;
+}
+
+/**
+ * The members an assignee picker offers: the active ones, plus the current
+ * assignee when they have been deactivated
+ */
+export function getAssigneeOptions<T extends AssigneeMember>(members: T[], assigneeId: string | null | undefined): T[] {
+  return members.filter((member) => member.is_active || member.id === assigneeId);
+}
+
+// Picker label, marking a deactivated member
+export function getAssigneeLabel(member: AssigneeMember): string {
+  return member.is_active ? member.name : `${member.name} (無効)`;
+}
+
+// Name of the member with this ID (null when unassigned or unknown)
+export function getMemberName(members: AssigneeMember[], memberId: unknown): string | null {
+  return members.find((member) => member.id === memberId)?.name ?? null;
+}
@@ -0,0 +1,135 @@
+/**
+ * Member Repository - member rows and assignee references to them
+ *
+ * Tasks and events refer to their assignee by member.id (assignee_id); the
+ * member's current name is joined in when they are read, so renaming a member
+ * never orphans their work. Deactivating a member or moving them to the trash
+ * leaves assignee_id as it is: their unfinished tasks and events are read as
+ * unassigned (assigneeIdSql) while they are gone, and are theirs again once
+ * they are reactivated or restored.
+ */
+
+import type { PoolClient } from 'pg';
+import { query } from './db';
+import type { Member } from './domain';
+
+const MEMBER_COLUMNS = 'id, name, email, role, is_active, created_at, updated_at';
+
+// Finished (Done / IceBox) work keeps its assignee for the record
+const finishedSql = (table: string) => `${table}.status IN ('Done', 'IceBox')`;
+
+// Member m is neither deactivated nor in the trash
+const ACTIVE_MEMBER_SQL = 'm.is_active = true AND m.deleted_at IS NULL';
+
+/**
+ * SQL condition: the stored assignee of a row with assignee_id and status
+ * columns is shown, i.e. the work is finished or the member is active
+ */
+export const assigneeShownSql = (table: string) =>
+  `(${finishedSql(table)} OR EXISTS (SELECT 1 FROM member m WHERE m.id = ${table}.assignee_id AND ${ACTIVE_MEMBER_SQL}))`;
+
+// SQL for the assignee_id of a row as read (null while the assignee is hidden)
+export const assigneeIdSql = (table: string) =>
+  `CASE WHEN ${assigneeShownSql(table)} THEN ${table}.assignee_id END`;
+
+// SQL for the assignee name of a row, matching assigneeIdSql
+export const assigneeNameSql = (table: string) =>
+  `(SELECT m.name FROM member m WHERE m.id = ${table}.assignee_id AND (${finishedSql(table)} OR (${ACTIVE_MEMBER_SQL})))`;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface MemberFields {
+  name: string;
+  email: string | null;
+  role: string | null;
+  is_active: boolean;
+}
+
+export const MemberRepository = {
+  /**
+   * Members by name, active ones only unless includeInactive
+   */
+  async list(includeInactive = false): Promise<Member[]> {
+    return query<Member>(
+      `SELECT ${MEMBER_COLUMNS} FROM member
+       WHERE deleted_at IS NULL
+       ${includeInactive ? '' : 'AND is_active = true'}
+       ORDER BY name`
+    );
+  },
+
+  // Active members with an email address, the recipients of the daily report
+  async listWithEmail(): Promise<(Member & { email: string })[]> {
+    return query<Member & { email: string }>(
+      `SELECT ${MEMBER_COLUMNS} FROM member
+       WHERE is_active = true AND deleted_at IS NULL AND email IS NOT NULL AND email != ''`
+    );
+  },
+
+  async create(fields: MemberFields): Promise<Member> {
+    const rows = await query<Member>(
+      `INSERT INTO member (name, email, role, is_active)
+       VALUES ($1, $2, $3, $4)
+       RETURNING ${MEMBER_COLUMNS}`,
+      [fields.name, fields.email, fields.role, fields.is_active]
+    );
+    return rows[0];
+  },
+
+  /**
+   * Update a member (fields are kept when undefined, and email and role are
+   * cleared only by an explicit null), in the caller's transaction when client
+   * is given
+   *
+   * Returns null when the member does not exist or is in the trash.
+   */
+  async update(id: string, fields: Partial<MemberFields>, client?: PoolClient): Promise<Member | null> {
+    const text = `UPDATE member
+       SET name = COALESCE($1, name),
+           email = CASE WHEN $6 THEN $2 ELSE email END,
+           role = CASE WHEN $7 THEN $3 ELSE role END,
+           is_active = COALESCE($4, is_active),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $5 AND deleted_at IS NULL
+       RETURNING ${MEMBER_COLUMNS}`;
+    const params = [fields.name, fields.email ?? null, fields.role ?? null, fields.is_active, id, fields.email !== undefined, fields.role !== undefined];
+    const rows = client ? (await client.query<Member>(text, params)).rows : await query<Member>(text, params);
+    return rows[0] ?? null;
+  },
+
+  /**
+   * Check an assignee_id from a request ('' and null mean unassigned)
+   *
+   * undefined is passed through, for updates that leave the assignee as is.
+   */
+  async resolveAssigneeId(
+    value: unknown
+  ): Promise<{ assigneeId: string | null | undefined } | { error: string; status: number }> {
+    if (value === undefined) return { assigneeId: undefined };
+    if (value === null || value === '') return { assigneeId: null };
+
+    if (typeof value !== 'string' || !UUID_PATTERN.test(value)) {
+      return { error: 'assignee_id must be a member ID', status: 400 };
+    }
+
+    const members = await query('SELECT id FROM member WHERE id = $1 AND deleted_at IS NULL', [value]);
+    if (members.length === 0) {
+      return { error: '担当者に指定したメンバーが見つかりません', status: 400 };
+    }
+
+    return { assigneeId: value };
+  },
+
+  /**
+   * Move a member to the trash (their work keeps them as its assignee)
+   *
+   * Returns false when the member does not exist or is already in the trash.
+   */
+  async trash(id: string): Promise<boolean> {
+    const rows = await query(
+      'UPDATE member SET deleted_at = CURRENT_TIMESTAMP WHERE id = $1 AND deleted_at IS NULL RETURNING id',
+      [id]
+    );
+    return rows.length > 0;
+  },
+};
@@ -0,0 +1,160 @@
+/**
+ * Migrations - find the migration files and compare them with what has run
+ *
+ * Migrations are migrations/NNN_description.sql, applied in version order.
+ * One can be rolled back when it has a paired NNN_description.down.sql.
+ * Applied versions are recorded in schema_migrations together with the
+ * checksum of the file, so an edit to a migration that already ran is
+ * reported instead of leaving databases that differ silently.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export const MIGRATIONS_DIR = path.join(process.cwd(), 'migrations');
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([\w-]+)(\.down)?\.sql$/;
+
+export interface MigrationFile {
+  version: string;
+  // File name without .sql, e.g. 019_create_category_tables
+  name: string;
+  upPath: string;
+  downPath: string | null;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+// changed: the file was edited after it ran; missing: it ran but the file is gone
+export type MigrationState = 'applied' | 'pending' | 'changed' | 'missing';
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: MigrationState;
+  appliedAt: string | null;
+}
+
+export const compareVersions = (a: string, b: string) => Number(a) - Number(b);
+
+export function getChecksum(sql: string): string {
+  return crypto.createHash('sha256').update(sql).digest('hex');
+}
+
+/**
+ * Migration files in version order
+ *
+ * Throws when two files share a version or a down file has no up file.
+ */
+export function findMigrations(dir = MIGRATIONS_DIR): MigrationFile[] {
+  const migrations = new Map<string, MigrationFile>();
+  const downPaths = new Map<string, string>();
+
+  fs.readdirSync(dir).sort().forEach(file => {
+    const match = MIGRATION_FILE_PATTERN.exec(file);
+    if (!match) return;
+
+    const [, version, description, down] = match;
+    const filePath = path.join(dir, file);
+    if (down) {
+      downPaths.set(version, filePath);
+      return;
+    }
+
+    const existing = migrations.get(version);
+    if (existing) {
+      throw new Error(`Migrations ${existing.name} and ${file} share version ${version}`);
+    }
+    migrations.set(version, {
+      version,
+      name: `${version}_${description}`,
+      upPath: filePath,
+      downPath: null,
+      checksum: getChecksum(fs.readFileSync(filePath, 'utf-8')),
+    });
+  });
+
+  downPaths.forEach((downPath, version) => {
+    const migration = migrations.get(version);
+    if (!migration) {
+      throw new Error(`${path.basename(downPath)} has no matching migration`);
+    }
+    migration.downPath = downPath;
+  });
+
+  return Array.from(migrations.values()).sort((a, b) => compareVersions(a.version, b.version));
+}
+
+/**
+ * Every migration file and every recorded migration, in version order
+ */
+export function getMigrationStatus(files: MigrationFile[], applied: AppliedMigration[]): MigrationStatus[] {
+  const appliedByVersion = new Map(applied.map(migration => [migration.version, migration]));
+  const fileVersions = new Set(files.map(file => file.version));
+
+  const statuses: MigrationStatus[] = files.map(file => {
+    const record = appliedByVersion.get(file.version);
+    return {
+      version: file.version,
+      name: file.name,
+      state: !record ? 'pending' : record.checksum === file.checksum ? 'applied' : 'changed',
+      appliedAt: record?.applied_at ?? null,
+    };
+  });
+
+  applied
+    .filter(migration => !fileVersions.has(migration.version))
+    .forEach(migration => {
+      statuses.push({ version: migration.version, name: migration.name, state: 'missing', appliedAt: migration.applied_at });
+    });
+
+  return statuses.sort((a, b) => compareVersions(a.version, b.version));
+}
+
+/**
+ * Migrations that have not run yet, up to and including targetVersion
+ */
+export function getPendingMigrations(
+  files: MigrationFile[],
+  applied: AppliedMigration[],
+  targetVersion?: string
+): MigrationFile[] {
+  const appliedVersions = new Set(applied.map(migration => migration.version));
+  return files.filter(
+    file =>
+      !appliedVersions.has(file.version) &&
+      (targetVersion === undefined || compareVersions(file.version, targetVersion) <= 0)
+  );
+}
+
+/**
+ * The last `steps` applied migrations, latest first, for a rollback
+ *
+ * Returns an error when one of them has no file or no down migration.
+ */
+export function getRollbackMigrations(
+  files: MigrationFile[],
+  applied: AppliedMigration[],
+  steps: number
+): MigrationFile[] | { error: string } {
+  const filesByVersion = new Map(files.map(file => [file.version, file]));
+  const latest = [...applied].sort((a, b) => compareVersions(b.version, a.version)).slice(0, steps);
+
+  const rollbacks: MigrationFile[] = [];
+  for (const migration of latest) {
+    const file = filesByVersion.get(migration.version);
+    if (!file) return { error: `${migration.name} has no migration file` };
+    if (!file.downPath) {
+      return { error: `${migration.name} has no down migration (${migration.name}.down.sql), so it cannot be rolled back` };
+    }
+    rollbacks.push(file);
+  }
+  return rollbacks;
+}
@@ -0,0 +1,80 @@
+/**
+ * Progress - task progress percentages and weighted rollups
+ *
+ * Rollups weight each task by its duration (working days when known, calendar
+ * days otherwise, at least 1), so a long task counts more than a short one.
+ * Progress can be taken from the task's own percentage ('manual') or derived
+ * from the share of its events that are Done ('events').
+ */
+
+import { toDayNumber } from './scheduling';
+
+export type ProgressSource = 'manual' | 'events';
+
+export const PROGRESS_SOURCE_LABELS: Record<ProgressSource, string> = {
+  manual: '手動入力',
+  events: '完了イベント',
+};
+
+export interface ProgressTask {
+  start_date: string | null;
+  end_date: string | null;
+  progress?: number;
+  working_days?: number | null;
+  events?: { status: string }[];
+}
+
+/**
+ * Round and clamp a value to an integer percentage (0-100)
+ */
+export function clampProgress(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.min(100, Math.max(0, Math.round(value)));
+}
+
+/**
+ * Weight of a task in rollups
+ */
+export function getTaskWeight(task: ProgressTask): number {
+  if (task.working_days != null) return Math.max(1, task.working_days);
+  if (task.start_date && task.end_date) {
+    return Math.max(1, toDayNumber(task.end_date) - toDayNumber(task.start_date) + 1);
+  }
+  return 1;
+}
+
+/**
+ * Progress of a single task for the given source
+ *
+ * With 'events', IceBox events are ignored and tasks without events fall
+ * back to their own percentage.
+ */
+export function getEffectiveProgress(task: ProgressTask, source: ProgressSource = 'manual'): number {
+  if (source === 'events') {
+    const events = (task.events || []).filter(event => event.status !== 'IceBox');
+    if (events.length > 0) {
+      const done = events.filter(event => event.status === 'Done').length;
+      return clampProgress((done / events.length) * 100);
+    }
+  }
+  return clampProgress(task.progress ?? 0);
+}
+
+/**
+ * Duration-weighted progress of a group of tasks (null for an empty group)
+ *
+ * Pass either leaf tasks or a summary task's direct children, never both a
+ * summary task and its subtasks, or the subtasks would be counted twice.
+ */
+export function rollupProgress(tasks: ProgressTask[], source: ProgressSource = 'manual'): number | null {
+  let totalWeight = 0;
+  let weightedSum = 0;
+
+  tasks.forEach(task => {
+    const weight = getTaskWeight(task);
+    totalWeight += weight;
+    weightedSum += weight * getEffectiveProgress(task, source);
+  });
+
+  return totalWeight > 0 ? clampProgress(weightedSum / totalWeight) : null;
+}
@@ -0,0 +1,86 @@
+/**
+ * Rank - lexicographic fractional ranks for ordering rows
+ *
+ * Tasks, categories and subcategories are ordered by a `rank` string
+ * instead of an integer position, so moving one item only needs a new rank
+ * between its new neighbours and no sibling has to be renumbered. Ranks
+ * use the digits 0-9a-z, compare as plain strings (byte order) and never
+ * end in "0", so there is always room for another rank between two
+ * different ranks. Each insert between close neighbours makes the rank a
+ * little longer; groups whose ranks grow past RANK_REBALANCE_LENGTH are
+ * renumbered with short evenly spaced ranks in the background.
+ */
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+const BASE = DIGITS.length;
+
+// Groups with a rank longer than this are rebalanced
+export const RANK_REBALANCE_LENGTH = 12;
+
+const RANK_PATTERN = /^[0-9a-z]*[1-9a-z]$/;
+
+export function isValidRank(value: unknown): value is string {
+  return typeof value === 'string' && RANK_PATTERN.test(value);
+}
+
+export function compareRanks(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Rank strictly between a (or the start when '') and b (or the end when null)
+ */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Keep the common prefix (a is padded with zeros)
+    let n = 0;
+    while ((a[n] || '0') === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : BASE;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+
+  // Adjacent first digits: b's first digit alone already fits when b is longer
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+/**
+ * Rank between two neighbours (null for the start or the end of the list)
+ *
+ * Throws when before is not smaller than after, e.g. for two rows that share
+ * a rank; the group has to be rebalanced first.
+ */
+export function rankBetween(before: string | null, after: string | null): string {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Cannot rank between ${before} and ${after}`);
+  }
+  return midpoint(before ?? '', after);
+}
+
+/**
+ * Evenly spaced ranks for a list of the given length, as short as possible
+ */
+export function generateRanks(count: number): string[] {
+  let width = 1;
+  while (BASE ** width < count + 1) width++;
+  const space = BASE ** width;
+
+  return Array.from({ length: count }, (_, i) => {
+    const value = Math.floor(((i + 1) * space) / (count + 1));
+    return value.toString(BASE).padStart(width, '0').replace(/0+$/, '');
+  });
+}
+
+/**
+ * Whether a group's ranks (in order) need rebalancing: too long, or not strictly increasing
+ */
+export function needsRebalance(ranks: string[]): boolean {
+  return ranks.some((rank, i) =>
+    rank.length > RANK_REBALANCE_LENGTH || !isValidRank(rank) || (i > 0 && ranks[i - 1] >= rank)
+  );
+}
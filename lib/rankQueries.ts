@@ -0,0 +1,240 @@
+/**
+ * Rank Queries - move, append and rebalance ranked rows
+ *
+ * Rows are ranked within a group: the tasks of one category and subcategory,
+ * all categories, or the subcategories of one category. Moving a row writes
+ * only that row, unless the group has to be rebalanced first (rows that still
+ * share the rank given by the migration, or ranks that grew too long). Reads
+ * and writes that depend on each other run in one transaction.
+ */
+
+import type { PoolClient } from 'pg';
+import { query, withTransaction } from './db';
+import { generateRanks, isValidRank, needsRebalance, RANK_REBALANCE_LENGTH, rankBetween } from './rank';
+
+export type RankedKind = 'task' | 'category' | 'subcategory';
+
+interface RankedTable {
+  table: string;
+  keyColumn: string;
+  keyType: string;
+  // Columns whose values identify the group, in the order callers pass them
+  groupColumns: string[];
+  // Rows that take part in the order
+  condition?: string;
+}
+
+const RANKED_TABLES: Record<RankedKind, RankedTable> = {
+  task: {
+    table: 'task',
+    keyColumn: 'id',
+    keyType: 'UUID',
+    groupColumns: ['category', 'sub_category'],
+    condition: 'deleted_at IS NULL',
+  },
+  category: { table: 'category_order', keyColumn: 'category', keyType: 'STRING', groupColumns: [] },
+  subcategory: { table: 'subcategory_order', keyColumn: 'sub_category', keyType: 'STRING', groupColumns: ['category'] },
+};
+
+// Rows that share a rank (e.g. right after the migration) keep their old order
+export const RANK_ORDER = 'rank, display_order, created_at';
+
+export interface RankedRow {
+  key: string;
+  rank: string;
+}
+
+export type MoveResult = { rank: string } | { error: string; status: number };
+
+// WHERE condition selecting one group, appending its values to params
+function getGroupCondition(config: RankedTable, group: string[], params: unknown[]): string {
+  const conditions = config.groupColumns.map((column, i) => {
+    params.push(group[i]);
+    return `${column} = $${params.length}`;
+  });
+  if (config.condition) conditions.push(config.condition);
+  return conditions.length > 0 ? conditions.join(' AND ') : 'TRUE';
+}
+
+// SELECT of the rows of a group in order
+function selectGroupRanks(kind: RankedKind, group: string[]): { text: string; values: unknown[] } {
+  const config = RANKED_TABLES[kind];
+  const values: unknown[] = [];
+  const where = getGroupCondition(config, group, values);
+  return {
+    text: `SELECT ${config.keyColumn}::STRING as key, rank FROM ${config.table} WHERE ${where} ORDER BY ${RANK_ORDER}`,
+    values,
+  };
+}
+
+/**
+ * Rows of a group in order
+ */
+export async function getGroupRanks(kind: RankedKind, group: string[]): Promise<RankedRow[]> {
+  const { text, values } = selectGroupRanks(kind, group);
+  return query<RankedRow>(text, values);
+}
+
+async function readGroupRanks(client: PoolClient, kind: RankedKind, group: string[]): Promise<RankedRow[]> {
+  const result = await client.query<RankedRow>(selectGroupRanks(kind, group));
+  return result.rows;
+}
+
+/**
+ * Give the rows of a group, in the given order, short evenly spaced ranks
+ */
+export async function setGroupRanks(
+  client: PoolClient,
+  kind: RankedKind,
+  group: string[],
+  keys: string[]
+): Promise<RankedRow[]> {
+  if (keys.length === 0) return [];
+
+  const config = RANKED_TABLES[kind];
+  const ranks = generateRanks(keys.length);
+  const params: unknown[] = [];
+  const values = keys
+    .map((key, i) => {
+      params.push(key, ranks[i]);
+      return `($${params.length - 1}::${config.keyType}, $${params.length}::STRING)`;
+    })
+    .join(', ');
+  const where = getGroupCondition(config, group, params);
+
+  await client.query(
+    `UPDATE ${config.table} SET rank = v.rank
+     FROM (VALUES ${values}) AS v (row_key, rank)
+     WHERE ${config.table}.${config.keyColumn} = v.row_key AND ${where}`,
+    params
+  );
+  return keys.map((key, i) => ({ key, rank: ranks[i] }));
+}
+
+async function renumberGroup(client: PoolClient, kind: RankedKind, group: string[]): Promise<RankedRow[]> {
+  const rows = await readGroupRanks(client, kind, group);
+  return setGroupRanks(client, kind, group, rows.map(row => row.key));
+}
+
+/**
+ * Renumber a group with short evenly spaced ranks, keeping its order
+ */
+export async function rebalanceGroup(kind: RankedKind, group: string[]): Promise<RankedRow[]> {
+  return withTransaction(client => renumberGroup(client, kind, group));
+}
+
+// Rebalance after the response, so the move itself stays a single-row write
+function scheduleRebalance(kind: RankedKind, group: string[]): void {
+  rebalanceGroup(kind, group).catch(error => console.error('Error rebalancing ranks:', error));
+}
+
+/**
+ * Move a row right after previousKey (null: to the start of its group)
+ */
+export async function moveRankedRow(
+  kind: RankedKind,
+  group: string[],
+  key: string,
+  previousKey: string | null
+): Promise<MoveResult> {
+  const result = await withTransaction<MoveResult>(async client => {
+    let rows = await readGroupRanks(client, kind, group);
+    if (!rows.some(row => row.key === key)) {
+      return { error: 'Item not found', status: 404 };
+    }
+    if (previousKey === key || (previousKey !== null && !rows.some(row => row.key === previousKey))) {
+      return { error: 'The previous item must be another item of the same group', status: 400 };
+    }
+
+    if (needsRebalance(rows.map(row => row.rank))) {
+      rows = await renumberGroup(client, kind, group);
+    }
+
+    const others = rows.filter(row => row.key !== key);
+    const index = previousKey === null ? 0 : others.findIndex(row => row.key === previousKey) + 1;
+    const rank = rankBetween(others[index - 1]?.rank ?? null, others[index]?.rank ?? null);
+
+    const config = RANKED_TABLES[kind];
+    const params: unknown[] = [rank, key];
+    const where = getGroupCondition(config, group, params);
+    await client.query(
+      `UPDATE ${config.table} SET rank = $1 WHERE ${config.keyColumn} = $2 AND ${where}`,
+      params
+    );
+    return { rank };
+  });
+
+  if ('rank' in result && result.rank.length > RANK_REBALANCE_LENGTH) scheduleRebalance(kind, group);
+  return result;
+}
+
+/**
+ * Rank for a row appended to the end of a group
+ *
+ * Runs in the caller's transaction, together with the write of the new row.
+ */
+export async function getNextRank(client: PoolClient, kind: RankedKind, group: string[]): Promise<string> {
+  let rows = await readGroupRanks(client, kind, group);
+  const last = rows[rows.length - 1]?.rank;
+  if (last !== undefined && !isValidRank(last)) {
+    rows = await renumberGroup(client, kind, group);
+  }
+  return rankBetween(rows[rows.length - 1]?.rank ?? null, null);
+}
+
+/**
+ * Rank rows that were just moved into a group after the rows already in it
+ *
+ * The moved rows keep their order among themselves. The whole group is
+ * renumbered, which is fine for the rare moves between groups (a task that
+ * changes category). Runs in the caller's transaction, after the rows were
+ * moved; returns the new ranks of the group.
+ */
+export async function appendToGroup(
+  client: PoolClient,
+  kind: RankedKind,
+  group: string[],
+  keys: string[]
+): Promise<RankedRow[]> {
+  if (keys.length === 0) return [];
+
+  const moved = new Set(keys);
+  const rows = await readGroupRanks(client, kind, group);
+  const order = [...rows.filter(row => !moved.has(row.key)), ...rows.filter(row => moved.has(row.key))];
+  return setGroupRanks(client, kind, group, order.map(row => row.key));
+}
+
+/**
+ * Rebalance every group whose ranks are too long or not unique
+ *
+ * Returns the number of rebalanced groups.
+ */
+export async function rebalanceAllRanks(): Promise<number> {
+  let rebalanced = 0;
+
+  for (const kind of Object.keys(RANKED_TABLES) as RankedKind[]) {
+    const config = RANKED_TABLES[kind];
+    const groupSelect = config.groupColumns.map(column => `${column}, `).join('');
+    const rows = await query<Record<string, string>>(
+      `SELECT ${groupSelect}rank FROM ${config.table}
+       ${config.condition ? `WHERE ${config.condition}` : ''}
+       ORDER BY ${groupSelect}${RANK_ORDER}`
+    );
+
+    const ranksByGroup = new Map<string, { group: string[]; ranks: string[] }>();
+    rows.forEach(row => {
+      const group = config.groupColumns.map(column => row[column]);
+      const groupKey = JSON.stringify(group);
+      if (!ranksByGroup.has(groupKey)) ranksByGroup.set(groupKey, { group, ranks: [] });
+      ranksByGroup.get(groupKey)!.ranks.push(row.rank);
+    });
+
+    for (const { group, ranks } of ranksByGroup.values()) {
+      if (!needsRebalance(ranks)) continue;
+      await rebalanceGroup(kind, group);
+      rebalanced++;
+    }
+  }
+
+  return rebalanced;
+}
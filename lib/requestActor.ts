@@ -0,0 +1,38 @@
+/**
+ * Request Actor - identify who sent an API request
+ *
+ * proxy.ts authenticates every request and forwards the user name to route
+ * handlers in the ACTOR_HEADER header, so any future authentication scheme
+ * (e.g. sessions) only has to set the same header. When the header is
+ * missing, the user name is read from the Basic auth header. Server-only.
+ */
+
+import { getConfig } from './config';
+
+export const ACTOR_HEADER = 'x-actor';
+
+/**
+ * User name of the authenticated actor (null when unknown)
+ */
+export function getRequestActor(request: Request): string | null {
+  const actor = request.headers.get(ACTOR_HEADER);
+  if (actor) return actor;
+
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Basic ')) return null;
+
+  const credentials = Buffer.from(authHeader.slice('Basic '.length), 'base64').toString();
+  const user = credentials.split(':')[0];
+  return user || null;
+}
+
+/**
+ * Whether actor signed in with a personal account (BASIC_AUTH_USERS)
+ *
+ * Everyone who signs in with the shared account is the same actor, so what
+ * is stored for it is shared by all of them.
+ */
+export function isPersonalActor(actor: string): boolean {
+  const { basicAuthUser, basicAuthUsers } = getConfig().auth;
+  return actor !== basicAuthUser && Object.hasOwn(basicAuthUsers, actor);
+}
@@ -0,0 +1,262 @@
+/**
+ * Scheduling - critical path method (CPM) over the task dependency graph
+ *
+ * Dates are handled as whole days (YYYY-MM-DD) and task durations are inclusive,
+ * i.e. a task from 2025-01-06 to 2025-01-06 lasts one day. Planned start dates
+ * act as "start no earlier than" constraints in the forward pass. Tasks without
+ * both start_date and end_date are left out of the schedule, along with any
+ * links that touch them.
+ *
+ * Milestones have zero duration and are treated as the end of their day: a
+ * milestone on 2025-01-10 has early finish 2025-01-10 and (internally) early
+ * start 2025-01-11, so a finish-to-start successor may start on 2025-01-11 and
+ * a task finishing on 2025-01-10 can precede it. Both reported dates of a
+ * milestone are its finish date.
+ */
+
+import { DependencyType, TaskLink } from './taskDependency';
+import { TaskKind } from './taskKind';
+
+// Minimal task shape needed for scheduling (compatible with GET /api/tasks)
+export interface SchedulableTask {
+  id: string;
+  start_date: string | null;
+  end_date: string | null;
+  kind?: TaskKind;
+  successors?: TaskLink[];
+}
+
+export interface ScheduledTask {
+  task_id: string;
+  is_milestone: boolean;
+  duration: number;
+  early_start: string;
+  early_finish: string;
+  late_start: string;
+  late_finish: string;
+  total_float: number;
+  is_critical: boolean;
+}
+
+export interface ScheduleResult {
+  project_start: string | null;
+  project_finish: string | null;
+  tasks: ScheduledTask[];
+  critical_path: string[]; // Critical task IDs in topological order
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Convert a YYYY-MM-DD (or ISO) date string to a UTC day number
+ */
+export function toDayNumber(date: string): number {
+  const [year, month, day] = date.split('T')[0].split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+}
+
+/**
+ * Convert a UTC day number back to a YYYY-MM-DD string
+ */
+export function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * MS_PER_DAY).toISOString().split('T')[0];
+}
+
+interface Link {
+  from: string;
+  to: string;
+  type: DependencyType;
+  lag: number;
+}
+
+interface Node {
+  id: string;
+  isMilestone: boolean;
+  duration: number;
+  plannedStart: number;
+  es: number;
+  ef: number;
+  ls: number;
+  lf: number;
+}
+
+/**
+ * Earliest start the successor may take given one incoming link
+ */
+function earliestStartFor(link: Link, pred: Node, succ: Node): number {
+  switch (link.type) {
+    case 'FS':
+      return pred.ef + 1 + link.lag;
+    case 'SS':
+      return pred.es + link.lag;
+    case 'FF':
+      return pred.ef + link.lag - succ.duration + 1;
+    case 'SF':
+      return pred.es + link.lag - succ.duration;
+  }
+}
+
+/**
+ * Latest finish the predecessor may take given one outgoing link
+ */
+function latestFinishFor(link: Link, pred: Node, succ: Node): number {
+  switch (link.type) {
+    case 'FS':
+      return succ.ls - 1 - link.lag;
+    case 'SS':
+      return succ.ls - link.lag + pred.duration - 1;
+    case 'FF':
+      return succ.lf - link.lag;
+    case 'SF':
+      return succ.lf - link.lag + pred.duration;
+  }
+}
+
+/**
+ * Order node IDs so that every predecessor comes before its successors
+ */
+function topologicalSort(ids: string[], links: Link[]): string[] {
+  const inDegree = new Map(ids.map(id => [id, 0]));
+  const outgoing = new Map<string, string[]>(ids.map(id => [id, []]));
+
+  links.forEach(link => {
+    inDegree.set(link.to, (inDegree.get(link.to) || 0) + 1);
+    outgoing.get(link.from)!.push(link.to);
+  });
+
+  const queue = ids.filter(id => inDegree.get(id) === 0);
+  const ordered: string[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    ordered.push(id);
+    outgoing.get(id)!.forEach(next => {
+      const remaining = inDegree.get(next)! - 1;
+      inDegree.set(next, remaining);
+      if (remaining === 0) queue.push(next);
+    });
+  }
+
+  if (ordered.length !== ids.length) {
+    throw new Error('Task dependency graph contains a cycle');
+  }
+
+  return ordered;
+}
+
+/**
+ * Compute early/late dates, total float and the critical path for a set of tasks
+ */
+export function computeSchedule(tasks: SchedulableTask[]): ScheduleResult {
+  const nodes = new Map<string, Node>();
+
+  tasks.forEach(task => {
+    if (!task.start_date || !task.end_date) return;
+
+    if (task.kind === 'milestone') {
+      const date = toDayNumber(task.start_date);
+      nodes.set(task.id, {
+        id: task.id,
+        isMilestone: true,
+        duration: 0,
+        plannedStart: date + 1,
+        es: date + 1,
+        ef: date,
+        ls: date + 1,
+        lf: date,
+      });
+      return;
+    }
+
+    const start = toDayNumber(task.start_date);
+    const end = Math.max(start, toDayNumber(task.end_date));
+    nodes.set(task.id, {
+      id: task.id,
+      isMilestone: false,
+      duration: end - start + 1,
+      plannedStart: start,
+      es: start,
+      ef: end,
+      ls: start,
+      lf: end,
+    });
+  });
+
+  if (nodes.size === 0) {
+    return { project_start: null, project_finish: null, tasks: [], critical_path: [] };
+  }
+
+  // Keep only links between scheduled tasks
+  const links: Link[] = [];
+  tasks.forEach(task => {
+    (task.successors || []).forEach(successor => {
+      if (nodes.has(task.id) && nodes.has(successor.task_id)) {
+        links.push({
+          from: task.id,
+          to: successor.task_id,
+          type: successor.dependency_type,
+          lag: successor.lag_days,
+        });
+      }
+    });
+  });
+
+  const incoming = new Map<string, Link[]>();
+  const outgoing = new Map<string, Link[]>();
+  links.forEach(link => {
+    if (!incoming.has(link.to)) incoming.set(link.to, []);
+    if (!outgoing.has(link.from)) outgoing.set(link.from, []);
+    incoming.get(link.to)!.push(link);
+    outgoing.get(link.from)!.push(link);
+  });
+
+  const order = topologicalSort(Array.from(nodes.keys()), links);
+
+  // Forward pass: early start / early finish
+  order.forEach(id => {
+    const node = nodes.get(id)!;
+    let es = node.plannedStart;
+    (incoming.get(id) || []).forEach(link => {
+      es = Math.max(es, earliestStartFor(link, nodes.get(link.from)!, node));
+    });
+    node.es = es;
+    node.ef = es + node.duration - 1;
+  });
+
+  const projectStart = Math.min(...Array.from(nodes.values()).map(node => (node.isMilestone ? node.ef : node.es)));
+  const projectFinish = Math.max(...Array.from(nodes.values()).map(node => node.ef));
+
+  // Backward pass: late finish / late start
+  [...order].reverse().forEach(id => {
+    const node = nodes.get(id)!;
+    let lf = projectFinish;
+    (outgoing.get(id) || []).forEach(link => {
+      lf = Math.min(lf, latestFinishFor(link, node, nodes.get(link.to)!));
+    });
+    node.lf = lf;
+    node.ls = lf - node.duration + 1;
+  });
+
+  const scheduled: ScheduledTask[] = order.map(id => {
+    const node = nodes.get(id)!;
+    const totalFloat = node.ls - node.es;
+    return {
+      task_id: id,
+      is_milestone: node.isMilestone,
+      duration: node.duration,
+      early_start: fromDayNumber(node.isMilestone ? node.ef : node.es),
+      early_finish: fromDayNumber(node.ef),
+      late_start: fromDayNumber(node.isMilestone ? node.lf : node.ls),
+      late_finish: fromDayNumber(node.lf),
+      total_float: totalFloat,
+      is_critical: totalFloat <= 0,
+    };
+  });
+
+  return {
+    project_start: fromDayNumber(projectStart),
+    project_finish: fromDayNumber(projectFinish),
+    tasks: scheduled,
+    critical_path: scheduled.filter(task => task.is_critical).map(task => task.task_id),
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Schemas - request bodies of the task, event, member, dependency and order APIs
+ *
+ * Checked by the routes before anything is read from the database, and by
+ * TaskForm, EventForm and MemberForm before they submit, so the user sees
+ * the same messages in both places. Lengths follow the table columns.
+ */
+
+import { STATUSES } from './domain';
+import { DEPENDENCY_TYPES } from './taskDependency';
+import { TASK_KINDS } from './taskKind';
+import {
+  array,
+  boolean,
+  date,
+  email,
+  FieldError,
+  integer,
+  nullable,
+  object,
+  oneOf,
+  optional,
+  record,
+  refine,
+  string,
+  uuid,
+} from './validation';
+
+export const NOTE_MAX_LENGTH = 1000;
+
+const note = optional(nullable(string('メモ', { maxLength: NOTE_MAX_LENGTH })));
+const status = optional(oneOf('ステータス', STATUSES));
+const assigneeId = optional(nullable(uuid('担当者')));
+// The version the client loaded, for optimistic concurrency
+const version = integer('バージョン', { min: 1 });
+
+const taskFields = {
+  // Left empty on subtasks, which take their parent's
+  category: optional(nullable(string('カテゴリー', { maxLength: 100 }))),
+  sub_category: optional(nullable(string('サブカテゴリー', { maxLength: 100 }))),
+  parent_task_id: optional(nullable(uuid('親タスク'))),
+  kind: optional(oneOf('種別', TASK_KINDS)),
+  start_date: optional(nullable(date('開始日'))),
+  end_date: optional(nullable(date('終了日'))),
+  assignee_id: assigneeId,
+  status,
+  note,
+  progress: optional(nullable(integer('進捗', { min: 0, max: 100 }))),
+};
+
+// Subtasks take their parent's category and sub_category, other tasks need their own
+export const taskCreateSchema = refine(
+  object({ ...taskFields, name: string('タスク名', { maxLength: 255 }) }),
+  task => {
+    if (task.parent_task_id) return [];
+    const errors: FieldError[] = [];
+    if (!task.category) errors.push({ path: 'category', message: 'カテゴリーは必須です' });
+    if (!task.sub_category) errors.push({ path: 'sub_category', message: 'サブカテゴリーは必須です' });
+    return errors;
+  }
+);
+
+export const taskUpdateSchema = object({
+  ...taskFields,
+  id: uuid('タスクID'),
+  version,
+  name: optional(string('タスク名', { maxLength: 255 })),
+  display_order: optional(integer('表示順')),
+});
+
+const eventFields = {
+  due_date: optional(nullable(date('期日'))),
+  assignee_id: assigneeId,
+  status,
+  note,
+};
+
+export const eventCreateSchema = object({
+  ...eventFields,
+  name: string('イベント名', { maxLength: 255 }),
+  task_id: uuid('タスク'),
+});
+
+export const eventUpdateSchema = object({
+  ...eventFields,
+  id: uuid('イベントID'),
+  version,
+  name: optional(string('イベント名', { maxLength: 255 })),
+  task_id: optional(uuid('タスク')),
+});
+
+export const eventDeleteSchema = object({ id: uuid('イベントID') });
+
+const memberFields = {
+  email: optional(nullable(email('メールアドレス', { maxLength: 255 }))),
+  role: optional(nullable(string('役割', { maxLength: 50 }))),
+  is_active: optional(boolean('有効')),
+};
+
+export const memberCreateSchema = object({
+  ...memberFields,
+  name: string('名前', { maxLength: 100 }),
+});
+
+export const memberUpdateSchema = object({
+  ...memberFields,
+  id: uuid('メンバーID'),
+  name: optional(string('名前', { maxLength: 100 })),
+});
+
+const dependencyFields = {
+  dependency_type: optional(oneOf('依存関係の種類', DEPENDENCY_TYPES)),
+  lag_days: optional(nullable(integer('ラグ日数'))),
+};
+
+export const dependencyCreateSchema = refine(
+  object({
+    ...dependencyFields,
+    predecessor_id: uuid('先行タスク'),
+    successor_id: uuid('後続タスク'),
+  }),
+  dependency =>
+    dependency.predecessor_id === dependency.successor_id
+      ? [{ path: 'predecessor_id', message: 'タスク自身を先行タスクに指定することはできません' }]
+      : []
+);
+
+export const dependencyUpdateSchema = object({
+  ...dependencyFields,
+  id: uuid('依存関係ID'),
+});
+
+// PUT /api/tasks/reorder: place the task right after previous_id (null: first)
+export const taskReorderSchema = object({
+  id: uuid('タスクID'),
+  previous_id: optional(nullable(uuid('直前のタスク'))),
+});
+
+const direction = optional(oneOf('移動方向', ['up', 'down'] as const));
+
+// Either a direction or the key to place the row after must be given
+const requireMoveTarget = (previousKey: string) => (move: { direction?: string }) =>
+  move.direction || previousKey in move ? [] : [{ path: 'direction', message: '移動方向または移動先を指定してください' }];
+
+export const categoryOrderSchema = refine(
+  object({
+    category: string('カテゴリー', { maxLength: 100 }),
+    direction,
+    previous_category: optional(nullable(string('直前のカテゴリー', { maxLength: 100 }))),
+  }),
+  requireMoveTarget('previous_category')
+);
+
+export const subcategoryOrderSchema = refine(
+  object({
+    category: string('カテゴリー', { maxLength: 100 }),
+    sub_category: string('サブカテゴリー', { maxLength: 100 }),
+    direction,
+    previous_sub_category: optional(nullable(string('直前のサブカテゴリー', { maxLength: 100 }))),
+  }),
+  requireMoveTarget('previous_sub_category')
+);
+
+// POST /api/order/save-all: the whole order and expand state at once
+export const saveOrderSchema = refine(
+  object({
+    categories: array('カテゴリー', string('カテゴリー'), { unique: true }),
+    subcategories: record('サブカテゴリー', array('サブカテゴリー', string('サブカテゴリー'), { unique: true })),
+    // key: "category::subcategory", value: task IDs in order
+    tasks: record('タスク', array('タスク', uuid('タスクID'))),
+    // Category names, and subcategory keys "category|subcategory"
+    expandedCategories: optional(array('展開中のカテゴリー', string('カテゴリー'))),
+    expandedSubcategories: optional(array('展開中のサブカテゴリー', string('サブカテゴリー'))),
+  }),
+  order => {
+    const taskIds = Object.values(order.tasks).flat();
+    return new Set(taskIds).size === taskIds.length
+      ? []
+      : [{ path: 'tasks', message: '同じタスクが複数回指定されています' }];
+  }
+);
@@ -0,0 +1,21 @@
+/**
+ * Status History - shared types for task/event status transitions
+ *
+ * Every status change of a task or event is stored in status_history,
+ * including the initial status when it is created (from_status is null).
+ */
+
+export type StatusHistoryEntityType = 'task' | 'event';
+
+// Status transition as returned by GET /api/tasks/:id/history
+export interface StatusHistoryEntry {
+  id: string;
+  entity_type: StatusHistoryEntityType;
+  entity_id: string;
+  entity_name: string;
+  task_id: string;
+  from_status: string | null;
+  to_status: string;
+  changed_by: string | null;
+  changed_at: string;
+}
@@ -0,0 +1,58 @@
+/**
+ * Status History Queries - record and load status transitions
+ *
+ * Routes call recordStatusChange() after every task or event write; writes
+ * that leave the status as it was are not stored.
+ */
+
+import type { PoolClient } from 'pg';
+import { query } from './db';
+import { StatusHistoryEntityType, StatusHistoryEntry } from './statusHistory';
+
+export interface StatusChange {
+  entityType: StatusHistoryEntityType;
+  entityId: string;
+  entityName: string;
+  taskId: string;
+  fromStatus: string | null;
+  toStatus: string;
+  changedBy: string | null;
+}
+
+/**
+ * Store a status transition (no-op when the status did not change), in the
+ * caller's transaction when client is given
+ */
+export async function recordStatusChange(change: StatusChange, client?: PoolClient): Promise<void> {
+  if (change.fromStatus === change.toStatus) return;
+
+  const text = `INSERT INTO status_history (entity_type, entity_id, entity_name, task_id, from_status, to_status, changed_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`;
+  const params = [
+    change.entityType,
+    change.entityId,
+    change.entityName,
+    change.taskId,
+    change.fromStatus,
+    change.toStatus,
+    change.changedBy,
+  ];
+  if (client) {
+    await client.query(text, params);
+  } else {
+    await query(text, params);
+  }
+}
+
+/**
+ * Fetch the transitions of a task and its events, newest first
+ */
+export async function getTaskStatusHistory(taskId: string): Promise<StatusHistoryEntry[]> {
+  return query<StatusHistoryEntry>(
+    `SELECT id, entity_type, entity_id, entity_name, task_id, from_status, to_status, changed_by, changed_at
+     FROM status_history
+     WHERE task_id = $1
+     ORDER BY changed_at DESC`,
+    [taskId]
+  );
+}
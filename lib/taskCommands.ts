@@ -0,0 +1,192 @@
+/**
+ * Task Commands - undoable task edits for the undo history
+ *
+ * Builds UndoableCommands whose inverse operations go through the same API
+ * as the original edit: field edits are reverted with a PUT of the previous
+ * values, deletes with a restore from the trash (/api/trash), and a created
+ * task is undone by moving it to the trash. Field edits carry the task's
+ * version, so an undo fails with a conflict instead of overwriting someone
+ * else's later change. Used by the task list and the Gantt chart.
+ */
+
+import { VersionConflictError } from './concurrency';
+import { getDescendantIds } from './taskHierarchy';
+import type { TaskKind } from './taskKind';
+import type { UndoableCommand } from './undoHistory';
+
+// Task fields sent to PUT /api/tasks (assignee_id and note are always overwritten,
+// the dates unless left out)
+export interface TaskFields {
+  id: string;
+  name: string;
+  category: string;
+  sub_category: string;
+  start_date?: string | null;
+  end_date?: string | null;
+  assignee_id: string | null;
+  status: string;
+  note: string | null;
+  kind?: TaskKind;
+  progress?: number;
+  version: number;
+}
+
+/**
+ * The editable fields of a task, as needed to restore it with saveTaskFields()
+ *
+ * A summary task's dates and progress are rolled up from its subtasks, so they
+ * are left out: saving them back would overwrite the task's own values.
+ */
+export function toTaskFields(task: TaskFields & { is_summary?: boolean }): TaskFields {
+  return {
+    id: task.id,
+    name: task.name,
+    category: task.category,
+    sub_category: task.sub_category,
+    start_date: task.is_summary ? undefined : task.start_date,
+    end_date: task.is_summary ? undefined : task.end_date,
+    assignee_id: task.assignee_id,
+    status: task.status,
+    note: task.note,
+    kind: task.kind,
+    progress: task.is_summary ? undefined : task.progress,
+    version: task.version,
+  };
+}
+
+/**
+ * Save task fields with PUT /api/tasks and return them as saved
+ *
+ * Throws a VersionConflictError carrying the current task when fields.version
+ * is out of date, and an Error with the server's message otherwise.
+ */
+export async function saveTaskFields(fields: TaskFields): Promise<TaskFields> {
+  const response = await fetch('/api/tasks', {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      ...fields,
+      start_date: fields.start_date === undefined ? undefined : fields.start_date || '',
+      end_date: fields.end_date === undefined ? undefined : fields.end_date || '',
+      assignee_id: fields.assignee_id || '',
+      note: fields.note || '',
+    }),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (response.status === 409 && data?.task) {
+    throw new VersionConflictError<TaskFields>(data.task);
+  }
+  if (!response.ok) {
+    throw new Error(data?.error || 'タスクの更新に失敗しました');
+  }
+  return toTaskFields(data.task);
+}
+
+/**
+ * Drop tasks whose ancestor is also in the list, since trashing or restoring
+ * the ancestor already takes them with it
+ */
+export function getTopLevelTaskIds(
+  tasks: { id: string; parent_task_id?: string | null }[],
+  taskIds: string[]
+): string[] {
+  const covered = new Set<string>();
+  taskIds.forEach(id => {
+    getDescendantIds(tasks, id).forEach(descendantId => covered.add(descendantId));
+  });
+  return taskIds.filter(id => !covered.has(id));
+}
+
+/**
+ * Move tasks to the trash, returning the IDs that failed
+ */
+export async function trashTasks(taskIds: string[]): Promise<string[]> {
+  const results = await Promise.all(
+    taskIds.map(id => fetch(`/api/tasks?id=${id}`, { method: 'DELETE' }))
+  );
+  return taskIds.filter((_, index) => !results[index].ok);
+}
+
+/**
+ * Restore tasks from the trash, returning the IDs that failed
+ */
+export async function restoreTasks(taskIds: string[]): Promise<string[]> {
+  const results = await Promise.all(
+    taskIds.map(id =>
+      fetch('/api/trash', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ entity_type: 'task', id }),
+      })
+    )
+  );
+  return taskIds.filter((_, index) => !results[index].ok);
+}
+
+const throwIfFailed = (failedIds: string[], message: string) => {
+  if (failedIds.length > 0) {
+    throw new Error(`${failedIds.length}件のタスクの${message}に失敗しました`);
+  }
+};
+
+/**
+ * Command for an edit of a single task's fields
+ *
+ * `saved` is the task as returned by saveTaskFields() for the edit, so that
+ * the undo is checked against the version the edit produced.
+ */
+export function createTaskUpdateCommand(
+  label: string,
+  before: TaskFields,
+  saved: TaskFields,
+  refresh?: () => void
+): UndoableCommand {
+  let version = saved.version;
+  const save = async (fields: TaskFields) => {
+    version = (await saveTaskFields({ ...fields, version })).version;
+  };
+
+  return {
+    label,
+    undo: () => save(before),
+    redo: () => save(saved),
+    refresh,
+  };
+}
+
+/**
+ * Command for tasks that were moved to the trash (pass top-level IDs only)
+ */
+export function createTaskDeleteCommand(
+  label: string,
+  taskIds: string[],
+  refresh?: () => void
+): UndoableCommand {
+  return {
+    label,
+    undo: async () => throwIfFailed(await restoreTasks(taskIds), '復元'),
+    redo: async () => throwIfFailed(await trashTasks(taskIds), '削除'),
+    refresh,
+  };
+}
+
+/**
+ * Command for a newly created task (undo moves it to the trash)
+ */
+export function createTaskCreateCommand(
+  label: string,
+  taskId: string,
+  refresh?: () => void
+): UndoableCommand {
+  return {
+    label,
+    undo: async () => throwIfFailed(await trashTasks([taskId]), '削除'),
+    redo: async () => throwIfFailed(await restoreTasks([taskId]), '復元'),
+    refresh,
+  };
+}
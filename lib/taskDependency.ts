@@ -0,0 +1,75 @@
+/**
+ * Task Dependency - shared types and graph helpers for task dependencies
+ *
+ * Used by the dependency API routes (cycle detection) and by the Gantt chart
+ * (connector arrows).
+ */
+
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
+
+export const DEPENDENCY_TYPES: DependencyType[] = ['FS', 'SS', 'FF', 'SF'];
+
+export const DEPENDENCY_TYPE_LABELS: Record<DependencyType, string> = {
+  FS: '終了→開始',
+  SS: '開始→開始',
+  FF: '終了→終了',
+  SF: '開始→終了',
+};
+
+// Row shape of the task_dependency table
+export interface TaskDependency {
+  id: string;
+  predecessor_id: string;
+  successor_id: string;
+  dependency_type: DependencyType;
+  lag_days: number;
+}
+
+// Dependency as embedded in a task returned by GET /api/tasks
+// (task_id is the task on the other end of the link)
+export interface TaskLink {
+  id: string;
+  task_id: string;
+  dependency_type: DependencyType;
+  lag_days: number;
+}
+
+/**
+ * Check whether adding predecessorId -> successorId would create a cycle
+ *
+ * A cycle exists if predecessorId is already reachable from successorId
+ * by following existing predecessor -> successor links.
+ */
+export function wouldCreateCycle(
+  dependencies: Pick<TaskDependency, 'predecessor_id' | 'successor_id'>[],
+  predecessorId: string,
+  successorId: string
+): boolean {
+  if (predecessorId === successorId) return true;
+
+  // Build adjacency list: predecessor -> successors
+  const successorsByTask = new Map<string, string[]>();
+  dependencies.forEach(dep => {
+    if (!successorsByTask.has(dep.predecessor_id)) {
+      successorsByTask.set(dep.predecessor_id, []);
+    }
+    successorsByTask.get(dep.predecessor_id)!.push(dep.successor_id);
+  });
+
+  // Depth-first search from the new successor
+  const visited = new Set<string>();
+  const stack = [successorId];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === predecessorId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    (successorsByTask.get(current) || []).forEach(next => {
+      if (!visited.has(next)) stack.push(next);
+    });
+  }
+
+  return false;
+}
@@ -0,0 +1,190 @@
+/**
+ * Task Hierarchy - parent/child (summary task) helpers
+ *
+ * Tasks form a tree through task.parent_task_id. A task with children is a
+ * summary task: its dates span its children and its status and progress are
+ * derived from theirs. Used by GET /api/tasks, the task API validation and
+ * the Gantt chart.
+ */
+
+import { rollupProgress } from './progress';
+
+export interface HierarchicalTask {
+  id: string;
+  parent_task_id?: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  status: string;
+  progress?: number;
+}
+
+export interface TaskTreeNode {
+  id: string;
+  children: TaskTreeNode[];
+}
+
+export interface TaskHierarchyInfo {
+  depth: number;
+  child_count: number;
+  is_summary: boolean;
+}
+
+/**
+ * Derive a summary task's status from its children's statuses
+ *
+ * IceBox children are ignored unless every child is in IceBox. Otherwise the
+ * summary is Done / Confirmed / ToDo when all remaining children agree, and
+ * InProgress for any mix.
+ */
+export function rollupStatus(statuses: string[]): string {
+  const active = statuses.filter(status => status !== 'IceBox');
+  if (active.length === 0) return statuses.length > 0 ? 'IceBox' : 'ToDo';
+  if (active.every(status => status === 'Done')) return 'Done';
+  if (active.every(status => status === 'Confirmed' || status === 'Done')) return 'Confirmed';
+  if (active.every(status => status === 'ToDo')) return 'ToDo';
+  return 'InProgress';
+}
+
+/**
+ * Group task IDs by parent ID, keeping the input order among siblings
+ *
+ * Tasks whose parent is missing from the list are treated as roots.
+ */
+function groupChildren<T extends Pick<HierarchicalTask, 'id' | 'parent_task_id'>>(tasks: T[]) {
+  const ids = new Set(tasks.map(task => task.id));
+  const roots: T[] = [];
+  const childrenByParent = new Map<string, T[]>();
+
+  tasks.forEach(task => {
+    if (task.parent_task_id && ids.has(task.parent_task_id) && task.parent_task_id !== task.id) {
+      if (!childrenByParent.has(task.parent_task_id)) {
+        childrenByParent.set(task.parent_task_id, []);
+      }
+      childrenByParent.get(task.parent_task_id)!.push(task);
+    } else {
+      roots.push(task);
+    }
+  });
+
+  return { roots, childrenByParent };
+}
+
+/**
+ * Build the task tree (roots in input order)
+ */
+export function buildTaskTree(tasks: Pick<HierarchicalTask, 'id' | 'parent_task_id'>[]): TaskTreeNode[] {
+  const { roots, childrenByParent } = groupChildren(tasks);
+  const visited = new Set<string>();
+
+  const toNode = (id: string): TaskTreeNode => {
+    visited.add(id);
+    return {
+      id,
+      children: (childrenByParent.get(id) || [])
+        .filter(child => !visited.has(child.id))
+        .map(child => toNode(child.id)),
+    };
+  };
+
+  const tree = roots.map(root => toNode(root.id));
+  // Tasks caught in a parent cycle are not reachable from a root
+  tasks.forEach(task => {
+    if (!visited.has(task.id)) tree.push(toNode(task.id));
+  });
+  return tree;
+}
+
+/**
+ * Order tasks depth-first so that every task is followed by its descendants
+ */
+export function orderTasksByHierarchy<T extends Pick<HierarchicalTask, 'id' | 'parent_task_id'>>(tasks: T[]): T[] {
+  const { roots, childrenByParent } = groupChildren(tasks);
+  const ordered: T[] = [];
+  const visited = new Set<string>();
+
+  const visit = (task: T) => {
+    if (visited.has(task.id)) return;
+    visited.add(task.id);
+    ordered.push(task);
+    (childrenByParent.get(task.id) || []).forEach(visit);
+  };
+
+  roots.forEach(visit);
+  tasks.forEach(visit); // Tasks caught in a parent cycle
+  return ordered;
+}
+
+/**
+ * IDs of all descendants of a task (excluding the task itself)
+ */
+export function getDescendantIds(
+  tasks: Pick<HierarchicalTask, 'id' | 'parent_task_id'>[],
+  taskId: string
+): Set<string> {
+  const { childrenByParent } = groupChildren(tasks);
+  const descendants = new Set<string>();
+  const stack = [taskId];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    (childrenByParent.get(current) || []).forEach(child => {
+      if (!descendants.has(child.id) && child.id !== taskId) {
+        descendants.add(child.id);
+        stack.push(child.id);
+      }
+    });
+  }
+
+  return descendants;
+}
+
+/**
+ * Roll up dates, status and progress from children into summary tasks
+ *
+ * Returns a copy of every task with depth/child_count/is_summary added.
+ * A summary task spans the earliest start and latest end of its children;
+ * when no child has dates, the summary keeps its own. Progress is the
+ * duration-weighted progress of the children.
+ */
+export function rollupTaskHierarchy<T extends HierarchicalTask>(tasks: T[]): (T & TaskHierarchyInfo)[] {
+  const { roots, childrenByParent } = groupChildren(tasks);
+  const result = new Map<string, T & TaskHierarchyInfo>();
+  const visited = new Set<string>();
+
+  const visit = (task: T, depth: number): T & TaskHierarchyInfo => {
+    visited.add(task.id);
+    const children = (childrenByParent.get(task.id) || [])
+      .filter(child => !visited.has(child.id))
+      .map(child => visit(child, depth + 1));
+
+    const rolled: T & TaskHierarchyInfo = {
+      ...task,
+      depth,
+      child_count: children.length,
+      is_summary: children.length > 0,
+    };
+
+    if (children.length > 0) {
+      const starts = children.map(child => child.start_date).filter((date): date is string => !!date).sort();
+      const ends = children.map(child => child.end_date).filter((date): date is string => !!date).sort();
+      if (starts.length > 0) rolled.start_date = starts[0];
+      if (ends.length > 0) rolled.end_date = ends[ends.length - 1];
+      rolled.status = rollupStatus(children.map(child => child.status));
+      if (task.progress !== undefined) {
+        rolled.progress = rollupProgress(children) ?? 0;
+      }
+    }
+
+    result.set(task.id, rolled);
+    return rolled;
+  };
+
+  roots.forEach(root => visit(root, 0));
+  // Tasks caught in a parent cycle are not reachable from a root
+  tasks.forEach(task => {
+    if (!visited.has(task.id)) visit(task, 0);
+  });
+
+  // Preserve the input order
+  return tasks.filter(task => result.has(task.id)).map(task => result.get(task.id)!);
+}
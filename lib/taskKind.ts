@@ -0,0 +1,16 @@
+/**
+ * Task Kind - regular tasks and milestones
+ *
+ * A milestone is a zero-duration task: it has a single date (stored as both
+ * start_date and end_date), is drawn as a diamond on the Gantt chart and
+ * cannot have subtasks.
+ */
+
+export type TaskKind = 'task' | 'milestone';
+
+export const TASK_KINDS: TaskKind[] = ['task', 'milestone'];
+
+export const TASK_KIND_LABELS: Record<TaskKind, string> = {
+  task: 'タスク',
+  milestone: 'マイルストーン',
+};
@@ -1,382 +1,294 @@
 /**
- * Task Order Storage - localStorage management for task, category, and subcategory ordering
+ * Task Order Storage - display order of tasks, categories and subcategories
  *
- * This module manages the display order of tasks, categories, and subcategories
- * using browser localStorage instead of database persistence.
+ * The ranks saved on the server are the team's order. Tasks carry their own
+ * rank; the ranks of categories and subcategories are loaded from their order
+ * endpoints by loadServerOrder() and kept here in memory, updated by the moves
+ * made on this page and by the changes other users save (applyServerOrder()).
+ * A move shows at once with a rank computed here, and is put back when the
+ * server rejects it. Items that have no rank yet come after the ranked ones.
+ *
+ * A user can switch to an order of their own (setPersonalOrder()). Moves are
+ * then saved as view preferences (lib/viewPreferences.ts) instead of ranks,
+ * so nobody else's order changes, and the items listed there are shown in
+ * that order ahead of the rest, which follow in rank order. Switching back
+ * keeps the user's order for later; resetting the Gantt settings drops it.
  */
 
+import { compareRanks, rankBetween } from './rank';
+import { loadPreference, savePreference, ViewPreferenceKey } from './viewPreferences';
+
+export const CATEGORY_ORDER_URL = '/api/category-order';
+export const SUBCATEGORY_ORDER_URL = '/api/subcategory-order';
+
 // Minimal task interface for ordering purposes
 export interface MinimalTask {
   id: string;
   category: string;
   sub_category: string;
-  display_order: number;
+  rank: string;
 }
 
-// Generic task type that extends MinimalTask
-export type Task<T extends MinimalTask = MinimalTask> = T;
+// Rows of the order endpoints
+interface CategoryOrderRow {
+  category: string;
+  rank: string;
+}
 
-// Storage keys
+interface SubcategoryOrderRow extends CategoryOrderRow {
+  sub_category: string;
+}
+
+// Preference keys of the user's own order
+const PERSONAL_ORDER_KEY = 'gantt_personal_order';
+// { "category::sub_category": task IDs }
 const TASK_ORDER_KEY = 'gantt_task_order';
 const CATEGORY_ORDER_KEY = 'gantt_category_order';
+// { category: subcategories }
 const SUBCATEGORY_ORDER_KEY = 'gantt_subcategory_order';
 
-/**
- * Get subcategory key for organizing tasks
- */
-function getSubcategoryKey(category: string, subCategory: string): string {
-  return `${category}::${subCategory}`;
-}
+// Never published as the team default: the ranks are the team's order
+export const PERSONAL_ORDER_PREFERENCE_KEYS: ViewPreferenceKey[] = [
+  PERSONAL_ORDER_KEY,
+  TASK_ORDER_KEY,
+  CATEGORY_ORDER_KEY,
+  SUBCATEGORY_ORDER_KEY,
+];
+
+let categoryRanks = new Map<string, string>();
+// Subcategory ranks by category
+let subcategoryRanks = new Map<string, Map<string, string>>();
 
 /**
- * Load task order from localStorage
- * Returns a map of subcategory keys to task ID arrays
+ * Item right before key in an order (null: key comes first)
  */
-export function loadTaskOrder(): Record<string, string[]> {
-  if (typeof window === 'undefined') return {};
-
-  try {
-    const stored = localStorage.getItem(TASK_ORDER_KEY);
-    return stored ? JSON.parse(stored) : {};
-  } catch (error) {
-    console.error('Failed to load task order from localStorage:', error);
-    return {};
-  }
+export function getPreviousKey(order: string[], key: string): string | null {
+  return order[order.indexOf(key) - 1] ?? null;
 }
 
 /**
- * Save task order to localStorage
+ * Rank that puts key at its place in order, between its neighbours' ranks
+ *
+ * Undefined when a neighbour has no rank yet or two neighbours share one;
+ * the rank the server gives the item is used then.
  */
-export function saveTaskOrder(order: Record<string, string[]>): void {
-  if (typeof window === 'undefined') return;
+export function getRankInOrder(
+  order: string[],
+  key: string,
+  getRank: (key: string) => string | undefined
+): string | undefined {
+  const index = order.indexOf(key);
+  const before = index > 0 ? getRank(order[index - 1]) : null;
+  const after = index < order.length - 1 ? getRank(order[index + 1]) : null;
+  if (before === undefined || after === undefined) return undefined;
 
   try {
-    localStorage.setItem(TASK_ORDER_KEY, JSON.stringify(order));
-  } catch (error) {
-    console.error('Failed to save task order to localStorage:', error);
+    return rankBetween(before, after);
+  } catch {
+    return undefined;
   }
 }
 
-/**
- * Initialize task order from database tasks if not already in localStorage
- */
-export function initializeTaskOrder<T extends MinimalTask>(tasks: T[]): Record<string, string[]> {
-  const existingOrder = loadTaskOrder();
-
-  // If we already have order data, return it
-  if (Object.keys(existingOrder).length > 0) {
-    return existingOrder;
-  }
-
-  // Initialize from database display_order
-  const newOrder: Record<string, string[]> = {};
-
-  // Group tasks by subcategory
-  const tasksBySubcategory: Record<string, T[]> = {};
-
-  tasks.forEach(task => {
-    const key = getSubcategoryKey(task.category, task.sub_category);
-    if (!tasksBySubcategory[key]) {
-      tasksBySubcategory[key] = [];
-    }
-    tasksBySubcategory[key].push(task);
-  });
-
-  // Sort each subcategory's tasks by display_order and extract IDs
-  Object.keys(tasksBySubcategory).forEach(key => {
-    newOrder[key] = tasksBySubcategory[key]
-      .sort((a, b) => a.display_order - b.display_order)
-      .map(task => task.id);
-  });
-
-  // Save to localStorage
-  saveTaskOrder(newOrder);
-
-  return newOrder;
+// Sort keys by their ranks; keys without a rank keep their given order after the ranked ones
+function sortByRanks(keys: string[], ranks: Map<string, string> | undefined): string[] {
+  const ranked = keys.filter(key => ranks?.has(key));
+  ranked.sort((a, b) => compareRanks(ranks!.get(a)!, ranks!.get(b)!));
+  return [...ranked, ...keys.filter(key => !ranks?.has(key))];
 }
 
 /**
- * Update task order for a specific subcategory
+ * Whether this user shows and moves items in an order of their own
  */
-export function updateTaskOrderForSubcategory(
-  category: string,
-  subCategory: string,
-  taskIds: string[]
-): void {
-  const order = loadTaskOrder();
-  const key = getSubcategoryKey(category, subCategory);
-  order[key] = taskIds;
-  saveTaskOrder(order);
+export function isPersonalOrder(): boolean {
+  return loadPreference<boolean>(PERSONAL_ORDER_KEY, false) === true;
 }
 
-/**
- * Add a new task to the order (appends to end of its subcategory)
- */
-export function addTaskToOrder<T extends MinimalTask>(task: T): void {
-  const order = loadTaskOrder();
-  const key = getSubcategoryKey(task.category, task.sub_category);
-
-  if (!order[key]) {
-    order[key] = [];
-  }
-
-  // Only add if not already present
-  if (!order[key].includes(task.id)) {
-    order[key].push(task.id);
-  }
-
-  saveTaskOrder(order);
+export function setPersonalOrder(personal: boolean): void {
+  savePreference(PERSONAL_ORDER_KEY, personal);
 }
 
-/**
- * Add a new task to the end of a specific subcategory by ID
- * Used when creating new tasks to immediately register them in localStorage
- */
-export function addNewTaskToSubcategory(
-  category: string,
-  subCategory: string,
-  taskId: string
-): void {
-  const order = loadTaskOrder();
-  const key = getSubcategoryKey(category, subCategory);
-
-  if (!order[key]) {
-    order[key] = [];
-  }
-
-  // Only add if not already present
-  if (!order[key].includes(taskId)) {
-    order[key].push(taskId);
-  }
+// Keys listed in the user's own order first, the rest after them as given
+function applyPersonalOrder(keys: string[], personalOrder: string[] | undefined): string[] {
+  if (!isPersonalOrder() || !personalOrder) return keys;
 
-  saveTaskOrder(order);
+  const positions = new Map(personalOrder.map((key, index) => [key, index]));
+  const listed = keys.filter(key => positions.has(key));
+  listed.sort((a, b) => positions.get(a)! - positions.get(b)!);
+  return [...listed, ...keys.filter(key => !positions.has(key))];
 }
 
-/**
- * Remove a task from the order
- */
-export function removeTaskFromOrder(taskId: string): void {
-  const order = loadTaskOrder();
-
-  // Remove from all subcategories
-  Object.keys(order).forEach(key => {
-    order[key] = order[key].filter(id => id !== taskId);
-  });
-
-  saveTaskOrder(order);
-}
+const getSubcategoryKey = (category: string, subCategory: string) => `${category}::${subCategory}`;
 
 /**
- * Clean up deleted tasks from order (remove IDs that don't exist in current tasks)
+ * Sort tasks in display order (only tasks of the same subcategory are compared when displayed)
  */
-export function cleanupTaskOrder(existingTaskIds: string[]): void {
-  const order = loadTaskOrder();
-  const taskIdSet = new Set(existingTaskIds);
-  let changed = false;
-
-  Object.keys(order).forEach(key => {
-    const before = order[key].length;
-    order[key] = order[key].filter(id => taskIdSet.has(id));
-    if (order[key].length !== before) {
-      changed = true;
-    }
-  });
+export function sortTasks<T extends MinimalTask>(tasks: T[]): T[] {
+  const sorted = [...tasks].sort((a, b) => compareRanks(a.rank, b.rank));
+  if (!isPersonalOrder()) return sorted;
 
-  if (changed) {
-    saveTaskOrder(order);
-  }
-}
-
-/**
- * Sort tasks according to localStorage order
- */
-export function sortTasksByOrder<T extends MinimalTask>(tasks: T[]): T[] {
-  const order = loadTaskOrder();
-  const sorted: T[] = [];
-  const taskMap = new Map(tasks.map(t => [t.id, t]));
-
-  // Group by subcategory
-  const tasksBySubcategory: Record<string, T[]> = {};
-  tasks.forEach(task => {
+  const personalOrder = loadPreference<Record<string, string[]>>(TASK_ORDER_KEY, {});
+  const groups = new Map<string, T[]>();
+  sorted.forEach(task => {
     const key = getSubcategoryKey(task.category, task.sub_category);
-    if (!tasksBySubcategory[key]) {
-      tasksBySubcategory[key] = [];
-    }
-    tasksBySubcategory[key].push(task);
+    groups.set(key, [...(groups.get(key) || []), task]);
   });
 
-  // Sort each subcategory according to order
-  Object.keys(tasksBySubcategory).forEach(key => {
-    const subcategoryTasks = tasksBySubcategory[key];
-    const orderedIds = order[key] || [];
-
-    // First add tasks in the specified order
-    orderedIds.forEach(id => {
-      const task = taskMap.get(id);
-      if (task && subcategoryTasks.includes(task)) {
-        sorted.push(task);
-      }
-    });
-
-    // Then add any tasks not in the order (newly added tasks)
-    subcategoryTasks.forEach(task => {
-      if (!orderedIds.includes(task.id)) {
-        sorted.push(task);
-      }
-    });
+  return Array.from(groups).flatMap(([key, group]) => {
+    const tasksById = new Map(group.map(task => [task.id, task]));
+    return applyPersonalOrder(group.map(task => task.id), personalOrder[key]).map(id => tasksById.get(id)!);
   });
-
-  return sorted;
 }
 
-// ========== Category Order Management ==========
-
-/**
- * Load category order from localStorage
- */
-export function loadCategoryOrder(): string[] {
-  if (typeof window === 'undefined') return [];
-
-  try {
-    const stored = localStorage.getItem(CATEGORY_ORDER_KEY);
-    return stored ? JSON.parse(stored) : [];
-  } catch (error) {
-    console.error('Failed to load category order from localStorage:', error);
-    return [];
-  }
+export function sortCategories(categories: string[]): string[] {
+  return applyPersonalOrder(
+    sortByRanks(categories, categoryRanks),
+    loadPreference<string[] | undefined>(CATEGORY_ORDER_KEY, undefined)
+  );
 }
 
-/**
- * Save category order to localStorage
- */
-export function saveCategoryOrder(categories: string[]): void {
-  if (typeof window === 'undefined') return;
-
-  try {
-    localStorage.setItem(CATEGORY_ORDER_KEY, JSON.stringify(categories));
-  } catch (error) {
-    console.error('Failed to save category order to localStorage:', error);
-  }
+export function sortSubcategories(category: string, subCategories: string[]): string[] {
+  return applyPersonalOrder(
+    sortByRanks(subCategories, subcategoryRanks.get(category)),
+    loadPreference<Record<string, string[]>>(SUBCATEGORY_ORDER_KEY, {})[category]
+  );
 }
 
 /**
- * Initialize category order from tasks
+ * Save the order of a subcategory's tasks (task IDs) as the user's own
  */
-export function initializeCategoryOrder<T extends MinimalTask>(tasks: T[]): string[] {
-  const existingOrder = loadCategoryOrder();
-
-  if (existingOrder.length > 0) {
-    return existingOrder;
-  }
-
-  // Extract unique categories and sort by their first task's display_order
-  const categoryMap = new Map<string, number>();
-
-  tasks.forEach(task => {
-    if (!categoryMap.has(task.category)) {
-      categoryMap.set(task.category, task.display_order);
-    }
+export function savePersonalTaskOrder(category: string, subCategory: string, taskIds: string[]): void {
+  savePreference(TASK_ORDER_KEY, {
+    ...loadPreference<Record<string, string[]>>(TASK_ORDER_KEY, {}),
+    [getSubcategoryKey(category, subCategory)]: taskIds,
   });
-
-  const categories = Array.from(categoryMap.entries())
-    .sort((a, b) => a[1] - b[1])
-    .map(entry => entry[0]);
-
-  saveCategoryOrder(categories);
-  return categories;
 }
 
-/**
- * Add a new category to the order
- */
-export function addCategoryToOrder(category: string): void {
-  const order = loadCategoryOrder();
+const toCategoryRanks = (rows: CategoryOrderRow[]) => new Map(rows.map(row => [row.category, row.rank]));
 
-  if (!order.includes(category)) {
-    order.push(category);
-    saveCategoryOrder(order);
+const toSubcategoryRanks = (rows: SubcategoryOrderRow[]) => {
+  const ranks = new Map<string, Map<string, string>>();
+  rows.forEach(row => {
+    if (!ranks.has(row.category)) ranks.set(row.category, new Map());
+    ranks.get(row.category)!.set(row.sub_category, row.rank);
+  });
+  return ranks;
+};
+
+async function requestOrders<T>(url: string, init?: RequestInit): Promise<T[]> {
+  const response = await fetch(url, init);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || '並び順の保存に失敗しました');
   }
+  return data.orders;
 }
 
-// ========== Subcategory Order Management ==========
+const putOrder = <T>(url: string, body: Record<string, unknown>) =>
+  requestOrders<T>(url, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
 
 /**
- * Load subcategory order from localStorage
+ * Load the category and subcategory ranks from the server
  */
-export function loadSubcategoryOrder(): Record<string, string[]> {
-  if (typeof window === 'undefined') return {};
-
-  try {
-    const stored = localStorage.getItem(SUBCATEGORY_ORDER_KEY);
-    return stored ? JSON.parse(stored) : {};
-  } catch (error) {
-    console.error('Failed to load subcategory order from localStorage:', error);
-    return {};
-  }
+export async function loadServerOrder(): Promise<void> {
+  const [categories, subcategories] = await Promise.all([
+    requestOrders<CategoryOrderRow>(CATEGORY_ORDER_URL),
+    requestOrders<SubcategoryOrderRow>(SUBCATEGORY_ORDER_URL),
+  ]);
+  categoryRanks = toCategoryRanks(categories);
+  subcategoryRanks = toSubcategoryRanks(subcategories);
 }
 
 /**
- * Save subcategory order to localStorage
+ * Move a category to its place in order and save the move on the server
+ *
+ * The new order shows as soon as this is called. Rejects with the server's
+ * message after putting the category back. With a personal order, order is
+ * saved as the user's own instead.
  */
-export function saveSubcategoryOrder(order: Record<string, string[]>): void {
-  if (typeof window === 'undefined') return;
+export async function moveCategory(order: string[], category: string): Promise<void> {
+  if (isPersonalOrder()) {
+    savePreference(CATEGORY_ORDER_KEY, order);
+    return;
+  }
+
+  const previousRanks = categoryRanks;
+  const rank = getRankInOrder(order, category, key => categoryRanks.get(key));
+  if (rank !== undefined) categoryRanks = new Map(categoryRanks).set(category, rank);
 
   try {
-    localStorage.setItem(SUBCATEGORY_ORDER_KEY, JSON.stringify(order));
+    const orders = await putOrder<CategoryOrderRow>(CATEGORY_ORDER_URL, {
+      category,
+      previous_category: getPreviousKey(order, category),
+    });
+    categoryRanks = toCategoryRanks(orders);
   } catch (error) {
-    console.error('Failed to save subcategory order to localStorage:', error);
+    categoryRanks = previousRanks;
+    throw error;
   }
 }
 
 /**
- * Initialize subcategory order from tasks
+ * Move a subcategory to its place in its category's order and save the move on the server
+ *
+ * Shows, rolls back and keeps a personal order like moveCategory().
  */
-export function initializeSubcategoryOrder<T extends MinimalTask>(tasks: T[]): Record<string, string[]> {
-  const existingOrder = loadSubcategoryOrder();
-
-  if (Object.keys(existingOrder).length > 0) {
-    return existingOrder;
+export async function moveSubcategory(category: string, order: string[], subCategory: string): Promise<void> {
+  if (isPersonalOrder()) {
+    savePreference(SUBCATEGORY_ORDER_KEY, {
+      ...loadPreference<Record<string, string[]>>(SUBCATEGORY_ORDER_KEY, {}),
+      [category]: order,
+    });
+    return;
   }
 
-  const newOrder: Record<string, string[]> = {};
-
-  // Group by category and track subcategories with their first display_order
-  const subcategoryMap = new Map<string, Map<string, number>>();
+  const previousRanks = subcategoryRanks.get(category);
+  const ranks = new Map(previousRanks);
+  const rank = getRankInOrder(order, subCategory, key => ranks.get(key));
+  if (rank !== undefined) subcategoryRanks = new Map(subcategoryRanks).set(category, ranks.set(subCategory, rank));
 
-  tasks.forEach(task => {
-    if (!subcategoryMap.has(task.category)) {
-      subcategoryMap.set(task.category, new Map());
-    }
-    const subMap = subcategoryMap.get(task.category)!;
+  const setCategoryRanks = (next: Map<string, string> | undefined) => {
+    subcategoryRanks = new Map(subcategoryRanks);
+    if (next) subcategoryRanks.set(category, next);
+    else subcategoryRanks.delete(category);
+  };
 
-    if (!subMap.has(task.sub_category)) {
-      subMap.set(task.sub_category, task.display_order);
-    }
-  });
+  try {
+    const orders = await putOrder<SubcategoryOrderRow>(SUBCATEGORY_ORDER_URL, {
+      category,
+      sub_category: subCategory,
+      previous_sub_category: getPreviousKey(order, subCategory),
+    });
+    setCategoryRanks(toSubcategoryRanks(orders).get(category));
+  } catch (error) {
+    setCategoryRanks(previousRanks);
+    throw error;
+  }
+}
 
-  // Sort subcategories within each category
-  subcategoryMap.forEach((subMap, category) => {
-    newOrder[category] = Array.from(subMap.entries())
-      .sort((a, b) => a[1] - b[1])
-      .map(entry => entry[0]);
-  });
+// ========== Orders Saved by Other Users ==========
 
-  saveSubcategoryOrder(newOrder);
-  return newOrder;
+// Ranks from the server ({ key: rank }); task ranks arrive with the tasks themselves
+export interface ServerOrderChange {
+  categories?: Record<string, string>;
+  subcategories?: Record<string, Record<string, string>>;
 }
 
 /**
- * Add a new subcategory to the order
+ * Apply category and subcategory ranks saved on the server (e.g. by another user)
  */
-export function addSubcategoryToOrder(category: string, subCategory: string): void {
-  const order = loadSubcategoryOrder();
-
-  if (!order[category]) {
-    order[category] = [];
+export function applyServerOrder(change: ServerOrderChange): void {
+  if (change.categories) {
+    categoryRanks = new Map([...categoryRanks, ...Object.entries(change.categories)]);
   }
 
-  if (!order[category].includes(subCategory)) {
-    order[category].push(subCategory);
-    saveSubcategoryOrder(order);
+  if (change.subcategories) {
+    subcategoryRanks = new Map(subcategoryRanks);
+    Object.entries(change.subcategories).forEach(([category, ranks]) => {
+      subcategoryRanks.set(category, new Map([...(subcategoryRanks.get(category) || []), ...Object.entries(ranks)]));
+    });
   }
 }
@@ -0,0 +1,263 @@
+/**
+ * Task Repository - task rows with their assignee, events and dependencies
+ *
+ * Owns the task SQL of the API routes and the daily report, and returns the
+ * shapes in lib/domain.ts. Working days and the hierarchy rollup are added by
+ * GET /api/tasks on top of list().
+ */
+
+import type { PoolClient } from 'pg';
+import { query, withTransaction } from './db';
+import type { Task, TaskListItem } from './domain';
+import { getDescendantIds, HierarchicalTask, TaskHierarchyInfo } from './taskHierarchy';
+import type { TaskKind } from './taskKind';
+import { appendToGroup, getNextRank } from './rankQueries';
+import { assigneeIdSql, assigneeNameSql, assigneeShownSql } from './memberRepository';
+
+// Task columns of table alias t (assignee is the member's current name, and
+// both are null while a deactivated or trashed member is hidden)
+const taskColumns = (t: string) =>
+  `${t}.id, ${t}.name, ${t}.category, ${t}.sub_category, ${t}.parent_task_id, ${t}.kind, ${t}.start_date::DATE::TEXT as start_date, ${t}.end_date::DATE::TEXT as end_date, ${assigneeIdSql(t)} as assignee_id, ${assigneeNameSql(t)} as assignee, ${t}.status, ${t}.rank, ${t}.progress::INT4 as progress, ${t}.note, ${t}.version::INT4 as version, ${t}.created_at, ${t}.updated_at`;
+
+// Event fields of table alias e as a JSON object, matching lib/eventRepository.ts
+const eventJsonSql = (e: string) => `json_build_object(
+  'id', ${e}.id,
+  'name', ${e}.name,
+  'task_id', ${e}.task_id,
+  'due_date', ${e}.due_date::DATE::TEXT,
+  'assignee_id', ${assigneeIdSql(e)},
+  'assignee', ${assigneeNameSql(e)},
+  'status', ${e}.status,
+  'note', ${e}.note,
+  'version', ${e}.version::INT4,
+  'created_at', ${e}.created_at,
+  'updated_at', ${e}.updated_at
+)`;
+
+// Dependency links of task t, to the task at the end column `other` of each link
+const linksSql = (t: string, own: string, other: string) => `COALESCE(
+  (SELECT json_agg(json_build_object('id', d.id, 'task_id', d.${other}, 'dependency_type', d.dependency_type, 'lag_days', d.lag_days))
+   FROM task_dependency d
+   JOIN task o ON o.id = d.${other} AND o.deleted_at IS NULL
+   WHERE d.${own} = ${t}.id),
+  '[]'
+)`;
+
+// A listed task before working days and the hierarchy rollup are added
+export type TaskWithRelations = Omit<TaskListItem, 'working_days' | keyof TaskHierarchyInfo>;
+
+export type TaskHierarchyRow = Pick<HierarchicalTask, 'id' | 'parent_task_id'>;
+
+export interface NewTask {
+  name: string;
+  category: string;
+  sub_category: string;
+  start_date: string | null;
+  end_date: string | null;
+  assignee_id: string | null;
+  status: string;
+  note: string | null;
+  parent_task_id: string | null;
+  kind: TaskKind;
+  progress: number;
+}
+
+/**
+ * Changes for update(): every field is kept when undefined, and the dates,
+ * assignee_id, note and parent_task_id are cleared only by an explicit null
+ */
+export interface TaskChanges {
+  name?: string;
+  category?: string;
+  sub_category?: string;
+  start_date?: string | null;
+  end_date?: string | null;
+  assignee_id?: string | null;
+  status?: string;
+  display_order?: number;
+  note?: string | null;
+  parent_task_id?: string | null;
+  kind?: TaskKind;
+  progress?: number;
+}
+
+export const TaskRepository = {
+  /**
+   * Tasks that are not in the trash, with their events and dependency links,
+   * in category, subcategory and rank order
+   */
+  async list(): Promise<TaskWithRelations[]> {
+    return query<TaskWithRelations>(`
+      SELECT
+        ${taskColumns('t')},
+        COALESCE(
+          (SELECT json_agg(${eventJsonSql('e')} ORDER BY e.due_date)
+           FROM event e
+           WHERE e.task_id = t.id AND e.deleted_at IS NULL),
+          '[]'
+        ) as events,
+        ${linksSql('t', 'successor_id', 'predecessor_id')} as predecessors,
+        ${linksSql('t', 'predecessor_id', 'successor_id')} as successors
+      FROM task t
+      WHERE t.deleted_at IS NULL
+      ORDER BY t.category, t.sub_category, t.rank, t.display_order, t.created_at
+    `);
+  },
+
+  // Task by ID (null when it does not exist or is in the trash)
+  async findById(id: string, client?: PoolClient): Promise<Task | null> {
+    const text = `SELECT ${taskColumns('task')} FROM task WHERE id = $1 AND deleted_at IS NULL`;
+    const rows = client ? (await client.query<Task>(text, [id])).rows : await query<Task>(text, [id]);
+    return rows[0] ?? null;
+  },
+
+  // Parent links of every task that is not in the trash
+  async listHierarchy(client?: PoolClient): Promise<TaskHierarchyRow[]> {
+    const text = 'SELECT id, parent_task_id FROM task WHERE deleted_at IS NULL';
+    return client ? (await client.query<TaskHierarchyRow>(text)).rows : query<TaskHierarchyRow>(text);
+  },
+
+  async hasSubtasks(id: string, client?: PoolClient): Promise<boolean> {
+    const text = 'SELECT id FROM task WHERE parent_task_id = $1 AND deleted_at IS NULL LIMIT 1';
+    const children = client ? (await client.query(text, [id])).rows : await query(text, [id]);
+    return children.length > 0;
+  },
+
+  // Insert a task at the end of its subcategory
+  async create(task: NewTask): Promise<Task> {
+    return withTransaction(async client => {
+      const rank = await getNextRank(client, 'task', [task.category, task.sub_category]);
+      const result = await client.query<Task>(
+        `INSERT INTO task (name, category, sub_category, start_date, end_date, assignee_id, status, rank, note, parent_task_id, kind, progress)
+         VALUES ($1, $2, $3, $4::DATE, $5::DATE, $6, $7, $8, $9, $10, $11, $12)
+         RETURNING ${taskColumns('task')}`,
+        [task.name, task.category, task.sub_category, task.start_date, task.end_date, task.assignee_id, task.status, rank, task.note, task.parent_task_id, task.kind, task.progress]
+      );
+      return result.rows[0];
+    });
+  },
+
+  /**
+   * Update a task while version is current, in one transaction with moving its
+   * subtasks to its category and giving its unassigned events its assignee
+   * (the caller's transaction when client is given)
+   *
+   * Clearing the assignee keeps a hidden one (see assigneeIdSql), which the
+   * task was read without, so that it returns with the member.
+   * Milestones keep a single date as both start and end. Returns null when
+   * the task is gone or version is stale, and the status before the update
+   * for the status history.
+   */
+  async update(
+    id: string,
+    version: number,
+    changes: TaskChanges,
+    client?: PoolClient
+  ): Promise<{ task: Task; previousStatus: string } | null> {
+    // The dates after the update, before a milestone's are made the same
+    const startDate = 'CASE WHEN $16 THEN $4::DATE ELSE start_date END';
+    const endDate = 'CASE WHEN $17 THEN $5::DATE ELSE end_date END';
+
+    const run = async (client: PoolClient) => {
+      // previous_* are read from the snapshot before the update
+      const result = await client.query<Task & { previous_status: string; previous_group: string[] }>(
+        `WITH previous AS (SELECT status, category, sub_category FROM task WHERE id = $10)
+         UPDATE task
+         SET name = COALESCE($1, name),
+             category = COALESCE($2, category),
+             sub_category = COALESCE($3, sub_category),
+             start_date = CASE WHEN COALESCE($13, kind) = 'milestone' THEN COALESCE(${startDate}, ${endDate}) ELSE ${startDate} END,
+             end_date = CASE WHEN COALESCE($13, kind) = 'milestone' THEN COALESCE(${startDate}, ${endDate}) ELSE ${endDate} END,
+             assignee_id = CASE WHEN $18 AND ($6::UUID IS NOT NULL OR ${assigneeShownSql('task')}) THEN $6::UUID ELSE assignee_id END,
+             status = COALESCE($7, status),
+             display_order = COALESCE($8, display_order),
+             note = CASE WHEN $19 THEN $9 ELSE note END,
+             parent_task_id = CASE WHEN $11 THEN $12::UUID ELSE parent_task_id END,
+             kind = COALESCE($13, kind),
+             progress = COALESCE($14, progress),
+             version = version + 1,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $10 AND deleted_at IS NULL AND version = $15
+         RETURNING ${taskColumns('task')},
+                   (SELECT status FROM previous) as previous_status,
+                   (SELECT ARRAY[category, sub_category] FROM previous) as previous_group`,
+        [
+          changes.name, changes.category, changes.sub_category, changes.start_date ?? null, changes.end_date ?? null,
+          changes.assignee_id ?? null, changes.status, changes.display_order, changes.note ?? null, id,
+          changes.parent_task_id !== undefined, changes.parent_task_id ?? null, changes.kind, changes.progress, version,
+          changes.start_date !== undefined, changes.end_date !== undefined, changes.assignee_id !== undefined, changes.note !== undefined,
+        ]
+      );
+      if (result.rows.length === 0) return null;
+      const { previous_status: previousStatus, previous_group: previousGroup, ...task } = result.rows[0];
+
+      // Keep subtasks in the same category and sub_category as their parent
+      const movedIds: string[] = [];
+      const descendantIds = Array.from(getDescendantIds(await TaskRepository.listHierarchy(client), id));
+      if (descendantIds.length > 0) {
+        const moved = await client.query<{ id: string }>(
+          `UPDATE task
+           SET category = $1, sub_category = $2, version = version + 1, updated_at = CURRENT_TIMESTAMP
+           WHERE id = ANY($3::UUID[])
+           AND (category != $1 OR sub_category != $2)
+           RETURNING id`,
+          [task.category, task.sub_category, descendantIds]
+        );
+        movedIds.push(...moved.rows.map(row => row.id));
+      }
+
+      // Tasks that changed category go to the end of their new subcategory
+      if (task.category !== previousGroup[0] || task.sub_category !== previousGroup[1]) {
+        movedIds.unshift(id);
+      }
+      if (movedIds.length > 0) {
+        const ranks = await appendToGroup(client, 'task', [task.category, task.sub_category], movedIds);
+        task.rank = ranks.find(row => row.key === id)?.rank ?? task.rank;
+      }
+
+      // Update child events that have no assignee (as read) to use the task's assignee
+      if (changes.assignee_id) {
+        await client.query(
+          `UPDATE event
+           SET assignee_id = $1, version = version + 1, updated_at = CURRENT_TIMESTAMP
+           WHERE task_id = $2
+           AND deleted_at IS NULL
+           AND (assignee_id IS NULL OR NOT ${assigneeShownSql('event')})`,
+          [changes.assignee_id, id]
+        );
+      }
+
+      return { task, previousStatus };
+    };
+    return client ? run(client) : withTransaction(run);
+  },
+
+  // Milestones dated in [from, to) that are not finished, for the daily report
+  async listUpcomingMilestones(from: string, to: string): Promise<(Task & { start_date: string })[]> {
+    return query<Task & { start_date: string }>(
+      `SELECT ${taskColumns('task')}
+       FROM task
+       WHERE kind = 'milestone'
+       AND deleted_at IS NULL
+       AND start_date >= $1
+       AND start_date < $2
+       AND status NOT IN ('Done', 'IceBox')
+       ORDER BY start_date ASC`,
+      [from, to]
+    );
+  },
+
+  // A member's started tasks that are not finished, for the daily report
+  async listStartedForAssignee(memberId: string): Promise<Task[]> {
+    return query<Task>(
+      `SELECT ${taskColumns('task')}
+       FROM task
+       WHERE assignee_id = $1
+       AND deleted_at IS NULL
+       AND start_date < CURRENT_TIMESTAMP
+       AND status NOT IN ('Done', 'IceBox')
+       ORDER BY start_date ASC`,
+      [memberId]
+    );
+  },
+};
@@ -0,0 +1,38 @@
+/**
+ * Trash - shared types for soft-deleted tasks, events and members
+ *
+ * Deleting a task, event or member only sets its deleted_at; trashed rows are
+ * hidden from every list and can be restored until they are purged, either
+ * by hand from the trash page or by the daily cron once they are older than
+ * TRASH_RETENTION_DAYS. Trashing a task also trashes its subtasks and their
+ * events with the same deleted_at, so restoring it brings them all back.
+ */
+
+export type TrashEntityType = 'task' | 'event' | 'member';
+
+export const TRASH_ENTITY_TYPES: TrashEntityType[] = ['task', 'event', 'member'];
+
+export const TRASH_ENTITY_LABELS: Record<TrashEntityType, string> = {
+  task: 'タスク',
+  event: 'イベント',
+  member: 'メンバー',
+};
+
+// Days a trashed row is kept before the cron purges it
+export const TRASH_RETENTION_DAYS = 30;
+
+export function isTrashEntityType(value: unknown): value is TrashEntityType {
+  return TRASH_ENTITY_TYPES.includes(value as TrashEntityType);
+}
+
+// Trashed row as listed by GET /api/trash
+export interface TrashItem {
+  entity_type: TrashEntityType;
+  id: string;
+  name: string;
+  // Category / parent task for context (null for members)
+  detail: string | null;
+  // Set when the row was trashed together with this task and is restored with it
+  trashed_with_task_id: string | null;
+  deleted_at: string;
+}
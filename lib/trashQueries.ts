@@ -0,0 +1,202 @@
+/**
+ * Trash Queries - soft delete, restore and purge tasks, events and members
+ *
+ * Rows trashed together share the same deleted_at, which is how a restore
+ * finds the subtasks and events that belong to a trashed task.
+ */
+
+import type { PoolClient } from 'pg';
+import { query, withTransaction } from './db';
+import { getDescendantIds, HierarchicalTask } from './taskHierarchy';
+import { TrashEntityType, TrashItem } from './trash';
+
+export type RestoreResult = { restored: true } | { error: string; status: number };
+
+export interface PurgeCounts {
+  tasks: number;
+  events: number;
+  members: number;
+}
+
+/**
+ * Trash a task together with its subtasks and all of their events
+ *
+ * Returns false when the task does not exist or is already in the trash.
+ */
+export async function trashTask(id: string): Promise<boolean> {
+  return withTransaction(async client => {
+    const hierarchy = await client.query<Pick<HierarchicalTask, 'id' | 'parent_task_id'>>(
+      'SELECT id, parent_task_id FROM task WHERE deleted_at IS NULL'
+    );
+    if (!hierarchy.rows.some(task => task.id === id)) return false;
+
+    const taskIds = [id, ...Array.from(getDescendantIds(hierarchy.rows, id))];
+    await client.query(
+      `UPDATE task
+       SET deleted_at = CURRENT_TIMESTAMP
+       WHERE id = ANY($1::UUID[]) AND deleted_at IS NULL`,
+      [taskIds]
+    );
+    await client.query(
+      `UPDATE event
+       SET deleted_at = (SELECT deleted_at FROM task WHERE id = $2)
+       WHERE task_id = ANY($1::UUID[]) AND deleted_at IS NULL`,
+      [taskIds, id]
+    );
+    return true;
+  });
+}
+
+/**
+ * Restore a task with the subtasks and events that were trashed with it
+ *
+ * The restores run in the caller's transaction, so that the route can write
+ * the audit entry in the same one.
+ */
+export async function restoreTask(client: PoolClient, id: string): Promise<RestoreResult> {
+  const { rows: tasks } = await client.query<{ id: string; parent_task_id: string | null; deleted_at: string | null }>(
+    'SELECT id, parent_task_id, deleted_at FROM task'
+  );
+  const task = tasks.find(t => t.id === id);
+  if (!task || !task.deleted_at) {
+    return { error: 'Task not found in trash', status: 404 };
+  }
+
+  const parent = tasks.find(t => t.id === task.parent_task_id);
+  if (parent?.deleted_at) {
+    return { error: '親タスクがゴミ箱にあるため復元できません。先に親タスクを復元してください', status: 409 };
+  }
+
+  const taskIds = [id, ...Array.from(getDescendantIds(tasks, id))];
+  // Events first, while the task still carries the shared deleted_at
+  await client.query(
+    `UPDATE event
+     SET deleted_at = NULL
+     WHERE task_id = ANY($1::UUID[])
+     AND deleted_at = (SELECT deleted_at FROM task WHERE id = $2)`,
+    [taskIds, id]
+  );
+  await client.query(
+    `UPDATE task
+     SET deleted_at = NULL
+     WHERE id = ANY($1::UUID[])
+     AND deleted_at = (SELECT deleted_at FROM task WHERE id = $2)`,
+    [taskIds, id]
+  );
+  return { restored: true };
+}
+
+/**
+ * Trash an event or member (returns false when not found or already trashed)
+ */
+export async function trashRow(table: 'event' | 'member', id: string): Promise<boolean> {
+  const result = await query(
+    `UPDATE "${table}" SET deleted_at = CURRENT_TIMESTAMP WHERE id = $1 AND deleted_at IS NULL RETURNING id`,
+    [id]
+  );
+  return result.length > 0;
+}
+
+/**
+ * Restore a trashed event (only while its task is not in the trash)
+ */
+export async function restoreEvent(client: PoolClient, id: string): Promise<RestoreResult> {
+  const { rows: events } = await client.query<{ deleted_at: string | null; task_deleted_at: string | null }>(
+    `SELECT e.deleted_at, t.deleted_at as task_deleted_at
+     FROM event e
+     JOIN task t ON t.id = e.task_id
+     WHERE e.id = $1`,
+    [id]
+  );
+  if (events.length === 0 || !events[0].deleted_at) {
+    return { error: 'Event not found in trash', status: 404 };
+  }
+  if (events[0].task_deleted_at) {
+    return { error: 'タスクがゴミ箱にあるため復元できません。先にタスクを復元してください', status: 409 };
+  }
+
+  await client.query('UPDATE event SET deleted_at = NULL WHERE id = $1', [id]);
+  return { restored: true };
+}
+
+/**
+ * Restore a trashed member
+ */
+export async function restoreMember(client: PoolClient, id: string): Promise<RestoreResult> {
+  const result = await client.query(
+    'UPDATE member SET deleted_at = NULL WHERE id = $1 AND deleted_at IS NOT NULL RETURNING id',
+    [id]
+  );
+  if (result.rows.length === 0) {
+    return { error: 'Member not found in trash', status: 404 };
+  }
+  return { restored: true };
+}
+
+/**
+ * Permanently delete a trashed row (a task takes its subtasks and events with it)
+ *
+ * Returns false when the row is not in the trash.
+ */
+export async function purgeTrashItem(entityType: TrashEntityType, id: string): Promise<boolean> {
+  const result = await query(
+    `DELETE FROM "${entityType}" WHERE id = $1 AND deleted_at IS NOT NULL RETURNING id`,
+    [id]
+  );
+  return result.length > 0;
+}
+
+/**
+ * Permanently delete every row that has been in the trash longer than retentionDays
+ */
+export async function purgeExpiredTrash(retentionDays: number): Promise<PurgeCounts> {
+  const purge = (table: TrashEntityType) =>
+    query(
+      `DELETE FROM "${table}"
+       WHERE deleted_at < CURRENT_TIMESTAMP - ($1::INT * INTERVAL '1 day')
+       RETURNING id`,
+      [retentionDays]
+    );
+
+  // Events first so that the counts are not hidden by the task cascade
+  const events = await purge('event');
+  const tasks = await purge('task');
+  const members = await purge('member');
+
+  return { tasks: tasks.length, events: events.length, members: members.length };
+}
+
+/**
+ * Everything in the trash, most recently trashed first
+ */
+export async function getTrashItems(): Promise<TrashItem[]> {
+  const [tasks, events, members] = await Promise.all([
+    query<TrashItem>(
+      `SELECT 'task' as entity_type, t.id, t.name,
+              t.category || ' / ' || t.sub_category as detail,
+              CASE WHEN p.deleted_at = t.deleted_at THEN p.id END as trashed_with_task_id,
+              t.deleted_at
+       FROM task t
+       LEFT JOIN task p ON p.id = t.parent_task_id
+       WHERE t.deleted_at IS NOT NULL`
+    ),
+    query<TrashItem>(
+      `SELECT 'event' as entity_type, e.id, e.name,
+              t.name as detail,
+              CASE WHEN t.deleted_at = e.deleted_at THEN t.id END as trashed_with_task_id,
+              e.deleted_at
+       FROM event e
+       JOIN task t ON t.id = e.task_id
+       WHERE e.deleted_at IS NOT NULL`
+    ),
+    query<TrashItem>(
+      `SELECT 'member' as entity_type, id, name, email as detail, NULL as trashed_with_task_id, deleted_at
+       FROM member
+       WHERE deleted_at IS NOT NULL`
+    ),
+  ]);
+
+  return [...tasks, ...events, ...members].sort(
+    (a, b) => new Date(b.deleted_at).getTime() - new Date(a.deleted_at).getTime()
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * Undo History - client-side undo/redo stack for task edits
+ *
+ * Every undoable edit is recorded as a command that knows how to reverse and
+ * re-apply itself, usually through the API (a PUT with the previous field
+ * values, or a restore from the trash for a delete). Commands run one at a
+ * time, and a command that fails stays where it was so it can be retried.
+ * Ctrl+Z (Cmd+Z) undoes and Ctrl+Shift+Z / Ctrl+Y redoes, except while
+ * typing in a form field, where the browser's own text undo applies.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+
+export interface UndoableCommand {
+  // Shown in the undo/redo button tooltips, e.g. "タスクの削除 (3件)"
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  // Reload the view after undo/redo, whether or not it succeeded
+  refresh?: () => void;
+}
+
+// Oldest commands are dropped beyond this many
+export const UNDO_HISTORY_LIMIT = 50;
+
+interface UndoStacks {
+  undo: UndoableCommand[];
+  redo: UndoableCommand[];
+}
+
+const isTextInput = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * Undo/redo stacks with keyboard shortcuts (disabled while `enabled` is false,
+ * e.g. while a modal form is open)
+ */
+export function useUndoHistory(enabled = true, limit = UNDO_HISTORY_LIMIT) {
+  const [stacks, setStacks] = useState<UndoStacks>({ undo: [], redo: [] });
+  const [isRunning, setIsRunning] = useState(false);
+  const isRunningRef = useRef(false);
+
+  const record = (command: UndoableCommand) => {
+    setStacks(prev => ({ undo: [...prev.undo, command].slice(-limit), redo: [] }));
+  };
+
+  const run = async (direction: 'undo' | 'redo') => {
+    const stack = stacks[direction];
+    const command = stack[stack.length - 1];
+    if (!command || isRunningRef.current) return;
+
+    isRunningRef.current = true;
+    setIsRunning(true);
+    try {
+      await command[direction]();
+      setStacks(prev => direction === 'undo'
+        ? { undo: prev.undo.filter(c => c !== command), redo: [...prev.redo, command] }
+        : { undo: [...prev.undo, command].slice(-limit), redo: prev.redo.filter(c => c !== command) });
+    } catch (error) {
+      console.error(`Failed to ${direction} "${command.label}":`, error);
+      alert(
+        `${direction === 'undo' ? '元に戻す' : 'やり直し'}に失敗しました: ${
+          error instanceof Error ? error.message : command.label
+        }`
+      );
+    } finally {
+      isRunningRef.current = false;
+      setIsRunning(false);
+      command.refresh?.();
+    }
+  };
+
+  // The keyboard listener is registered once and always calls the latest run()
+  const runRef = useRef(run);
+  useEffect(() => {
+    runRef.current = run;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        runRef.current('undo');
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        runRef.current('redo');
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+
+  return {
+    record,
+    undo: () => run('undo'),
+    redo: () => run('redo'),
+    isRunning,
+    undoLabel: stacks.undo[stacks.undo.length - 1]?.label ?? null,
+    redoLabel: stacks.redo[stacks.redo.length - 1]?.label ?? null,
+  };
+}
@@ -0,0 +1,270 @@
+/**
+ * Validation - declarative schemas for request bodies and form values
+ *
+ * A schema checks a value and returns it normalized (dates cut to YYYY-MM-DD,
+ * '' turned into null for nullable fields), or every problem found, each with
+ * the path of the field and a Japanese message for the user. The same schemas
+ * (lib/schemas.ts) are checked by the API routes and by the forms before they
+ * submit.
+ */
+
+export interface FieldError {
+  // Dotted path of the field, e.g. "tasks.開発::API.2" ('' for the whole body)
+  path: string;
+  message: string;
+}
+
+export type ParseResult<T> = { value: T } | { errors: FieldError[] };
+
+export interface Schema<T> {
+  parse(value: unknown, path: string): ParseResult<T>;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export type ValidationResult<T> = { value: T } | { error: string; errors: FieldError[]; status: number };
+
+const fail = (path: string, message: string): { errors: FieldError[] } => ({ errors: [{ path, message }] });
+
+const joinPath = (path: string, key: string | number) => (path ? `${path}.${key}` : String(key));
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === '';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// A date, optionally with a time that is dropped (e.g. from toISOString())
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:T.*)?$/;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Check a value against a schema
+ *
+ * The failure carries the first message as `error` (what the forms show) and
+ * all of them as `errors`, with status 400 for the API response.
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  const result = schema.parse(value, '');
+  if ('errors' in result) {
+    return { error: result.errors[0].message, errors: result.errors, status: 400 };
+  }
+  return result;
+}
+
+// Field errors by path, for showing each message next to its input
+export function getFieldErrors(errors: FieldError[]): Record<string, string> {
+  const byPath: Record<string, string> = {};
+  errors.forEach(({ path, message }) => {
+    byPath[path] ??= message;
+  });
+  return byPath;
+}
+
+/**
+ * A value that may be left out (undefined passes as undefined)
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    parse: (value, path) => (value === undefined ? { value: undefined } : schema.parse(value, path)),
+  };
+}
+
+/**
+ * A value that may be cleared: null and '' become null
+ */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    parse: (value, path) => (value === null || value === '' ? { value: null } : schema.parse(value, path)),
+  };
+}
+
+/**
+ * A non-empty string, at most maxLength characters
+ */
+export function string(label: string, options: { maxLength?: number } = {}): Schema<string> {
+  return {
+    parse(value, path) {
+      if (isMissing(value)) return fail(path, `${label}は必須です`);
+      if (typeof value !== 'string') return fail(path, `${label}は文字列で入力してください`);
+      if (!value.trim()) return fail(path, `${label}は必須です`);
+      if (options.maxLength !== undefined && value.length > options.maxLength) {
+        return fail(path, `${label}は${options.maxLength}文字以内で入力してください`);
+      }
+      return { value };
+    },
+  };
+}
+
+export function email(label: string, options: { maxLength?: number } = {}): Schema<string> {
+  const base = string(label, options);
+  return {
+    parse(value, path) {
+      const result = base.parse(value, path);
+      if ('value' in result && !EMAIL_PATTERN.test(result.value)) {
+        return fail(path, `${label}の形式が正しくありません`);
+      }
+      return result;
+    },
+  };
+}
+
+export function uuid(label: string): Schema<string> {
+  return {
+    parse(value, path) {
+      if (isMissing(value)) return fail(path, `${label}は必須です`);
+      if (typeof value !== 'string' || !UUID_PATTERN.test(value)) return fail(path, `${label}の形式が正しくありません`);
+      return { value };
+    },
+  };
+}
+
+/**
+ * A calendar date as YYYY-MM-DD (a time part is accepted and dropped)
+ */
+export function date(label: string): Schema<string> {
+  return {
+    parse(value, path) {
+      if (isMissing(value)) return fail(path, `${label}は必須です`);
+      const match = typeof value === 'string' ? DATE_PATTERN.exec(value) : null;
+      if (!match) return fail(path, `${label}はYYYY-MM-DD形式の日付で入力してください`);
+
+      // Reject dates that do not exist, such as 2025-02-30
+      const [, year, month, day] = match.map(Number);
+      const parsed = new Date(Date.UTC(year, month - 1, day));
+      if (parsed.getUTCFullYear() !== year || parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) {
+        return fail(path, `${label}に存在しない日付が指定されています`);
+      }
+      return { value: (value as string).slice(0, 10) };
+    },
+  };
+}
+
+export function integer(label: string, options: { min?: number; max?: number } = {}): Schema<number> {
+  const { min, max } = options;
+  const message =
+    min !== undefined && max !== undefined
+      ? `${label}は${min}〜${max}の整数で入力してください`
+      : min !== undefined
+        ? `${label}は${min}以上の整数で入力してください`
+        : `${label}は整数で入力してください`;
+
+  return {
+    parse(value, path) {
+      if (isMissing(value)) return fail(path, `${label}は必須です`);
+      if (!Number.isInteger(value)) return fail(path, message);
+      const number = value as number;
+      if ((min !== undefined && number < min) || (max !== undefined && number > max)) return fail(path, message);
+      return { value: number };
+    },
+  };
+}
+
+export function boolean(label: string): Schema<boolean> {
+  return {
+    parse(value, path) {
+      if (value === undefined || value === null) return fail(path, `${label}は必須です`);
+      if (typeof value !== 'boolean') return fail(path, `${label}はtrueまたはfalseで指定してください`);
+      return { value };
+    },
+  };
+}
+
+/**
+ * One of a fixed set of strings
+ */
+export function oneOf<T extends string>(label: string, values: readonly T[]): Schema<T> {
+  return {
+    parse(value, path) {
+      if (isMissing(value)) return fail(path, `${label}は必須です`);
+      if (!values.includes(value as T)) return fail(path, `${label}は${values.join('、')}のいずれかを指定してください`);
+      return { value: value as T };
+    },
+  };
+}
+
+/**
+ * An array of items, optionally without duplicates
+ */
+export function array<T>(label: string, item: Schema<T>, options: { unique?: boolean } = {}): Schema<T[]> {
+  return {
+    parse(value, path) {
+      if (!Array.isArray(value)) return fail(path, `${label}は配列で指定してください`);
+
+      const errors: FieldError[] = [];
+      const items: T[] = [];
+      value.forEach((element, index) => {
+        const result = item.parse(element, joinPath(path, index));
+        if ('errors' in result) errors.push(...result.errors);
+        else items.push(result.value);
+      });
+      if (errors.length > 0) return { errors };
+
+      if (options.unique && new Set(items).size !== items.length) return fail(path, `${label}に重複があります`);
+      return { value: items };
+    },
+  };
+}
+
+/**
+ * An object with arbitrary keys and values of one schema
+ */
+export function record<T>(label: string, item: Schema<T>): Schema<Record<string, T>> {
+  return {
+    parse(value, path) {
+      if (!isPlainObject(value)) return fail(path, `${label}の形式が正しくありません`);
+
+      const errors: FieldError[] = [];
+      const entries: Record<string, T> = {};
+      Object.entries(value).forEach(([key, element]) => {
+        const result = item.parse(element, joinPath(path, key));
+        if ('errors' in result) errors.push(...result.errors);
+        else entries[key] = result.value;
+      });
+      return errors.length > 0 ? { errors } : { value: entries };
+    },
+  };
+}
+
+/**
+ * An object with the fields of shape
+ *
+ * Fields outside the shape are dropped. A field that was left out stays left
+ * out, so `'key' in value` still tells an omitted field from a cleared one.
+ */
+export function object<S extends Record<string, Schema<unknown>>>(
+  shape: S,
+  label = 'リクエスト'
+): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return {
+    parse(value, path) {
+      if (!isPlainObject(value)) return fail(path, `${label}の形式が正しくありません`);
+
+      const errors: FieldError[] = [];
+      const fields: Record<string, unknown> = {};
+      Object.entries(shape).forEach(([key, schema]) => {
+        const result = schema.parse(value[key], joinPath(path, key));
+        if ('errors' in result) errors.push(...result.errors);
+        else if (key in value) fields[key] = result.value;
+      });
+      return errors.length > 0 ? { errors } : { value: fields as { [K in keyof S]: Infer<S[K]> } };
+    },
+  };
+}
+
+/**
+ * A schema with an extra check across its fields, run once the fields are valid
+ */
+export function refine<T>(schema: Schema<T>, check: (value: T) => FieldError[]): Schema<T> {
+  return {
+    parse(value, path) {
+      const result = schema.parse(value, path);
+      if ('errors' in result) return result;
+
+      const errors = check(result.value).map(error => ({ ...error, path: error.path ? joinPath(path, error.path) : path }));
+      return errors.length > 0 ? { errors } : result;
+    },
+  };
+}
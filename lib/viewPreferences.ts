@@ -0,0 +1,254 @@
+/**
+ * View Preferences - per-account view settings with a shared team default
+ *
+ * Expanded/collapsed state, the Gantt scroll position, the list column
+ * order and a user's own display order are read and written synchronously
+ * through a PreferenceBackend. The localStorage backend keeps them in this
+ * browser only. The server backend holds them in memory, loaded once from
+ * GET /api/preferences (the team default overlaid with the account's own
+ * values), and writes changes back to PUT /api/preferences in the
+ * background, mirroring them to localStorage. localStorage is used until
+ * loadServerPreferences() installs the server backend. The team's display
+ * order is not a preference: it is the shared ranks on the server
+ * (lib/taskOrderStorage.ts).
+ *
+ * Values are stored per Basic auth account. Only personal accounts
+ * (BASIC_AUTH_USERS) get settings of their own: everyone signed in with the
+ * shared account reads and writes the same values (isSharedAccount()).
+ */
+
+export const PREFERENCES_URL = '/api/preferences';
+
+// Changes made within this window are sent to the server together
+export const PREFERENCE_SAVE_DELAY_MS = 1000;
+
+// Keys double as the localStorage keys used before preferences moved to the server
+export const VIEW_PREFERENCE_KEYS = [
+  'gantt_personal_order',
+  'gantt_task_order',
+  'gantt_category_order',
+  'gantt_subcategory_order',
+  'gantt_expanded_categories',
+  'gantt_expanded_subcategories',
+  'gantt_collapsed_tasks',
+  'gantt_progress_source',
+  'gantt_scroll_position',
+  'task_list_column_order',
+] as const;
+
+export type ViewPreferenceKey = (typeof VIEW_PREFERENCE_KEYS)[number];
+
+// Settings of the Gantt chart (reset together from the chart)
+export const GANTT_PREFERENCE_KEYS: ViewPreferenceKey[] = VIEW_PREFERENCE_KEYS.filter(key => key.startsWith('gantt_'));
+
+export type PreferenceScope = 'user' | 'team';
+
+export type ViewPreferences = Partial<Record<ViewPreferenceKey, unknown>>;
+
+export function isViewPreferenceKey(value: unknown): value is ViewPreferenceKey {
+  return typeof value === 'string' && (VIEW_PREFERENCE_KEYS as readonly string[]).includes(value);
+}
+
+export function isPreferenceScope(value: unknown): value is PreferenceScope {
+  return value === 'user' || value === 'team';
+}
+
+export interface PreferenceBackend {
+  // Stored value, or undefined when there is none
+  load(key: ViewPreferenceKey): unknown;
+  save(key: ViewPreferenceKey, value: unknown): void;
+  remove(key: ViewPreferenceKey): void;
+  // Send changes that are still waiting to be saved
+  flush?(): Promise<void>;
+}
+
+/**
+ * Preferences kept in this browser only
+ */
+export const localStoragePreferenceBackend: PreferenceBackend = {
+  load(key) {
+    if (typeof window === 'undefined') return undefined;
+
+    const stored = localStorage.getItem(key);
+    if (stored === null) return undefined;
+    try {
+      return JSON.parse(stored);
+    } catch {
+      // Older plain-string values (e.g. the progress source)
+      return stored;
+    }
+  },
+
+  save(key, value) {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.error(`Failed to save ${key} to localStorage:`, error);
+    }
+  },
+
+  remove(key) {
+    if (typeof window === 'undefined') return;
+    localStorage.removeItem(key);
+  },
+};
+
+/**
+ * Preferences of the signed-in user, saved on the server
+ *
+ * Values not stored on the server yet (first use after the move from
+ * localStorage) are taken from localStorage and uploaded.
+ */
+export function createServerPreferenceBackend(initial: ViewPreferences): PreferenceBackend {
+  const values: ViewPreferences = { ...initial };
+  // null removes the user's value (the team default applies again)
+  let pending: Record<string, unknown> = {};
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = async () => {
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = null;
+    if (Object.keys(pending).length === 0) return;
+
+    const changes = pending;
+    pending = {};
+    try {
+      const response = await fetch(PREFERENCES_URL, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ values: changes }),
+        keepalive: true,
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to save preferences');
+      }
+    } catch (error) {
+      console.error('Failed to save preferences to the server:', error);
+    }
+  };
+
+  const queue = (key: ViewPreferenceKey, value: unknown) => {
+    pending[key] = value;
+    if (!saveTimer) saveTimer = setTimeout(flush, PREFERENCE_SAVE_DELAY_MS);
+  };
+
+  VIEW_PREFERENCE_KEYS.forEach(key => {
+    if (key in values) return;
+    const localValue = localStoragePreferenceBackend.load(key);
+    if (localValue !== undefined) {
+      values[key] = localValue;
+      queue(key, localValue);
+    }
+  });
+
+  return {
+    load(key) {
+      return values[key];
+    },
+
+    save(key, value) {
+      values[key] = value;
+      localStoragePreferenceBackend.save(key, value);
+      queue(key, value);
+    },
+
+    remove(key) {
+      delete values[key];
+      localStoragePreferenceBackend.remove(key);
+      queue(key, null);
+    },
+
+    flush,
+  };
+}
+
+let backend: PreferenceBackend = localStoragePreferenceBackend;
+// Whether the server reported the shared account (its settings are everyone's)
+let sharedAccount = false;
+
+export function getPreferenceBackend(): PreferenceBackend {
+  return backend;
+}
+
+export function setPreferenceBackend(next: PreferenceBackend): void {
+  backend = next;
+}
+
+/**
+ * Whether the settings saved on the server are shared by everyone using this account
+ */
+export function isSharedAccount(): boolean {
+  return sharedAccount;
+}
+
+/**
+ * Stored value of a preference, or the fallback when there is none
+ */
+export function loadPreference<T>(key: ViewPreferenceKey, fallback: T): T {
+  const value = backend.load(key);
+  return value === undefined || value === null ? fallback : (value as T);
+}
+
+export function savePreference(key: ViewPreferenceKey, value: unknown): void {
+  backend.save(key, value);
+}
+
+/**
+ * Load the user's preferences from the server and switch to the server backend
+ *
+ * Keeps using localStorage when the server cannot be reached.
+ */
+export async function loadServerPreferences(): Promise<void> {
+  try {
+    const response = await fetch(PREFERENCES_URL);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to fetch preferences');
+    }
+
+    // Server values win over what this browser cached
+    Object.entries(data.preferences as ViewPreferences).forEach(([key, value]) => {
+      if (isViewPreferenceKey(key)) localStoragePreferenceBackend.save(key, value);
+    });
+    sharedAccount = data.personal === false;
+    setPreferenceBackend(createServerPreferenceBackend(data.preferences));
+  } catch (error) {
+    console.error('Failed to load preferences from the server:', error);
+  }
+}
+
+/**
+ * Publish the given preferences as the team default
+ */
+export async function saveTeamPreferences(keys: ViewPreferenceKey[]): Promise<void> {
+  const values = Object.fromEntries(keys.map(key => [key, backend.load(key) ?? null]));
+  const response = await fetch(`${PREFERENCES_URL}?scope=team`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ values }),
+  });
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || 'チーム既定の保存に失敗しました');
+  }
+}
+
+/**
+ * Drop the user's own values for the given keys and reload, so the team default applies
+ */
+export async function resetUserPreferences(keys: ViewPreferenceKey[]): Promise<void> {
+  await backend.flush?.();
+
+  const params = new URLSearchParams(keys.map(key => ['key', key]));
+  const response = await fetch(`${PREFERENCES_URL}?${params}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || '表示設定のリセットに失敗しました');
+  }
+
+  keys.forEach(key => localStoragePreferenceBackend.remove(key));
+  await loadServerPreferences();
+}
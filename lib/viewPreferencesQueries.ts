@@ -0,0 +1,67 @@
+/**
+ * View Preferences Queries - read and write stored view preferences
+ *
+ * Each row holds one preference key of one owner (the signed-in account);
+ * team default rows are stored with an empty owner.
+ */
+
+import { query, withTransaction } from './db';
+import { PreferenceScope, ViewPreferenceKey, ViewPreferences } from './viewPreferences';
+
+const TEAM_OWNER = '';
+
+const toPreferences = (rows: { pref_key: string; value: unknown }[]): ViewPreferences =>
+  Object.fromEntries(rows.map(row => [row.pref_key, row.value]));
+
+/**
+ * Stored values of one scope (the owner is ignored for the team default)
+ */
+export async function getViewPreferences(scope: PreferenceScope, owner: string): Promise<ViewPreferences> {
+  const rows = await query<{ pref_key: string; value: unknown }>(
+    'SELECT pref_key, value FROM view_preference WHERE scope = $1 AND owner = $2',
+    [scope, scope === 'team' ? TEAM_OWNER : owner]
+  );
+  return toPreferences(rows);
+}
+
+/**
+ * Store values of one scope; a null value removes the stored value
+ */
+export async function saveViewPreferences(
+  scope: PreferenceScope,
+  owner: string,
+  values: Partial<Record<ViewPreferenceKey, unknown>>
+): Promise<void> {
+  const rowOwner = scope === 'team' ? TEAM_OWNER : owner;
+
+  // All values of one save are stored, or none
+  await withTransaction(async client => {
+    for (const [key, value] of Object.entries(values)) {
+      if (value === null || value === undefined) {
+        await client.query(
+          'DELETE FROM view_preference WHERE scope = $1 AND owner = $2 AND pref_key = $3',
+          [scope, rowOwner, key]
+        );
+        continue;
+      }
+
+      await client.query(
+        `INSERT INTO view_preference (scope, owner, pref_key, value)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (scope, owner, pref_key)
+         DO UPDATE SET value = $4, updated_at = CURRENT_TIMESTAMP`,
+        [scope, rowOwner, key, JSON.stringify(value)]
+      );
+    }
+  });
+}
+
+/**
+ * Remove the user's own values for the given keys
+ */
+export async function deleteUserViewPreferences(owner: string, keys: ViewPreferenceKey[]): Promise<void> {
+  await query(
+    `DELETE FROM view_preference WHERE scope = 'user' AND owner = $1 AND pref_key = ANY($2::STRING[])`,
+    [owner, keys]
+  );
+}
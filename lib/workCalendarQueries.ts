@@ -0,0 +1,74 @@
+/**
+ * Work Calendar Queries - load working calendars from the database
+ *
+ * Reads work_calendar and non_working_day and turns them into the
+ * WorkingCalendar that working-day counts are made with.
+ */
+
+import { query } from './db';
+import {
+  CustomNonWorkingDay,
+  WorkCalendarSettings,
+  WorkingCalendar,
+  createWorkingCalendar,
+} from './workingCalendar';
+
+const CALENDAR_SELECT = `
+  SELECT
+    c.id,
+    c.name,
+    c.is_default,
+    c.include_japanese_holidays,
+    COALESCE(
+      (SELECT json_agg(r.day_of_week ORDER BY r.day_of_week)
+       FROM work_calendar_weekend_rule r
+       WHERE r.calendar_id = c.id),
+      '[]'
+    ) as weekend_days
+  FROM work_calendar c`;
+
+/**
+ * Fetch all calendars, default calendar first
+ */
+export async function getWorkCalendars(): Promise<WorkCalendarSettings[]> {
+  return query<WorkCalendarSettings>(`${CALENDAR_SELECT} ORDER BY c.is_default DESC, c.name`);
+}
+
+/**
+ * Fetch a calendar by ID, or the default calendar when no ID is given
+ */
+export async function getWorkCalendar(calendarId?: string | null): Promise<WorkCalendarSettings | null> {
+  const rows = calendarId
+    ? await query<WorkCalendarSettings>(`${CALENDAR_SELECT} WHERE c.id = $1`, [calendarId])
+    : await query<WorkCalendarSettings>(`${CALENDAR_SELECT} ORDER BY c.is_default DESC, c.created_at LIMIT 1`);
+  return rows[0] || null;
+}
+
+/**
+ * Fetch custom non-working days of a calendar
+ */
+export async function getCustomNonWorkingDays(calendarId: string): Promise<CustomNonWorkingDay[]> {
+  return query<CustomNonWorkingDay>(
+    `SELECT id, calendar_id, date::DATE::TEXT as date, name
+     FROM non_working_day
+     WHERE calendar_id = $1
+     ORDER BY date`,
+    [calendarId]
+  );
+}
+
+/**
+ * Load a calendar with its custom days, ready for working-day calculations
+ *
+ * Falls back to Saturday/Sunday weekends with Japanese holidays when no
+ * calendar has been set up yet.
+ */
+export async function loadWorkingCalendar(calendarId?: string | null): Promise<WorkingCalendar> {
+  const settings = await getWorkCalendar(calendarId);
+  if (!settings) {
+    return createWorkingCalendar({ include_japanese_holidays: true, weekend_days: [0, 6] });
+  }
+
+  const customDays = await getCustomNonWorkingDays(settings.id);
+  return createWorkingCalendar(settings, customDays);
+}
@@ -0,0 +1,136 @@
+/**
+ * Working Calendar - business-day rules shared by the API and the Gantt chart
+ *
+ * A calendar combines weekly weekend rules, optional Japanese national holidays
+ * and custom non-working days (company holidays etc.). Dates are handled as
+ * whole days (YYYY-MM-DD), the same as lib/scheduling.ts.
+ */
+
+import { dayOfWeek, getJapaneseHolidays } from './japaneseHolidays';
+import { fromDayNumber, toDayNumber } from './scheduling';
+
+export const DAY_OF_WEEK_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+// Calendar settings as returned by GET /api/calendar
+export interface WorkCalendarSettings {
+  id: string;
+  name: string;
+  is_default: boolean;
+  include_japanese_holidays: boolean;
+  weekend_days: number[]; // 0 = Sunday ... 6 = Saturday
+}
+
+// Row shape of the non_working_day table
+export interface CustomNonWorkingDay {
+  id: string;
+  calendar_id: string;
+  date: string;
+  name: string;
+}
+
+export interface NonWorkingDay {
+  date: string;
+  name: string;
+  source: 'holiday' | 'custom';
+}
+
+export interface WorkingCalendar {
+  isWorkingDay: (date: string) => boolean;
+  // Holiday/custom name, '休日' for weekends, or null on working days
+  getNonWorkingLabel: (date: string) => string | null;
+  // Holidays and custom days in [from, to] (weekends are not listed)
+  listNonWorkingDays: (from: string, to: string) => NonWorkingDay[];
+  // Working days in [start, end], both inclusive
+  countWorkingDays: (start: string, end: string) => number;
+}
+
+/**
+ * Format a local Date as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Build a working calendar from its settings and custom non-working days
+ */
+export function createWorkingCalendar(
+  settings: Pick<WorkCalendarSettings, 'include_japanese_holidays' | 'weekend_days'>,
+  customDays: Pick<CustomNonWorkingDay, 'date' | 'name'>[] = []
+): WorkingCalendar {
+  const weekendDays = new Set(settings.weekend_days);
+  const customByDay = new Map(customDays.map(day => [toDayNumber(day.date), day.name]));
+
+  // Holidays are generated lazily per year and cached
+  const holidaysByYear = new Map<number, Map<number, string>>();
+  const getHolidayName = (dayNumber: number): string | undefined => {
+    if (!settings.include_japanese_holidays) return undefined;
+    const year = new Date(dayNumber * 24 * 60 * 60 * 1000).getUTCFullYear();
+    if (!holidaysByYear.has(year)) {
+      holidaysByYear.set(
+        year,
+        new Map(getJapaneseHolidays(year).map(holiday => [toDayNumber(holiday.date), holiday.name]))
+      );
+    }
+    return holidaysByYear.get(year)!.get(dayNumber);
+  };
+
+  const labelForDay = (dayNumber: number): string | null => {
+    const custom = customByDay.get(dayNumber);
+    if (custom !== undefined) return custom;
+    const holiday = getHolidayName(dayNumber);
+    if (holiday !== undefined) return holiday;
+    return weekendDays.has(dayOfWeek(dayNumber)) ? '休日' : null;
+  };
+
+  return {
+    isWorkingDay: (date) => labelForDay(toDayNumber(date)) === null,
+
+    getNonWorkingLabel: (date) => labelForDay(toDayNumber(date)),
+
+    listNonWorkingDays: (from, to) => {
+      const days: NonWorkingDay[] = [];
+      for (let day = toDayNumber(from); day <= toDayNumber(to); day++) {
+        const custom = customByDay.get(day);
+        if (custom !== undefined) {
+          days.push({ date: fromDayNumber(day), name: custom, source: 'custom' });
+          continue;
+        }
+        const holiday = getHolidayName(day);
+        if (holiday !== undefined) {
+          days.push({ date: fromDayNumber(day), name: holiday, source: 'holiday' });
+        }
+      }
+      return days;
+    },
+
+    countWorkingDays: (start, end) => {
+      let count = 0;
+      for (let day = toDayNumber(start); day <= toDayNumber(end); day++) {
+        if (labelForDay(day) === null) count++;
+      }
+      return count;
+    },
+  };
+}
+
+/**
+ * Signed number of working days from `from` (exclusive) to `to` (inclusive)
+ *
+ * Positive when `to` is in the future, negative when it has already passed,
+ * e.g. the working days left until an event's due date.
+ */
+export function workingDaysBetween(calendar: WorkingCalendar, from: string, to: string): number {
+  const fromDay = toDayNumber(from);
+  const toDay = toDayNumber(to);
+  if (toDay > fromDay) {
+    return calendar.countWorkingDays(fromDayNumber(fromDay + 1), to);
+  }
+  if (toDay < fromDay) {
+    return -calendar.countWorkingDays(to, fromDayNumber(fromDay - 1));
+  }
+  return 0;
+}
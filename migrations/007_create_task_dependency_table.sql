@@ -0,0 +1,26 @@
+-- Create task dependency table
+CREATE TABLE IF NOT EXISTS task_dependency (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    predecessor_id UUID NOT NULL REFERENCES task(id) ON DELETE CASCADE,
+    successor_id UUID NOT NULL REFERENCES task(id) ON DELETE CASCADE,
+    dependency_type VARCHAR(2) NOT NULL DEFAULT 'FS' CHECK (dependency_type IN ('FS', 'SS', 'FF', 'SF')),
+    lag_days INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (predecessor_id, successor_id),
+    CHECK (predecessor_id != successor_id)
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_task_dependency_predecessor_id ON task_dependency(predecessor_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependency_successor_id ON task_dependency(successor_id);
+
+-- Add comments
+COMMENT ON TABLE task_dependency IS 'タスク依存関係テーブル';
+COMMENT ON COLUMN task_dependency.id IS '依存関係ID (UUID)';
+COMMENT ON COLUMN task_dependency.predecessor_id IS '先行タスクID';
+COMMENT ON COLUMN task_dependency.successor_id IS '後続タスクID';
+COMMENT ON COLUMN task_dependency.dependency_type IS '依存タイプ (FS: 終了→開始, SS: 開始→開始, FF: 終了→終了, SF: 開始→終了)';
+COMMENT ON COLUMN task_dependency.lag_days IS 'ラグ日数 (負の値はリード)';
+COMMENT ON COLUMN task_dependency.created_at IS '作成日時';
+COMMENT ON COLUMN task_dependency.updated_at IS '更新日時';
@@ -0,0 +1,66 @@
+-- Create working calendar tables
+
+-- Working calendar table
+CREATE TABLE IF NOT EXISTS work_calendar (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    include_japanese_holidays BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Weekend rule table (one row per non-working day of the week)
+CREATE TABLE IF NOT EXISTS work_calendar_weekend_rule (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    calendar_id UUID NOT NULL REFERENCES work_calendar(id) ON DELETE CASCADE,
+    day_of_week INTEGER NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (calendar_id, day_of_week)
+);
+
+-- Custom non-working day table (company holidays etc.)
+CREATE TABLE IF NOT EXISTS non_working_day (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    calendar_id UUID NOT NULL REFERENCES work_calendar(id) ON DELETE CASCADE,
+    date DATE NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (calendar_id, date)
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_work_calendar_weekend_rule_calendar_id ON work_calendar_weekend_rule(calendar_id);
+CREATE INDEX IF NOT EXISTS idx_non_working_day_calendar_id_date ON non_working_day(calendar_id, date);
+
+-- Default calendar: Saturdays, Sundays and Japanese national holidays off
+INSERT INTO work_calendar (name, is_default, include_japanese_holidays)
+VALUES ('標準カレンダー', true, true)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO work_calendar_weekend_rule (calendar_id, day_of_week)
+SELECT c.id, w.day_of_week
+FROM work_calendar c, (VALUES (0), (6)) AS w(day_of_week)
+WHERE c.name = '標準カレンダー'
+ON CONFLICT (calendar_id, day_of_week) DO NOTHING;
+
+-- Add comments
+COMMENT ON TABLE work_calendar IS '稼働カレンダーテーブル';
+COMMENT ON COLUMN work_calendar.id IS 'カレンダーID (UUID)';
+COMMENT ON COLUMN work_calendar.name IS 'カレンダー名';
+COMMENT ON COLUMN work_calendar.is_default IS 'デフォルトカレンダーかどうか';
+COMMENT ON COLUMN work_calendar.include_japanese_holidays IS '日本の祝日を非稼働日とするかどうか';
+COMMENT ON COLUMN work_calendar.created_at IS '作成日時';
+COMMENT ON COLUMN work_calendar.updated_at IS '更新日時';
+
+COMMENT ON TABLE work_calendar_weekend_rule IS '週休ルールテーブル';
+COMMENT ON COLUMN work_calendar_weekend_rule.calendar_id IS 'カレンダーID';
+COMMENT ON COLUMN work_calendar_weekend_rule.day_of_week IS '曜日 (0: 日曜日 〜 6: 土曜日)';
+
+COMMENT ON TABLE non_working_day IS '非稼働日テーブル';
+COMMENT ON COLUMN non_working_day.calendar_id IS 'カレンダーID';
+COMMENT ON COLUMN non_working_day.date IS '日付';
+COMMENT ON COLUMN non_working_day.name IS '名称 (例: 夏季休暇)';
+COMMENT ON COLUMN non_working_day.created_at IS '作成日時';
+COMMENT ON COLUMN non_working_day.updated_at IS '更新日時';
@@ -0,0 +1,54 @@
+-- Create schedule baseline tables
+
+-- Baseline table (one row per named snapshot)
+CREATE TABLE IF NOT EXISTS baseline (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    note TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Task dates captured in a baseline
+CREATE TABLE IF NOT EXISTS baseline_task (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    baseline_id UUID NOT NULL REFERENCES baseline(id) ON DELETE CASCADE,
+    task_id UUID NOT NULL REFERENCES task(id) ON DELETE CASCADE,
+    start_date DATE,
+    end_date DATE,
+    UNIQUE (baseline_id, task_id)
+);
+
+-- Event due dates captured in a baseline
+CREATE TABLE IF NOT EXISTS baseline_event (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    baseline_id UUID NOT NULL REFERENCES baseline(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL REFERENCES event(id) ON DELETE CASCADE,
+    task_id UUID NOT NULL,
+    due_date DATE,
+    UNIQUE (baseline_id, event_id)
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_baseline_task_baseline_id ON baseline_task(baseline_id);
+CREATE INDEX IF NOT EXISTS idx_baseline_event_baseline_id ON baseline_event(baseline_id);
+
+-- Add comments
+COMMENT ON TABLE baseline IS 'ベースラインテーブル';
+COMMENT ON COLUMN baseline.id IS 'ベースラインID (UUID)';
+COMMENT ON COLUMN baseline.name IS 'ベースライン名';
+COMMENT ON COLUMN baseline.note IS 'メモ';
+COMMENT ON COLUMN baseline.created_at IS '作成日時 (スナップショット取得日時)';
+COMMENT ON COLUMN baseline.updated_at IS '更新日時';
+
+COMMENT ON TABLE baseline_task IS 'ベースライン タスク日程テーブル';
+COMMENT ON COLUMN baseline_task.baseline_id IS 'ベースラインID';
+COMMENT ON COLUMN baseline_task.task_id IS 'タスクID';
+COMMENT ON COLUMN baseline_task.start_date IS '取得時点の開始日';
+COMMENT ON COLUMN baseline_task.end_date IS '取得時点の終了日';
+
+COMMENT ON TABLE baseline_event IS 'ベースライン イベント日程テーブル';
+COMMENT ON COLUMN baseline_event.baseline_id IS 'ベースラインID';
+COMMENT ON COLUMN baseline_event.event_id IS 'イベントID';
+COMMENT ON COLUMN baseline_event.task_id IS '取得時点の親タスクID';
+COMMENT ON COLUMN baseline_event.due_date IS '取得時点の期日';
@@ -0,0 +1,8 @@
+-- Add parent task column to task table (subtask hierarchy)
+ALTER TABLE task ADD COLUMN IF NOT EXISTS parent_task_id UUID REFERENCES task(id) ON DELETE CASCADE;
+
+-- Create index for faster child lookups
+CREATE INDEX IF NOT EXISTS idx_task_parent_task_id ON task(parent_task_id);
+
+-- Add comments
+COMMENT ON COLUMN task.parent_task_id IS '親タスクID (NULLの場合はトップレベルのタスク)';
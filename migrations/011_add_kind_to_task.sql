@@ -0,0 +1,8 @@
+-- Add kind column to task table (regular task or milestone)
+ALTER TABLE task ADD COLUMN IF NOT EXISTS kind VARCHAR(20) NOT NULL DEFAULT 'task' CHECK (kind IN ('task', 'milestone'));
+
+-- Create index for milestone lookups (daily report)
+CREATE INDEX IF NOT EXISTS idx_task_kind ON task(kind);
+
+-- Add comments
+COMMENT ON COLUMN task.kind IS 'タスク種別 (task: 通常タスク, milestone: マイルストーン)';
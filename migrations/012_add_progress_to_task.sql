@@ -0,0 +1,5 @@
+-- Add progress column to task table
+ALTER TABLE task ADD COLUMN IF NOT EXISTS progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100);
+
+-- Add comments
+COMMENT ON COLUMN task.progress IS '進捗率 (0〜100%)';
@@ -0,0 +1,29 @@
+-- Create status history table (one row per task/event status transition)
+
+CREATE TABLE IF NOT EXISTS status_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    entity_type VARCHAR(10) NOT NULL CHECK (entity_type IN ('task', 'event')),
+    entity_id UUID NOT NULL,
+    entity_name VARCHAR(255) NOT NULL,
+    task_id UUID NOT NULL REFERENCES task(id) ON DELETE CASCADE,
+    from_status VARCHAR(50),
+    to_status VARCHAR(50) NOT NULL,
+    changed_by VARCHAR(100),
+    changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_status_history_task_id ON status_history(task_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_status_history_entity ON status_history(entity_type, entity_id);
+
+-- Add comments
+COMMENT ON TABLE status_history IS 'ステータス変更履歴テーブル';
+COMMENT ON COLUMN status_history.id IS '履歴ID (UUID)';
+COMMENT ON COLUMN status_history.entity_type IS '対象種別 (task / event)';
+COMMENT ON COLUMN status_history.entity_id IS '対象のタスクIDまたはイベントID';
+COMMENT ON COLUMN status_history.entity_name IS '変更時点の対象名';
+COMMENT ON COLUMN status_history.task_id IS 'タスクID (イベントの場合は親タスクID)';
+COMMENT ON COLUMN status_history.from_status IS '変更前ステータス (作成時はNULL)';
+COMMENT ON COLUMN status_history.to_status IS '変更後ステータス';
+COMMENT ON COLUMN status_history.changed_by IS '変更者 (Basic認証のユーザー名)';
+COMMENT ON COLUMN status_history.changed_at IS '変更日時';
@@ -0,0 +1,34 @@
+-- Create audit log table (one row per write through the API)
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    actor VARCHAR(100),
+    method VARCHAR(10) NOT NULL,
+    route VARCHAR(255) NOT NULL,
+    entity_type VARCHAR(100) NOT NULL,
+    entity_id VARCHAR(100),
+    action VARCHAR(10) NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+    before JSONB,
+    after JSONB,
+    diff JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for the audit log filters
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor, created_at);
+
+-- Add comments
+COMMENT ON TABLE audit_log IS '監査ログテーブル';
+COMMENT ON COLUMN audit_log.id IS '監査ログID (UUID)';
+COMMENT ON COLUMN audit_log.actor IS '実行者 (Basic認証のユーザー名)';
+COMMENT ON COLUMN audit_log.method IS 'HTTPメソッド';
+COMMENT ON COLUMN audit_log.route IS 'APIルートのパス';
+COMMENT ON COLUMN audit_log.entity_type IS '対象種別 (テーブル名など)';
+COMMENT ON COLUMN audit_log.entity_id IS '対象ID (一括操作の場合はNULL)';
+COMMENT ON COLUMN audit_log.action IS '操作 (create / update / delete)';
+COMMENT ON COLUMN audit_log.before IS '変更前のスナップショット (JSON)';
+COMMENT ON COLUMN audit_log.after IS '変更後のスナップショット (JSON)';
+COMMENT ON COLUMN audit_log.diff IS '変更されたフィールドの差分 (JSON)';
+COMMENT ON COLUMN audit_log.created_at IS '記録日時';
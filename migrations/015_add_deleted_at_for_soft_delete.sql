@@ -0,0 +1,15 @@
+-- Add soft delete column to task, event and member tables
+
+ALTER TABLE task ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE event ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE member ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+-- Create indexes for the trash list and the retention purge
+CREATE INDEX IF NOT EXISTS idx_task_deleted_at ON task(deleted_at);
+CREATE INDEX IF NOT EXISTS idx_event_deleted_at ON event(deleted_at);
+CREATE INDEX IF NOT EXISTS idx_member_deleted_at ON member(deleted_at);
+
+-- Add comments
+COMMENT ON COLUMN task.deleted_at IS '削除日時 (NULLでない場合はゴミ箱にある)';
+COMMENT ON COLUMN event.deleted_at IS '削除日時 (NULLでない場合はゴミ箱にある)';
+COMMENT ON COLUMN member.deleted_at IS '削除日時 (NULLでない場合はゴミ箱にある)';
@@ -0,0 +1,7 @@
+-- Add version column to task and event tables for optimistic concurrency control
+ALTER TABLE task ADD COLUMN IF NOT EXISTS version INT8 NOT NULL DEFAULT 1;
+ALTER TABLE event ADD COLUMN IF NOT EXISTS version INT8 NOT NULL DEFAULT 1;
+
+-- Add comments
+COMMENT ON COLUMN task.version IS '版番号 (更新のたびに1増える。同時編集の検出に使用)';
+COMMENT ON COLUMN event.version IS '版番号 (更新のたびに1増える。同時編集の検出に使用)';
@@ -0,0 +1,20 @@
+-- Create view preference table (per-user view settings and the shared team default)
+
+CREATE TABLE IF NOT EXISTS view_preference (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    scope VARCHAR(10) NOT NULL CHECK (scope IN ('user', 'team')),
+    owner VARCHAR(100) NOT NULL DEFAULT '',
+    pref_key VARCHAR(100) NOT NULL,
+    value JSONB NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (scope, owner, pref_key)
+);
+
+-- Add comments
+COMMENT ON TABLE view_preference IS '表示設定テーブル (ユーザーごとの設定とチーム既定)';
+COMMENT ON COLUMN view_preference.id IS '表示設定ID (UUID)';
+COMMENT ON COLUMN view_preference.scope IS '適用範囲 (user: ユーザー個別, team: チーム既定)';
+COMMENT ON COLUMN view_preference.owner IS 'ユーザー名 (Basic認証のユーザー名。チーム既定は空文字)';
+COMMENT ON COLUMN view_preference.pref_key IS '設定キー (例: gantt_task_order)';
+COMMENT ON COLUMN view_preference.value IS '設定値 (JSON)';
@@ -0,0 +1,19 @@
+-- Add fractional rank columns (lexicographic order keys, see lib/rank.ts)
+-- Existing rows start with the same rank and keep their display_order order
+-- until their group is rebalanced (on the first move or by the daily cron job)
+ALTER TABLE task ADD COLUMN IF NOT EXISTS rank STRING NOT NULL DEFAULT 'z';
+ALTER TABLE category_order ADD COLUMN IF NOT EXISTS rank STRING NOT NULL DEFAULT 'z';
+ALTER TABLE subcategory_order ADD COLUMN IF NOT EXISTS rank STRING NOT NULL DEFAULT 'z';
+
+-- Create indexes for ordered reads within a group
+CREATE INDEX IF NOT EXISTS idx_task_rank ON task(category, sub_category, rank);
+CREATE INDEX IF NOT EXISTS idx_category_order_rank ON category_order(rank);
+CREATE INDEX IF NOT EXISTS idx_subcategory_order_rank ON subcategory_order(category, rank);
+
+-- Add comments
+COMMENT ON COLUMN task.rank IS '並び順キー (同じカテゴリー・サブカテゴリー内で文字列順に並べる)';
+COMMENT ON COLUMN category_order.rank IS '並び順キー (文字列順に並べる)';
+COMMENT ON COLUMN subcategory_order.rank IS '並び順キー (同じカテゴリー内で文字列順に並べる)';
+COMMENT ON COLUMN task.display_order IS '旧表示順序 (rank が同じ行の並びにのみ使用)';
+COMMENT ON COLUMN category_order.display_order IS '旧表示順序 (rank が同じ行の並びにのみ使用)';
+COMMENT ON COLUMN subcategory_order.display_order IS '旧表示順序 (rank が同じ行の並びにのみ使用)';
@@ -0,0 +1,67 @@
+-- Create category and subcategory tables (managed entities with colors, descriptions and owners)
+-- task, category_order, subcategory_order and the expand state tables keep referring to
+-- categories by name; renames and merges update those names in one transaction
+
+CREATE TABLE IF NOT EXISTS category (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    color VARCHAR(7),
+    description TEXT,
+    owner_id UUID REFERENCES member(id) ON DELETE SET NULL,
+    archived_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS subcategory (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    category_id UUID NOT NULL REFERENCES category(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    color VARCHAR(7),
+    description TEXT,
+    owner_id UUID REFERENCES member(id) ON DELETE SET NULL,
+    archived_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (category_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_subcategory_category_id ON subcategory(category_id);
+
+-- Migrate the category names already in use
+INSERT INTO category (name)
+SELECT category FROM task
+UNION SELECT category FROM category_order
+UNION SELECT category FROM subcategory_order
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO subcategory (category_id, name)
+SELECT c.id, names.sub_category
+FROM (
+    SELECT category, sub_category FROM task
+    UNION SELECT category, sub_category FROM subcategory_order
+) AS names
+JOIN category c ON c.name = names.category
+ON CONFLICT (category_id, name) DO NOTHING;
+
+-- Add comments
+COMMENT ON TABLE category IS 'カテゴリーテーブル';
+COMMENT ON COLUMN category.id IS 'カテゴリーID (UUID)';
+COMMENT ON COLUMN category.name IS 'カテゴリー名 (task.category などから名前で参照される)';
+COMMENT ON COLUMN category.color IS '表示色 (#RRGGBB)';
+COMMENT ON COLUMN category.description IS '説明';
+COMMENT ON COLUMN category.owner_id IS '担当メンバーID';
+COMMENT ON COLUMN category.archived_at IS 'アーカイブ日時 (アーカイブ済みのカテゴリーには新しいタスクを追加できない)';
+COMMENT ON COLUMN category.created_at IS '作成日時';
+COMMENT ON COLUMN category.updated_at IS '更新日時';
+
+COMMENT ON TABLE subcategory IS 'サブカテゴリーテーブル';
+COMMENT ON COLUMN subcategory.id IS 'サブカテゴリーID (UUID)';
+COMMENT ON COLUMN subcategory.category_id IS 'カテゴリーID';
+COMMENT ON COLUMN subcategory.name IS 'サブカテゴリー名 (task.sub_category などから名前で参照される)';
+COMMENT ON COLUMN subcategory.color IS '表示色 (#RRGGBB)';
+COMMENT ON COLUMN subcategory.description IS '説明';
+COMMENT ON COLUMN subcategory.owner_id IS '担当メンバーID';
+COMMENT ON COLUMN subcategory.archived_at IS 'アーカイブ日時 (アーカイブ済みのサブカテゴリーには新しいタスクを追加できない)';
+COMMENT ON COLUMN subcategory.created_at IS '作成日時';
+COMMENT ON COLUMN subcategory.updated_at IS '更新日時';
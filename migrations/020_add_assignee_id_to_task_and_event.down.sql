@@ -0,0 +1,12 @@
+-- Roll back 020_add_assignee_id_to_task_and_event.sql
+-- (the assignee name columns were left in place, but they are no longer written,
+-- so assignments made after 020 ran are lost)
+DROP INDEX IF EXISTS task@idx_task_assignee_id;
+DROP INDEX IF EXISTS event@idx_event_assignee_id;
+
+ALTER TABLE task DROP COLUMN IF EXISTS assignee_id;
+ALTER TABLE event DROP COLUMN IF EXISTS assignee_id;
+
+-- Restore comments
+COMMENT ON COLUMN task.assignee IS '担当者';
+COMMENT ON COLUMN event.assignee IS '担当者';
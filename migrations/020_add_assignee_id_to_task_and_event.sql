@@ -0,0 +1,15 @@
+-- Add assignee_id columns referencing member, replacing the assignee name strings
+-- (existing names are resolved by 021_backfill_assignee_id.sql, which has to run
+-- in its own transaction after the new columns exist)
+ALTER TABLE task ADD COLUMN IF NOT EXISTS assignee_id UUID REFERENCES member(id) ON DELETE SET NULL;
+ALTER TABLE event ADD COLUMN IF NOT EXISTS assignee_id UUID REFERENCES member(id) ON DELETE SET NULL;
+
+-- Create indexes for the per-member lookups of the daily email
+CREATE INDEX IF NOT EXISTS idx_task_assignee_id ON task(assignee_id);
+CREATE INDEX IF NOT EXISTS idx_event_assignee_id ON event(assignee_id);
+
+-- Add comments
+COMMENT ON COLUMN task.assignee_id IS '担当メンバーID';
+COMMENT ON COLUMN event.assignee_id IS '担当メンバーID';
+COMMENT ON COLUMN task.assignee IS '旧担当者名 (assignee_id に移行済み。使用しない)';
+COMMENT ON COLUMN event.assignee IS '旧担当者名 (assignee_id に移行済み。使用しない)';
@@ -0,0 +1,4 @@
+-- Roll back 021_backfill_assignee_id.sql
+-- Nothing to undo: the backfill only filled assignee_id, which rolling back
+-- 020_add_assignee_id_to_task_and_event.sql drops
+SELECT 1;
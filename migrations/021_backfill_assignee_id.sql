@@ -0,0 +1,19 @@
+-- Resolve the assignee names stored before 020_add_assignee_id_to_task_and_event.sql
+-- When several members share a name, the active, not deleted, oldest one is used
+UPDATE task
+SET assignee_id = (
+    SELECT m.id FROM member m
+    WHERE m.name = task.assignee
+    ORDER BY m.deleted_at IS NOT NULL, m.is_active DESC, m.created_at
+    LIMIT 1
+)
+WHERE assignee IS NOT NULL AND assignee <> '' AND assignee_id IS NULL;
+
+UPDATE event
+SET assignee_id = (
+    SELECT m.id FROM member m
+    WHERE m.name = event.assignee
+    ORDER BY m.deleted_at IS NOT NULL, m.is_active DESC, m.created_at
+    LIMIT 1
+)
+WHERE assignee IS NOT NULL AND assignee <> '' AND assignee_id IS NULL;
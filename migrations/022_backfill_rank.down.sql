@@ -0,0 +1,4 @@
+-- Roll back 022_backfill_rank.sql
+-- Nothing to undo: the backfill only gave rows that tied at the default rank
+-- distinct ranks in the same order, which the schema without it accepts as is
+SELECT 1;
@@ -0,0 +1,31 @@
+-- Give the rows left at the default rank of 018_add_rank_for_fractional_ordering.sql their own ranks
+-- Groups that still have a row at 'z' are renumbered in their current order
+-- (rank, display_order, created_at, as lib/rankQueries.ts reads them) with
+-- fixed-width ranks such as 0000015, 0000025, ...
+UPDATE task
+SET rank = ranked.rank
+FROM (
+    SELECT id, lpad((row_number() OVER (PARTITION BY category, sub_category ORDER BY rank, display_order, created_at))::STRING, 6, '0') || '5' AS rank
+    FROM task
+    WHERE deleted_at IS NULL
+    AND (category, sub_category) IN (SELECT category, sub_category FROM task WHERE rank = 'z' AND deleted_at IS NULL)
+) AS ranked
+WHERE task.id = ranked.id;
+
+UPDATE category_order
+SET rank = ranked.rank
+FROM (
+    SELECT category, lpad((row_number() OVER (ORDER BY rank, display_order, created_at))::STRING, 6, '0') || '5' AS rank
+    FROM category_order
+    WHERE EXISTS (SELECT 1 FROM category_order WHERE rank = 'z')
+) AS ranked
+WHERE category_order.category = ranked.category;
+
+UPDATE subcategory_order
+SET rank = ranked.rank
+FROM (
+    SELECT category, sub_category, lpad((row_number() OVER (PARTITION BY category ORDER BY rank, display_order, created_at))::STRING, 6, '0') || '5' AS rank
+    FROM subcategory_order
+    WHERE category IN (SELECT category FROM subcategory_order WHERE rank = 'z')
+) AS ranked
+WHERE subcategory_order.category = ranked.category AND subcategory_order.sub_category = ranked.sub_category;
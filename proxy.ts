@@ -1,15 +1,20 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { getConfig } from '@/lib/config';
+import { ACTOR_HEADER } from '@/lib/requestActor';
 
 export function proxy(request: NextRequest) {
+  // Never trust an actor header sent by the client
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.delete(ACTOR_HEADER);
+
   // Skip authentication for cron job endpoint
   if (request.nextUrl.pathname === '/api/cron') {
-    return NextResponse.next();
+    return NextResponse.next({ request: { headers: requestHeaders } });
   }
 
-  // Get authentication credentials from environment variables
-  const BASIC_AUTH_USER = process.env.BASIC_AUTH_USER || 'admin';
-  const BASIC_AUTH_PASSWORD = process.env.BASIC_AUTH_PASSWORD || 'password';
+  // The shared account and the personal ones (BASIC_AUTH_USERS)
+  const { basicAuthUser, basicAuthPassword, basicAuthUsers } = getConfig().auth;
 
   // Get the Authorization header
   const authHeader = request.headers.get('authorization');
@@ -24,12 +29,17 @@ export function proxy(request: NextRequest) {
     });
   }
 
-  // Parse the Authorization header
-  const auth = authHeader.split(' ')[1];
-  const [user, password] = Buffer.from(auth, 'base64').toString().split(':');
+  // Parse the Authorization header (only the first ':' separates the user,
+  // since passwords may contain ':')
+  const auth = Buffer.from(authHeader.split(' ')[1] || '', 'base64').toString();
+  const separator = auth.indexOf(':');
+  const user = separator === -1 ? auth : auth.slice(0, separator);
+  const password = separator === -1 ? null : auth.slice(separator + 1);
 
   // Validate credentials
-  if (user !== BASIC_AUTH_USER || password !== BASIC_AUTH_PASSWORD) {
+  const isSharedAccount = user === basicAuthUser && password === basicAuthPassword;
+  const isPersonalAccount = Object.hasOwn(basicAuthUsers, user) && basicAuthUsers[user] === password;
+  if (!isSharedAccount && !isPersonalAccount) {
     return new NextResponse('Invalid credentials', {
       status: 401,
       headers: {
@@ -38,8 +48,10 @@ export function proxy(request: NextRequest) {
     });
   }
 
-  // Authentication successful, continue to the requested page
-  return NextResponse.next();
+  // Authentication successful, continue to the requested page with the
+  // authenticated user forwarded for the audit log
+  requestHeaders.set(ACTOR_HEADER, user);
+  return NextResponse.next({ request: { headers: requestHeaders } });
 }
 
 // Configure which routes to protect with basic auth
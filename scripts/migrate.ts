@@ -0,0 +1,325 @@
+/**
+ * Migration CLI
+ *
+ *   npm run migrate -- <command> [--env ENV] [--dry-run]
+ *
+ * Commands:
+ *   up [--to VERSION]   Apply the pending migrations (up to VERSION)
+ *   down [--steps N]    Roll back the last N applied migrations (default 1);
+ *                       each of them needs a NNN_name.down.sql
+ *   status              List the migrations and whether they have run
+ *   baseline VERSION    Record the migrations up to VERSION as applied without
+ *                       running them (for a database migrated by hand before
+ *                       schema_migrations existed)
+ *   unlock              Remove the lock left behind by a run that was killed
+ *
+ * --env picks the env file: development (.env.local), staging (.env.staging)
+ * or production (.env.production). Without it the environment comes from
+ * NEXT_PUBLIC_APP_ENV / NODE_ENV as in the app. Variables that are already set
+ * win over the file, and DATABASE_URL is read through lib/config.ts.
+ * --dry-run prints what would run without touching the database: it only
+ * reads schema_migrations, and takes a database without it as one where
+ * nothing has run yet.
+ *
+ * Each migration runs as one batch, which CockroachDB executes as one
+ * transaction, together with the statement that records it, so a migration
+ * is recorded exactly when it has been applied.
+ */
+
+import { config as loadEnv } from 'dotenv';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Pool } from 'pg';
+import { Environment, getConfig, getEnvironment, validateConfig } from '../lib/config';
+import { getPool } from '../lib/db';
+import {
+  AppliedMigration,
+  compareVersions,
+  findMigrations,
+  getMigrationStatus,
+  getPendingMigrations,
+  getRollbackMigrations,
+  MigrationFile,
+} from '../lib/migrations';
+
+const ENV_FILES: Record<Environment, string> = {
+  development: '.env.local',
+  staging: '.env.staging',
+  production: '.env.production',
+};
+
+const USAGE = 'Usage: npm run migrate -- <up [--to VERSION] | down [--steps N] | status | baseline VERSION | unlock> [--env ENV] [--dry-run]';
+
+interface Options {
+  command: string;
+  version?: string;
+  to?: string;
+  steps: number;
+  env?: Environment;
+  dryRun: boolean;
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { command: args[0], steps: 1, dryRun: false };
+
+  // Value of the option at args[i], which must not be missing or another option
+  const valueOf = (i: number) => {
+    const value = args[i + 1];
+    if (value === undefined || value.startsWith('--')) {
+      throw new Error(`${args[i]} needs a value\n${USAGE}`);
+    }
+    return value;
+  };
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--to') {
+      options.to = valueOf(i++);
+    } else if (arg === '--steps') {
+      options.steps = Number(valueOf(i++));
+    } else if (arg === '--env') {
+      options.env = valueOf(i++) as Environment;
+    } else if (!arg.startsWith('--') && options.version === undefined) {
+      options.version = arg;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (options.env !== undefined && !(options.env in ENV_FILES)) {
+    throw new Error(`--env must be one of ${Object.keys(ENV_FILES).join(', ')}`);
+  }
+  if (!Number.isInteger(options.steps) || options.steps < 1) {
+    throw new Error('--steps must be a positive integer');
+  }
+  for (const version of [options.to, options.version]) {
+    if (version !== undefined && !/^\d+$/.test(version)) {
+      throw new Error(`Not a migration version: ${version}`);
+    }
+  }
+  return options;
+}
+
+// SQL string literal (names and checksums come from file names and hashes, but are quoted anyway)
+const quote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+async function ensureMigrationTables(pool: Pool): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version STRING PRIMARY KEY,
+      name STRING NOT NULL,
+      checksum STRING NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+    CREATE TABLE IF NOT EXISTS schema_migrations_lock (
+      id INT4 PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+      locked_by STRING NOT NULL,
+      locked_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+  `);
+}
+
+// SQLSTATE undefined_table
+const UNDEFINED_TABLE = '42P01';
+
+async function getAppliedMigrations(pool: Pool): Promise<AppliedMigration[]> {
+  try {
+    const result = await pool.query<AppliedMigration>(
+      'SELECT version, name, checksum, applied_at::STRING as applied_at FROM schema_migrations'
+    );
+    return result.rows.sort((a, b) => compareVersions(a.version, b.version));
+  } catch (error) {
+    // Not created yet on a dry run: nothing has been applied
+    if ((error as { code?: string }).code === UNDEFINED_TABLE) return [];
+    throw error;
+  }
+}
+
+/**
+ * Take the migration lock, so that two deploys never migrate at the same time
+ */
+async function acquireLock(pool: Pool): Promise<void> {
+  const lockedBy = `${os.hostname()}:${process.pid}`;
+  const result = await pool.query(
+    'INSERT INTO schema_migrations_lock (locked_by) VALUES ($1) ON CONFLICT (id) DO NOTHING',
+    [lockedBy]
+  );
+  if (result.rowCount === 0) {
+    const lock = await pool.query('SELECT locked_by, locked_at::STRING as locked_at FROM schema_migrations_lock');
+    throw new Error(
+      `Migrations are locked by ${lock.rows[0]?.locked_by} since ${lock.rows[0]?.locked_at}. ` +
+        'If that run is no longer alive, remove the lock with the unlock command.'
+    );
+  }
+}
+
+async function releaseLock(pool: Pool): Promise<void> {
+  await pool.query('DELETE FROM schema_migrations_lock');
+}
+
+async function runLocked(pool: Pool, fn: () => Promise<void>): Promise<void> {
+  await acquireLock(pool);
+  try {
+    await fn();
+  } finally {
+    await releaseLock(pool);
+  }
+}
+
+function printPlan(title: string, migrations: MigrationFile[], getPath: (migration: MigrationFile) => string) {
+  console.log(`${title} (dry run, nothing is changed):`);
+  migrations.forEach(migration => {
+    console.log(`\n-- ${path.basename(getPath(migration))}`);
+    console.log(fs.readFileSync(getPath(migration), 'utf-8').trim());
+  });
+}
+
+async function up(pool: Pool, options: Options): Promise<void> {
+  const files = findMigrations();
+  const applied = await getAppliedMigrations(pool);
+
+  const changed = getMigrationStatus(files, applied).filter(status => status.state === 'changed');
+  if (changed.length > 0) {
+    throw new Error(
+      `Applied migrations were edited after they ran: ${changed.map(status => status.name).join(', ')}. ` +
+        'Add a new migration instead of changing one that has run.'
+    );
+  }
+
+  const pending = getPendingMigrations(files, applied, options.to);
+  if (pending.length === 0) {
+    console.log('No pending migrations.');
+    return;
+  }
+
+  if (options.dryRun) {
+    printPlan(`${pending.length} migration(s) to apply`, pending, migration => migration.upPath);
+    return;
+  }
+
+  await runLocked(pool, async () => {
+    // Another run may have applied some while we waited for the lock
+    const current = getPendingMigrations(findMigrations(), await getAppliedMigrations(pool), options.to);
+    for (const migration of current) {
+      console.log(`Applying ${migration.name}...`);
+      const sql = fs.readFileSync(migration.upPath, 'utf-8');
+      await pool.query(
+        `${sql.trim().replace(/;?$/, ';')}
+         INSERT INTO schema_migrations (version, name, checksum)
+         VALUES (${quote(migration.version)}, ${quote(migration.name)}, ${quote(migration.checksum)});`
+      );
+    }
+    console.log(`Applied ${current.length} migration(s).`);
+  });
+}
+
+async function down(pool: Pool, options: Options): Promise<void> {
+  // Fails before the lock is taken when one of them has no down file
+  const rollbacks = getRollbackMigrations(findMigrations(), await getAppliedMigrations(pool), options.steps);
+  if ('error' in rollbacks) throw new Error(rollbacks.error);
+  if (rollbacks.length === 0) {
+    console.log('No applied migrations to roll back.');
+    return;
+  }
+
+  if (options.dryRun) {
+    printPlan(`${rollbacks.length} migration(s) to roll back`, rollbacks, migration => migration.downPath!);
+    return;
+  }
+
+  await runLocked(pool, async () => {
+    for (const migration of rollbacks) {
+      console.log(`Rolling back ${migration.name}...`);
+      const sql = fs.readFileSync(migration.downPath!, 'utf-8');
+      await pool.query(
+        `${sql.trim().replace(/;?$/, ';')}
+         DELETE FROM schema_migrations WHERE version = ${quote(migration.version)};`
+      );
+    }
+    console.log(`Rolled back ${rollbacks.length} migration(s).`);
+  });
+}
+
+async function status(pool: Pool): Promise<void> {
+  const statuses = getMigrationStatus(findMigrations(), await getAppliedMigrations(pool));
+  statuses.forEach(({ name, state, appliedAt }) => {
+    console.log(`${state.padEnd(8)} ${name}${appliedAt ? `  (${appliedAt})` : ''}`);
+  });
+
+  const pending = statuses.filter(({ state }) => state === 'pending').length;
+  console.log(`\n${statuses.length - pending} applied, ${pending} pending`);
+}
+
+async function baseline(pool: Pool, options: Options): Promise<void> {
+  if (options.version === undefined) throw new Error('baseline needs the VERSION the database is already at');
+
+  const target = options.version;
+  const migrations = getPendingMigrations(findMigrations(), await getAppliedMigrations(pool), target);
+  if (options.dryRun) {
+    console.log(`Would record as applied (dry run, nothing is changed):`);
+    migrations.forEach(migration => console.log(`  ${migration.name}`));
+    return;
+  }
+
+  await runLocked(pool, async () => {
+    for (const migration of migrations) {
+      await pool.query(
+        'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3) ON CONFLICT (version) DO NOTHING',
+        [migration.version, migration.name, migration.checksum]
+      );
+    }
+    console.log(`Recorded ${migrations.length} migration(s) up to ${target} as applied.`);
+  });
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options.command) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  const env = options.env ?? getEnvironment();
+  process.env.NEXT_PUBLIC_APP_ENV = env;
+  loadEnv({ path: ENV_FILES[env], quiet: true });
+  validateConfig();
+  console.log(`Environment: ${getConfig().env}`);
+
+  const pool = getPool();
+  try {
+    // A dry run only reads
+    if (!options.dryRun) await ensureMigrationTables(pool);
+
+    switch (options.command) {
+      case 'up':
+        await up(pool, options);
+        break;
+      case 'down':
+        await down(pool, options);
+        break;
+      case 'status':
+        await status(pool);
+        break;
+      case 'baseline':
+        await baseline(pool, options);
+        break;
+      case 'unlock':
+        await releaseLock(pool);
+        console.log('Migration lock removed.');
+        break;
+      default:
+        console.log(USAGE);
+        process.exitCode = 1;
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch(error => {
+  console.error('Migration failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { closeDatabase, createTestTask, skipWithoutDatabase } from './database';
+import { query } from '../lib/db';
+import { ensureTaskCategory, mergeCategory, renameCategory } from '../lib/categoryQueries';
+import { TaskRepository } from '../lib/taskRepository';
+
+const CATEGORY = 'カテゴリーのテスト';
+const RENAMED = 'カテゴリーのテスト (改名)';
+
+describe('category renames and merges', { skip: skipWithoutDatabase }, () => {
+  const cleanUp = async () => {
+    await query('DELETE FROM task WHERE category = ANY($1)', [[CATEGORY, RENAMED]]);
+    await query('DELETE FROM category_order WHERE category = ANY($1)', [[CATEGORY, RENAMED]]);
+    await query('DELETE FROM category WHERE name = ANY($1)', [[CATEGORY, RENAMED]]);
+  };
+
+  const createTask = async (subCategory: string) => {
+    assert.ok(!('error' in (await ensureTaskCategory(CATEGORY, subCategory))));
+    return createTestTask({ name: subCategory, category: CATEGORY, sub_category: subCategory });
+  };
+
+  const getSubcategoryId = async (name: string) => {
+    const rows = await query<{ id: string }>(
+      'SELECT s.id FROM subcategory s JOIN category c ON c.id = s.category_id WHERE c.name = $1 AND s.name = $2',
+      [CATEGORY, name]
+    );
+    return rows[0].id;
+  };
+
+  before(cleanUp);
+  after(async () => {
+    await cleanUp();
+    await closeDatabase();
+  });
+
+  test('merging a subcategory moves its tasks after those of the target', async () => {
+    const target = await createTask('統合先');
+    const source = await createTask('統合元');
+
+    const result = await mergeCategory('subcategory', await getSubcategoryId('統合元'), await getSubcategoryId('統合先'));
+
+    assert.deepEqual(result, { tasks: 1 });
+    const tasks = await query<{ id: string; sub_category: string }>(
+      'SELECT id, sub_category FROM task WHERE category = $1 ORDER BY rank',
+      [CATEGORY]
+    );
+    assert.deepEqual(tasks, [
+      { id: target.id, sub_category: '統合先' },
+      { id: source.id, sub_category: '統合先' },
+    ]);
+  });
+
+  test('renaming a category renames it in its tasks and its order', async () => {
+    const task = await createTask('改名');
+    await query("INSERT INTO category_order (category, rank) VALUES ($1, 'i')", [CATEGORY]);
+    const categories = await query<{ id: string }>('SELECT id FROM category WHERE name = $1', [CATEGORY]);
+
+    await renameCategory('category', categories[0].id, RENAMED);
+
+    assert.equal((await TaskRepository.findById(task.id))?.category, RENAMED);
+    const orders = await query<{ category: string }>('SELECT category FROM category_order WHERE category = ANY($1)', [[CATEGORY, RENAMED]]);
+    assert.deepEqual(orders, [{ category: RENAMED }]);
+  });
+});
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { closeDatabase, skipWithoutDatabase } from './database';
+import { query } from '../lib/db';
+import {
+  formatChangeCursor,
+  getChangesAfter,
+  getLateChanges,
+  getLatestChangeCursor,
+  parseChangeCursor,
+} from '../lib/changeFeedQueries';
+
+const ENTITY_TYPE = 'change_feed_test';
+const FIRST_ID = '00000000-0000-0000-0000-000000000000';
+
+// Audit log entries written at createdAt, returning their IDs
+async function insertEntries(count: number, createdAt: string): Promise<string[]> {
+  const rows = await query<{ id: string }>(
+    `INSERT INTO audit_log (method, route, entity_type, action, created_at)
+     SELECT 'POST', '/test', $1, 'create', $2::TIMESTAMP FROM generate_series(1, $3)
+     RETURNING id::TEXT as id`,
+    [ENTITY_TYPE, createdAt, count]
+  );
+  return rows.map(row => row.id);
+}
+
+test('parseChangeCursor reads back formatChangeCursor and rejects other ids', () => {
+  const cursor = { createdAt: '2025-01-31 12:34:56.789012', id: '0f8fad5b-d9cb-469f-a165-70867728950e' };
+  assert.deepEqual(parseChangeCursor(formatChangeCursor(cursor)), cursor);
+  assert.equal(parseChangeCursor('2025-01-31 12:34:56.789012'), null);
+  assert.equal(parseChangeCursor(null), null);
+});
+
+describe('change feed paging', { skip: skipWithoutDatabase }, () => {
+  const cleanUp = () => query('DELETE FROM audit_log WHERE entity_type = $1', [ENTITY_TYPE]);
+
+  before(cleanUp);
+  after(async () => {
+    await cleanUp();
+    await closeDatabase();
+  });
+
+  test('pages through more entries than the limit that share one timestamp', async () => {
+    const createdAt = '2001-02-03 04:05:06.123456';
+    const ids = await insertEntries(25, createdAt);
+
+    let cursor = { createdAt: '2001-02-03 04:05:05', id: FIRST_ID };
+    const seen: string[] = [];
+    for (let page = 0; page < 10; page++) {
+      const changes = (await getChangesAfter(cursor, 10)).filter(change => change.entity_type === ENTITY_TYPE);
+      if (changes.length === 0) break;
+      seen.push(...changes.map(change => change.id));
+      cursor = changes[changes.length - 1].cursor;
+    }
+
+    assert.equal(new Set(seen).size, seen.length, 'no entry is returned twice');
+    assert.deepEqual([...seen].sort(), [...ids].sort());
+  });
+
+  test('starts after the newest entry instead of replaying recent ones', async () => {
+    await query(
+      `INSERT INTO audit_log (method, route, entity_type, action) VALUES ('POST', '/test', $1, 'create')`,
+      [ENTITY_TYPE]
+    );
+
+    const cursor = await getLatestChangeCursor();
+    assert.deepEqual(await getChangesAfter(cursor), []);
+  });
+
+  test('finds an entry committed behind the cursor without moving it', async () => {
+    const [newest] = await insertEntries(1, '2002-03-04 05:06:07');
+    const cursor = (await getChangesAfter({ createdAt: '2002-03-04 05:06:06', id: FIRST_ID }))
+      .find(change => change.id === newest)!.cursor;
+
+    const [late] = await insertEntries(1, '2002-03-04 05:06:05');
+    // Older than anything after the cursor, so it would come first if it were returned
+    const [next] = await getChangesAfter(cursor, 1);
+    assert.notEqual(next?.id, late);
+
+    const lateChanges = await getLateChanges(cursor, [newest]);
+    assert.deepEqual(lateChanges.map(change => change.id), [late]);
+    assert.deepEqual(await getLateChanges(cursor, [newest, late]), []);
+  });
+});
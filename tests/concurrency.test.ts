@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { getConflictFields, mergeConflictFields, TASK_CONFLICT_FIELDS } from '../lib/concurrency';
+
+const base = { name: 'タスク', status: 'ToDo', note: null, assignee_id: 'member-1' };
+
+describe('getConflictFields', () => {
+  test('lists the fields that differ, choosing the side that changed them', () => {
+    const mine = { ...base, name: '私の変更', status: 'InProgress' };
+    const theirs = { ...base, status: 'Done', assignee_id: 'member-2' };
+
+    const fields = getConflictFields(TASK_CONFLICT_FIELDS, base, mine, theirs);
+
+    assert.deepEqual(
+      fields.map(({ field, bothChanged, choice }) => ({ field, bothChanged, choice })),
+      [
+        { field: 'name', bothChanged: false, choice: 'mine' },
+        { field: 'assignee_id', bothChanged: false, choice: 'theirs' },
+        { field: 'status', bothChanged: true, choice: 'mine' },
+      ]
+    );
+  });
+
+  test('treats null, undefined and an empty string as the same', () => {
+    const fields = getConflictFields(TASK_CONFLICT_FIELDS, base, { ...base, note: '' }, { ...base, note: undefined });
+
+    assert.deepEqual(fields, []);
+  });
+});
+
+describe('mergeConflictFields', () => {
+  test('takes each field from the chosen side and keeps the rest of mine', () => {
+    const mine = { ...base, name: '私の変更', status: 'InProgress', version: 1 };
+    const theirs = { ...base, status: 'Done', assignee_id: 'member-2', version: 2 };
+    const fields = getConflictFields(TASK_CONFLICT_FIELDS, base, mine, theirs).map(field =>
+      field.field === 'status' ? { ...field, choice: 'theirs' as const } : field
+    );
+
+    assert.deepEqual(mergeConflictFields(mine, theirs, fields), {
+      name: '私の変更',
+      status: 'Done',
+      note: null,
+      assignee_id: 'member-2',
+      version: 1,
+    });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Test database - the database the query tests run against
+ *
+ * The tests write and delete rows, so they only run when TEST_DATABASE_URL
+ * points at a disposable database that `npm run migrate -- up` has been run
+ * against; without it they are skipped.
+ */
+
+import { getPool } from '../lib/db';
+import { NewTask, TaskRepository } from '../lib/taskRepository';
+
+const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+if (testDatabaseUrl) process.env.DATABASE_URL = testDatabaseUrl;
+
+// The `skip` option of a suite that needs the database
+export const skipWithoutDatabase = testDatabaseUrl ? false : 'TEST_DATABASE_URL is not set';
+
+export async function closeDatabase() {
+  if (testDatabaseUrl) await getPool().end();
+}
+
+/**
+ * Insert a task in category, with no dates, assignee or note unless given
+ *
+ * Suites delete their tasks by category when they clean up.
+ */
+export function createTestTask(fields: Partial<NewTask> & Pick<NewTask, 'category'>) {
+  return TaskRepository.create({
+    name: 'テスト',
+    sub_category: 'サブ',
+    start_date: null,
+    end_date: null,
+    assignee_id: null,
+    status: 'ToDo',
+    note: null,
+    parent_task_id: null,
+    kind: 'task',
+    progress: 0,
+    ...fields,
+  });
+}
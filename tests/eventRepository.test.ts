@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { closeDatabase, createTestTask, skipWithoutDatabase } from './database';
+import { query } from '../lib/db';
+import { EventRepository } from '../lib/eventRepository';
+import { MemberRepository } from '../lib/memberRepository';
+
+const CATEGORY = 'イベントリポジトリのテスト';
+
+describe('EventRepository.update', { skip: skipWithoutDatabase }, () => {
+  let taskId: string;
+  let assigneeId: string;
+
+  const cleanUp = async () => {
+    await query('DELETE FROM event WHERE task_id IN (SELECT id FROM task WHERE category = $1)', [CATEGORY]);
+    await query('DELETE FROM task WHERE category = $1', [CATEGORY]);
+    await query('DELETE FROM member WHERE name = $1', [CATEGORY]);
+  };
+
+  const createEvent = () =>
+    EventRepository.create({
+      name: 'テスト',
+      task_id: taskId,
+      due_date: '2025-04-05',
+      assignee_id: assigneeId,
+      status: 'ToDo',
+      note: 'メモ',
+    });
+
+  before(async () => {
+    await cleanUp();
+    assigneeId = (await MemberRepository.create({ name: CATEGORY, email: null, role: null, is_active: true })).id;
+    taskId = (await createTestTask({ category: CATEGORY })).id;
+  });
+  after(async () => {
+    await cleanUp();
+    await closeDatabase();
+  });
+
+  test('keeps the due date, assignee and note when they are left out', async () => {
+    const event = await createEvent();
+
+    const updated = await EventRepository.update(event.id, event.version, { name: '名前だけ変更' });
+
+    assert.ok(updated);
+    assert.equal(updated.event.name, '名前だけ変更');
+    assert.equal(updated.event.due_date, '2025-04-05');
+    assert.equal(updated.event.assignee_id, assigneeId);
+    assert.equal(updated.event.note, 'メモ');
+  });
+
+  test('clears the fields that are given as null', async () => {
+    const event = await createEvent();
+
+    const updated = await EventRepository.update(event.id, event.version, {
+      due_date: null,
+      assignee_id: null,
+      note: null,
+    });
+
+    assert.ok(updated);
+    assert.equal(updated.event.due_date, null);
+    assert.equal(updated.event.assignee_id, null);
+    assert.equal(updated.event.note, null);
+  });
+});
@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { getJapaneseHolidays } from '../lib/japaneseHolidays';
+
+const holidayName = (date: string) =>
+  getJapaneseHolidays(Number(date.slice(0, 4))).find(holiday => holiday.date === date)?.name;
+
+describe('getJapaneseHolidays', () => {
+  test('lists the holidays of a year in date order', () => {
+    const holidays = getJapaneseHolidays(2025);
+
+    assert.equal(holidays.length, 19);
+    assert.deepEqual(holidays[0], { date: '2025-01-01', name: '元日' });
+    assert.deepEqual(holidays.map(holiday => holiday.date), holidays.map(holiday => holiday.date).sort());
+  });
+
+  test('places Happy Monday and equinox holidays', () => {
+    assert.equal(holidayName('2025-01-13'), '成人の日');
+    assert.equal(holidayName('2025-03-20'), '春分の日');
+    assert.equal(holidayName('2025-09-23'), '秋分の日');
+    assert.equal(holidayName('2025-10-13'), 'スポーツの日');
+  });
+
+  test('moves a holiday on Sunday to the next day that is not a holiday', () => {
+    assert.equal(holidayName('2025-02-24'), '振替休日');
+    // 5/4 is a Sunday, and 5/5 is a holiday itself
+    assert.equal(holidayName('2025-05-06'), '振替休日');
+  });
+
+  test('makes a weekday between two holidays a holiday', () => {
+    assert.equal(holidayName('2026-09-22'), '国民の休日');
+  });
+
+  test('follows the moves for the Tokyo Olympics', () => {
+    assert.equal(holidayName('2020-07-24'), 'スポーツの日');
+    assert.equal(holidayName('2021-08-08'), '山の日');
+    assert.equal(holidayName('2021-08-09'), '振替休日');
+    assert.equal(holidayName('2021-10-11'), undefined);
+  });
+});
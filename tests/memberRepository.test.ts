@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { closeDatabase, createTestTask, skipWithoutDatabase } from './database';
+import { query } from '../lib/db';
+import { MemberRepository } from '../lib/memberRepository';
+import { TaskRepository } from '../lib/taskRepository';
+
+const NAME = 'メンバーリポジトリのテスト';
+
+describe('MemberRepository.update', { skip: skipWithoutDatabase }, () => {
+  const cleanUp = async () => {
+    await query('DELETE FROM task WHERE category = $1', [NAME]);
+    await query('DELETE FROM member WHERE name LIKE $1', [`${NAME}%`]);
+  };
+
+  const createMember = () =>
+    MemberRepository.create({ name: NAME, email: 'test@example.com', role: '開発', is_active: true });
+
+  const createTask = (assigneeId: string, status = 'ToDo') => createTestTask({ category: NAME, assignee_id: assigneeId, status });
+
+  before(cleanUp);
+  after(async () => {
+    await cleanUp();
+    await closeDatabase();
+  });
+
+  test('keeps the email and role when they are left out', async () => {
+    const member = await createMember();
+
+    const updated = await MemberRepository.update(member.id, { name: `${NAME}（改名）` });
+
+    assert.ok(updated);
+    assert.equal(updated.name, `${NAME}（改名）`);
+    assert.equal(updated.email, 'test@example.com');
+    assert.equal(updated.role, '開発');
+  });
+
+  test('clears the fields that are given as null', async () => {
+    const member = await createMember();
+
+    const updated = await MemberRepository.update(member.id, { email: null, role: null });
+
+    assert.ok(updated);
+    assert.equal(updated.email, null);
+    assert.equal(updated.role, null);
+  });
+
+  test('hides a deactivated member from their open work until they are reactivated', async () => {
+    const member = await createMember();
+    const open = await createTask(member.id);
+    const done = await createTask(member.id, 'Done');
+
+    await MemberRepository.update(member.id, { is_active: false });
+
+    const hidden = await TaskRepository.findById(open.id);
+    assert.equal(hidden?.assignee_id, null);
+    assert.equal(hidden?.assignee, null);
+    assert.equal(hidden?.version, open.version);
+    assert.equal((await TaskRepository.findById(done.id))?.assignee_id, member.id);
+
+    await MemberRepository.update(member.id, { is_active: true });
+
+    const shown = await TaskRepository.findById(open.id);
+    assert.equal(shown?.assignee_id, member.id);
+    assert.equal(shown?.assignee, NAME);
+  });
+
+  test('keeps a hidden assignee when a task is saved without one', async () => {
+    const member = await createMember();
+    const task = await createTask(member.id);
+    await MemberRepository.trash(member.id);
+
+    const updated = await TaskRepository.update(task.id, task.version, { assignee_id: null, note: '更新' });
+
+    assert.ok(updated);
+    assert.equal(updated.task.assignee_id, null);
+    const [row] = await query<{ assignee_id: string }>('SELECT assignee_id FROM task WHERE id = $1', [task.id]);
+    assert.equal(row.assignee_id, member.id);
+  });
+});
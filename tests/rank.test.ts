@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { generateRanks, isValidRank, needsRebalance, rankBetween, RANK_REBALANCE_LENGTH } from '../lib/rank';
+
+describe('rankBetween', () => {
+  test('returns a rank strictly between its neighbours', () => {
+    const pairs: [string | null, string | null][] = [
+      [null, null],
+      [null, 'a'],
+      ['a', null],
+      ['a', 'b'],
+      ['a', 'a1'],
+      ['azz', 'b'],
+      ['1', 'z'],
+    ];
+
+    pairs.forEach(([before, after]) => {
+      const rank = rankBetween(before, after);
+      assert.ok(isValidRank(rank), rank);
+      if (before !== null) assert.ok(before < rank, `${before} < ${rank}`);
+      if (after !== null) assert.ok(rank < after, `${rank} < ${after}`);
+    });
+  });
+
+  test('keeps finding room when inserting at the same place again and again', () => {
+    let after = rankBetween(null, null);
+    for (let i = 0; i < 50; i++) {
+      const rank = rankBetween('1', after);
+      assert.ok('1' < rank && rank < after, `1 < ${rank} < ${after}`);
+      after = rank;
+    }
+  });
+
+  test('throws when the neighbours are not in order', () => {
+    assert.throws(() => rankBetween('b', 'a'));
+    assert.throws(() => rankBetween('a', 'a'));
+  });
+});
+
+describe('generateRanks', () => {
+  test('spaces short ranks evenly', () => {
+    assert.deepEqual(generateRanks(3), ['9', 'i', 'r']);
+    assert.deepEqual(generateRanks(0), []);
+  });
+
+  test('returns valid increasing ranks for long lists', () => {
+    const ranks = generateRanks(1000);
+
+    assert.equal(ranks.length, 1000);
+    assert.ok(ranks.every(isValidRank));
+    assert.equal(needsRebalance(ranks), false);
+  });
+});
+
+describe('needsRebalance', () => {
+  test('flags ranks that are out of order, repeated, invalid or too long', () => {
+    assert.equal(needsRebalance(['1', '2']), false);
+    assert.equal(needsRebalance(['2', '1']), true);
+    assert.equal(needsRebalance(['1', '1']), true);
+    assert.equal(needsRebalance(['10']), true);
+    assert.equal(needsRebalance(['1'.repeat(RANK_REBALANCE_LENGTH + 1)]), true);
+  });
+});
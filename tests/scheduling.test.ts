@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { computeSchedule, SchedulableTask, ScheduledTask } from '../lib/scheduling';
+import { DependencyType } from '../lib/taskDependency';
+
+const link = (taskId: string, type: DependencyType = 'FS', lag = 0) => ({
+  id: `${taskId}-link`,
+  task_id: taskId,
+  dependency_type: type,
+  lag_days: lag,
+});
+
+const byId = (tasks: ScheduledTask[], id: string) => tasks.find(task => task.task_id === id);
+
+describe('computeSchedule', () => {
+  test('starts a finish-to-start successor the day after its predecessor ends', () => {
+    const tasks: SchedulableTask[] = [
+      { id: 'a', start_date: '2025-01-06', end_date: '2025-01-08', successors: [link('b')] },
+      { id: 'b', start_date: '2025-01-07', end_date: '2025-01-08' },
+      { id: 'c', start_date: '2025-01-06', end_date: '2025-01-06' },
+    ];
+
+    const schedule = computeSchedule(tasks);
+
+    assert.equal(schedule.project_start, '2025-01-06');
+    assert.equal(schedule.project_finish, '2025-01-10');
+    assert.equal(byId(schedule.tasks, 'b')?.early_start, '2025-01-09');
+    assert.equal(byId(schedule.tasks, 'b')?.early_finish, '2025-01-10');
+    assert.equal(byId(schedule.tasks, 'c')?.total_float, 4);
+    assert.deepEqual(schedule.critical_path, ['a', 'b']);
+  });
+
+  test('applies the lag of a start-to-start link', () => {
+    const tasks: SchedulableTask[] = [
+      { id: 'a', start_date: '2025-01-06', end_date: '2025-01-10', successors: [link('b', 'SS', 2)] },
+      { id: 'b', start_date: '2025-01-06', end_date: '2025-01-07' },
+    ];
+
+    const b = byId(computeSchedule(tasks).tasks, 'b');
+
+    assert.equal(b?.early_start, '2025-01-08');
+    assert.equal(b?.early_finish, '2025-01-09');
+  });
+
+  test('treats a milestone as the end of its day', () => {
+    const tasks: SchedulableTask[] = [
+      { id: 'a', start_date: '2025-01-06', end_date: '2025-01-10', successors: [link('m')] },
+      { id: 'm', start_date: '2025-01-10', end_date: '2025-01-10', kind: 'milestone' },
+    ];
+
+    const milestone = byId(computeSchedule(tasks).tasks, 'm');
+
+    assert.equal(milestone?.is_milestone, true);
+    assert.equal(milestone?.duration, 0);
+    assert.equal(milestone?.early_start, '2025-01-10');
+    assert.equal(milestone?.early_finish, '2025-01-10');
+    assert.equal(milestone?.is_critical, true);
+  });
+
+  test('leaves out tasks without both dates and their links', () => {
+    const tasks: SchedulableTask[] = [
+      { id: 'a', start_date: '2025-01-06', end_date: '2025-01-06', successors: [link('b')] },
+      { id: 'b', start_date: '2025-01-06', end_date: null },
+    ];
+
+    const schedule = computeSchedule(tasks);
+
+    assert.deepEqual(schedule.tasks.map(task => task.task_id), ['a']);
+    assert.deepEqual(computeSchedule([tasks[1]]), { project_start: null, project_finish: null, tasks: [], critical_path: [] });
+  });
+
+  test('throws on a dependency cycle', () => {
+    const tasks: SchedulableTask[] = [
+      { id: 'a', start_date: '2025-01-06', end_date: '2025-01-06', successors: [link('b')] },
+      { id: 'b', start_date: '2025-01-07', end_date: '2025-01-07', successors: [link('a')] },
+    ];
+
+    assert.throws(() => computeSchedule(tasks), /cycle/);
+  });
+});
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  dependencyCreateSchema,
+  memberUpdateSchema,
+  saveOrderSchema,
+  subcategoryOrderSchema,
+  taskCreateSchema,
+  taskUpdateSchema,
+} from '../lib/schemas';
+import { getFieldErrors, validate } from '../lib/validation';
+
+const TASK_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_ID = '22222222-2222-4222-8222-222222222222';
+
+const fieldErrors = (result: ReturnType<typeof validate>) => ('errors' in result ? getFieldErrors(result.errors) : {});
+
+describe('taskCreateSchema', () => {
+  test('requires a category and sub_category unless the task has a parent', () => {
+    assert.deepEqual(fieldErrors(validate(taskCreateSchema, { name: 'タスク' })), {
+      category: 'カテゴリーは必須です',
+      sub_category: 'サブカテゴリーは必須です',
+    });
+    assert.ok('value' in validate(taskCreateSchema, { name: 'サブタスク', parent_task_id: TASK_ID }));
+  });
+
+  test('checks the status, kind and progress', () => {
+    const result = validate(taskCreateSchema, {
+      name: 'タスク',
+      category: '開発',
+      sub_category: 'API',
+      status: 'Doing',
+      kind: 'epic',
+      progress: 101,
+    });
+
+    assert.deepEqual(Object.keys(fieldErrors(result)), ['kind', 'status', 'progress']);
+  });
+});
+
+describe('taskUpdateSchema', () => {
+  test('needs the version the client loaded', () => {
+    assert.deepEqual(fieldErrors(validate(taskUpdateSchema, { id: TASK_ID })), { version: 'バージョンは必須です' });
+    assert.deepEqual(fieldErrors(validate(taskUpdateSchema, { id: TASK_ID, version: 0 })), {
+      version: 'バージョンは1以上の整数で入力してください',
+    });
+  });
+
+  test('turns cleared fields into null', () => {
+    const result = validate(taskUpdateSchema, { id: TASK_ID, version: 1, assignee_id: '', end_date: '', note: '' });
+
+    assert.ok('value' in result);
+    assert.equal(result.value.assignee_id, null);
+    assert.equal(result.value.end_date, null);
+    assert.equal(result.value.note, null);
+    assert.equal('start_date' in result.value, false);
+  });
+});
+
+describe('memberUpdateSchema', () => {
+  test('checks the email address', () => {
+    assert.deepEqual(fieldErrors(validate(memberUpdateSchema, { id: TASK_ID, email: 'not-an-email' })), {
+      email: 'メールアドレスの形式が正しくありません',
+    });
+  });
+});
+
+describe('dependencyCreateSchema', () => {
+  test('rejects a task as its own predecessor', () => {
+    const result = validate(dependencyCreateSchema, { predecessor_id: TASK_ID, successor_id: TASK_ID });
+
+    assert.deepEqual(fieldErrors(result), { predecessor_id: 'タスク自身を先行タスクに指定することはできません' });
+  });
+
+  test('checks the dependency type and lag', () => {
+    const result = validate(dependencyCreateSchema, {
+      predecessor_id: TASK_ID,
+      successor_id: OTHER_ID,
+      dependency_type: 'XX',
+      lag_days: 1.5,
+    });
+
+    assert.deepEqual(Object.keys(fieldErrors(result)), ['dependency_type', 'lag_days']);
+  });
+});
+
+describe('subcategoryOrderSchema', () => {
+  test('needs a direction or the row to place after', () => {
+    const move = { category: '開発', sub_category: 'API' };
+
+    assert.deepEqual(fieldErrors(validate(subcategoryOrderSchema, move)), {
+      direction: '移動方向または移動先を指定してください',
+    });
+    assert.ok('value' in validate(subcategoryOrderSchema, { ...move, previous_sub_category: null }));
+    assert.ok('value' in validate(subcategoryOrderSchema, { ...move, direction: 'up' }));
+  });
+});
+
+describe('saveOrderSchema', () => {
+  test('rejects a task listed in two places', () => {
+    const result = validate(saveOrderSchema, {
+      categories: ['開発'],
+      subcategories: { 開発: ['API', 'UI'] },
+      tasks: { '開発::API': [TASK_ID], '開発::UI': [TASK_ID] },
+    });
+
+    assert.deepEqual(fieldErrors(result), { tasks: '同じタスクが複数回指定されています' });
+  });
+});
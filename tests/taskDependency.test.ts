@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { wouldCreateCycle } from '../lib/taskDependency';
+
+const link = (predecessor_id: string, successor_id: string) => ({ predecessor_id, successor_id });
+
+describe('wouldCreateCycle', () => {
+  const chain = [link('a', 'b'), link('b', 'c')];
+
+  test('rejects a link that closes a chain', () => {
+    assert.equal(wouldCreateCycle(chain, 'c', 'a'), true);
+    assert.equal(wouldCreateCycle(chain, 'b', 'a'), true);
+  });
+
+  test('rejects a task as its own predecessor', () => {
+    assert.equal(wouldCreateCycle([], 'a', 'a'), true);
+  });
+
+  test('allows links that only add another path', () => {
+    assert.equal(wouldCreateCycle(chain, 'a', 'c'), false);
+    assert.equal(wouldCreateCycle([...chain, link('a', 'd'), link('d', 'c')], 'd', 'b'), false);
+  });
+});
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { HierarchicalTask, rollupTaskHierarchy } from '../lib/taskHierarchy';
+
+const task = (id: string, fields: Partial<HierarchicalTask> = {}): HierarchicalTask => ({
+  id,
+  parent_task_id: null,
+  start_date: null,
+  end_date: null,
+  status: 'ToDo',
+  progress: 0,
+  ...fields,
+});
+
+describe('rollupTaskHierarchy', () => {
+  test('spans a summary task over its subtasks and weights their progress by duration', () => {
+    const [parent] = rollupTaskHierarchy([
+      task('p', { start_date: '2025-04-10', end_date: '2025-04-10' }),
+      task('a', { parent_task_id: 'p', start_date: '2025-04-01', end_date: '2025-04-03', status: 'Done', progress: 100 }),
+      task('b', { parent_task_id: 'p', start_date: '2025-04-04', end_date: '2025-04-12', status: 'ToDo', progress: 0 }),
+    ]);
+
+    assert.equal(parent.is_summary, true);
+    assert.equal(parent.child_count, 2);
+    assert.equal(parent.start_date, '2025-04-01');
+    assert.equal(parent.end_date, '2025-04-12');
+    assert.equal(parent.status, 'InProgress');
+    assert.equal(parent.progress, 25);
+  });
+
+  test('rolls up through every level and keeps the input order', () => {
+    const tasks = rollupTaskHierarchy([
+      task('grandchild', { parent_task_id: 'child', status: 'Done' }),
+      task('root'),
+      task('child', { parent_task_id: 'root' }),
+    ]);
+
+    assert.deepEqual(tasks.map(({ id, depth, status }) => ({ id, depth, status })), [
+      { id: 'grandchild', depth: 2, status: 'Done' },
+      { id: 'root', depth: 0, status: 'Done' },
+      { id: 'child', depth: 1, status: 'Done' },
+    ]);
+  });
+
+  test('keeps its own dates when no subtask has any', () => {
+    const [parent] = rollupTaskHierarchy([
+      task('p', { start_date: '2025-04-01', end_date: '2025-04-02' }),
+      task('a', { parent_task_id: 'p' }),
+    ]);
+
+    assert.equal(parent.start_date, '2025-04-01');
+    assert.equal(parent.end_date, '2025-04-02');
+  });
+
+  test('ignores IceBox subtasks unless all of them are', () => {
+    const [parent] = rollupTaskHierarchy([
+      task('p'),
+      task('a', { parent_task_id: 'p', status: 'Done' }),
+      task('b', { parent_task_id: 'p', status: 'IceBox' }),
+    ]);
+
+    assert.equal(parent.status, 'Done');
+  });
+
+  test('still returns tasks caught in a parent cycle', () => {
+    const tasks = rollupTaskHierarchy([
+      task('a', { parent_task_id: 'b' }),
+      task('b', { parent_task_id: 'a' }),
+    ]);
+
+    assert.deepEqual(tasks.map(rolled => rolled.id), ['a', 'b']);
+  });
+});
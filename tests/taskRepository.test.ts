@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { closeDatabase, createTestTask, skipWithoutDatabase } from './database';
+import { query } from '../lib/db';
+import { MemberRepository } from '../lib/memberRepository';
+import { TaskRepository } from '../lib/taskRepository';
+
+const CATEGORY = 'タスクリポジトリのテスト';
+
+describe('TaskRepository.update', { skip: skipWithoutDatabase }, () => {
+  let assigneeId: string;
+
+  const cleanUp = async () => {
+    await query('DELETE FROM task WHERE category = $1', [CATEGORY]);
+    await query('DELETE FROM member WHERE name = $1', [CATEGORY]);
+  };
+
+  const createTask = (kind: 'task' | 'milestone' = 'task', subCategory = 'サブ') =>
+    createTestTask({
+      category: CATEGORY,
+      sub_category: subCategory,
+      start_date: '2025-04-01',
+      end_date: '2025-04-10',
+      assignee_id: assigneeId,
+      note: 'メモ',
+      kind,
+    });
+
+  before(async () => {
+    await cleanUp();
+    assigneeId = (await MemberRepository.create({ name: CATEGORY, email: null, role: null, is_active: true })).id;
+  });
+  after(async () => {
+    await cleanUp();
+    await closeDatabase();
+  });
+
+  test('keeps the dates, assignee and note when they are left out', async () => {
+    const task = await createTask();
+
+    const updated = await TaskRepository.update(task.id, task.version, { status: 'InProgress' });
+
+    assert.ok(updated);
+    assert.equal(updated.task.status, 'InProgress');
+    assert.equal(updated.task.start_date, '2025-04-01');
+    assert.equal(updated.task.end_date, '2025-04-10');
+    assert.equal(updated.task.assignee_id, assigneeId);
+    assert.equal(updated.task.note, 'メモ');
+  });
+
+  test('clears the fields that are given as null', async () => {
+    const task = await createTask();
+
+    const updated = await TaskRepository.update(task.id, task.version, {
+      end_date: null,
+      assignee_id: null,
+      note: null,
+    });
+
+    assert.ok(updated);
+    assert.equal(updated.task.start_date, '2025-04-01');
+    assert.equal(updated.task.end_date, null);
+    assert.equal(updated.task.assignee_id, null);
+    assert.equal(updated.task.note, null);
+  });
+
+  test('keeps a milestone on one date when only the start date changes', async () => {
+    const task = await createTask('milestone');
+
+    const updated = await TaskRepository.update(task.id, task.version, { start_date: '2025-05-01' });
+
+    assert.ok(updated);
+    assert.equal(updated.task.start_date, '2025-05-01');
+    assert.equal(updated.task.end_date, '2025-05-01');
+  });
+
+  test('moves a task that changes subcategory to the end of the new one', async () => {
+    const task = await createTask();
+    const subtask = await TaskRepository.create({ ...task, name: 'サブタスク', parent_task_id: task.id });
+    const others = [await createTask('task', '移動先'), await createTask('task', '移動先')];
+
+    const updated = await TaskRepository.update(task.id, task.version, { sub_category: '移動先' });
+
+    assert.ok(updated);
+    const ranks = await query<{ id: string; rank: string }>(
+      'SELECT id, rank FROM task WHERE category = $1 AND sub_category = $2 AND deleted_at IS NULL ORDER BY rank',
+      [CATEGORY, '移動先']
+    );
+    assert.deepEqual(ranks.map(row => row.id), [others[0].id, others[1].id, task.id, subtask.id]);
+    assert.equal(updated.task.rank, ranks[2].rank);
+  });
+});
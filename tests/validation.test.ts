@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { array, date, getFieldErrors, integer, nullable, object, optional, record, refine, string, uuid, validate } from '../lib/validation';
+
+const ID = '11111111-1111-4111-8111-111111111111';
+
+describe('validate', () => {
+  const schema = object({
+    id: uuid('ID'),
+    name: string('名前', { maxLength: 5 }),
+    due_date: optional(nullable(date('期日'))),
+    count: optional(integer('件数', { min: 0, max: 10 })),
+  });
+
+  test('returns the normalized value', () => {
+    const result = validate(schema, { id: ID, name: 'テスト', due_date: '2025-04-01T00:00:00.000Z', extra: true });
+
+    assert.deepEqual(result, { value: { id: ID, name: 'テスト', due_date: '2025-04-01' } });
+  });
+
+  test('turns an empty nullable field into null and keeps left out fields out', () => {
+    const result = validate(schema, { id: ID, name: 'テスト', due_date: '' });
+
+    assert.ok('value' in result);
+    assert.equal(result.value.due_date, null);
+    assert.equal('count' in result.value, false);
+  });
+
+  test('reports every problem with its path, and the first as the error', () => {
+    const result = validate(schema, { id: 'x', name: '長すぎる名前です', due_date: '2025-02-30', count: 11 });
+
+    assert.ok('error' in result);
+    assert.equal(result.status, 400);
+    assert.equal(result.error, 'IDの形式が正しくありません');
+    assert.deepEqual(getFieldErrors(result.errors), {
+      id: 'IDの形式が正しくありません',
+      name: '名前は5文字以内で入力してください',
+      due_date: '期日に存在しない日付が指定されています',
+      count: '件数は0〜10の整数で入力してください',
+    });
+  });
+
+  test('rejects a body that is not an object', () => {
+    const result = validate(schema, ['x']);
+
+    assert.ok('error' in result);
+    assert.equal(result.error, 'リクエストの形式が正しくありません');
+  });
+
+  test('gives nested fields dotted paths', () => {
+    const nested = record('タスク', array('タスク', uuid('タスクID'), { unique: true }));
+
+    const result = validate(nested, { '開発::API': [ID, 'x'], '開発::UI': [ID, ID] });
+
+    assert.ok('error' in result);
+    assert.deepEqual(result.errors, [
+      { path: '開発::API.1', message: 'タスクIDの形式が正しくありません' },
+      { path: '開発::UI', message: 'タスクに重複があります' },
+    ]);
+  });
+
+  test('runs a refinement only once the fields are valid', () => {
+    const range = refine(object({ from: integer('開始'), to: integer('終了') }), value =>
+      value.from <= value.to ? [] : [{ path: 'to', message: '終了は開始以降にしてください' }]
+    );
+
+    assert.deepEqual(validate(range, { from: 2, to: 1 }), {
+      error: '終了は開始以降にしてください',
+      errors: [{ path: 'to', message: '終了は開始以降にしてください' }],
+      status: 400,
+    });
+    assert.equal((validate(range, { from: 'x', to: 1 }) as { error: string }).error, '開始は整数で入力してください');
+  });
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { createWorkingCalendar, workingDaysBetween } from '../lib/workingCalendar';
+
+const SATURDAY_AND_SUNDAY = [0, 6];
+
+describe('createWorkingCalendar', () => {
+  test('skips weekends and Japanese holidays when they are included', () => {
+    const calendar = createWorkingCalendar({ include_japanese_holidays: true, weekend_days: SATURDAY_AND_SUNDAY });
+
+    assert.equal(calendar.isWorkingDay('2025-01-10'), true);
+    assert.equal(calendar.getNonWorkingLabel('2025-01-11'), '休日');
+    assert.equal(calendar.getNonWorkingLabel('2025-01-13'), '成人の日');
+    // 2025-01-06 (Mon) to 2025-01-17 (Fri), without the two weekends and 成人の日
+    assert.equal(calendar.countWorkingDays('2025-01-06', '2025-01-17'), 9);
+  });
+
+  test('works on holidays when they are not included', () => {
+    const calendar = createWorkingCalendar({ include_japanese_holidays: false, weekend_days: SATURDAY_AND_SUNDAY });
+
+    assert.equal(calendar.isWorkingDay('2025-01-13'), true);
+    assert.deepEqual(calendar.listNonWorkingDays('2025-01-01', '2025-01-31'), []);
+  });
+
+  test('puts custom non-working days before holidays', () => {
+    const calendar = createWorkingCalendar(
+      { include_japanese_holidays: true, weekend_days: [] },
+      [{ date: '2025-01-01', name: '年始休業' }, { date: '2025-01-02', name: '年始休業' }]
+    );
+
+    assert.deepEqual(calendar.listNonWorkingDays('2025-01-01', '2025-01-13'), [
+      { date: '2025-01-01', name: '年始休業', source: 'custom' },
+      { date: '2025-01-02', name: '年始休業', source: 'custom' },
+      { date: '2025-01-13', name: '成人の日', source: 'holiday' },
+    ]);
+  });
+});
+
+describe('workingDaysBetween', () => {
+  const calendar = createWorkingCalendar({ include_japanese_holidays: false, weekend_days: SATURDAY_AND_SUNDAY });
+
+  test('counts the working days after from up to and including to', () => {
+    // Friday to the next Monday
+    assert.equal(workingDaysBetween(calendar, '2025-01-10', '2025-01-13'), 1);
+    assert.equal(workingDaysBetween(calendar, '2025-01-10', '2025-01-10'), 0);
+  });
+
+  test('is negative for a date that has passed', () => {
+    assert.equal(workingDaysBetween(calendar, '2025-01-13', '2025-01-09'), -2);
+  });
+});